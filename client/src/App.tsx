@@ -1,19 +1,29 @@
 import { Routes, Route, Navigate } from 'react-router-dom';
 import { HomePage } from './pages/HomePage';
 import { PresentationPage } from './pages/PresentationPage';
+import { PresenterPage } from './pages/PresenterPage';
 import { ConfigPage } from './pages/ConfigPage';
+import { WatcherBanner } from './components/ui/WatcherBanner';
+import { useRecoveryNotices, useResyncOnReconnect } from './hooks/useSocket';
 
 /**
  * Main application component with routing.
  */
 function App() {
+  useRecoveryNotices();
+  useResyncOnReconnect();
+
   return (
-    <Routes>
-      <Route path="/" element={<HomePage />} />
-      <Route path="/presentation/:id" element={<PresentationPage />} />
-      <Route path="/config" element={<ConfigPage />} />
-      <Route path="*" element={<Navigate to="/" replace />} />
-    </Routes>
+    <>
+      <WatcherBanner />
+      <Routes>
+        <Route path="/" element={<HomePage />} />
+        <Route path="/presentation/:id/:assetId?" element={<PresentationPage />} />
+        <Route path="/presenter/:id" element={<PresenterPage />} />
+        <Route path="/config" element={<ConfigPage />} />
+        <Route path="*" element={<Navigate to="/" replace />} />
+      </Routes>
+    </>
   );
 }
 
@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useSocketConnection } from '../../hooks/useSocket';
+import type { FollowMode } from '../../hooks/useFollowMode';
 import type { Presentation } from '@flideck/shared';
 
 interface HeaderProps {
@@ -9,6 +10,13 @@ interface HeaderProps {
   showBack?: boolean;
   showSettings?: boolean;
   onTogglePresentationMode?: () => void;
+  /** Opens the presenter view (notes, next slide, timer) in a second window */
+  onOpenPresenterView?: () => void;
+  /** Toggles the slide overview grid (G) */
+  onToggleOverview?: () => void;
+  isOverviewOpen?: boolean;
+  /** Follow-me controls; shows the leader/follower indicator when set */
+  followMode?: FollowMode;
   /** All available presentations for the dropdown switcher */
   presentations?: Presentation[];
   /** Currently selected presentation ID */
@@ -25,6 +33,10 @@ export function Header({
   showBack,
   showSettings = true,
   onTogglePresentationMode,
+  onOpenPresenterView,
+  onToggleOverview,
+  isOverviewOpen = false,
+  followMode,
   presentations,
   currentPresentationId,
 }: HeaderProps) {
@@ -183,6 +195,62 @@ export function Header({
           </span>
         </div>
 
+        {followMode && <FollowIndicator followMode={followMode} />}
+
+        {onToggleOverview && (
+          <button
+            onClick={onToggleOverview}
+            className="p-2 rounded-lg transition-colors"
+            style={{
+              color: isOverviewOpen ? '#342d2d' : '#ccba9d',
+              backgroundColor: isOverviewOpen ? '#ffde59' : 'transparent',
+            }}
+            onMouseEnter={(e) => {
+              if (!isOverviewOpen) e.currentTarget.style.backgroundColor = '#4a4040';
+            }}
+            onMouseLeave={(e) => {
+              if (!isOverviewOpen) e.currentTarget.style.backgroundColor = 'transparent';
+            }}
+            aria-label="Toggle slide overview"
+            aria-pressed={isOverviewOpen}
+            title="Slide overview (G) • click to open, drag to reorder"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="h-5 w-5"
+              viewBox="0 0 20 20"
+              fill="currentColor"
+            >
+              <path d="M5 3a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2V5a2 2 0 00-2-2H5zM5 11a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2v-2a2 2 0 00-2-2H5zM11 5a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V5zM11 13a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" />
+            </svg>
+          </button>
+        )}
+
+        {onOpenPresenterView && (
+          <button
+            onClick={onOpenPresenterView}
+            className="p-2 rounded-lg transition-colors"
+            style={{ color: '#ccba9d' }}
+            onMouseEnter={(e) => (e.currentTarget.style.backgroundColor = '#4a4040')}
+            onMouseLeave={(e) => (e.currentTarget.style.backgroundColor = 'transparent')}
+            aria-label="Open presenter view"
+            title="Presenter view • notes, next slide and timer in a second window"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="h-5 w-5"
+              viewBox="0 0 20 20"
+              fill="currentColor"
+            >
+              <path
+                fillRule="evenodd"
+                d="M3 5a2 2 0 012-2h10a2 2 0 012 2v8a2 2 0 01-2 2h-2.22l.123.489.804.804A1 1 0 0113 18H7a1 1 0 01-.707-1.707l.804-.804L7.22 15H5a2 2 0 01-2-2V5zm5.771 7H5V5h10v7H8.771z"
+                clipRule="evenodd"
+              />
+            </svg>
+          </button>
+        )}
+
         {onTogglePresentationMode && (
           <button
             onClick={onTogglePresentationMode}
@@ -235,3 +303,57 @@ export function Header({
     </header>
   );
 }
+
+const FOLLOW_LABELS: Record<FollowMode['status'], { label: string; title: string }> = {
+  idle: {
+    label: 'Lead',
+    title: 'Lead • everyone viewing this presentation follows your navigation',
+  },
+  leading: { label: 'Leading', title: 'You are leading • click to stop' },
+  following: { label: 'Following', title: 'Following the leader • click to stop following' },
+  detached: { label: 'Follow', title: 'Someone is leading • click to follow them' },
+};
+
+/**
+ * Follow-me status pill: shows whether this client leads or follows, and toggles it.
+ */
+function FollowIndicator({ followMode }: { followMode: FollowMode }) {
+  const { status, lead, release, setFollowing } = followMode;
+  const { label, title } = FOLLOW_LABELS[status];
+  const isActive = status === 'leading' || status === 'following';
+
+  const handleClick = () => {
+    if (status === 'idle') lead();
+    else if (status === 'leading') release();
+    else setFollowing(status === 'detached');
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <button
+        onClick={handleClick}
+        className="px-3 py-1 rounded-full text-xs font-semibold uppercase tracking-wide transition-colors"
+        style={{
+          backgroundColor: isActive ? '#ffde59' : '#4a4040',
+          color: isActive ? '#342d2d' : '#ccba9d',
+        }}
+        aria-pressed={isActive}
+        title={title}
+      >
+        {label}
+      </button>
+      {(status === 'following' || status === 'detached') && (
+        <button
+          onClick={lead}
+          className="px-2 py-1 rounded-full text-xs transition-colors"
+          style={{ color: '#ccba9d' }}
+          onMouseEnter={(e) => (e.currentTarget.style.backgroundColor = '#4a4040')}
+          onMouseLeave={(e) => (e.currentTarget.style.backgroundColor = 'transparent')}
+          title="Take the lead from the current leader"
+        >
+          Take lead
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,16 @@
 import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { toast } from 'sonner';
-import type { Presentation, Asset } from '@flideck/shared';
-import { api } from '../../utils/api';
+import type { Presentation, Asset, ExportFormat } from '@flideck/shared';
+import { api, ConflictError } from '../../utils/api';
+import { indexLintResults } from '../../utils/lint';
 import { useDisplayMode } from '../../hooks/useDisplayMode';
+import { usePresentationLint } from '../../hooks/usePresentationLint';
+import { usePresentationMutation } from '../../hooks/usePresentationMutation';
 import { getDisplayModeLabel } from '../../utils/displayMode';
 import { useResizableSidebar } from '../../hooks/useResizableSidebar';
 import { SidebarFlat } from './SidebarFlat';
 import { SidebarGrouped } from './SidebarGrouped';
+import { LintBadge } from '../ui/LintBadge';
 
 interface SidebarProps {
   presentations: Presentation[];
@@ -56,6 +60,13 @@ export function Sidebar({
   const { mode, autoMode, hasOverride, setOverride, clearOverride } =
     useDisplayMode(selectedPresentation);
 
+  // Harness authoring issues per slide (badges next to slide names)
+  const { data: lint } = usePresentationLint(selectedPresentation?.id);
+  const lintResults = useMemo(() => indexLintResults(lint), [lint]);
+
+  // Manifest writes: conflicts (412) are retried or resolved through a dialog
+  const runMutation = usePresentationMutation();
+
   // Drag-and-drop state
   const [draggedAssetId, setDraggedAssetId] = useState<string | null>(null);
   const [dropTargetId, setDropTargetId] = useState<string | null>(null);
@@ -255,14 +266,19 @@ export function Sidebar({
     }
 
     try {
-      await api.put(`/api/presentations/${selectedPresentation.id}/groups/${editingGroupId}`, {
-        label: editingGroupLabel.trim(),
-      });
+      await runMutation(selectedPresentation.id, (options) =>
+        api.updateGroup(
+          selectedPresentation.id,
+          editingGroupId,
+          { label: editingGroupLabel.trim() },
+          options
+        )
+      );
       onAssetsReordered?.();
       toast.success('Group renamed');
     } catch (error) {
       console.error('Failed to rename group:', error);
-      toast.error('Failed to rename group');
+      if (!(error instanceof ConflictError)) toast.error('Failed to rename group');
     }
     cancelEditingGroup();
   }, [
@@ -271,6 +287,7 @@ export function Sidebar({
     editingGroupLabel,
     cancelEditingGroup,
     onAssetsReordered,
+    runMutation,
   ]);
 
   const deleteGroup = useCallback(
@@ -278,16 +295,18 @@ export function Sidebar({
       if (!selectedPresentation) return;
 
       try {
-        await api.delete(`/api/presentations/${selectedPresentation.id}/groups/${groupId}`);
+        await runMutation(selectedPresentation.id, (options) =>
+          api.deleteGroup(selectedPresentation.id, groupId, options)
+        );
         onAssetsReordered?.();
         toast.success('Group deleted');
       } catch (error) {
         console.error('Failed to delete group:', error);
-        toast.error('Failed to delete group');
+        if (!(error instanceof ConflictError)) toast.error('Failed to delete group');
       }
       setMenuOpenGroupId(null);
     },
-    [selectedPresentation, onAssetsReordered]
+    [selectedPresentation, onAssetsReordered, runMutation]
   );
 
   const startCreatingGroup = useCallback(() => {
@@ -328,15 +347,14 @@ export function Sidebar({
     }
 
     try {
-      await api.post(`/api/presentations/${selectedPresentation.id}/groups`, {
-        id,
-        label: newGroupLabel.trim(),
-      });
+      await runMutation(selectedPresentation.id, (options) =>
+        api.createGroup(selectedPresentation.id, { id, label: newGroupLabel.trim() }, options)
+      );
       onAssetsReordered?.();
       toast.success('Group created');
     } catch (error) {
       console.error('Failed to create group:', error);
-      toast.error('Failed to create group');
+      if (!(error instanceof ConflictError)) toast.error('Failed to create group');
     }
     cancelCreatingGroup();
   }, [
@@ -346,6 +364,7 @@ export function Sidebar({
     onAssetsReordered,
     presentations,
     selectedPresentationId,
+    runMutation,
   ]);
 
   // Close menus when clicking outside
@@ -378,15 +397,20 @@ export function Sidebar({
     if (!prev) return;
 
     try {
-      await api.put(`/api/presentations/${prev.presentationId}/order`, { order: prev.order });
+      // Restoring a full order replaces the manifest's: ask rather than retry on conflict
+      await runMutation(
+        prev.presentationId,
+        (options) => api.updateAssetOrder(prev.presentationId, { order: prev.order }, options),
+        'ask'
+      );
       previousOrderRef.current = null;
       onAssetsReordered?.();
       toast.success('Reorder undone');
     } catch (error) {
       console.error('Failed to undo reorder:', error);
-      toast.error('Failed to undo');
+      if (!(error instanceof ConflictError)) toast.error('Failed to undo');
     }
-  }, [onAssetsReordered]);
+  }, [onAssetsReordered, runMutation]);
 
   // Undo keyboard shortcut
   useEffect(() => {
@@ -476,12 +500,22 @@ export function Sidebar({
   const openInFinder = useCallback(async () => {
     if (!selectedPresentation) return;
     try {
-      await api.post(`/api/presentations/${selectedPresentation.id}/open`, {});
+      await api.openPresentation(selectedPresentation.id);
     } catch {
       // silently ignore — server logs the error
     }
   }, [selectedPresentation]);
 
+  // Downloads a standalone copy of the presentation (the server sends it as an attachment)
+  const downloadExport = useCallback(
+    (format: ExportFormat) => {
+      if (!selectedPresentation) return;
+      const id = encodeURIComponent(selectedPresentation.id);
+      window.location.assign(`/api/presentations/${id}/export?format=${format}`);
+    },
+    [selectedPresentation]
+  );
+
   // Drag-and-drop handlers
   const handleDragStart = useCallback((e: React.DragEvent, assetId: string) => {
     setDraggedAssetId(assetId);
@@ -543,9 +577,14 @@ export function Sidebar({
       try {
         // If cross-group drag, update the group assignment first
         if (isCrossGroupDrag) {
-          await api.put(`/api/presentations/${selectedPresentation.id}/slides/${draggedAsset.id}`, {
-            group: targetGroup,
-          });
+          await runMutation(selectedPresentation.id, (options) =>
+            api.updateSlide(
+              selectedPresentation.id,
+              draggedAsset.id,
+              { group: targetGroup },
+              options
+            )
+          );
           toast.success(targetGroup ? `Moved to ${targetGroup}` : 'Moved to root');
         }
 
@@ -554,17 +593,21 @@ export function Sidebar({
         assets.splice(targetIndex, 0, draggedItem);
         const newOrder = assets.map((a) => a.filename);
 
-        await api.put(`/api/presentations/${selectedPresentation.id}/order`, { order: newOrder });
+        await runMutation(
+          selectedPresentation.id,
+          (options) => api.updateAssetOrder(selectedPresentation.id, { order: newOrder }, options),
+          'ask'
+        );
         onAssetsReordered?.();
       } catch (error) {
         console.error('Failed to save asset order:', error);
         previousOrderRef.current = null;
-        toast.error('Failed to move slide');
+        if (!(error instanceof ConflictError)) toast.error('Failed to move slide');
       }
 
       handleDragEnd();
     },
-    [selectedPresentation, draggedAssetId, handleDragEnd, onAssetsReordered]
+    [selectedPresentation, draggedAssetId, handleDragEnd, onAssetsReordered, runMutation]
   );
 
   // Drop to group handler (for grouped mode - dropping onto group headers)
@@ -583,18 +626,18 @@ export function Sidebar({
       }
 
       try {
-        await api.put(`/api/presentations/${selectedPresentation.id}/slides/${draggedAsset.id}`, {
-          group: groupId,
-        });
+        await runMutation(selectedPresentation.id, (options) =>
+          api.updateSlide(selectedPresentation.id, draggedAsset.id, { group: groupId }, options)
+        );
         onAssetsReordered?.();
         toast.success(groupId ? `Moved to ${groupId}` : 'Moved to root');
       } catch (error) {
         console.error('Failed to move slide to group:', error);
-        toast.error('Failed to move slide');
+        if (!(error instanceof ConflictError)) toast.error('Failed to move slide');
       }
       handleDragEnd();
     },
-    [selectedPresentation, draggedAssetId, onAssetsReordered, handleDragEnd]
+    [selectedPresentation, draggedAssetId, onAssetsReordered, handleDragEnd, runMutation]
   );
 
   // Render the index row (for grouped mode)
@@ -632,6 +675,7 @@ export function Sidebar({
             ⋮⋮
           </span>
           <span className="truncate font-medium">{displayName}</span>
+          <LintBadge result={lintResults.get(asset.id)} />
         </button>
 
         <div className="relative" data-copy-menu>
@@ -976,6 +1020,41 @@ export function Sidebar({
                     >
                       Open in Finder
                     </button>
+                    <div className="my-1 mx-2" style={{ borderTop: '1px solid #5a5050' }} />
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        downloadExport('html');
+                        setIsHeaderCopyMenuOpen(false);
+                      }}
+                      className="w-full text-left px-3 py-1.5 text-sm transition-colors"
+                      style={{ color: '#ffffff' }}
+                      onMouseEnter={(e) => {
+                        e.currentTarget.style.backgroundColor = '#5a5050';
+                      }}
+                      onMouseLeave={(e) => {
+                        e.currentTarget.style.backgroundColor = 'transparent';
+                      }}
+                    >
+                      Export as HTML
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        downloadExport('zip');
+                        setIsHeaderCopyMenuOpen(false);
+                      }}
+                      className="w-full text-left px-3 py-1.5 text-sm transition-colors"
+                      style={{ color: '#ffffff' }}
+                      onMouseEnter={(e) => {
+                        e.currentTarget.style.backgroundColor = '#5a5050';
+                      }}
+                      onMouseLeave={(e) => {
+                        e.currentTarget.style.backgroundColor = 'transparent';
+                      }}
+                    >
+                      Export as Zip
+                    </button>
                   </div>
                 )}
               </div>
@@ -993,6 +1072,7 @@ export function Sidebar({
                 dropTargetId={dropTargetId}
                 hoveredAssetId={hoveredAssetId}
                 copyMenuOpenAssetId={copyMenuOpenAssetId}
+                lintResults={lintResults}
                 onSelectAsset={(assetId) => onSelectAsset(selectedPresentation.id, assetId)}
                 onDragStart={handleDragStart}
                 onDragOver={handleDragOver}
@@ -1016,6 +1096,7 @@ export function Sidebar({
                 dropTargetId={dropTargetId}
                 hoveredAssetId={hoveredAssetId}
                 copyMenuOpenAssetId={copyMenuOpenAssetId}
+                lintResults={lintResults}
                 collapsedGroups={collapsedGroups}
                 editingGroupId={editingGroupId}
                 editingGroupLabel={editingGroupLabel}
@@ -1,5 +1,6 @@
 import { memo } from 'react';
-import type { Asset } from '@flideck/shared';
+import type { Asset, SlideLintResult } from '@flideck/shared';
+import { LintBadge } from '../ui/LintBadge';
 
 interface SidebarFlatProps {
   assets: Asset[];
@@ -8,6 +9,8 @@ interface SidebarFlatProps {
   dropTargetId: string | null;
   hoveredAssetId: string | null;
   copyMenuOpenAssetId: string | null;
+  /** Slide lint results by asset ID */
+  lintResults: Map<string, SlideLintResult>;
   onSelectAsset: (assetId: string) => void;
   onDragStart: (e: React.DragEvent, assetId: string) => void;
   onDragOver: (e: React.DragEvent, assetId: string) => void;
@@ -30,6 +33,7 @@ export const SidebarFlat = memo(function SidebarFlat({
   dropTargetId,
   hoveredAssetId,
   copyMenuOpenAssetId,
+  lintResults,
   onSelectAsset,
   onDragStart,
   onDragOver,
@@ -98,6 +102,7 @@ export const SidebarFlat = memo(function SidebarFlat({
             </span>
           )}
           <span className="truncate">{asset.name}</span>
+          <LintBadge result={lintResults.get(asset.id)} />
         </button>
 
         {/* Copy path menu - visible on hover */}
@@ -1,5 +1,6 @@
 import { useRef, useState, memo } from 'react';
-import type { Asset, Presentation } from '@flideck/shared';
+import type { Asset, Presentation, SlideLintResult } from '@flideck/shared';
+import { LintBadge } from '../ui/LintBadge';
 
 interface GroupedAssets {
   groupId: string;
@@ -15,6 +16,8 @@ interface SidebarGroupedProps {
   dropTargetId: string | null;
   hoveredAssetId: string | null;
   copyMenuOpenAssetId: string | null;
+  /** Slide lint results by asset ID */
+  lintResults: Map<string, SlideLintResult>;
   collapsedGroups: Set<string>;
   editingGroupId: string | null;
   editingGroupLabel: string;
@@ -154,6 +157,7 @@ export const SidebarGrouped = memo(function SidebarGrouped(props: SidebarGrouped
             </span>
           )}
           <span className="truncate">{asset.name}</span>
+          <LintBadge result={props.lintResults.get(asset.id)} />
         </button>
 
         {/* Copy path menu - visible on hover */}
@@ -0,0 +1,35 @@
+import type { SlideLintResult } from '@flideck/shared';
+import { getLintBadge } from '../../utils/lint';
+
+interface LintBadgeProps {
+  result: SlideLintResult | undefined;
+}
+
+const BADGE_COLORS = {
+  error: { backgroundColor: '#ef4444', color: '#ffffff' },
+  warning: { backgroundColor: '#f59e0b', color: '#342d2d' },
+} as const;
+
+/**
+ * Sidebar badge counting a slide's harness authoring issues.
+ * Hover for the full list; renders nothing for clean slides.
+ */
+export function LintBadge({ result }: LintBadgeProps) {
+  const badge = getLintBadge(result);
+  if (!badge) return null;
+
+  return (
+    <span
+      className="ml-auto pl-2 flex-shrink-0"
+      title={badge.title}
+      aria-label={`${badge.count} lint ${badge.severity}${badge.count === 1 ? '' : 's'}`}
+    >
+      <span
+        className="inline-block min-w-[1.25rem] text-center text-xs px-1 rounded"
+        style={BADGE_COLORS[badge.severity]}
+      >
+        {badge.count}
+      </span>
+    </span>
+  );
+}
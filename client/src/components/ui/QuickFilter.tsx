@@ -1,10 +1,14 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { createPortal } from 'react-dom';
+import type { SearchHighlight } from '@flideck/shared';
+import { splitHighlights } from '../../utils/searchItems';
 
 export interface QuickFilterItem {
   id: string;
   name: string;
   subtitle?: string;
+  /** Matching excerpt shown under the item (full-text search results) */
+  snippet?: { text: string; highlights: SearchHighlight[] };
 }
 
 interface QuickFilterProps {
@@ -13,6 +17,12 @@ interface QuickFilterProps {
   items: QuickFilterItem[];
   onSelect: (id: string) => void;
   placeholder?: string;
+  /** Called as the user types (e.g., to run a server-side search) */
+  onQueryChange?: (query: string) => void;
+  /** Items matched elsewhere (e.g., slide content); shown after name matches, not filtered */
+  searchItems?: QuickFilterItem[];
+  /** Whether searchItems are still loading */
+  isSearching?: boolean;
 }
 
 /**
@@ -25,23 +35,36 @@ export function QuickFilter({
   items,
   onSelect,
   placeholder = 'Search...',
+  onQueryChange,
+  searchItems = [],
+  isSearching = false,
 }: QuickFilterProps) {
   const [query, setQuery] = useState('');
   const [selectedIndex, setSelectedIndex] = useState(0);
   const inputRef = useRef<HTMLInputElement>(null);
   const listRef = useRef<HTMLDivElement>(null);
+  const onQueryChangeRef = useRef(onQueryChange);
 
-  // Filter items based on query (case-insensitive substring match)
+  // Latest callback for the reset on open, without resetting on every render
+  useEffect(() => {
+    onQueryChangeRef.current = onQueryChange;
+  });
+
+  // Filter items based on query (case-insensitive substring match),
+  // then append content matches that are not already listed
   const filteredItems = useMemo(() => {
-    if (!query.trim()) return items;
-    const lowerQuery = query.toLowerCase();
-    return items.filter((item) => item.name.toLowerCase().includes(lowerQuery));
-  }, [items, query]);
+    const nameMatches = query.trim()
+      ? items.filter((item) => item.name.toLowerCase().includes(query.toLowerCase()))
+      : items;
+    const listed = new Set(nameMatches.map((item) => item.id));
+    return [...nameMatches, ...searchItems.filter((item) => !listed.has(item.id))];
+  }, [items, searchItems, query]);
 
   // Reset state when opening
   useEffect(() => {
     if (isOpen) {
       setQuery('');
+      onQueryChangeRef.current?.('');
       setSelectedIndex(0);
       // Focus input after a brief delay for portal to mount
       setTimeout(() => inputRef.current?.focus(), 10);
@@ -142,6 +165,7 @@ export function QuickFilter({
             value={query}
             onChange={(e) => {
               setQuery(e.target.value);
+              onQueryChange?.(e.target.value);
               setSelectedIndex(0);
             }}
             placeholder={placeholder}
@@ -160,7 +184,7 @@ export function QuickFilter({
         <div ref={listRef} className="max-h-[300px] overflow-y-auto">
           {filteredItems.length === 0 ? (
             <div className="p-4 text-center text-sm" style={{ color: '#595959' }}>
-              No matches found
+              {isSearching ? 'Searching slides...' : 'No matches found'}
             </div>
           ) : (
             filteredItems.map((item, index) => {
@@ -186,6 +210,30 @@ export function QuickFilter({
                         {item.subtitle}
                       </div>
                     )}
+                    {item.snippet && (
+                      <div
+                        className="text-xs mt-1"
+                        style={{ color: isSelected ? '#342d2d' : '#e0d6c4' }}
+                      >
+                        {splitHighlights(item.snippet.text, item.snippet.highlights).map(
+                          (part, i) =>
+                            part.highlighted ? (
+                              <mark
+                                key={i}
+                                className="rounded px-0.5"
+                                style={{
+                                  backgroundColor: isSelected ? '#342d2d' : '#ffde59',
+                                  color: isSelected ? '#ffde59' : '#342d2d',
+                                }}
+                              >
+                                {part.text}
+                              </mark>
+                            ) : (
+                              <span key={i}>{part.text}</span>
+                            )
+                        )}
+                      </div>
+                    )}
                   </div>
                   {isSelected && (
                     <kbd
@@ -0,0 +1,237 @@
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type { Asset, Presentation } from '@flideck/shared';
+import { useAsset } from '../../hooks/usePresentations';
+import { useAssetContentChanges } from '../../hooks/useSocket';
+import { usePresentationMutation } from '../../hooks/usePresentationMutation';
+import { SlideMiniature } from '../../harness/SlideMiniature';
+import { api, ConflictError } from '../../utils/api';
+import { queryKeys } from '../../utils/constants';
+import { buildOverviewSections, moveAssetOrder } from '../../utils/overview';
+
+/** Miniature width in pixels */
+const TILE_WIDTH = 320;
+
+interface SlideOverviewProps {
+  presentation: Presentation;
+  /** Active container tab (FR-24) - only its slides are shown */
+  activeContainerTabId: string | null;
+  selectedAssetId: string | null;
+  /** Called when a tile is clicked */
+  onOpenAsset: (assetId: string) => void;
+}
+
+/**
+ * Overview grid of every slide in the current container tab, grouped like the
+ * sidebar. Each tile is a live miniature render that mounts when it scrolls into
+ * view and refreshes when the slide changes on disk.
+ *
+ * Click a tile to open the slide; drag a tile onto another in the same group to
+ * reorder (saved through PUT /api/presentations/:id/order).
+ */
+export function SlideOverview({
+  presentation,
+  activeContainerTabId,
+  selectedAssetId,
+  onOpenAsset,
+}: SlideOverviewProps) {
+  const queryClient = useQueryClient();
+  const runMutation = usePresentationMutation();
+  const [draggedAssetId, setDraggedAssetId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const sections = useMemo(
+    () => buildOverviewSections(presentation, activeContainerTabId),
+    [presentation, activeContainerTabId]
+  );
+
+  useAssetContentChanges(presentation.id);
+
+  const handleDragEnd = useCallback(() => {
+    setDraggedAssetId(null);
+    setDropTargetId(null);
+  }, []);
+
+  const handleDrop = useCallback(
+    async (targetAssetId: string) => {
+      const order = draggedAssetId
+        ? moveAssetOrder(presentation.assets, draggedAssetId, targetAssetId)
+        : null;
+      handleDragEnd();
+      if (!order) return;
+
+      try {
+        await runMutation(
+          presentation.id,
+          (options) => api.updateAssetOrder(presentation.id, { order }, options),
+          'ask'
+        );
+        queryClient.invalidateQueries({ queryKey: queryKeys.presentation(presentation.id) });
+      } catch (error) {
+        console.error('Failed to save asset order:', error);
+        if (!(error instanceof ConflictError)) toast.error('Failed to move slide');
+      }
+    },
+    [presentation, draggedAssetId, handleDragEnd, queryClient, runMutation]
+  );
+
+  if (sections.length === 0) {
+    return (
+      <div className="flex-1 flex items-center justify-center bg-slate-900 text-sm text-slate-400">
+        No slides to show.
+      </div>
+    );
+  }
+
+  const draggedGroup = presentation.assets.find((a) => a.id === draggedAssetId)?.group || null;
+
+  return (
+    <div className="flex-1 overflow-y-auto bg-slate-900 p-6">
+      {sections.map((section, index) => (
+        <section key={`${section.groupId ?? 'root'}-${index}`} className="mb-8">
+          {section.label && (
+            <h2
+              className="mb-3 text-sm font-semibold uppercase tracking-wide"
+              style={{ color: '#ccba9d' }}
+            >
+              {section.label}
+            </h2>
+          )}
+          <div
+            className="grid gap-6"
+            style={{ gridTemplateColumns: `repeat(auto-fill, ${TILE_WIDTH}px)` }}
+          >
+            {section.assets.map((asset) => (
+              <OverviewTile
+                key={asset.id}
+                presentationId={presentation.id}
+                asset={asset}
+                isSelected={asset.id === selectedAssetId}
+                isDragging={asset.id === draggedAssetId}
+                isDropTarget={asset.id === dropTargetId}
+                onOpen={() => onOpenAsset(asset.id)}
+                onDragStart={(e) => {
+                  setDraggedAssetId(asset.id);
+                  e.dataTransfer.effectAllowed = 'move';
+                  e.dataTransfer.setData('text/plain', asset.id);
+                }}
+                onDragOver={(e) => {
+                  // Only same-group drops reorder; anything else is not a drop target
+                  if (!draggedAssetId || (asset.group || null) !== draggedGroup) return;
+                  e.preventDefault();
+                  e.dataTransfer.dropEffect = 'move';
+                  if (asset.id !== draggedAssetId) setDropTargetId(asset.id);
+                }}
+                onDragLeave={() => setDropTargetId(null)}
+                onDragEnd={handleDragEnd}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  void handleDrop(asset.id);
+                }}
+              />
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+}
+
+interface OverviewTileProps {
+  presentationId: string;
+  asset: Asset;
+  isSelected: boolean;
+  isDragging: boolean;
+  isDropTarget: boolean;
+  onOpen: () => void;
+  onDragStart: (e: React.DragEvent) => void;
+  onDragOver: (e: React.DragEvent) => void;
+  onDragLeave: () => void;
+  onDragEnd: () => void;
+  onDrop: (e: React.DragEvent) => void;
+}
+
+/**
+ * One overview tile. The slide content is only fetched and rendered once the
+ * tile comes near the viewport, so large decks open quickly.
+ */
+function OverviewTile({
+  presentationId,
+  asset,
+  isSelected,
+  isDragging,
+  isDropTarget,
+  onOpen,
+  onDragStart,
+  onDragOver,
+  onDragLeave,
+  onDragEnd,
+  onDrop,
+}: OverviewTileProps) {
+  const tileRef = useRef<HTMLButtonElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const { data } = useAsset(presentationId, isVisible ? asset.id : undefined);
+
+  useEffect(() => {
+    const tile = tileRef.current;
+    if (isVisible || !tile) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          setIsVisible(true);
+          observer.disconnect();
+        }
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(tile);
+    return () => observer.disconnect();
+  }, [isVisible]);
+
+  const baseUrl = asset.folder
+    ? `/presentations/${presentationId}/${asset.folder}/`
+    : `/presentations/${presentationId}/`;
+
+  return (
+    <button
+      ref={tileRef}
+      draggable
+      onClick={onOpen}
+      onDragStart={onDragStart}
+      onDragOver={onDragOver}
+      onDragLeave={onDragLeave}
+      onDragEnd={onDragEnd}
+      onDrop={onDrop}
+      className="flex flex-col text-left rounded-lg overflow-hidden transition-colors"
+      style={{
+        width: TILE_WIDTH,
+        backgroundColor: '#3d3535',
+        outline: isDropTarget
+          ? '3px solid #ccba9d'
+          : isSelected
+            ? '3px solid #ffde59'
+            : '1px solid #4a4040',
+        opacity: isDragging ? 0.5 : 1,
+        cursor: 'grab',
+      }}
+      title={`${asset.name} • click to open, drag to reorder`}
+    >
+      {data ? (
+        <SlideMiniature content={data.content} baseUrl={baseUrl} width={TILE_WIDTH} />
+      ) : (
+        <div
+          className="bg-slate-800"
+          style={{ width: TILE_WIDTH, height: (TILE_WIDTH * 9) / 16 }}
+        />
+      )}
+      <span
+        className="px-3 py-2 text-sm truncate"
+        style={{ color: isSelected ? '#ffde59' : '#ffffff' }}
+      >
+        {asset.name}
+      </span>
+    </button>
+  );
+}
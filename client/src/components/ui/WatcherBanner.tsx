@@ -0,0 +1,20 @@
+import { useWatcherHealth } from '../../hooks/useSocket';
+import { getWatcherWarning } from '../../utils/watcher';
+
+/**
+ * App-wide warning bar, pinned to the bottom of the viewport, shown while the
+ * server's file watching is degraded.
+ */
+export function WatcherBanner() {
+  const warning = getWatcherWarning(useWatcherHealth());
+  if (!warning) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed inset-x-0 bottom-0 z-50 px-4 py-1 text-sm text-center bg-amber-900/90 text-amber-100"
+    >
+      {warning}
+    </div>
+  );
+}
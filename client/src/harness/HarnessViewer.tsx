@@ -1,5 +1,5 @@
 import { useEffect, useRef } from 'react';
-import { stripSlideWrapper } from './stripSlideWrapper';
+import { stripSlideWrapper, scopeSlideStyles } from './stripSlideWrapper';
 import { initHarnessGlobals } from './harness-utils';
 import { useKeyboardBridge } from './useKeyboardBridge';
 
@@ -20,7 +20,8 @@ interface HarnessViewerProps {
   /**
    * Called when the user clicks a relative .html link inside the slide content.
    * Used for tab index pages whose cards link to individual slides.
-   * Receives the filename (e.g. "slide01.html") so the caller can update state.
+   * Receives the link's relative path (e.g. "slide01.html" or "part-1/slide01.html")
+   * so the caller can update state.
    */
   onNavigate?: (filename: string) => void;
 }
@@ -109,15 +110,9 @@ export function HarnessViewer({ content, baseUrl, presentationMode = false, view
       // :root / html / body selectors are remapped to :scope so slide-level
       // properties (backgrounds, fonts, CSS custom properties) are applied to
       // the .harness-slide container itself rather than the document root.
-      const scoped = styles
-        .replace(/:root\b/g, ':scope')
-        .replace(/\b(html\s*,\s*body|body\s*,\s*html)\b/g, ':scope')
-        .replace(/\bhtml\b/g, ':scope')
-        .replace(/\bbody\b/g, ':scope');
-
       const styleEl = document.createElement('style');
       styleEl.setAttribute('data-harness-slide', 'true');
-      styleEl.textContent = `@scope (.harness-slide) {\n${scoped}\n}`;
+      styleEl.textContent = scopeSlideStyles(styles);
       document.head.appendChild(styleEl);
       styleTagRef.current = styleEl;
     }
@@ -159,7 +154,7 @@ export function HarnessViewer({ content, baseUrl, presentationMode = false, view
         if (!href || href.startsWith('http') || href.startsWith('/') || href.startsWith('#')) return;
         const clean = href.split('?')[0].split('#')[0];
         if (!clean.endsWith('.html')) return;
-        const filename = clean.split('/').pop();
+        const filename = clean.replace(/^\.\//, '');
         if (filename) {
           e.preventDefault();
           onNavigate(filename);
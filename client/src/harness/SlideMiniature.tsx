@@ -0,0 +1,90 @@
+import { useEffect, useId, useRef } from 'react';
+import { stripSlideWrapper, scopeSlideStyles } from './stripSlideWrapper';
+import { rebaseCssUrls, rebaseElementUrls } from './rebaseSlideUrls';
+
+/** Size of the virtual viewport a miniature lays the slide out in */
+const VIRTUAL_WIDTH = 1280;
+const VIRTUAL_HEIGHT = 720;
+
+interface SlideMiniatureProps {
+  /** Raw HTML of the slide (full document with <html><head><body> wrapper) */
+  content: string;
+  /** Base URL of the slide's folder, e.g. "/presentations/my-deck/part-1/" */
+  baseUrl: string;
+  /** Rendered width in pixels (height follows the 16:9 virtual viewport) */
+  width: number;
+}
+
+/**
+ * SlideMiniature — a scaled-down, non-interactive harness render of a slide.
+ *
+ * Like HarnessViewer, the slide's <body> fragment is injected into a
+ * .harness-slide div with its styles scoped via @scope. Differences, because
+ * many miniatures are mounted at once:
+ * - styles are scoped to this miniature (data-slide-miniature) rather than to
+ *   every .harness-slide on the page
+ * - relative URLs are rewritten against the slide's folder instead of relying on
+ *   the single document-level <base> element
+ * - scripts are not run, so slide keyboard handlers and timers do not multiply
+ *
+ * The slide is laid out at 1280×720 and scaled down with a CSS transform.
+ */
+export function SlideMiniature({ content, baseUrl, width }: SlideMiniatureProps) {
+  const scopeId = useId();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const scale = width / VIRTUAL_WIDTH;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const { styles, body } = stripSlideWrapper(content);
+
+    let styleEl: HTMLStyleElement | null = null;
+    if (styles.trim()) {
+      styleEl = document.createElement('style');
+      styleEl.setAttribute('data-slide-miniature', scopeId);
+      styleEl.textContent = scopeSlideStyles(
+        rebaseCssUrls(styles, baseUrl),
+        `[data-slide-miniature="${scopeId}"]`
+      );
+      document.head.appendChild(styleEl);
+    }
+
+    // Parse into an inert <template> so nothing loads before URLs are rebased
+    const template = document.createElement('template');
+    template.innerHTML = body;
+    template.content.querySelectorAll('script').forEach((script) => script.remove());
+    rebaseElementUrls(template.content, baseUrl);
+    container.replaceChildren(template.content);
+
+    return () => {
+      styleEl?.remove();
+    };
+  }, [content, baseUrl, scopeId]);
+
+  return (
+    <div
+      className="relative overflow-hidden bg-slate-900"
+      style={{ width, height: VIRTUAL_HEIGHT * scale }}
+    >
+      <div
+        ref={containerRef}
+        data-slide-miniature={scopeId}
+        className="harness-slide"
+        aria-hidden="true"
+        inert
+        style={{
+          position: 'absolute',
+          top: 0,
+          left: 0,
+          width: VIRTUAL_WIDTH,
+          height: VIRTUAL_HEIGHT,
+          transform: `scale(${scale})`,
+          transformOrigin: 'top left',
+          pointerEvents: 'none',
+        }}
+      />
+    </div>
+  );
+}
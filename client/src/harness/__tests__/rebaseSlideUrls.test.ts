@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { isRelativeUrl, rebaseCssUrls, rebaseElementUrls, rebaseUrl } from '../rebaseSlideUrls';
+
+const BASE = '/presentations/deck/part-1/';
+
+describe('rebaseUrl', () => {
+  it('resolves relative paths against the slide folder', () => {
+    expect(rebaseUrl('img/a.png', BASE)).toBe('/presentations/deck/part-1/img/a.png');
+    expect(rebaseUrl('./a.png?v=2#x', BASE)).toBe('/presentations/deck/part-1/a.png?v=2#x');
+    expect(rebaseUrl('../shared/a.png', BASE)).toBe('/presentations/deck/shared/a.png');
+  });
+
+  it('leaves absolute, root-relative, data and fragment URLs alone', () => {
+    for (const url of [
+      'https://x.test/a.png',
+      '//cdn.test/a.png',
+      '/a.png',
+      'data:image/png;base64,AA',
+      '#top',
+    ]) {
+      expect(isRelativeUrl(url)).toBe(false);
+      expect(rebaseUrl(url, BASE)).toBe(url);
+    }
+  });
+});
+
+describe('rebaseCssUrls', () => {
+  it('rewrites relative url() references, keeping quotes', () => {
+    const css = `a { background: url("bg.png"); } b { background: url(data:image/png;base64,AA); }`;
+    expect(rebaseCssUrls(css, BASE)).toBe(
+      `a { background: url("/presentations/deck/part-1/bg.png"); } b { background: url(data:image/png;base64,AA); }`
+    );
+  });
+});
+
+describe('rebaseElementUrls', () => {
+  it('rewrites src, href, srcset and inline style URLs', () => {
+    const template = document.createElement('template');
+    template.innerHTML = `
+      <img src="a.png" srcset="a.png 1x, b.png 2x">
+      <a href="next.html">Next</a>
+      <a href="https://x.test">External</a>
+      <div style="background-image: url('bg.png')"></div>`;
+
+    rebaseElementUrls(template.content, BASE);
+
+    const img = template.content.querySelector('img')!;
+    expect(img.getAttribute('src')).toBe('/presentations/deck/part-1/a.png');
+    expect(img.getAttribute('srcset')).toBe(
+      '/presentations/deck/part-1/a.png 1x, /presentations/deck/part-1/b.png 2x'
+    );
+    const links = template.content.querySelectorAll('a');
+    expect(links[0].getAttribute('href')).toBe('/presentations/deck/part-1/next.html');
+    expect(links[1].getAttribute('href')).toBe('https://x.test');
+    expect(template.content.querySelector('div')!.getAttribute('style')).toContain(
+      "url('/presentations/deck/part-1/bg.png')"
+    );
+  });
+});
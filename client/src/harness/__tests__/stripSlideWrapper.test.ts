@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { stripSlideWrapper } from '../stripSlideWrapper';
+import { stripSlideWrapper, scopeSlideStyles } from '../stripSlideWrapper';
+import { SLIDE_WRAPPER_FIXTURES } from '@flideck/shared/testing';
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
@@ -182,3 +183,28 @@ describe('stripSlideWrapper', () => {
     expect(result.body).not.toContain('fonts.googleapis.com');
   });
 });
+
+// ─── Shared fixtures (also run through the server's cheerio reader) ──────────
+
+describe('stripSlideWrapper shared fixtures', () => {
+  it.each(SLIDE_WRAPPER_FIXTURES)('$name', ({ html, expected }) => {
+    expect(stripSlideWrapper(html)).toEqual(expected);
+  });
+});
+
+// ─── scopeSlideStyles ─────────────────────────────────────────────────────────
+
+describe('scopeSlideStyles', () => {
+  it('maps :root, html and body to :scope and wraps rules in @scope (.harness-slide)', () => {
+    const result = scopeSlideStyles(':root { --c: red; } html, body { margin: 0; } h1 { color: var(--c); }');
+    expect(result).toBe(
+      '@scope (.harness-slide) {\n:scope { --c: red; } :scope { margin: 0; } h1 { color: var(--c); }\n}'
+    );
+  });
+
+  it('scopes to a custom root selector', () => {
+    expect(scopeSlideStyles('p { margin: 0; }', '[data-slide="a"]')).toMatch(
+      /^@scope \(\[data-slide="a"\]\) \{/
+    );
+  });
+});
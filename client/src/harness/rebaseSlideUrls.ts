@@ -0,0 +1,71 @@
+/**
+ * rebaseSlideUrls
+ *
+ * HarnessViewer resolves relative slide paths through a single document-level
+ * <base> element. Views that render several slides at once (the overview grid)
+ * cannot share one base — slides in subfolders need their own — so they rewrite
+ * relative URLs against each slide's folder instead.
+ */
+
+/** Attributes holding a single URL */
+const URL_ATTRIBUTES = ['src', 'href', 'poster', 'xlink:href'];
+
+/** Matches url(...) references in CSS, with optional quotes */
+const CSS_URL_PATTERN = /url\(\s*(['"]?)([^'")]+)\1\s*\)/g;
+
+/**
+ * True for paths relative to the slide's folder (not absolute, root-relative,
+ * protocol-relative, data:/mailto: style schemes or fragment-only).
+ */
+export function isRelativeUrl(url: string): boolean {
+  return url.length > 0 && !/^([a-z][a-z0-9+.-]*:|\/|#)/i.test(url);
+}
+
+/**
+ * Resolve a relative URL against a base path such as "/presentations/deck/part-1/".
+ * Other URLs are returned unchanged.
+ */
+export function rebaseUrl(url: string, baseUrl: string): string {
+  const trimmed = url.trim();
+  if (!isRelativeUrl(trimmed)) return url;
+  const resolved = new URL(trimmed, new URL(baseUrl, 'http://flideck.invalid'));
+  return `${resolved.pathname}${resolved.search}${resolved.hash}`;
+}
+
+/**
+ * Rewrite relative url(...) references in CSS text.
+ */
+export function rebaseCssUrls(css: string, baseUrl: string): string {
+  return css.replace(CSS_URL_PATTERN, (match, quote: string, url: string) =>
+    isRelativeUrl(url.trim()) ? `url(${quote}${rebaseUrl(url, baseUrl)}${quote})` : match
+  );
+}
+
+/**
+ * Rewrite relative URLs in element attributes (src, href, poster, srcset and
+ * inline style url()) below `root`. Intended for inert markup, e.g. the content
+ * of a <template>, so nothing is fetched from the wrong location first.
+ */
+export function rebaseElementUrls(root: ParentNode, baseUrl: string): void {
+  root.querySelectorAll('*').forEach((el) => {
+    for (const attribute of URL_ATTRIBUTES) {
+      const value = el.getAttribute(attribute);
+      if (value) el.setAttribute(attribute, rebaseUrl(value, baseUrl));
+    }
+
+    const srcset = el.getAttribute('srcset');
+    if (srcset) {
+      const rebased = srcset
+        .split(',')
+        .map((candidate) => {
+          const [url, ...descriptors] = candidate.trim().split(/\s+/);
+          return [rebaseUrl(url, baseUrl), ...descriptors].join(' ');
+        })
+        .join(', ');
+      el.setAttribute('srcset', rebased);
+    }
+
+    const style = el.getAttribute('style');
+    if (style) el.setAttribute('style', rebaseCssUrls(style, baseUrl));
+  });
+}
@@ -3,7 +3,6 @@ import { useEffect } from 'react';
 import { api } from '../utils/api';
 import { queryKeys } from '../utils/constants';
 import { getSocket } from './useSocket';
-import type { ConfigResponse } from '@flideck/shared';
 
 /**
  * Hook for fetching current config.
@@ -11,7 +10,7 @@ import type { ConfigResponse } from '@flideck/shared';
 export function useConfig() {
   return useQuery({
     queryKey: queryKeys.config,
-    queryFn: () => api.get<ConfigResponse>('/api/config'),
+    queryFn: () => api.getConfig(),
   });
 }
 
@@ -22,8 +21,7 @@ export function useUpdateConfig() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (presentationsRoot: string) =>
-      api.put<{ presentationsRoot: string }>('/api/config', { presentationsRoot }),
+    mutationFn: (presentationsRoot: string) => api.updateConfig({ presentationsRoot }),
     onSuccess: () => {
       // Invalidate config and presentations queries
       queryClient.invalidateQueries({ queryKey: queryKeys.config });
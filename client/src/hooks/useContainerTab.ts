@@ -4,11 +4,13 @@ import type { TabDefinition } from '@flideck/shared';
 /**
  * Hook for managing active container tab state with localStorage persistence.
  * Returns the active tab ID and a setter function.
+ * A tab requested via the URL (deep link) takes precedence over the saved tab.
  * (FR-24)
  */
 export function useContainerTab(
   presentationId: string | undefined,
-  tabs: TabDefinition[] | undefined
+  tabs: TabDefinition[] | undefined,
+  requestedTabId?: string | null
 ): [string | null, (tabId: string | null) => void] {
   const [activeTabId, setActiveTabId] = useState<string | null>(null);
 
@@ -19,8 +21,16 @@ export function useContainerTab(
       return;
     }
 
-    // Try to load last viewed tab from localStorage
     const storageKey = `flideck-container-tab-${presentationId}`;
+
+    // Deep-linked tab wins if it still exists
+    if (requestedTabId && tabs.some((t) => t.id === requestedTabId)) {
+      setActiveTabId(requestedTabId);
+      localStorage.setItem(storageKey, requestedTabId);
+      return;
+    }
+
+    // Try to load last viewed tab from localStorage
     const savedTabId = localStorage.getItem(storageKey);
 
     // Check if saved tab still exists
@@ -34,7 +44,7 @@ export function useContainerTab(
     if (sortedTabs.length > 0) {
       setActiveTabId(sortedTabs[0].id);
     }
-  }, [presentationId, tabs]);
+  }, [presentationId, tabs, requestedTabId]);
 
   // Persist active tab to localStorage (or clear it)
   const handleSetActiveTab = (tabId: string | null) => {
@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { FollowNavigateEvent, FollowState, FollowView } from '@flideck/shared';
+import { getSocket } from './useSocket';
+import { followViewKey, getFollowStatus, type FollowStatus } from '../utils/followMode';
+
+/**
+ * Follow-me controls for the Header.
+ */
+export interface FollowMode {
+  status: FollowStatus;
+  /** Take the lead (replaces any current leader) */
+  lead: () => void;
+  /** Stop leading; followers stay where they are */
+  release: () => void;
+  /** Stop or resume following the current leader */
+  setFollowing: (following: boolean) => void;
+}
+
+/**
+ * Hook for follow-me navigation within a presentation room.
+ *
+ * While leading, every change of `view` is sent to the server and broadcast to
+ * the room. While following, the leader's view is handed to onFollow whenever it
+ * differs from the local one. The caller must have joined the presentation room
+ * (usePresentationRoom).
+ */
+export function useFollowMode(
+  presentationId: string | undefined,
+  view: FollowView,
+  onFollow: (view: FollowView) => void
+): FollowMode {
+  const [roomState, setRoomState] = useState<FollowState | null>(null);
+  const [following, setFollowing] = useState(true);
+  const viewRef = useRef(view);
+  const onFollowRef = useRef(onFollow);
+
+  // Latest values for the effects below, without re-running them every render
+  useEffect(() => {
+    viewRef.current = view;
+    onFollowRef.current = onFollow;
+  });
+
+  useEffect(() => {
+    if (!presentationId) return;
+    const s = getSocket();
+
+    const handleState = (event: FollowState) => {
+      if (event.presentationId === presentationId) {
+        setRoomState(event);
+      }
+    };
+
+    s.on('follow:state', handleState);
+    return () => {
+      s.off('follow:state', handleState);
+    };
+  }, [presentationId]);
+
+  // Ignore state left over from a previously viewed presentation
+  const state = roomState?.presentationId === presentationId ? roomState : null;
+  const status = getFollowStatus(state, getSocket().id, following);
+  const viewKey = followViewKey(view);
+
+  // Follow the leader
+  useEffect(() => {
+    if (status !== 'following' || !state) return;
+    if (followViewKey(state) === followViewKey(viewRef.current)) return;
+    onFollowRef.current({
+      assetId: state.assetId,
+      tabId: state.tabId,
+      presentationMode: state.presentationMode,
+    });
+  }, [status, state]);
+
+  // Lead: announce local navigation
+  useEffect(() => {
+    if (status !== 'leading' || !presentationId || !state) return;
+    if (followViewKey(state) === viewKey) return;
+    const payload: FollowNavigateEvent = { presentationId, ...viewRef.current };
+    getSocket().emit('follow:navigate', payload);
+  }, [status, presentationId, state, viewKey]);
+
+  const lead = useCallback(() => {
+    if (!presentationId) return;
+    const payload: FollowNavigateEvent = { presentationId, ...viewRef.current };
+    getSocket().emit('follow:lead', payload);
+    setFollowing(true);
+  }, [presentationId]);
+
+  const release = useCallback(() => {
+    if (!presentationId) return;
+    getSocket().emit('follow:release', { presentationId });
+  }, [presentationId]);
+
+  return { status, lead, release, setFollowing };
+}
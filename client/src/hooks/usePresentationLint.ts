@@ -0,0 +1,28 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { api } from '../utils/api';
+import { queryKeys } from '../utils/constants';
+import { useSocketInvalidation } from './useSocket';
+
+/**
+ * Hook for a presentation's slide lint results (GET /api/presentations/:id/lint).
+ * Structure changes refetch it with the presentation; slide edits refetch it
+ * via 'content:changed' (the server only re-lints files that changed).
+ */
+export function usePresentationLint(presentationId: string | undefined) {
+  const queryKey = useMemo(
+    () =>
+      presentationId
+        ? queryKeys.presentationLint(presentationId)
+        : ['presentations', 'none', 'lint'],
+    [presentationId]
+  );
+
+  useSocketInvalidation('content:changed', queryKey);
+
+  return useQuery({
+    queryKey,
+    queryFn: () => api.lintPresentation(presentationId!),
+    enabled: !!presentationId,
+  });
+}
@@ -0,0 +1,75 @@
+import { useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { api, ConflictError, type MutationOptions } from '../utils/api';
+import { queryKeys } from '../utils/constants';
+
+/**
+ * How to resolve a conflict (412) for a mutation:
+ * - 'retry': re-read the manifest ETag and send the same change again. For
+ *   changes that still make sense on a newer manifest (rename, create, move to group).
+ * - 'ask': show a conflict dialog offering to reload or overwrite. For changes
+ *   that replace state wholesale (slide order), where a retry would silently
+ *   undo someone else's edit.
+ */
+export type ConflictStrategy = 'retry' | 'ask';
+
+/**
+ * Hook returning a runner for presentation mutations that handles manifest
+ * conflicts (see FliDeckClient's If-Match handling).
+ *
+ * The runner resolves with the mutation's result - after a retry, or once the
+ * user chose to overwrite - and rejects with the ConflictError if the user
+ * reloads instead. Callers should not report ConflictErrors again.
+ */
+export function usePresentationMutation() {
+  const queryClient = useQueryClient();
+
+  return useCallback(
+    async <T>(
+      presentationId: string,
+      mutate: (options: MutationOptions) => Promise<T>,
+      strategy: ConflictStrategy = 'retry'
+    ): Promise<T> => {
+      const reload = () =>
+        queryClient.invalidateQueries({ queryKey: queryKeys.presentation(presentationId) });
+
+      try {
+        return await mutate({});
+      } catch (error) {
+        if (!(error instanceof ConflictError)) throw error;
+
+        if (strategy === 'retry') {
+          try {
+            await api.refreshETag(presentationId);
+            const result = await mutate({});
+            reload();
+            return result;
+          } catch (retryError) {
+            if (!(retryError instanceof ConflictError)) throw retryError;
+          }
+        }
+
+        return new Promise<T>((resolve, reject) => {
+          const declined = () => {
+            reload();
+            reject(error);
+          };
+          toast.warning('This presentation was changed elsewhere', {
+            description: 'Reload to see the latest version, or overwrite it with your change.',
+            duration: Infinity,
+            action: {
+              label: 'Overwrite',
+              onClick: () => {
+                mutate({ force: true }).then(resolve, reject);
+              },
+            },
+            cancel: { label: 'Reload', onClick: declined },
+            onDismiss: declined,
+          });
+        });
+      }
+    },
+    [queryClient]
+  );
+}
@@ -1,7 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '../utils/api';
 import { queryKeys } from '../utils/constants';
-import type { Presentation, Asset } from '@flideck/shared';
 
 /**
  * Hook for fetching all presentations.
@@ -9,7 +8,7 @@ import type { Presentation, Asset } from '@flideck/shared';
 export function usePresentations() {
   return useQuery({
     queryKey: queryKeys.presentations,
-    queryFn: () => api.get<Presentation[]>('/api/presentations'),
+    queryFn: () => api.listPresentations(),
   });
 }
 
@@ -19,7 +18,7 @@ export function usePresentations() {
 export function usePresentation(id: string | undefined) {
   return useQuery({
     queryKey: id ? queryKeys.presentation(id) : ['presentations', 'none'],
-    queryFn: () => api.get<Presentation>(`/api/presentations/${id}`),
+    queryFn: () => api.getPresentation(id!),
     enabled: !!id,
   });
 }
@@ -31,8 +30,7 @@ export function useAsset(presentationId: string | undefined, assetId: string | u
   return useQuery({
     queryKey:
       presentationId && assetId ? queryKeys.asset(presentationId, assetId) : ['assets', 'none'],
-    queryFn: () =>
-      api.get<{ content: string; asset: Asset }>(`/api/assets/${presentationId}/${assetId}`),
+    queryFn: () => api.getAsset(presentationId!, assetId!),
     enabled: !!presentationId && !!assetId,
   });
 }
@@ -44,7 +42,7 @@ export function useRefreshPresentations() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: () => api.post<Presentation[]>('/api/presentations/refresh'),
+    mutationFn: () => api.refreshPresentations(),
     onSuccess: (data) => {
       queryClient.setQueryData(queryKeys.presentations, data);
     },
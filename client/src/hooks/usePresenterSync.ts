@@ -0,0 +1,90 @@
+import { useEffect, useRef } from 'react';
+import type { PresenterNavigateEvent, PresenterSyncRequest } from '@flideck/shared';
+import { getSocket } from './useSocket';
+import { presenterViewKey, type PresenterView } from '../utils/presenter';
+
+const SESSION_STORAGE_KEY = 'flideck-presenter-session';
+
+/**
+ * Get this window's presenter pairing key, creating it on first use.
+ * Kept in sessionStorage so it survives reloads but is not shared between tabs.
+ */
+export function getPresenterSession(): string {
+  try {
+    let session = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (!session) {
+      session = Math.random().toString(36).slice(2, 12);
+      sessionStorage.setItem(SESSION_STORAGE_KEY, session);
+    }
+    return session;
+  } catch {
+    return 'default';
+  }
+}
+
+/**
+ * Hook keeping a presenter window and its audience window on the same slide.
+ *
+ * Local view changes are announced with 'presenter:navigate'; navigation from
+ * the paired window is handed to onRemoteNavigate. The view on mount is not
+ * announced - instead the window asks its pair for theirs ('presenter:sync'),
+ * so opening or reloading one window never moves the other.
+ * The caller must have joined the presentation room (usePresentationRoom).
+ */
+export function usePresenterSync(
+  presentationId: string | undefined,
+  session: string | null,
+  view: PresenterView,
+  onRemoteNavigate: (view: PresenterView) => void
+) {
+  const viewKey = presenterViewKey(view);
+  const lastKeyRef = useRef(viewKey);
+  const viewRef = useRef(view);
+  const onRemoteNavigateRef = useRef(onRemoteNavigate);
+
+  // Latest values for the socket handlers, without re-subscribing every render
+  useEffect(() => {
+    viewRef.current = view;
+    onRemoteNavigateRef.current = onRemoteNavigate;
+  });
+
+  // Listen for the paired window, and ask it where it is
+  useEffect(() => {
+    if (!presentationId || !session) return;
+    const s = getSocket();
+
+    const isOurs = (event: PresenterSyncRequest) =>
+      event.presentationId === presentationId && event.session === session;
+
+    const handleNavigate = (event: PresenterNavigateEvent) => {
+      if (!isOurs(event)) return;
+      const remote = { assetId: event.assetId, tabId: event.tabId };
+      lastKeyRef.current = presenterViewKey(remote);
+      onRemoteNavigateRef.current(remote);
+    };
+
+    const handleSync = (event: PresenterSyncRequest) => {
+      if (!isOurs(event)) return;
+      const payload: PresenterNavigateEvent = { presentationId, session, ...viewRef.current };
+      s.emit('presenter:navigate', payload);
+    };
+
+    s.on('presenter:navigate', handleNavigate);
+    s.on('presenter:sync', handleSync);
+    const request: PresenterSyncRequest = { presentationId, session };
+    s.emit('presenter:sync', request);
+
+    return () => {
+      s.off('presenter:navigate', handleNavigate);
+      s.off('presenter:sync', handleSync);
+    };
+  }, [presentationId, session]);
+
+  // Announce local navigation (skipping changes that came from the paired window)
+  useEffect(() => {
+    if (!presentationId || !session || viewKey === lastKeyRef.current) return;
+    lastKeyRef.current = viewKey;
+    const payload: PresenterNavigateEvent = { presentationId, session, ...viewRef.current };
+    getSocket().emit('presenter:navigate', payload);
+  }, [presentationId, session, viewKey]);
+}
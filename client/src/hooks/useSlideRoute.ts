@@ -0,0 +1,75 @@
+import { useCallback } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { buildSlideUrl, parseSlideSearch, type SlideRouteState } from '../utils/slideRoute';
+
+interface NavigateOptions {
+  /** Replace the current history entry instead of pushing a new one */
+  replace?: boolean;
+}
+
+/**
+ * Hook exposing the slide view state held in the URL.
+ *
+ * Selected asset, container tab and presentation mode live in the router
+ * (not React state) so every view is deep-linkable, survives a reload and
+ * works with browser back/forward.
+ */
+export function useSlideRoute() {
+  const { id, assetId } = useParams<{ id: string; assetId?: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { tabId, presentationMode } = parseSlideSearch(searchParams);
+
+  const update = useCallback(
+    (next: SlideRouteState, options: NavigateOptions = {}) => {
+      if (!id) return;
+      navigate(buildSlideUrl(id, { assetId, tabId, presentationMode, ...next }), {
+        replace: options.replace,
+      });
+    },
+    [id, assetId, tabId, presentationMode, navigate]
+  );
+
+  /** Select an asset (pushes a history entry so back/forward step through slides) */
+  const selectAsset = useCallback(
+    (nextAssetId: string | null, options?: NavigateOptions) => {
+      update({ assetId: nextAssetId }, options);
+    },
+    [update]
+  );
+
+  /** Switch container tab and clear the selected asset to show the tab index (BUG-13) */
+  const selectTab = useCallback(
+    (nextTabId: string | null) => {
+      update({ tabId: nextTabId, assetId: null });
+    },
+    [update]
+  );
+
+  /** Record the active container tab in the URL without changing the view */
+  const syncTab = useCallback(
+    (nextTabId: string | null) => {
+      update({ tabId: nextTabId }, { replace: true });
+    },
+    [update]
+  );
+
+  /** Toggle presentation mode (replaces history - mode is not a navigation step) */
+  const setPresentationMode = useCallback(
+    (enabled: boolean) => {
+      update({ presentationMode: enabled }, { replace: true });
+    },
+    [update]
+  );
+
+  return {
+    presentationId: id,
+    assetId: assetId ?? null,
+    tabId,
+    isPresentationMode: presentationMode,
+    selectAsset,
+    selectTab,
+    syncTab,
+    setPresentationMode,
+  };
+}
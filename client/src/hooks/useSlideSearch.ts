@@ -0,0 +1,46 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { api } from '../utils/api';
+import { queryKeys } from '../utils/constants';
+import { describeSearchResult, toSearchItemId } from '../utils/searchItems';
+import type { QuickFilterItem } from '../components/ui/QuickFilter';
+
+/** Wait for typing to pause before querying the server */
+const SEARCH_DEBOUNCE_MS = 200;
+/** Shorter queries only filter names locally */
+const MIN_SEARCH_LENGTH = 2;
+
+/**
+ * Hook for full-text slide search (GET /api/search) in the QuickFilter.
+ * Feed it the filter text via setQuery; it returns QuickFilter items for slides
+ * whose content matches, across every presentation.
+ * Use parseSearchItemId to resolve a selected item back to its slide.
+ */
+export function useSlideSearch() {
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const enabled = debouncedQuery.length >= MIN_SEARCH_LENGTH;
+  const { data, isFetching } = useQuery({
+    queryKey: queryKeys.search(debouncedQuery),
+    queryFn: () => api.search(debouncedQuery),
+    enabled,
+  });
+
+  const items: QuickFilterItem[] = useMemo(() => {
+    if (!enabled || !data) return [];
+    return data.results.map((result) => ({
+      id: toSearchItemId(result),
+      name: result.assetName,
+      subtitle: describeSearchResult(result),
+      snippet: { text: result.snippet, highlights: result.highlights },
+    }));
+  }, [enabled, data]);
+
+  return { setQuery, items, isSearching: enabled && isFetching };
+}
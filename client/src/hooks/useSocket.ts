@@ -1,6 +1,8 @@
 import { io, Socket } from 'socket.io-client';
 import { useQueryClient } from '@tanstack/react-query';
 import { useEffect, useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import type { FileRecoveryEvent, PresentationsSummaryEvent, WatcherHealth } from '@flideck/shared';
 import { WS_URL } from '../config';
 import { queryKeys } from '../utils/constants';
 
@@ -13,6 +15,29 @@ interface ContentChangedEvent {
 // Singleton socket instance
 let socket: Socket | null = null;
 
+// Presentation rooms to be in, with the number of components that joined each
+const joinedRooms = new Map<string, number>();
+
+// Sequence number of the last change event seen, and the server run (epoch) it
+// belongs to (null until the server sends its position)
+let lastSeq: number | null = null;
+let epoch: string | null = null;
+
+/**
+ * Rejoin rooms (they do not survive a reconnect), then ask the server to replay
+ * the change events missed while disconnected.
+ */
+function handleConnect() {
+  if (!socket) return;
+
+  for (const presentationId of joinedRooms.keys()) {
+    socket.emit('join:presentation', { presentationId });
+  }
+  if (lastSeq !== null && epoch !== null) {
+    socket.emit('events:resume', { epoch, lastSeq });
+  }
+}
+
 /**
  * Get or create the Socket.io connection.
  */
@@ -22,6 +47,22 @@ export function getSocket(): Socket {
       transports: ['websocket', 'polling'],
       autoConnect: true,
     });
+
+    socket.on('connect', handleConnect);
+    // Change events carry their sequence number after the payload
+    socket.onAny((_event: string, _payload: unknown, seq?: unknown) => {
+      if (typeof seq === 'number' && seq > (lastSeq ?? 0)) lastSeq = seq;
+    });
+    socket.on('events:seq', (position: { epoch: string; seq: number }) => {
+      if (lastSeq !== null) return;
+      lastSeq = position.seq;
+      epoch = position.epoch;
+    });
+    // A restarted server has a new epoch, so resuming with the old one resyncs
+    socket.on('events:resync', (position: { epoch: string; seq: number }) => {
+      lastSeq = position.seq;
+      epoch = position.epoch;
+    });
   }
   return socket;
 }
@@ -53,16 +94,30 @@ export function useSocketConnection() {
 
 /**
  * Hook for joining/leaving a presentation room.
+ * The server sends a presentation's content and structure changes to its room
+ * only, so the room is joined again after every reconnect (see handleConnect).
  */
 export function usePresentationRoom(presentationId: string | null) {
   useEffect(() => {
     if (!presentationId) return;
 
     const s = getSocket();
-    s.emit('join:presentation', { presentationId });
+    const count = joinedRooms.get(presentationId) ?? 0;
+    joinedRooms.set(presentationId, count + 1);
+    if (count === 0 && s.connected) {
+      s.emit('join:presentation', { presentationId });
+    }
 
     return () => {
-      s.emit('leave:presentation', { presentationId });
+      const remaining = (joinedRooms.get(presentationId) ?? 1) - 1;
+      if (remaining > 0) {
+        joinedRooms.set(presentationId, remaining);
+        return;
+      }
+      joinedRooms.delete(presentationId);
+      if (s.connected) {
+        s.emit('leave:presentation', { presentationId });
+      }
     };
   }, [presentationId]);
 }
@@ -88,7 +143,8 @@ export function useSocketInvalidation(event: string, queryKey: readonly unknown[
 
 /**
  * Hook for real-time presentation updates.
- * Handles both content changes (iframe reload) and structure changes (sidebar refresh).
+ * Structure changes arrive for the joined presentation room (sidebar refresh);
+ * the global summary refreshes presentation lists when any deck gains or loses files.
  */
 export function usePresentationUpdates() {
   const queryClient = useQueryClient();
@@ -96,21 +152,32 @@ export function usePresentationUpdates() {
   useEffect(() => {
     const s = getSocket();
 
-    // Structure changes (file add/remove) - refresh sidebar
+    // Structure changes (file add/remove) - refresh sidebar and search results
     const handleStructureChange = () => {
       queryClient.invalidateQueries({ queryKey: queryKeys.presentations });
+      queryClient.invalidateQueries({ queryKey: queryKeys.searchAll });
+    };
+
+    // Any deck changed structurally - refresh the presentation list only
+    const handleSummary = (event: PresentationsSummaryEvent) => {
+      if (!event.structureChanged) return;
+      queryClient.invalidateQueries({ queryKey: queryKeys.presentations, exact: true });
+      queryClient.invalidateQueries({ queryKey: queryKeys.searchAll });
     };
 
     // Legacy event - treat as structure change for backwards compatibility
     const handleLegacyUpdate = () => {
       queryClient.invalidateQueries({ queryKey: queryKeys.presentations });
+      queryClient.invalidateQueries({ queryKey: queryKeys.searchAll });
     };
 
     s.on('structure:changed', handleStructureChange);
+    s.on('presentations:summary', handleSummary);
     s.on('presentations:updated', handleLegacyUpdate);
 
     return () => {
       s.off('structure:changed', handleStructureChange);
+      s.off('presentations:summary', handleSummary);
       s.off('presentations:updated', handleLegacyUpdate);
     };
   }, [queryClient]);
@@ -164,6 +231,100 @@ export function useContentChanges(
   return reloadKey;
 }
 
+/**
+ * Hook that keeps every asset of a presentation fresh (overview grid miniatures).
+ * Refetches the changed asset, or all of them when a shared .css/.js file changes.
+ */
+export function useAssetContentChanges(presentationId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!presentationId) return;
+
+    const s = getSocket();
+
+    const handleContentChanged = (event: ContentChangedEvent) => {
+      if (event.presentationId !== presentationId) return;
+
+      const isSupportingFile = event.filename.endsWith('.css') || event.filename.endsWith('.js');
+      queryClient.invalidateQueries({
+        queryKey: isSupportingFile
+          ? ['assets', presentationId]
+          : queryKeys.asset(presentationId, event.assetId),
+      });
+    };
+
+    s.on('content:changed', handleContentChanged);
+    return () => {
+      s.off('content:changed', handleContentChanged);
+    };
+  }, [queryClient, presentationId]);
+}
+
+/**
+ * Hook that surfaces server-side backup recoveries (corrupt manifest or config
+ * restored from its last-known-good copy) as a warning toast.
+ */
+export function useRecoveryNotices() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const s = getSocket();
+
+    const handleRecovered = (event: FileRecoveryEvent) => {
+      const label = event.kind === 'config' ? 'config.json' : `${event.presentationId} manifest`;
+      toast.warning(`Recovered ${label} from backup`, { description: event.reason });
+      queryClient.invalidateQueries({ queryKey: queryKeys.presentations });
+    };
+
+    s.on('file:recovered', handleRecovered);
+    return () => {
+      s.off('file:recovered', handleRecovered);
+    };
+  }, [queryClient]);
+}
+
+/**
+ * Hook for the server's file watcher health ('watcher:status', sent on connect
+ * and whenever a watcher fails, restarts or falls back to polling).
+ */
+export function useWatcherHealth() {
+  const [health, setHealth] = useState<WatcherHealth | null>(null);
+
+  useEffect(() => {
+    const s = getSocket();
+
+    s.on('watcher:status', setHealth);
+    return () => {
+      s.off('watcher:status', setHealth);
+    };
+  }, []);
+
+  return health;
+}
+
+/**
+ * Hook that refetches every query when the server could not replay the change
+ * events missed while disconnected (too many, or the server restarted and
+ * reported a new epoch).
+ */
+export function useResyncOnReconnect() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const s = getSocket();
+
+    const handleResync = () => {
+      queryClient.invalidateQueries();
+    };
+
+    s.on('events:resync', handleResync);
+    return () => {
+      s.off('events:resync', handleResync);
+    };
+  }, [queryClient]);
+}
+
 /**
  * Hook for manually triggering a refresh.
  */
@@ -60,6 +60,43 @@ export function ConfigPage() {
               </div>
             </section>
 
+            {/* Additional roots (config.json `roots`) - served alongside the current folder */}
+            {config.roots.length > 1 && (
+              <section>
+                <h2
+                  className="text-lg font-medium mb-3"
+                  style={{
+                    fontFamily: "'Oswald', sans-serif",
+                    textTransform: 'uppercase',
+                    color: '#ccba9d',
+                  }}
+                >
+                  Also Served
+                </h2>
+                <div
+                  className="rounded-lg border overflow-hidden"
+                  style={{ backgroundColor: '#3d3535', borderColor: '#4a4040' }}
+                >
+                  {config.roots
+                    .filter((root) => !root.isPrimary)
+                    .map((root, i, secondary) => (
+                      <div
+                        key={root.name}
+                        className="p-3 flex items-baseline gap-3"
+                        style={{
+                          borderBottom: i < secondary.length - 1 ? '1px solid #4a4040' : 'none',
+                        }}
+                      >
+                        <span className="text-sm text-white">{root.name}</span>
+                        <code style={{ color: '#ccba9d' }} className="text-sm break-all">
+                          {root.path}
+                        </code>
+                      </div>
+                    ))}
+                </div>
+              </section>
+            )}
+
             {/* History */}
             {config.history.length > 0 && (
               <section>
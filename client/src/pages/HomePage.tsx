@@ -3,19 +3,24 @@ import { useNavigate } from 'react-router-dom';
 import { usePresentations } from '../hooks/usePresentations';
 import { usePresentationUpdates } from '../hooks/useSocket';
 import { useQuickFilter } from '../hooks/useQuickFilter';
+import { useSlideSearch } from '../hooks/useSlideSearch';
 import { Header } from '../components/layout/Header';
 import { LoadingSpinner } from '../components/ui/LoadingSpinner';
 import { EmptyState } from '../components/ui/EmptyState';
 import { QuickFilter, QuickFilterItem } from '../components/ui/QuickFilter';
+import { parseSearchItemId } from '../utils/searchItems';
+import { buildSlideUrl } from '../utils/slideRoute';
 import type { Presentation } from '@flideck/shared';
 
 /**
- * Home page showing list of all presentations.
+ * Home page showing list of all presentations, grouped by presentations root
+ * when more than one root is configured.
  */
 export function HomePage() {
   const navigate = useNavigate();
   const { data: presentations, isLoading, error } = usePresentations();
   const [isQuickFilterOpen, , closeQuickFilter] = useQuickFilter();
+  const slideSearch = useSlideSearch();
 
   // Subscribe to real-time updates
   usePresentationUpdates();
@@ -30,11 +35,27 @@ export function HomePage() {
     return presentations.map((p) => ({
       id: p.id,
       name: p.name,
-      subtitle: `${p.assets.length} asset${p.assets.length !== 1 ? 's' : ''}`,
+      subtitle: `${p.root ? `${p.root} · ` : ''}${p.assets.length} asset${p.assets.length !== 1 ? 's' : ''}`,
     }));
   }, [presentations]);
 
+  // Group presentations by root (server returns the primary root first)
+  const rootGroups = useMemo(() => {
+    const groups = new Map<string, Presentation[]>();
+    for (const presentation of presentations ?? []) {
+      const root = presentation.root ?? '';
+      groups.set(root, [...(groups.get(root) ?? []), presentation]);
+    }
+    return Array.from(groups, ([root, items]) => ({ root, presentations: items }));
+  }, [presentations]);
+
   const handleQuickFilterSelect = (id: string) => {
+    // Full-text search results jump straight to the matching slide
+    const searchTarget = parseSearchItemId(id);
+    if (searchTarget) {
+      navigate(buildSlideUrl(searchTarget.presentationId, { assetId: searchTarget.assetId }));
+      return;
+    }
     navigate(`/presentation/${id}`);
   };
 
@@ -63,43 +84,47 @@ export function HomePage() {
           </div>
         ) : (
           <div className="max-w-4xl mx-auto">
-            <h2
-              className="text-lg font-medium mb-4"
-              style={{
-                fontFamily: "'Oswald', Arial, sans-serif",
-                textTransform: 'uppercase',
-                color: '#ccba9d',
-              }}
-            >
-              Available Presentations
-            </h2>
-            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-              {presentations.map((presentation) => (
-                <button
-                  key={presentation.id}
-                  onClick={() => handleSelectPresentation(presentation)}
-                  className="rounded-lg p-4 text-left transition-all duration-200 border"
+            {rootGroups.map(({ root, presentations: items }) => (
+              <section key={root} className="mb-8">
+                <h2
+                  className="text-lg font-medium mb-4"
                   style={{
-                    backgroundColor: '#3d3535',
-                    borderColor: '#4a4040',
-                  }}
-                  onMouseEnter={(e) => {
-                    e.currentTarget.style.borderColor = '#ffde59';
-                    e.currentTarget.style.backgroundColor = '#4a4040';
-                  }}
-                  onMouseLeave={(e) => {
-                    e.currentTarget.style.borderColor = '#4a4040';
-                    e.currentTarget.style.backgroundColor = '#3d3535';
+                    fontFamily: "'Oswald', Arial, sans-serif",
+                    textTransform: 'uppercase',
+                    color: '#ccba9d',
                   }}
                 >
-                  <h3 className="text-white font-medium mb-1">{presentation.name}</h3>
-                  <p className="text-sm" style={{ color: '#ccba9d' }}>
-                    {presentation.assets.length} asset
-                    {presentation.assets.length !== 1 ? 's' : ''}
-                  </p>
-                </button>
-              ))}
-            </div>
+                  {rootGroups.length > 1 ? root : 'Available Presentations'}
+                </h2>
+                <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                  {items.map((presentation) => (
+                    <button
+                      key={presentation.id}
+                      onClick={() => handleSelectPresentation(presentation)}
+                      className="rounded-lg p-4 text-left transition-all duration-200 border"
+                      style={{
+                        backgroundColor: '#3d3535',
+                        borderColor: '#4a4040',
+                      }}
+                      onMouseEnter={(e) => {
+                        e.currentTarget.style.borderColor = '#ffde59';
+                        e.currentTarget.style.backgroundColor = '#4a4040';
+                      }}
+                      onMouseLeave={(e) => {
+                        e.currentTarget.style.borderColor = '#4a4040';
+                        e.currentTarget.style.backgroundColor = '#3d3535';
+                      }}
+                    >
+                      <h3 className="text-white font-medium mb-1">{presentation.name}</h3>
+                      <p className="text-sm" style={{ color: '#ccba9d' }}>
+                        {presentation.assets.length} asset
+                        {presentation.assets.length !== 1 ? 's' : ''}
+                      </p>
+                    </button>
+                  ))}
+                </div>
+              </section>
+            ))}
           </div>
         )}
       </main>
@@ -110,7 +135,10 @@ export function HomePage() {
         onClose={closeQuickFilter}
         items={quickFilterItems}
         onSelect={handleQuickFilterSelect}
-        placeholder="Search presentations..."
+        placeholder="Search presentations and slide content..."
+        onQueryChange={slideSearch.setQuery}
+        searchItems={slideSearch.items}
+        isSearching={slideSearch.isSearching}
       />
     </div>
   );
@@ -1,35 +1,58 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useNavigate } from 'react-router-dom';
 import { usePresentations, usePresentation, useAsset } from '../hooks/usePresentations';
 import { usePresentationRoom, usePresentationUpdates, useContentChanges } from '../hooks/useSocket';
 import { useQuickFilter } from '../hooks/useQuickFilter';
 import { useContainerTab } from '../hooks/useContainerTab';
+import { useSlideRoute } from '../hooks/useSlideRoute';
+import { useSlideSearch } from '../hooks/useSlideSearch';
+import { getPresenterSession, usePresenterSync } from '../hooks/usePresenterSync';
+import { useFollowMode } from '../hooks/useFollowMode';
 import { Header } from '../components/layout/Header';
 import { Sidebar } from '../components/layout/Sidebar';
 import { HarnessViewer } from '../harness/HarnessViewer';
 import { TabBar } from '../components/ui/TabBar';
 import { QuickFilter, QuickFilterItem } from '../components/ui/QuickFilter';
+import { SlideOverview } from '../components/ui/SlideOverview';
 import { LoadingSpinner } from '../components/ui/LoadingSpinner';
 import { EmptyState } from '../components/ui/EmptyState';
-import { getSidebarOrder } from '../utils/sidebarOrder';
+import { getSidebarOrder, type FollowView } from '@flideck/shared';
+import { parseSearchItemId } from '../utils/searchItems';
+import { buildSlideUrl } from '../utils/slideRoute';
+import { buildPresenterUrl, type PresenterView } from '../utils/presenter';
 
 /**
  * Presentation page with asset navigation and viewer.
- * Supports presentation mode (F key) for distraction-free viewing.
+ * Supports presentation mode (F key) for distraction-free viewing, and a paired
+ * presenter view window (PresenterPage) that follows and drives this one.
+ * Follow-me: one client in the presentation room can lead, and the others
+ * mirror its slide, container tab and presentation mode.
+ *
+ * View state is deep-linkable: /presentation/:id/:assetId?tab=<tabId>&mode=present
  *
  * Keyboard shortcuts:
  * - F: Toggle presentation mode
- * - Escape: Exit presentation mode
+ * - G: Toggle the slide overview grid
+ * - Escape: Close the overview grid, or exit presentation mode
  * - Ctrl+Left/Right: Navigate between assets (modifier keys reserve FliDeck shortcuts, leaving arrow keys free for slide content)
  * - Ctrl+Home/End: Jump to first/last asset
  */
 export function PresentationPage() {
-  const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const [selectedAssetId, setSelectedAssetId] = useState<string | null>(null);
-  const [isPresentationMode, setIsPresentationMode] = useState(false);
+  const {
+    presentationId: id,
+    assetId: routeAssetId,
+    tabId: routeTabId,
+    isPresentationMode,
+    selectAsset,
+    selectTab,
+    syncTab,
+    setPresentationMode,
+  } = useSlideRoute();
   const [isQuickFilterOpen, , closeQuickFilter] = useQuickFilter();
+  const slideSearch = useSlideSearch();
   const [containerTabContent, setContainerTabContent] = useState<string | null>(null);
+  const [isOverviewOpen, setIsOverviewOpen] = useState(false);
   const containerTabFetchRef = useRef<AbortController | null>(null);
 
   // BUG-6: Collapsed groups state (lifted from Sidebar for auto-expand on navigation)
@@ -44,10 +67,30 @@ export function PresentationPage() {
 
   const { data: presentations } = usePresentations();
   const { data: presentation, isLoading, error } = usePresentation(id);
-  const { data: assetData, isLoading: assetLoading } = useAsset(id, selectedAssetId || undefined);
 
   // Container tab management (FR-24)
-  const [activeContainerTabId, setActiveContainerTabId] = useContainerTab(id, presentation?.tabs);
+  const [activeContainerTabId, setActiveContainerTabId] = useContainerTab(
+    id,
+    presentation?.tabs,
+    routeTabId
+  );
+
+  // Determine if we're in container tab mode
+  const hasContainerTabs = presentation?.tabs && presentation.tabs.length > 0;
+  const activeContainerTab = hasContainerTabs
+    ? presentation.tabs?.find((t) => t.id === activeContainerTabId)
+    : null;
+
+  // Selected asset comes from the URL; without one, default to the index asset
+  // BUG-13 FIX: No default when we have container tabs (we want to show tab index instead)
+  const defaultAssetId = useMemo(() => {
+    if (!presentation || hasContainerTabs) return null;
+    const indexAsset = presentation.assets.find((a) => a.isIndex);
+    return indexAsset?.id ?? presentation.assets[0]?.id ?? null;
+  }, [presentation, hasContainerTabs]);
+  const selectedAssetId = routeAssetId ?? defaultAssetId;
+
+  const { data: assetData, isLoading: assetLoading } = useAsset(id, selectedAssetId || undefined);
 
   // Join presentation room for scoped updates
   usePresentationRoom(id || null);
@@ -56,11 +99,57 @@ export function PresentationPage() {
   // Listen for content changes to trigger asset refetch
   const reloadKey = useContentChanges(id, selectedAssetId || undefined);
 
-  // Determine if we're in container tab mode
-  const hasContainerTabs = presentation?.tabs && presentation.tabs.length > 0;
-  const activeContainerTab = hasContainerTabs
-    ? presentation.tabs?.find((t) => t.id === activeContainerTabId)
-    : null;
+  // Presenter view: stay in lockstep with the presenter window opened from here
+  const presenterSession = useMemo(() => getPresenterSession(), []);
+  const handlePresenterNavigate = useCallback(
+    (view: PresenterView) => {
+      if (!id) return;
+      navigate(
+        buildSlideUrl(id, {
+          assetId: view.assetId,
+          tabId: view.tabId,
+          presentationMode: isPresentationMode,
+        })
+      );
+    },
+    [id, isPresentationMode, navigate]
+  );
+  usePresenterSync(
+    id,
+    presenterSession,
+    { assetId: routeAssetId, tabId: activeContainerTabId },
+    handlePresenterNavigate
+  );
+
+  // Follow-me: mirror the room leader, or broadcast this view while leading
+  const handleFollow = useCallback(
+    (view: FollowView) => {
+      if (!id) return;
+      navigate(buildSlideUrl(id, view));
+    },
+    [id, navigate]
+  );
+  const followMode = useFollowMode(
+    id,
+    { assetId: routeAssetId, tabId: activeContainerTabId, presentationMode: isPresentationMode },
+    handleFollow
+  );
+
+  const openPresenterView = useCallback(() => {
+    if (!id) return;
+    window.open(
+      buildPresenterUrl(id, presenterSession),
+      `flideck-presenter-${presenterSession}`,
+      'popup,width=1280,height=800'
+    );
+  }, [id, presenterSession]);
+
+  // Keep the active container tab reflected in the URL so links restore it
+  useEffect(() => {
+    if (activeContainerTabId && activeContainerTabId !== routeTabId) {
+      syncTab(activeContainerTabId);
+    }
+  }, [activeContainerTabId, routeTabId, syncTab]);
 
   // Fetch container tab index file content for HarnessViewer
   useEffect(() => {
@@ -80,23 +169,6 @@ export function PresentationPage() {
     return () => controller.abort();
   }, [hasContainerTabs, activeContainerTab, id, reloadKey]);
 
-  // Auto-select index asset when presentation loads
-  // BUG-13 FIX: Don't auto-select when we have container tabs (we want to show tab index instead)
-  useEffect(() => {
-    if (presentation && !selectedAssetId) {
-      // If we have container tabs, don't auto-select - show tab index instead
-      if (hasContainerTabs) {
-        return;
-      }
-      const indexAsset = presentation.assets.find((a) => a.isIndex);
-      if (indexAsset) {
-        setSelectedAssetId(indexAsset.id);
-      } else if (presentation.assets.length > 0) {
-        setSelectedAssetId(presentation.assets[0].id);
-      }
-    }
-  }, [presentation, selectedAssetId, hasContainerTabs]);
-
   // Get sidebar-ordered assets for navigation (matches visual order in sidebar)
   // Filters by active container tab to match what's visible in the sidebar
   const sidebarOrderedAssets = useMemo(
@@ -130,7 +202,9 @@ export function PresentationPage() {
       }
 
       const newAsset = sidebarOrderedAssets[newIndex];
-      setSelectedAssetId(newAsset.id);
+      if (newAsset.id !== selectedAssetId) {
+        selectAsset(newAsset.id);
+      }
 
       // BUG-6: Auto-expand collapsed group when navigating into it
       if (newAsset.group && collapsedGroups.has(newAsset.group)) {
@@ -149,7 +223,7 @@ export function PresentationPage() {
       // BUG-13 fix: Don't clear activeContainerTabId - keep sidebar filtering active
       // Rendering logic will check selectedAssetId to decide what to show
     },
-    [sidebarOrderedAssets, currentIndex, collapsedGroups]
+    [sidebarOrderedAssets, currentIndex, selectedAssetId, selectAsset, collapsedGroups]
   );
 
   // Keyboard handler - uses Ctrl modifier for navigation to avoid conflicts with slide content
@@ -162,13 +236,31 @@ export function PresentationPage() {
 
       // F key toggles presentation mode (no modifier needed)
       if ((e.key === 'f' || e.key === 'F') && !e.ctrlKey && !e.metaKey && !e.altKey) {
-        setIsPresentationMode((prev) => !prev);
+        setPresentationMode(!isPresentationMode);
+        return;
+      }
+
+      // G key toggles the overview grid (not available in presentation mode)
+      if (
+        (e.key === 'g' || e.key === 'G') &&
+        !e.ctrlKey &&
+        !e.metaKey &&
+        !e.altKey &&
+        !isPresentationMode
+      ) {
+        setIsOverviewOpen((open) => !open);
+        return;
+      }
+
+      // Escape closes the overview grid first, then exits presentation mode
+      if (e.key === 'Escape' && isOverviewOpen && !isPresentationMode) {
+        setIsOverviewOpen(false);
         return;
       }
 
       // Escape exits presentation mode
       if (e.key === 'Escape' && isPresentationMode) {
-        setIsPresentationMode(false);
+        setPresentationMode(false);
         return;
       }
 
@@ -194,7 +286,7 @@ export function PresentationPage() {
           break;
       }
     },
-    [isPresentationMode, navigateToAsset]
+    [isPresentationMode, isOverviewOpen, setPresentationMode, navigateToAsset]
   );
 
   // Window-level keyboard listener
@@ -203,14 +295,17 @@ export function PresentationPage() {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [handleKeyDown]);
 
-  // Tab index navigation: find asset by filename and select it
+  // Tab index navigation: find asset by relative path (falling back to bare filename) and select it
   const handleTabNavigate = useCallback(
     (filename: string) => {
       if (!presentation) return;
-      const asset = presentation.assets.find((a) => a.filename === filename);
-      if (asset) setSelectedAssetId(asset.id);
+      const baseName = filename.split('/').pop();
+      const asset =
+        presentation.assets.find((a) => a.filename === filename) ??
+        presentation.assets.find((a) => a.filename.split('/').pop() === baseName);
+      if (asset) selectAsset(asset.id);
     },
-    [presentation]
+    [presentation, selectAsset]
   );
 
   const handleBack = () => {
@@ -218,14 +313,15 @@ export function PresentationPage() {
   };
 
   const handleSelectAsset = (_presentationId: string, assetId: string) => {
-    setSelectedAssetId(assetId);
+    selectAsset(assetId);
+    setIsOverviewOpen(false);
     // BUG-13 fix: Don't clear activeContainerTabId - keep sidebar filtering active
   };
 
   // BUG-13: When clicking a tab, clear selected asset to show tab index
   const handleTabChange = (tabId: string | null) => {
     setActiveContainerTabId(tabId);
-    setSelectedAssetId(null); // Show tab index instead of asset
+    selectTab(tabId); // Clears the selected asset to show tab index instead
   };
 
   // Convert assets to quick filter items (using sidebar order)
@@ -237,8 +333,16 @@ export function PresentationPage() {
     }));
   }, [sidebarOrderedAssets]);
 
-  const handleQuickFilterSelect = (assetId: string) => {
-    setSelectedAssetId(assetId);
+  const handleQuickFilterSelect = (itemId: string) => {
+    // Full-text search results may point at a slide in another presentation
+    const searchTarget = parseSearchItemId(itemId);
+    if (searchTarget && searchTarget.presentationId !== id) {
+      navigate(buildSlideUrl(searchTarget.presentationId, { assetId: searchTarget.assetId }));
+      return;
+    }
+
+    const assetId = searchTarget?.assetId ?? itemId;
+    selectAsset(assetId);
 
     // BUG-6: Auto-expand collapsed group when selecting via quick filter
     const selectedAsset = sidebarOrderedAssets.find((a) => a.id === assetId);
@@ -308,7 +412,11 @@ export function PresentationPage() {
           title={presentation.name}
           showBack
           onBack={handleBack}
-          onTogglePresentationMode={() => setIsPresentationMode(true)}
+          onTogglePresentationMode={() => setPresentationMode(true)}
+          onOpenPresenterView={openPresenterView}
+          onToggleOverview={() => setIsOverviewOpen((open) => !open)}
+          isOverviewOpen={isOverviewOpen}
+          followMode={followMode}
           presentations={presentations}
           currentPresentationId={id}
         />
@@ -342,8 +450,19 @@ export function PresentationPage() {
           )}
 
           {/* Content Area */}
-          {/* Show tab index only when tab active AND no asset selected */}
-          {hasContainerTabs && activeContainerTab && !selectedAssetId ? (
+          {/* Overview grid replaces the viewer while open */}
+          {isOverviewOpen && !isPresentationMode ? (
+            <SlideOverview
+              presentation={presentation}
+              activeContainerTabId={activeContainerTabId}
+              selectedAssetId={selectedAssetId}
+              onOpenAsset={(assetId) => {
+                selectAsset(assetId);
+                setIsOverviewOpen(false);
+              }}
+            />
+          ) : hasContainerTabs && activeContainerTab && !selectedAssetId ? (
+            // Show tab index only when tab active AND no asset selected
             // Container tab mode: fetch index file and render via harness
             containerTabContent ? (
               <HarnessViewer
@@ -363,10 +482,14 @@ export function PresentationPage() {
               <LoadingSpinner message="Loading asset..." />
             </div>
           ) : assetData ? (
-            // Regular mode: Asset content via harness
+            // Regular mode: Asset content via harness (base URL is the asset's own folder)
             <HarnessViewer
               content={assetData.content}
-              baseUrl={`/presentations/${id}/`}
+              baseUrl={
+                assetData.asset.folder
+                  ? `/presentations/${id}/${assetData.asset.folder}/`
+                  : `/presentations/${id}/`
+              }
               presentationMode={isPresentationMode}
               viewportLock={presentation.assets.find((a) => a.id === selectedAssetId)?.viewportLock}
             />
@@ -381,12 +504,12 @@ export function PresentationPage() {
           )}
 
           {/* Progress indicator - hidden in presentation mode and container tab mode */}
-          {!hasContainerTabs && assetData && progressIndicator}
+          {!hasContainerTabs && assetData && !isOverviewOpen && progressIndicator}
 
           {/* Hover-only exit button in presentation mode */}
           {isPresentationMode && (
             <button
-              onClick={() => setIsPresentationMode(false)}
+              onClick={() => setPresentationMode(false)}
               className="absolute top-3 right-3 z-10 p-2 rounded-lg opacity-0 hover:opacity-100 bg-black/50 text-white transition-opacity duration-200"
               title="Exit presentation mode (Esc)"
             >
@@ -413,7 +536,10 @@ export function PresentationPage() {
         onClose={closeQuickFilter}
         items={quickFilterItems}
         onSelect={handleQuickFilterSelect}
-        placeholder="Search assets..."
+        placeholder="Search assets and slide content..."
+        onQueryChange={slideSearch.setQuery}
+        searchItems={slideSearch.items}
+        isSearching={slideSearch.isSearching}
       />
     </div>
   );
@@ -0,0 +1,273 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { usePresentation } from '../hooks/usePresentations';
+import { usePresentationRoom, usePresentationUpdates } from '../hooks/useSocket';
+import { usePresenterSync } from '../hooks/usePresenterSync';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import { EmptyState } from '../components/ui/EmptyState';
+import {
+  PRESENTER_SESSION_PARAM,
+  formatElapsed,
+  resolvePresenterSlides,
+  type PresenterView,
+} from '../utils/presenter';
+
+/**
+ * Presenter view, opened in a second window from PresentationPage.
+ * Shows the current slide, a preview of the next one, speaker notes (FR-29),
+ * an elapsed timer and a slide counter.
+ *
+ * The window is paired with its audience window via ?session=<key>; navigating
+ * in either one moves both (see usePresenterSync).
+ *
+ * Keyboard shortcuts:
+ * - Ctrl+Left/Right, ArrowLeft/Right, PageUp/PageDown, Space: Previous/next slide
+ *   (slides are previews here, so plain keys and presentation clickers are safe)
+ * - Ctrl+Home/End: Jump to first/last slide
+ */
+export function PresenterPage() {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const session = searchParams.get(PRESENTER_SESSION_PARAM);
+  const { data: presentation, isLoading, error } = usePresentation(id);
+
+  const [view, setView] = useState<PresenterView>({ assetId: null, tabId: null });
+  const [startedAt, setStartedAt] = useState(() => Date.now());
+  const [pausedAt, setPausedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  usePresentationRoom(id || null);
+  usePresentationUpdates();
+  usePresenterSync(id, session, view, setView);
+
+  // Tick once a second for the timer and clock
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Without a tab from the audience window, start on the first container tab
+  const effectiveView = useMemo((): PresenterView => {
+    if (view.tabId || !presentation?.tabs?.length) return view;
+    const [firstTab] = [...presentation.tabs].sort((a, b) => a.order - b.order);
+    return { ...view, tabId: firstTab.id };
+  }, [view, presentation]);
+
+  const slides = useMemo(
+    () => (presentation ? resolvePresenterSlides(presentation, effectiveView) : null),
+    [presentation, effectiveView]
+  );
+
+  const navigateTo = useCallback(
+    (direction: 'prev' | 'next' | 'first' | 'last') => {
+      if (!slides || slides.order.length === 0) return;
+      // A tab index page sits before the first slide
+      if (slides.index < 0 && direction === 'prev') return;
+      const last = slides.order.length - 1;
+      const target = {
+        prev: Math.max(0, slides.index - 1),
+        next: Math.min(last, slides.index + 1),
+        first: 0,
+        last,
+      }[direction];
+      const asset = slides.order[target];
+      if (asset.id !== effectiveView.assetId) {
+        setView({ assetId: asset.id, tabId: effectiveView.tabId });
+      }
+    },
+    [slides, effectiveView]
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const withModifier = e.ctrlKey || e.metaKey;
+      switch (e.key) {
+        case 'ArrowLeft':
+        case 'PageUp':
+          e.preventDefault();
+          navigateTo('prev');
+          break;
+        case 'ArrowRight':
+        case 'PageDown':
+        case ' ':
+          e.preventDefault();
+          navigateTo('next');
+          break;
+        case 'Home':
+          if (withModifier) {
+            e.preventDefault();
+            navigateTo('first');
+          }
+          break;
+        case 'End':
+          if (withModifier) {
+            e.preventDefault();
+            navigateTo('last');
+          }
+          break;
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [navigateTo]);
+
+  const elapsed = (pausedAt ?? now) - startedAt;
+
+  const togglePause = () => {
+    if (pausedAt === null) {
+      setPausedAt(Date.now());
+    } else {
+      setStartedAt((prev) => prev + (Date.now() - pausedAt));
+      setPausedAt(null);
+    }
+  };
+
+  const resetTimer = () => {
+    setStartedAt(Date.now());
+    setNow(Date.now());
+    setPausedAt((prev) => (prev === null ? null : Date.now()));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-slate-900">
+        <LoadingSpinner message="Loading presentation..." />
+      </div>
+    );
+  }
+
+  if (error || !presentation || !slides) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-slate-900">
+        <EmptyState
+          title="Presentation not found"
+          description="The requested presentation could not be loaded."
+        />
+      </div>
+    );
+  }
+
+  const slideUrl = (file: string) => `/presentations/${id}/${file}`;
+  const position = slides.index >= 0 ? slides.index + 1 : 0;
+
+  return (
+    <div className="flex flex-col h-screen bg-slate-900 text-white">
+      {/* Status bar: deck, counter, timer, clock */}
+      <header
+        className="px-4 py-2 flex items-center gap-6 border-b"
+        style={{ backgroundColor: '#3d3535', borderColor: '#4a4040' }}
+      >
+        <span
+          className="text-lg font-semibold truncate"
+          style={{ fontFamily: "'Oswald', Arial, sans-serif", textTransform: 'uppercase' }}
+        >
+          {presentation.name}
+        </span>
+        <span className="text-sm" style={{ color: '#ccba9d' }}>
+          Slide {position} / {slides.order.length}
+        </span>
+        <div className="ml-auto flex items-center gap-3">
+          <span
+            className="text-2xl tabular-nums"
+            style={{ color: pausedAt === null ? '#ffde59' : '#595959' }}
+            title="Elapsed time"
+          >
+            {formatElapsed(elapsed)}
+          </span>
+          <button
+            onClick={togglePause}
+            className="px-2 py-1 rounded text-sm"
+            style={{ backgroundColor: '#4a4040', color: '#ccba9d' }}
+          >
+            {pausedAt === null ? 'Pause' : 'Resume'}
+          </button>
+          <button
+            onClick={resetTimer}
+            className="px-2 py-1 rounded text-sm"
+            style={{ backgroundColor: '#4a4040', color: '#ccba9d' }}
+          >
+            Reset
+          </button>
+          <span className="text-sm tabular-nums" style={{ color: '#ccba9d' }} title="Clock">
+            {new Date(now).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </span>
+        </div>
+      </header>
+
+      {!session && (
+        <div className="px-4 py-1 text-sm bg-amber-900/60 text-amber-100">
+          Not paired with an audience window - open the presenter view from a presentation to keep
+          both in sync.
+        </div>
+      )}
+
+      <div className="flex-1 flex gap-4 p-4 min-h-0">
+        {/* Current slide */}
+        <section className="flex-[2] flex flex-col min-w-0">
+          <h2 className="text-sm mb-2 truncate" style={{ color: '#ccba9d' }}>
+            Current: {slides.currentName}
+          </h2>
+          <div className="flex-1 rounded-lg overflow-hidden bg-black">
+            {slides.currentFile && (
+              <iframe
+                key={slides.currentFile}
+                src={slideUrl(slides.currentFile)}
+                title="Current slide"
+                className="w-full h-full border-0"
+              />
+            )}
+          </div>
+        </section>
+
+        {/* Next slide preview and notes */}
+        <aside className="flex-1 flex flex-col gap-4 min-w-0">
+          <div>
+            <h2 className="text-sm mb-2 truncate" style={{ color: '#ccba9d' }}>
+              Next: {slides.next ? slides.next.name : 'End of presentation'}
+            </h2>
+            <div className="relative aspect-video rounded-lg overflow-hidden bg-black">
+              {slides.next && (
+                <iframe
+                  key={slides.next.filename}
+                  src={slideUrl(slides.next.filename)}
+                  title="Next slide"
+                  tabIndex={-1}
+                  className="absolute top-0 left-0 border-0 pointer-events-none origin-top-left"
+                  style={{ width: '200%', height: '200%', transform: 'scale(0.5)' }}
+                />
+              )}
+            </div>
+          </div>
+
+          <div className="flex-1 flex flex-col min-h-0">
+            <h2 className="text-sm mb-2" style={{ color: '#ccba9d' }}>
+              Notes
+            </h2>
+            <div className="flex-1 overflow-y-auto rounded-lg p-4 bg-slate-800 text-lg leading-relaxed whitespace-pre-wrap">
+              {slides.notes ?? <span className="text-slate-500">No notes for this slide.</span>}
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => navigateTo('prev')}
+              disabled={slides.index <= 0}
+              className="flex-1 py-2 rounded-lg disabled:opacity-40"
+              style={{ backgroundColor: '#4a4040', color: '#ffffff' }}
+            >
+              ← Previous
+            </button>
+            <button
+              onClick={() => navigateTo('next')}
+              disabled={!slides.next}
+              className="flex-1 py-2 rounded-lg disabled:opacity-40"
+              style={{ backgroundColor: '#ffde59', color: '#342d2d' }}
+            >
+              Next →
+            </button>
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+}
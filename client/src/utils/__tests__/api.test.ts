@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { FliDeckClient } from '@flideck/shared';
+import { api, ConflictError, FliDeckApiError, presentationIdFromEndpoint } from '../api';
+
+function respond(status: number, body: unknown, etag?: string): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: etag ? { ETag: etag } : {},
+  });
+}
+
+function sentHeaders(fetchMock: ReturnType<typeof vi.fn>, call: number): Record<string, string> {
+  return fetchMock.mock.calls[call][1].headers;
+}
+
+describe('presentationIdFromEndpoint()', () => {
+  it('extracts the presentation ID from presentation endpoints', () => {
+    expect(presentationIdFromEndpoint('/api/presentations/deck')).toBe('deck');
+    expect(presentationIdFromEndpoint('/api/presentations/deck/order')).toBe('deck');
+    expect(presentationIdFromEndpoint('/api/presentations/my%20deck/groups')).toBe('my deck');
+    expect(presentationIdFromEndpoint('/api/presentations/deck?refresh=1')).toBe('deck');
+  });
+
+  it('returns null for other endpoints', () => {
+    expect(presentationIdFromEndpoint('/api/presentations')).toBeNull();
+    expect(presentationIdFromEndpoint('/api/config')).toBeNull();
+  });
+});
+
+describe('api If-Match handling', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends the last manifest ETag as If-Match and ignores weak ETags', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(respond(200, { success: true, data: {} }, '"v1"'))
+      .mockResolvedValueOnce(respond(200, { success: true, data: {} }, 'W/"body"'))
+      .mockResolvedValueOnce(respond(200, { success: true, data: {} }, '"v2"'))
+      .mockResolvedValueOnce(respond(200, { success: true, data: {} }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await api.getPresentation('etag-deck');
+    await api.lintSlide('etag-deck', 'intro');
+    await api.updateAssetOrder('etag-deck', { order: [] });
+    await api.updateAssetOrder('etag-deck', { order: [] }, { force: true });
+
+    expect(sentHeaders(fetchMock, 0)['If-Match']).toBeUndefined();
+    expect(sentHeaders(fetchMock, 2)['If-Match']).toBe('"v1"');
+    expect(sentHeaders(fetchMock, 2)['Content-Type']).toBe('application/json');
+    expect(sentHeaders(fetchMock, 3)['If-Match']).toBe('*');
+  });
+
+  it('throws a ConflictError on 412', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi
+        .fn()
+        .mockResolvedValueOnce(respond(200, { success: true, data: {} }, '"v1"'))
+        .mockResolvedValueOnce(respond(412, { success: false, error: 'Precondition failed' }))
+    );
+
+    await api.getPresentation('conflict-deck');
+    const error = await api.deleteGroup('conflict-deck', 'intro').catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error).toMatchObject({
+      message: 'Precondition failed',
+      presentationId: 'conflict-deck',
+    });
+  });
+});
+
+describe('FliDeckClient', () => {
+  function clientWith(...responses: Response[]) {
+    const fetchMock = vi.fn();
+    for (const response of responses) fetchMock.mockResolvedValueOnce(response);
+    return {
+      client: new FliDeckClient({ baseUrl: 'http://flideck.test/', fetch: fetchMock }),
+      fetchMock,
+    };
+  }
+
+  it('unwraps the response envelope', async () => {
+    const { client } = clientWith(respond(200, { success: true, data: [{ id: 'deck' }] }));
+    await expect(client.listPresentations()).resolves.toEqual([{ id: 'deck' }]);
+  });
+
+  it('encodes path segments and query parameters', async () => {
+    const { client, fetchMock } = clientWith(
+      respond(200, { success: true, data: null }),
+      respond(200, { success: true, data: { results: [] } })
+    );
+
+    await client.deleteTab('archive:deck', 'a/b', { strategy: 'reparent:main' });
+    await client.search('kick off', { limit: 5 });
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'http://flideck.test/api/presentations/archive%3Adeck/tabs/a%2Fb?strategy=reparent%3Amain'
+    );
+    expect(fetchMock.mock.calls[0][1].method).toBe('DELETE');
+    expect(fetchMock.mock.calls[1][0]).toBe('http://flideck.test/api/search?q=kick+off&limit=5');
+  });
+
+  it('sends JSON Patch operations with their media type', async () => {
+    const { client, fetchMock } = clientWith(respond(200, { success: true, data: {} }));
+
+    await client.patchManifest('deck', [{ op: 'remove', path: '/slides/0' }], { dryRun: true });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://flideck.test/api/presentations/deck/manifest?dryRun=true');
+    expect(init.headers['Content-Type']).toBe('application/json-patch+json');
+    expect(JSON.parse(init.body)).toEqual([{ op: 'remove', path: '/slides/0' }]);
+  });
+
+  it('throws a FliDeckApiError with the status and field errors', async () => {
+    const errors = [{ path: 'file', message: 'is required' }];
+    const { client } = clientWith(
+      respond(400, { success: false, error: 'Invalid request body: file is required', errors })
+    );
+
+    const error = await client.addSlide('deck', { file: '' }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(FliDeckApiError);
+    expect(error).not.toBeInstanceOf(ConflictError);
+    expect(error).toMatchObject({
+      message: 'Invalid request body: file is required',
+      status: 400,
+      errors,
+    });
+  });
+
+  it('reports responses that are not JSON by status', async () => {
+    const { client } = clientWith(new Response('Bad gateway', { status: 502 }));
+
+    await expect(client.getConfig()).rejects.toMatchObject({
+      message: 'Request failed: 502',
+      status: 502,
+      errors: [],
+    });
+  });
+});
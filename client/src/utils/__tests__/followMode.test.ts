@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import type { FollowState } from '@flideck/shared';
+import { followViewKey, getFollowStatus } from '../followMode';
+
+function state(leaderId: string | null): FollowState {
+  return {
+    presentationId: 'deck',
+    leaderId,
+    assetId: 'intro',
+    tabId: null,
+    presentationMode: false,
+  };
+}
+
+describe('getFollowStatus', () => {
+  it('is idle when nobody leads', () => {
+    expect(getFollowStatus(null, 'me', true)).toBe('idle');
+    expect(getFollowStatus(state(null), 'me', true)).toBe('idle');
+  });
+
+  it('is leading when this socket leads', () => {
+    expect(getFollowStatus(state('me'), 'me', false)).toBe('leading');
+  });
+
+  it('follows another leader unless following was turned off', () => {
+    expect(getFollowStatus(state('other'), 'me', true)).toBe('following');
+    expect(getFollowStatus(state('other'), 'me', false)).toBe('detached');
+  });
+
+  it('never treats a disconnected socket as the leader', () => {
+    expect(getFollowStatus(state('other'), undefined, true)).toBe('following');
+  });
+});
+
+describe('followViewKey', () => {
+  it('distinguishes slide, tab and presentation mode', () => {
+    const view = { assetId: 'a', tabId: null, presentationMode: false };
+    const keys = new Set([
+      followViewKey(view),
+      followViewKey({ ...view, assetId: null, tabId: 'a' }),
+      followViewKey({ ...view, presentationMode: true }),
+    ]);
+    expect(keys.size).toBe(3);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import type { SlideLintResult } from '@flideck/shared';
+import { getLintBadge, indexLintResults } from '../lint';
+
+function result(extra: Partial<SlideLintResult> = {}): SlideLintResult {
+  return { assetId: 'intro', filename: 'intro.html', issues: [], errors: 0, warnings: 0, ...extra };
+}
+
+describe('indexLintResults', () => {
+  it('indexes slides by asset ID and tolerates a missing response', () => {
+    const map = indexLintResults({
+      presentationId: 'deck',
+      slides: [result(), result({ assetId: 'outro', filename: 'outro.html' })],
+      errors: 0,
+      warnings: 0,
+    });
+    expect([...map.keys()]).toEqual(['intro', 'outro']);
+    expect(indexLintResults(undefined).size).toBe(0);
+  });
+});
+
+describe('getLintBadge', () => {
+  it('returns null for clean or unknown slides', () => {
+    expect(getLintBadge(result())).toBeNull();
+    expect(getLintBadge(undefined)).toBeNull();
+  });
+
+  it('counts errors before warnings and lists every issue in the title', () => {
+    const badge = getLintBadge(
+      result({
+        issues: [
+          { rule: 'global-reset', severity: 'error', message: 'Global reset', line: 3 },
+          { rule: 'position-fixed', severity: 'warning', message: 'Fixed', line: 9 },
+        ],
+        errors: 1,
+        warnings: 1,
+      })
+    );
+
+    expect(badge).toEqual({
+      severity: 'error',
+      count: 1,
+      title: 'Line 3 (error): Global reset\nLine 9 (warning): Fixed',
+    });
+  });
+
+  it('counts warnings when there are no errors', () => {
+    const badge = getLintBadge(
+      result({
+        issues: [{ rule: 'position-fixed', severity: 'warning', message: 'Fixed', line: 2 }],
+        warnings: 1,
+      })
+    );
+    expect(badge).toMatchObject({ severity: 'warning', count: 1 });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import type { Asset, Presentation } from '@flideck/shared';
+import { buildOverviewSections, moveAssetOrder } from '../overview';
+
+function asset(id: string, group?: string): Asset {
+  return {
+    id,
+    name: id,
+    filename: `${id}.html`,
+    relativePath: `${id}.html`,
+    isIndex: id === 'index',
+    createdAt: 0,
+    lastModified: 0,
+    group,
+  };
+}
+
+const assets = [
+  asset('index'),
+  asset('intro'),
+  asset('a1', 'ga'),
+  asset('a2', 'ga'),
+  asset('b1', 'gb'),
+];
+
+const deck: Presentation = {
+  id: 'deck',
+  name: 'Deck',
+  path: '/decks/deck',
+  assets,
+  lastModified: 0,
+  groups: { ga: { label: 'Group A', order: 2 }, gb: { label: 'Group B', order: 1 } },
+};
+
+describe('buildOverviewSections', () => {
+  it('splits sidebar order into sections by group', () => {
+    const sections = buildOverviewSections(deck, null);
+    expect(sections.map((s) => s.label)).toEqual([null, 'Group B', 'Group A']);
+    expect(sections[0].assets.map((a) => a.id)).toEqual(['index', 'intro']);
+    expect(sections[2].assets.map((a) => a.id)).toEqual(['a1', 'a2']);
+  });
+
+  it('filters by container tab', () => {
+    const tabbed: Presentation = {
+      ...deck,
+      tabs: [{ id: 't', label: 'Tab', file: 'index.html', order: 1 }],
+      groups: {
+        ga: { label: 'Group A', order: 1, tabId: 't' },
+        gb: { label: 'B', order: 2, tabId: 'other' },
+      },
+    };
+    const ids = buildOverviewSections(tabbed, 't').flatMap((s) => s.assets.map((a) => a.id));
+    expect(ids).toEqual(['intro', 'a1', 'a2']);
+  });
+});
+
+describe('moveAssetOrder', () => {
+  it('moves the dragged asset to the target position', () => {
+    expect(moveAssetOrder(assets, 'a2', 'a1')).toEqual([
+      'index.html',
+      'intro.html',
+      'a2.html',
+      'a1.html',
+      'b1.html',
+    ]);
+  });
+
+  it('rejects no-op and cross-group drops', () => {
+    expect(moveAssetOrder(assets, 'a1', 'a1')).toBeNull();
+    expect(moveAssetOrder(assets, 'a1', 'b1')).toBeNull();
+    expect(moveAssetOrder(assets, 'missing', 'a1')).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import type { Asset, Presentation } from '@flideck/shared';
+import {
+  buildPresenterUrl,
+  formatElapsed,
+  presenterViewKey,
+  resolvePresenterSlides,
+} from '../presenter';
+
+function asset(id: string, extra: Partial<Asset> = {}): Asset {
+  return {
+    id,
+    name: id,
+    filename: `${id}.html`,
+    relativePath: `${id}.html`,
+    isIndex: id === 'index',
+    createdAt: 0,
+    lastModified: 0,
+    ...extra,
+  };
+}
+
+function presentation(assets: Asset[], extra: Partial<Presentation> = {}): Presentation {
+  return { id: 'deck', name: 'Deck', path: '/decks/deck', assets, lastModified: 0, ...extra };
+}
+
+// ─── buildPresenterUrl / presenterViewKey ────────────────────────────────────
+
+describe('buildPresenterUrl', () => {
+  it('encodes the presentation id and session', () => {
+    expect(buildPresenterUrl('archive:my deck', 'k1')).toBe(
+      '/presenter/archive%3Amy%20deck?session=k1'
+    );
+  });
+});
+
+describe('presenterViewKey', () => {
+  it('distinguishes tab and asset', () => {
+    expect(presenterViewKey({ assetId: 'a', tabId: null })).not.toBe(
+      presenterViewKey({ assetId: null, tabId: 'a' })
+    );
+  });
+});
+
+// ─── formatElapsed ───────────────────────────────────────────────────────────
+
+describe('formatElapsed', () => {
+  it('formats minutes and seconds', () => {
+    expect(formatElapsed(0)).toBe('0:00');
+    expect(formatElapsed(65_400)).toBe('1:05');
+  });
+
+  it('adds hours from one hour', () => {
+    expect(formatElapsed(3_725_000)).toBe('1:02:05');
+  });
+});
+
+// ─── resolvePresenterSlides ──────────────────────────────────────────────────
+
+describe('resolvePresenterSlides', () => {
+  const deck = presentation([
+    asset('index'),
+    asset('intro', { notes: 'Welcome everyone' }),
+    asset('outro'),
+  ]);
+
+  it('returns current notes and the next slide in sidebar order', () => {
+    const slides = resolvePresenterSlides(deck, { assetId: 'intro', tabId: null });
+    expect(slides.currentFile).toBe('intro.html');
+    expect(slides.notes).toBe('Welcome everyone');
+    expect(slides.next?.id).toBe('outro');
+    expect(slides.index).toBe(1);
+  });
+
+  it('defaults to the index asset and has no next slide at the end', () => {
+    expect(resolvePresenterSlides(deck, { assetId: null, tabId: null }).currentFile).toBe(
+      'index.html'
+    );
+    expect(resolvePresenterSlides(deck, { assetId: 'outro', tabId: null }).next).toBeNull();
+  });
+
+  it('shows the tab index page when a tab is active and no asset is selected', () => {
+    const tabbed = presentation([asset('index-a'), asset('a1', { group: 'ga' })], {
+      tabs: [{ id: 'a', label: 'Tab A', file: 'index-a.html', order: 1 }],
+      groups: { ga: { label: 'Group A', order: 1, tabId: 'a' } },
+    });
+
+    const slides = resolvePresenterSlides(tabbed, { assetId: null, tabId: 'a' });
+    expect(slides.currentFile).toBe('index-a.html');
+    expect(slides.currentName).toBe('Tab A');
+    expect(slides.next?.id).toBe('a1');
+    expect(slides.index).toBe(-1);
+  });
+});
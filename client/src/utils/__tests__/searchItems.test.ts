@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { toSearchItemId, parseSearchItemId, splitHighlights } from '../searchItems';
+
+// ─── search item IDs ─────────────────────────────────────────────────────────
+
+describe('toSearchItemId / parseSearchItemId', () => {
+  it('round-trips presentation and asset ids', () => {
+    const id = toSearchItemId({ presentationId: 'archive:deck', assetId: 'part-1--intro' });
+    expect(parseSearchItemId(id)).toEqual({
+      presentationId: 'archive:deck',
+      assetId: 'part-1--intro',
+    });
+  });
+
+  it('escapes slashes so ids cannot be split in the wrong place', () => {
+    const id = toSearchItemId({ presentationId: 'a/b', assetId: 'c' });
+    expect(parseSearchItemId(id)).toEqual({ presentationId: 'a/b', assetId: 'c' });
+  });
+
+  it('returns null for plain asset ids', () => {
+    expect(parseSearchItemId('intro')).toBeNull();
+  });
+});
+
+// ─── splitHighlights ─────────────────────────────────────────────────────────
+
+describe('splitHighlights', () => {
+  it('splits text into plain and highlighted runs', () => {
+    expect(splitHighlights('our enterprise plan', [{ start: 4, end: 14 }])).toEqual([
+      { text: 'our ', highlighted: false },
+      { text: 'enterprise', highlighted: true },
+      { text: ' plan', highlighted: false },
+    ]);
+  });
+
+  it('returns the whole text when there are no highlights', () => {
+    expect(splitHighlights('plain', [])).toEqual([{ text: 'plain', highlighted: false }]);
+  });
+
+  it('skips overlapping or out-of-range highlights', () => {
+    expect(
+      splitHighlights('abcdef', [
+        { start: 0, end: 3 },
+        { start: 2, end: 4 },
+        { start: 5, end: 20 },
+      ])
+    ).toEqual([
+      { text: 'abc', highlighted: true },
+      { text: 'def', highlighted: false },
+    ]);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { buildSlideUrl, parseSlideSearch } from '../slideRoute';
+
+// ─── buildSlideUrl ───────────────────────────────────────────────────────────
+
+describe('buildSlideUrl', () => {
+  it('returns the bare presentation path when no state is given', () => {
+    expect(buildSlideUrl('my-deck')).toBe('/presentation/my-deck');
+  });
+
+  it('appends the asset as a path segment', () => {
+    expect(buildSlideUrl('my-deck', { assetId: 'intro' })).toBe('/presentation/my-deck/intro');
+  });
+
+  it('encodes tab and presentation mode as query params', () => {
+    expect(
+      buildSlideUrl('my-deck', { assetId: 'intro', tabId: 'tab-a', presentationMode: true })
+    ).toBe('/presentation/my-deck/intro?tab=tab-a&mode=present');
+  });
+
+  it('omits null asset and tab values', () => {
+    expect(buildSlideUrl('my-deck', { assetId: null, tabId: null, presentationMode: false })).toBe(
+      '/presentation/my-deck'
+    );
+  });
+
+  it('URL-encodes presentation and asset ids', () => {
+    expect(buildSlideUrl('my deck', { assetId: 'a/b' })).toBe('/presentation/my%20deck/a%2Fb');
+  });
+});
+
+// ─── parseSlideSearch ────────────────────────────────────────────────────────
+
+describe('parseSlideSearch', () => {
+  it('reads tab and presentation mode', () => {
+    expect(parseSlideSearch(new URLSearchParams('tab=tab-b&mode=present'))).toEqual({
+      tabId: 'tab-b',
+      presentationMode: true,
+    });
+  });
+
+  it('defaults to no tab and normal mode', () => {
+    expect(parseSlideSearch(new URLSearchParams(''))).toEqual({
+      tabId: null,
+      presentationMode: false,
+    });
+  });
+
+  it('ignores unknown mode values', () => {
+    expect(parseSlideSearch(new URLSearchParams('mode=edit')).presentationMode).toBe(false);
+  });
+
+  it('round-trips through buildSlideUrl', () => {
+    const url = buildSlideUrl('deck', { assetId: 'slide-2', tabId: 't1', presentationMode: true });
+    const search = new URLSearchParams(url.split('?')[1]);
+    expect(parseSlideSearch(search)).toEqual({ tabId: 't1', presentationMode: true });
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import type { WatcherHealth, WatcherStatus } from '@flideck/shared';
+import { getWatcherWarning } from '../watcher';
+
+function status(overrides: Partial<WatcherStatus>): WatcherStatus {
+  return {
+    name: 'root:local',
+    path: '/decks',
+    state: 'watching',
+    mode: 'native',
+    fallback: false,
+    lastEventAt: null,
+    errorCount: 0,
+    lastError: null,
+    restarts: 0,
+    ...overrides,
+  };
+}
+
+describe('getWatcherWarning()', () => {
+  it('returns null while watching is healthy', () => {
+    expect(getWatcherWarning(null)).toBeNull();
+    expect(getWatcherWarning({ degraded: false, watchers: [status({})] })).toBeNull();
+  });
+
+  it('names restarting watchers before polling fallbacks', () => {
+    const health: WatcherHealth = {
+      degraded: true,
+      watchers: [
+        status({ name: 'root:a', state: 'restarting' }),
+        status({ name: 'root:b', mode: 'polling', fallback: true }),
+      ],
+    };
+    expect(getWatcherWarning(health)).toMatch(/interrupted \(root:a\) - restarting/);
+
+    health.watchers[0].state = 'watching';
+    expect(getWatcherWarning(health)).toMatch(/fell back to polling \(root:b\)/);
+  });
+});
@@ -1,61 +1,14 @@
+import { FliDeckClient } from '@flideck/shared';
 import { API_URL } from '../config';
-import type { ApiResponse } from '@flideck/shared';
+
+export {
+  ConflictError,
+  FliDeckApiError,
+  presentationIdFromEndpoint,
+  type MutationOptions,
+} from '@flideck/shared';
 
 /**
- * API client for FliDeck backend.
- * Provides typed methods for all API endpoints.
+ * API client for the FliDeck backend (see FliDeckClient in @flideck/shared).
  */
-class ApiClient {
-  private baseUrl: string;
-
-  constructor(baseUrl: string) {
-    this.baseUrl = baseUrl;
-  }
-
-  /**
-   * Make an HTTP request and return typed data.
-   */
-  async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
-
-    const response = await fetch(url, {
-      headers: {
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
-      ...options,
-    });
-
-    const data: ApiResponse<T> = await response.json();
-
-    if (!response.ok || !data.success) {
-      throw new Error(data.error || `Request failed: ${response.status}`);
-    }
-
-    return data.data as T;
-  }
-
-  async get<T>(endpoint: string): Promise<T> {
-    return this.request<T>(endpoint, { method: 'GET' });
-  }
-
-  async post<T>(endpoint: string, body?: unknown): Promise<T> {
-    return this.request<T>(endpoint, {
-      method: 'POST',
-      body: body ? JSON.stringify(body) : undefined,
-    });
-  }
-
-  async put<T>(endpoint: string, body?: unknown): Promise<T> {
-    return this.request<T>(endpoint, {
-      method: 'PUT',
-      body: body ? JSON.stringify(body) : undefined,
-    });
-  }
-
-  async delete<T>(endpoint: string): Promise<T> {
-    return this.request<T>(endpoint, { method: 'DELETE' });
-  }
-}
-
-export const api = new ApiClient(API_URL);
+export const api = new FliDeckClient({ baseUrl: API_URL });
@@ -4,6 +4,9 @@
 export const queryKeys = {
   presentations: ['presentations'] as const,
   presentation: (id: string) => ['presentations', id] as const,
+  presentationLint: (id: string) => ['presentations', id, 'lint'] as const,
   asset: (presentationId: string, assetId: string) => ['assets', presentationId, assetId] as const,
   config: ['config'] as const,
+  searchAll: ['search'] as const,
+  search: (query: string) => ['search', query] as const,
 } as const;
@@ -0,0 +1,30 @@
+import type { FollowState, FollowView } from '@flideck/shared';
+
+/**
+ * Where this client stands in its presentation room's follow-me session:
+ * - idle: nobody leads
+ * - leading: this client's navigation is broadcast to the room
+ * - following: another client leads and this one mirrors it
+ * - detached: another client leads but this one stopped following
+ */
+export type FollowStatus = 'idle' | 'leading' | 'following' | 'detached';
+
+/**
+ * Derive this client's follow status from the room state.
+ */
+export function getFollowStatus(
+  state: FollowState | null,
+  socketId: string | undefined,
+  following: boolean
+): FollowStatus {
+  if (!state?.leaderId) return 'idle';
+  if (socketId && state.leaderId === socketId) return 'leading';
+  return following ? 'following' : 'detached';
+}
+
+/**
+ * Stable comparison key for a view (used to skip no-op navigation).
+ */
+export function followViewKey(view: FollowView): string {
+  return `${view.tabId ?? ''}/${view.assetId ?? ''}/${view.presentationMode ? 'present' : ''}`;
+}
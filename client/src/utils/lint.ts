@@ -0,0 +1,42 @@
+import type { PresentationLintResponse, SlideLintResult } from '@flideck/shared';
+
+/**
+ * Helpers for showing slide lint results (GET /api/presentations/:id/lint) in the sidebar.
+ */
+
+/**
+ * What a sidebar lint badge shows for a slide.
+ */
+export interface LintBadgeInfo {
+  severity: 'error' | 'warning';
+  /** Issue count shown in the badge */
+  count: number;
+  /** Tooltip: one line per issue */
+  title: string;
+}
+
+/**
+ * Index lint results by asset ID.
+ */
+export function indexLintResults(
+  response: PresentationLintResponse | undefined
+): Map<string, SlideLintResult> {
+  return new Map((response?.slides ?? []).map((slide) => [slide.assetId, slide]));
+}
+
+/**
+ * Describe the badge for a slide, or null when it has no issues.
+ * Errors take precedence: the badge counts errors if there are any, else warnings.
+ */
+export function getLintBadge(result: SlideLintResult | undefined): LintBadgeInfo | null {
+  if (!result || result.issues.length === 0) return null;
+
+  const severity = result.errors > 0 ? 'error' : 'warning';
+  return {
+    severity,
+    count: severity === 'error' ? result.errors : result.warnings,
+    title: result.issues
+      .map((issue) => `Line ${issue.line} (${issue.severity}): ${issue.message}`)
+      .join('\n'),
+  };
+}
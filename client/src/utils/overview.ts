@@ -0,0 +1,63 @@
+import { getSidebarOrder, type Asset, type Presentation } from '@flideck/shared';
+
+/**
+ * A run of consecutive overview tiles belonging to one sidebar group.
+ */
+export interface OverviewSection {
+  /** Group ID (null for root-level assets) */
+  groupId: string | null;
+  /** Heading shown above the tiles (null for root-level assets) */
+  label: string | null;
+  assets: Asset[];
+}
+
+/**
+ * Split the slides of the current container tab into sections by group,
+ * in sidebar order (so the grid reads the same as the sidebar).
+ */
+export function buildOverviewSections(
+  presentation: Presentation,
+  activeContainerTabId: string | null
+): OverviewSection[] {
+  const groups = presentation.groups || {};
+  const sections: OverviewSection[] = [];
+
+  for (const asset of getSidebarOrder(presentation, activeContainerTabId)) {
+    const groupId = asset.group || null;
+    const last = sections[sections.length - 1];
+    if (last && last.groupId === groupId) {
+      last.assets.push(asset);
+    } else {
+      const label = groupId ? (groups[groupId]?.label ?? groupId) : null;
+      sections.push({ groupId, label, assets: [asset] });
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Compute the manifest order after dropping one asset onto another, as the
+ * sidebar does: the dragged asset takes the target's position.
+ *
+ * Only moves within a group are supported here (the overview never changes
+ * group membership). Returns the new filename order for PUT /order, or null
+ * when the drop does not change anything.
+ */
+export function moveAssetOrder(
+  assets: Asset[],
+  draggedId: string,
+  targetId: string
+): string[] | null {
+  if (draggedId === targetId) return null;
+
+  const draggedIndex = assets.findIndex((a) => a.id === draggedId);
+  const targetIndex = assets.findIndex((a) => a.id === targetId);
+  if (draggedIndex === -1 || targetIndex === -1) return null;
+  if ((assets[draggedIndex].group || null) !== (assets[targetIndex].group || null)) return null;
+
+  const reordered = [...assets];
+  const [dragged] = reordered.splice(draggedIndex, 1);
+  reordered.splice(targetIndex, 0, dragged);
+  return reordered.map((a) => a.filename);
+}
@@ -0,0 +1,104 @@
+import { getSidebarOrder, type Asset, type Presentation } from '@flideck/shared';
+
+/**
+ * Helpers for the presenter view (/presenter/:id?session=<key>).
+ *
+ * A presenter window and the audience window that opened it share a session
+ * key; they exchange `presenter:*` socket events tagged with that key so that
+ * navigating in either window moves both.
+ */
+
+export const PRESENTER_SESSION_PARAM = 'session';
+
+/**
+ * The slide a window is showing, as exchanged over the socket.
+ */
+export interface PresenterView {
+  /** Selected asset (null = default view: tab index, or the index asset) */
+  assetId: string | null;
+  /** Active container tab (FR-24) */
+  tabId: string | null;
+}
+
+/**
+ * What the presenter window displays for a view.
+ */
+export interface PresenterSlides {
+  /** File shown as the current slide (relative to the presentation folder) */
+  currentFile: string | null;
+  currentName: string;
+  notes: string | null;
+  /** Upcoming asset in sidebar order */
+  next: Asset | null;
+  /** Assets navigable from this view (sidebar order, filtered by tab) */
+  order: Asset[];
+  /** Position of the current slide in `order` (-1 for a tab index page) */
+  index: number;
+}
+
+/**
+ * Build the presenter window URL for a presentation.
+ */
+export function buildPresenterUrl(presentationId: string, session: string): string {
+  const params = new URLSearchParams({ [PRESENTER_SESSION_PARAM]: session });
+  return `/presenter/${encodeURIComponent(presentationId)}?${params.toString()}`;
+}
+
+/**
+ * Stable comparison key for a view (used to avoid echoing remote navigation back).
+ */
+export function presenterViewKey(view: PresenterView): string {
+  return `${view.tabId ?? ''}/${view.assetId ?? ''}`;
+}
+
+/**
+ * Format elapsed milliseconds as M:SS, or H:MM:SS from one hour.
+ */
+export function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+/**
+ * Resolve the current slide, its notes and the next slide for a view.
+ * Mirrors PresentationPage: without a selected asset, tabbed presentations show
+ * the active tab's index page and others show the index asset.
+ */
+export function resolvePresenterSlides(
+  presentation: Presentation,
+  view: PresenterView
+): PresenterSlides {
+  const hasTabs = !!presentation.tabs && presentation.tabs.length > 0;
+  const order = getSidebarOrder(presentation, hasTabs ? view.tabId : null);
+
+  if (!view.assetId && hasTabs) {
+    const tab = presentation.tabs!.find((t) => t.id === view.tabId);
+    return {
+      currentFile: tab?.file ?? null,
+      currentName: tab?.label ?? '',
+      notes: null,
+      next: order[0] ?? null,
+      order,
+      index: -1,
+    };
+  }
+
+  const current =
+    presentation.assets.find((a) => a.id === view.assetId) ??
+    (view.assetId ? undefined : (presentation.assets.find((a) => a.isIndex) ?? order[0]));
+  const index = current ? order.findIndex((a) => a.id === current.id) : -1;
+
+  return {
+    currentFile: current?.filename ?? null,
+    currentName: current?.name ?? '',
+    notes: current?.notes ?? null,
+    next: index >= 0 ? (order[index + 1] ?? null) : null,
+    order,
+    index,
+  };
+}
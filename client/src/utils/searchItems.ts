@@ -0,0 +1,70 @@
+import type { SearchHighlight, SearchResult } from '@flideck/shared';
+
+/**
+ * Helpers for showing full-text search results (GET /api/search) in the QuickFilter.
+ */
+
+/** Prefix that keeps search item IDs apart from local asset/presentation IDs */
+const SEARCH_ITEM_PREFIX = 'search:';
+
+export interface SearchTarget {
+  presentationId: string;
+  assetId: string;
+}
+
+/**
+ * A run of snippet text, highlighted or not.
+ */
+export interface SnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Build the QuickFilter item ID for a search result.
+ */
+export function toSearchItemId(result: SearchTarget): string {
+  return `${SEARCH_ITEM_PREFIX}${encodeURIComponent(result.presentationId)}/${encodeURIComponent(result.assetId)}`;
+}
+
+/**
+ * Parse a QuickFilter item ID back into the slide it points at.
+ * Returns null for items that are not search results.
+ */
+export function parseSearchItemId(id: string): SearchTarget | null {
+  if (!id.startsWith(SEARCH_ITEM_PREFIX)) return null;
+
+  const [presentationId, assetId] = id.slice(SEARCH_ITEM_PREFIX.length).split('/');
+  if (!presentationId || !assetId) return null;
+
+  return {
+    presentationId: decodeURIComponent(presentationId),
+    assetId: decodeURIComponent(assetId),
+  };
+}
+
+/**
+ * Split a snippet into plain and highlighted runs.
+ * Highlights are expected sorted and non-overlapping (as returned by the server).
+ */
+export function splitHighlights(text: string, highlights: SearchHighlight[]): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  let cursor = 0;
+
+  for (const { start, end } of highlights) {
+    if (start < cursor || end > text.length) continue;
+    if (start > cursor) parts.push({ text: text.slice(cursor, start), highlighted: false });
+    parts.push({ text: text.slice(start, end), highlighted: true });
+    cursor = end;
+  }
+  if (cursor < text.length) parts.push({ text: text.slice(cursor), highlighted: false });
+
+  return parts;
+}
+
+/**
+ * Format a result's location for display (e.g., "Q3 Review › Budget").
+ */
+export function describeSearchResult(result: SearchResult): string {
+  return `${result.presentationName} › ${result.assetName}`;
+}
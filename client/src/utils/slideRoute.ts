@@ -0,0 +1,54 @@
+/**
+ * URL helpers for deep-linkable slides.
+ *
+ * A slide view is fully described by its URL:
+ *   /presentation/:id/:assetId?tab=<containerTabId>&mode=present
+ *
+ * - `assetId` (path) - the selected asset; omitted to show the default view
+ * - `tab` (query) - the active container tab (FR-24)
+ * - `mode=present` (query) - presentation mode is on
+ */
+
+export interface SlideRouteState {
+  assetId?: string | null;
+  tabId?: string | null;
+  presentationMode?: boolean;
+}
+
+export const SLIDE_ROUTE_TAB_PARAM = 'tab';
+export const SLIDE_ROUTE_MODE_PARAM = 'mode';
+export const SLIDE_ROUTE_PRESENT_MODE = 'present';
+
+/**
+ * Build the URL for a presentation view (path + query string).
+ */
+export function buildSlideUrl(presentationId: string, state: SlideRouteState = {}): string {
+  let path = `/presentation/${encodeURIComponent(presentationId)}`;
+  if (state.assetId) {
+    path += `/${encodeURIComponent(state.assetId)}`;
+  }
+
+  const params = new URLSearchParams();
+  if (state.tabId) {
+    params.set(SLIDE_ROUTE_TAB_PARAM, state.tabId);
+  }
+  if (state.presentationMode) {
+    params.set(SLIDE_ROUTE_MODE_PARAM, SLIDE_ROUTE_PRESENT_MODE);
+  }
+
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+/**
+ * Read container tab and presentation mode from the query string.
+ */
+export function parseSlideSearch(search: URLSearchParams): {
+  tabId: string | null;
+  presentationMode: boolean;
+} {
+  return {
+    tabId: search.get(SLIDE_ROUTE_TAB_PARAM) || null,
+    presentationMode: search.get(SLIDE_ROUTE_MODE_PARAM) === SLIDE_ROUTE_PRESENT_MODE,
+  };
+}
@@ -0,0 +1,21 @@
+import type { WatcherHealth } from '@flideck/shared';
+
+/**
+ * Describe degraded file watching for the app-wide warning banner,
+ * or null while every watcher is healthy.
+ */
+export function getWatcherWarning(health: WatcherHealth | null): string | null {
+  if (!health?.degraded) return null;
+
+  const restarting = health.watchers.filter((watcher) => watcher.state === 'restarting');
+  if (restarting.length > 0) {
+    const names = restarting.map((watcher) => watcher.name).join(', ');
+    return `File watching interrupted (${names}) - restarting. Changes made meanwhile will appear once it recovers.`;
+  }
+
+  const names = health.watchers
+    .filter((watcher) => watcher.fallback)
+    .map((watcher) => watcher.name)
+    .join(', ');
+  return `File watching fell back to polling (${names}) - changes may take a moment to appear.`;
+}
@@ -9,6 +9,7 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
+      '@flideck/shared': path.resolve(__dirname, '../shared/src/index.ts'),
     },
   },
   server: {
@@ -1,8 +1,19 @@
 import { defineConfig } from 'vitest/config';
 import react from '@vitejs/plugin-react';
+import path from 'path';
 
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    alias: {
+      // Test fixtures shared by the client and server tests (not part of the package)
+      '@flideck/shared/testing': path.resolve(
+        __dirname,
+        '../shared/src/__tests__/slideWrapperFixtures.ts'
+      ),
+      '@flideck/shared': path.resolve(__dirname, '../shared/src/index.ts'),
+    },
+  },
   test: {
     globals: true,
     environment: 'jsdom',
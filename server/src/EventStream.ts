@@ -0,0 +1,143 @@
+import { randomBytes } from 'crypto';
+import type { Server, Socket } from 'socket.io';
+import type { LoggedEvent } from '@flideck/shared';
+
+/** Events kept for resuming after a dropped connection */
+const LOG_CAPACITY = 1000;
+
+export interface PublishOptions {
+  /** Socket.io room to emit to instead of every client */
+  room?: string;
+}
+
+type Listener = (event: LoggedEvent) => void;
+
+/** A logged event and the room it was emitted to */
+interface LogEntry extends LoggedEvent {
+  room?: string;
+}
+
+function presentationIdOf(data: unknown): string | undefined {
+  const candidate = data as { presentationId?: unknown } | null;
+  return typeof candidate?.presentationId === 'string' ? candidate.presentationId : undefined;
+}
+
+/**
+ * Numbered log of change events (content, structure, config and manifest
+ * mutations).
+ *
+ * publish() emits an event over Socket.io (with its sequence number as an extra
+ * argument) and records it in a ring buffer, so subscribers that speak plain
+ * HTTP (GET /api/events) receive the same events, and both kinds of client can
+ * resume after a dropped connection: SSE with Last-Event-ID, Socket.io with
+ * 'events:resume' (see register).
+ *
+ * Sequence numbers restart with the server, so each stream has a random epoch
+ * that clients resume with: positions from another epoch always resync.
+ */
+export class EventStream {
+  /** Identifies this server run; generated per stream */
+  readonly epoch = randomBytes(4).toString('hex');
+  private log: LogEntry[] = [];
+  private seq = 0;
+  private listeners = new Set<Listener>();
+
+  constructor(private io: Server) {}
+
+  /**
+   * Emit an event to Socket.io clients and record it for stream subscribers.
+   */
+  publish(event: string, data: unknown, options: PublishOptions = {}): LoggedEvent {
+    const entry: LogEntry = { seq: ++this.seq, event, data };
+    const presentationId = presentationIdOf(data);
+    if (presentationId) {
+      entry.presentationId = presentationId;
+    }
+    if (options.room) {
+      entry.room = options.room;
+    }
+
+    this.log.push(entry);
+    if (this.log.length > LOG_CAPACITY) {
+      this.log.shift();
+    }
+
+    if (options.room) {
+      this.io.to(options.room).emit(event, data, entry.seq);
+    } else {
+      this.io.emit(event, data, entry.seq);
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(entry);
+      } catch (error) {
+        console.error(`Event stream listener error for "${event}":`, error);
+      }
+    }
+
+    return entry;
+  }
+
+  /**
+   * Events published after the given position, or null when some of them are
+   * no longer available (evicted from the log, or the position is from before
+   * a server restart: another epoch, or none) and the caller must resync instead.
+   */
+  since(seq: number, epoch: string | undefined): LogEntry[] | null {
+    if (epoch !== this.epoch || seq > this.seq) return null;
+
+    const oldest = this.log[0]?.seq ?? this.seq + 1;
+    if (seq < oldest - 1) return null;
+
+    return this.log.filter((entry) => entry.seq > seq);
+  }
+
+  /**
+   * Attach the replay handler to a newly connected socket and tell it the
+   * epoch and current sequence number (its starting point if it has seen no
+   * events yet).
+   *
+   * A reconnecting client rejoins its rooms, then sends 'events:resume' with
+   * the epoch and last sequence number it saw. Missed events are re-emitted to
+   * it alone (room-scoped events only for rooms it is in); when they are no
+   * longer logged, or the server has restarted since, it gets 'events:resync'
+   * and should refetch everything.
+   * Register after the 'join:presentation' handler.
+   */
+  register(socket: Socket): void {
+    socket.emit('events:seq', { epoch: this.epoch, seq: this.seq });
+
+    socket.on('events:resume', (request: unknown) => {
+      const { epoch, lastSeq } = (request ?? {}) as { epoch?: unknown; lastSeq?: unknown };
+      if (typeof lastSeq !== 'number' || !Number.isInteger(lastSeq) || lastSeq < 0) return;
+
+      const missed = this.since(lastSeq, typeof epoch === 'string' ? epoch : undefined);
+      if (!missed) {
+        socket.emit('events:resync', { epoch: this.epoch, seq: this.seq });
+        return;
+      }
+      for (const entry of missed) {
+        if (entry.room && !socket.rooms.has(entry.room)) continue;
+        socket.emit(entry.event, entry.data, entry.seq);
+      }
+    });
+  }
+
+  /**
+   * Sequence number of the latest event (0 before the first).
+   */
+  getLastSeq(): number {
+    return this.seq;
+  }
+
+  /**
+   * Receive every event published from now on. Returns an unsubscribe function.
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
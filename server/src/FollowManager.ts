@@ -0,0 +1,116 @@
+import type { Server, Socket } from 'socket.io';
+import type { FollowNavigateEvent, FollowState } from '@flideck/shared';
+import { presentationRoom } from './utils/presenterRelay.js';
+
+function isNavigateEvent(event: unknown): event is FollowNavigateEvent {
+  const candidate = event as Partial<FollowNavigateEvent> | null;
+  return (
+    typeof candidate?.presentationId === 'string' &&
+    (candidate.assetId === null || typeof candidate.assetId === 'string') &&
+    (candidate.tabId === null || typeof candidate.tabId === 'string') &&
+    typeof candidate.presentationMode === 'boolean'
+  );
+}
+
+function presentationIdOf(event: unknown): string | null {
+  const candidate = event as { presentationId?: unknown } | null;
+  return typeof candidate?.presentationId === 'string' ? candidate.presentationId : null;
+}
+
+/**
+ * Follow-me navigation for presentation rooms.
+ *
+ * One client per room leads: its slide selections, container tab switches and
+ * presentation mode toggles are broadcast to the whole room as 'follow:state'.
+ * Any client in the room may take the lead (the previous leader becomes a
+ * follower); leadership ends when the leader releases it, leaves the room or
+ * disconnects.
+ */
+export class FollowManager {
+  private states = new Map<string, FollowState>();
+
+  constructor(private io: Server) {}
+
+  /**
+   * Attach the follow-me handlers to a newly connected socket.
+   * Register after the 'join:presentation' handler so joining sockets are
+   * already in the room when they receive the current state.
+   */
+  register(socket: Socket): void {
+    socket.on('join:presentation', (event: unknown) => {
+      const presentationId = presentationIdOf(event);
+      if (presentationId) {
+        socket.emit('follow:state', this.getState(presentationId));
+      }
+    });
+
+    socket.on('leave:presentation', (event: unknown) => {
+      const presentationId = presentationIdOf(event);
+      if (presentationId) {
+        this.release(socket.id, presentationId);
+      }
+    });
+
+    socket.on('follow:lead', (event: unknown) => {
+      if (!isNavigateEvent(event)) return;
+      if (!socket.rooms.has(presentationRoom(event.presentationId))) return;
+      this.update(socket.id, event);
+    });
+
+    socket.on('follow:navigate', (event: unknown) => {
+      if (!isNavigateEvent(event)) return;
+      if (this.states.get(event.presentationId)?.leaderId !== socket.id) return;
+      this.update(socket.id, event);
+    });
+
+    socket.on('follow:release', (event: unknown) => {
+      const presentationId = presentationIdOf(event);
+      if (presentationId) {
+        this.release(socket.id, presentationId);
+      }
+    });
+
+    socket.on('disconnect', () => {
+      for (const state of [...this.states.values()]) {
+        this.release(socket.id, state.presentationId);
+      }
+    });
+  }
+
+  /**
+   * Current follow-me state of a presentation (leaderId is null when nobody leads).
+   */
+  getState(presentationId: string): FollowState {
+    return (
+      this.states.get(presentationId) ?? {
+        presentationId,
+        leaderId: null,
+        assetId: null,
+        tabId: null,
+        presentationMode: false,
+      }
+    );
+  }
+
+  private update(leaderId: string, event: FollowNavigateEvent): void {
+    const state: FollowState = {
+      presentationId: event.presentationId,
+      leaderId,
+      assetId: event.assetId,
+      tabId: event.tabId,
+      presentationMode: event.presentationMode,
+    };
+    this.states.set(state.presentationId, state);
+    this.broadcast(state);
+  }
+
+  private release(socketId: string, presentationId: string): void {
+    if (this.states.get(presentationId)?.leaderId !== socketId) return;
+    this.states.delete(presentationId);
+    this.broadcast(this.getState(presentationId));
+  }
+
+  private broadcast(state: FollowState): void {
+    this.io.to(presentationRoom(state.presentationId)).emit('follow:state', state);
+  }
+}
@@ -1,5 +1,15 @@
 import { watch, type FSWatcher } from 'chokidar';
 import type { Server } from 'socket.io';
+import type { WatcherHealth, WatcherStatus } from '@flideck/shared';
+import type { WatcherConfig } from './config.js';
+
+/** Delay before the first restart of a failed watcher; doubles with each consecutive failure */
+const RESTART_BASE_DELAY_MS = 1000;
+const RESTART_MAX_DELAY_MS = 60_000;
+/** Consecutive native failures before a watcher falls back to polling */
+const POLLING_FALLBACK_AFTER = 3;
+/** A watcher that ran this long before failing starts its backoff from scratch */
+const STABLE_AFTER_MS = 60_000;
 
 /**
  * Change event data passed to callbacks and Socket.io events.
@@ -17,44 +27,115 @@ export interface WatchConfig {
   name: string;
   /** Path or glob pattern to watch */
   path: string;
-  /** Socket.io event to emit on changes */
-  event: string;
+  /**
+   * Socket.io event to emit on changes (carries the latest change of each batch).
+   * Omit when onChangeCallback emits its own events.
+   */
+  event?: string;
   /** Debounce time in milliseconds (default: 300) */
   debounceMs?: number;
   /** Optional Socket.io room for scoped broadcasts */
   room?: string;
-  /** Optional server-side callback when files change */
-  onChangeCallback?: (data: ChangeEventData) => void | Promise<void>;
+  /** Optional server-side callback with every distinct change of a debounced batch */
+  onChangeCallback?: (changes: ChangeEventData[]) => void | Promise<void>;
+}
+
+/**
+ * A watched path: its chokidar instance (null while waiting to restart) and health.
+ */
+interface WatcherEntry {
+  config: WatchConfig;
+  watcher: FSWatcher | null;
+  status: WatcherStatus;
+  /** Consecutive failures, for restart backoff and the polling fallback */
+  failures: number;
+  startedAt: number;
+  restartTimer?: NodeJS.Timeout;
 }
 
 /**
  * Centralized file system watcher manager.
  * Handles debounced change detection and Socket.io event emission.
+ *
+ * Watchers are monitored: a watcher that reports an error is closed and
+ * recreated with exponential backoff, and one that keeps failing falls back to
+ * polling. Health changes are broadcast as 'watcher:status' (see getHealth).
  */
 export class WatcherManager {
-  private watchers = new Map<string, FSWatcher>();
+  private watchers = new Map<string, WatcherEntry>();
   private debounceTimers = new Map<string, NodeJS.Timeout>();
-  private callbacks = new Map<string, (data: ChangeEventData) => void | Promise<void>>();
+  /** Changes waiting for each debounce timer, keyed by event type and path */
+  private pendingChanges = new Map<string, Map<string, ChangeEventData>>();
+  private options: WatcherConfig = { usePolling: false, pollInterval: 1000 };
 
   constructor(private io: Server) {}
 
+  /**
+   * Apply polling settings (config.json `watcher`). Running watchers are
+   * recreated when the settings change.
+   */
+  configure(options: WatcherConfig): void {
+    if (
+      options.usePolling === this.options.usePolling &&
+      options.pollInterval === this.options.pollInterval
+    ) {
+      return;
+    }
+
+    this.options = { ...options };
+    for (const entry of this.watchers.values()) {
+      clearTimeout(entry.restartTimer);
+      void entry.watcher?.close();
+      entry.failures = 0;
+      entry.status.fallback = false;
+      this.start(entry);
+    }
+    this.emitHealth();
+  }
+
   /**
    * Start watching a path for changes.
    * Emits Socket.io events when files change (debounced).
    * Optionally calls a server-side callback.
    */
   watch(config: WatchConfig): void {
-    const { name, path, event, debounceMs = 300, room, onChangeCallback } = config;
+    const { name, path } = config;
 
     if (this.watchers.has(name)) {
       console.log(`Watcher "${name}" already exists, skipping`);
       return;
     }
 
-    // Store callback if provided
-    if (onChangeCallback) {
-      this.callbacks.set(name, onChangeCallback);
-    }
+    const entry: WatcherEntry = {
+      config,
+      watcher: null,
+      failures: 0,
+      startedAt: 0,
+      status: {
+        name,
+        path,
+        state: 'starting',
+        mode: 'native',
+        fallback: false,
+        lastEventAt: null,
+        errorCount: 0,
+        lastError: null,
+        restarts: 0,
+      },
+    };
+    this.watchers.set(name, entry);
+    this.start(entry);
+    console.log(`Started watcher "${name}" on ${path}`);
+  }
+
+  /**
+   * Create the chokidar watcher for an entry, in polling mode if configured or
+   * after falling back.
+   */
+  private start(entry: WatcherEntry): void {
+    const { name, path, event, debounceMs = 300, room } = entry.config;
+    const usePolling = this.options.usePolling || entry.status.fallback;
+    const isRestart = entry.status.restarts > 0;
 
     const watcher = watch(path, {
       ignoreInitial: true,
@@ -64,59 +145,125 @@ export class WatcherManager {
         stabilityThreshold: 100,
         pollInterval: 50,
       },
+      usePolling,
+      interval: this.options.pollInterval,
+      binaryInterval: this.options.pollInterval,
+    });
+
+    entry.watcher = watcher;
+    entry.startedAt = Date.now();
+    entry.status.state = 'starting';
+    entry.status.mode = usePolling ? 'polling' : 'native';
+
+    watcher.on('ready', () => {
+      if (entry.watcher !== watcher) return;
+      entry.status.state = 'watching';
+      this.emitHealth();
+
+      // Changes made while the watcher was down were missed: let the consumer resync
+      if (isRestart) {
+        this.debounceEmit(name, event, debounceMs, room, { eventType: 'addDir', filePath: path });
+      }
     });
 
     watcher.on('all', (eventType, filePath) => {
+      entry.status.lastEventAt = new Date().toISOString();
       this.debounceEmit(name, event, debounceMs, room, { eventType, filePath });
     });
 
     watcher.on('error', (error) => {
       console.error(`Watcher "${name}" error:`, error);
+      this.handleFailure(entry, watcher, error);
     });
+  }
 
-    this.watchers.set(name, watcher);
-    console.log(`Started watcher "${name}" on ${path}`);
+  /**
+   * Close a failed watcher and schedule its restart with exponential backoff.
+   */
+  private handleFailure(entry: WatcherEntry, watcher: FSWatcher, error: unknown): void {
+    // Errors from a watcher that was already replaced are stale
+    if (entry.watcher !== watcher) return;
+
+    const { status } = entry;
+    status.errorCount++;
+    status.lastError = error instanceof Error ? error.message : String(error);
+
+    if (Date.now() - entry.startedAt >= STABLE_AFTER_MS) {
+      entry.failures = 0;
+    }
+    entry.failures++;
+
+    void watcher.close();
+    entry.watcher = null;
+
+    if (!this.options.usePolling && !status.fallback && entry.failures >= POLLING_FALLBACK_AFTER) {
+      status.fallback = true;
+      console.warn(`Watcher "${status.name}" keeps failing, falling back to polling`);
+    }
+
+    const delay = Math.min(RESTART_BASE_DELAY_MS * 2 ** (entry.failures - 1), RESTART_MAX_DELAY_MS);
+    status.state = 'restarting';
+    entry.restartTimer = setTimeout(() => {
+      entry.restartTimer = undefined;
+      status.restarts++;
+      console.log(`Restarting watcher "${status.name}" (attempt ${entry.failures})`);
+      this.start(entry);
+    }, delay);
+
+    this.emitHealth();
   }
 
   /**
    * Debounced event emission to prevent rapid-fire updates.
-   * Also calls the server-side callback if registered.
+   * Changes are collected rather than replaced: a burst produces one batch
+   * holding every distinct path and event type, passed to the server-side
+   * callback if registered.
    */
   private debounceEmit(
     name: string,
-    event: string,
+    event: string | undefined,
     ms: number,
-    room?: string,
-    data?: ChangeEventData
+    room: string | undefined,
+    data: ChangeEventData
   ): void {
-    const timerKey = `${name}:${event}`;
+    const timerKey = name;
     const existing = this.debounceTimers.get(timerKey);
 
     if (existing) {
       clearTimeout(existing);
     }
 
+    // A repeated change moves to the end, so the batch keeps the order changes last happened in
+    const pending = this.pendingChanges.get(timerKey) ?? new Map<string, ChangeEventData>();
+    const changeKey = `${data.eventType}:${data.filePath}`;
+    pending.delete(changeKey);
+    pending.set(changeKey, data);
+    this.pendingChanges.set(timerKey, pending);
+
     this.debounceTimers.set(
       timerKey,
       setTimeout(async () => {
+        // Changes arriving while the callback runs start the next batch
+        this.debounceTimers.delete(timerKey);
+        this.pendingChanges.delete(timerKey);
+        const changes = Array.from(pending.values());
+
         // Emit to Socket.io clients
-        if (room) {
+        if (event && room) {
           this.io.to(room).emit(event, data);
-        } else {
+        } else if (event) {
           this.io.emit(event, data);
         }
 
         // Call server-side callback if registered
-        const callback = this.callbacks.get(name);
-        if (callback && data) {
+        const callback = this.watchers.get(name)?.config.onChangeCallback;
+        if (callback) {
           try {
-            await callback(data);
+            await callback(changes);
           } catch (error) {
             console.error(`Callback error for watcher "${name}":`, error);
           }
         }
-
-        this.debounceTimers.delete(timerKey);
       }, ms)
     );
   }
@@ -125,11 +272,11 @@ export class WatcherManager {
    * Stop a specific watcher by name.
    */
   stop(name: string): void {
-    const watcher = this.watchers.get(name);
-    if (watcher) {
-      watcher.close();
+    const entry = this.watchers.get(name);
+    if (entry) {
+      clearTimeout(entry.restartTimer);
+      void entry.watcher?.close();
       this.watchers.delete(name);
-      this.callbacks.delete(name);
       console.log(`Stopped watcher "${name}"`);
     }
   }
@@ -153,6 +300,7 @@ export class WatcherManager {
       clearTimeout(timer);
     }
     this.debounceTimers.clear();
+    this.pendingChanges.clear();
 
     // Close all watchers
     this.stopAll();
@@ -165,4 +313,20 @@ export class WatcherManager {
   getActiveWatchers(): string[] {
     return Array.from(this.watchers.keys());
   }
+
+  /**
+   * Liveness of every watcher. Degraded while any watcher is restarting or has
+   * fallen back to polling, since changes may then be missed or picked up late.
+   */
+  getHealth(): WatcherHealth {
+    const watchers = Array.from(this.watchers.values(), (entry) => ({ ...entry.status }));
+    return {
+      degraded: watchers.some((status) => status.state === 'restarting' || status.fallback),
+      watchers,
+    };
+  }
+
+  private emitHealth(): void {
+    this.io.emit('watcher:status', this.getHealth());
+  }
 }
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Server, Socket } from 'socket.io';
+import { EventStream } from '../EventStream.js';
+
+/** Minimal stand-in for a Socket.io server socket */
+function createFakeSocket(rooms: string[]) {
+  const handlers = new Map<string, (event?: unknown) => void>();
+  const socket = {
+    rooms: new Set(rooms),
+    on: (event: string, handler: (event?: unknown) => void) => handlers.set(event, handler),
+    emit: vi.fn(),
+  };
+  return {
+    socket: socket as unknown as Socket,
+    emit: socket.emit,
+    receive: (event: string, payload?: unknown) => handlers.get(event)?.(payload),
+  };
+}
+
+describe('EventStream', () => {
+  let roomEmit: ReturnType<typeof vi.fn>;
+  let io: { emit: ReturnType<typeof vi.fn>; to: ReturnType<typeof vi.fn> };
+  let events: EventStream;
+
+  beforeEach(() => {
+    roomEmit = vi.fn();
+    io = { emit: vi.fn(), to: vi.fn(() => ({ emit: roomEmit })) };
+    events = new EventStream(io as unknown as Server);
+  });
+
+  it('numbers events and emits them to everyone or to a room', () => {
+    const global = events.publish('config:changed', { presentationsRoot: '/decks' });
+    const scoped = events.publish(
+      'content:changed',
+      { presentationId: 'deck', assetId: 'intro', filename: 'intro.html' },
+      { room: 'presentation:deck' }
+    );
+
+    expect(global).toMatchObject({ seq: 1, event: 'config:changed' });
+    expect(global.presentationId).toBeUndefined();
+    expect(scoped).toMatchObject({ seq: 2, presentationId: 'deck' });
+    expect(io.emit).toHaveBeenCalledWith('config:changed', { presentationsRoot: '/decks' }, 1);
+    expect(io.to).toHaveBeenCalledWith('presentation:deck');
+    expect(roomEmit).toHaveBeenCalledWith('content:changed', scoped.data, 2);
+    expect(events.getLastSeq()).toBe(2);
+  });
+
+  it('notifies subscribers until they unsubscribe', () => {
+    const listener = vi.fn();
+    const unsubscribe = events.subscribe(listener);
+
+    events.publish('structure:changed', { presentationId: 'deck' });
+    unsubscribe();
+    events.publish('structure:changed', { presentationId: 'deck' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ seq: 1 }));
+  });
+
+  it('replays events after a sequence number while they are still logged', () => {
+    for (let i = 0; i < 1005; i++) {
+      events.publish('presentations:updated', { reason: 'slide-added', presentationId: 'deck' });
+    }
+
+    const { epoch } = events;
+    expect(events.since(1005, epoch)).toEqual([]);
+    expect(events.since(1000, epoch)?.map((entry) => entry.seq)).toEqual([
+      1001, 1002, 1003, 1004, 1005,
+    ]);
+    // The oldest 5 events were evicted, so a gap from before them cannot be filled
+    expect(events.since(5, epoch)).toHaveLength(1000);
+    expect(events.since(4, epoch)).toBeNull();
+    // A number from before a server restart
+    expect(events.since(2000, epoch)).toBeNull();
+    // A number without an epoch
+    expect(events.since(1000, undefined)).toBeNull();
+  });
+
+  it('resyncs positions from before a restart even when the new run has caught up', () => {
+    const before = new EventStream(io as unknown as Server);
+    for (let i = 0; i < 3; i++) before.publish('config:changed', {});
+    // The restarted server has published more events than the client saw
+    const restarted = new EventStream(io as unknown as Server);
+    for (let i = 0; i < 5; i++) restarted.publish('config:changed', {});
+    const client = createFakeSocket([]);
+    restarted.register(client.socket);
+    client.emit.mockClear();
+
+    expect(restarted.epoch).not.toBe(before.epoch);
+    expect(restarted.since(3, before.epoch)).toBeNull();
+    client.receive('events:resume', { epoch: before.epoch, lastSeq: 3 });
+
+    expect(client.emit.mock.calls).toEqual([['events:resync', { epoch: restarted.epoch, seq: 5 }]]);
+  });
+
+  it('tells a connecting socket the current sequence number', () => {
+    events.publish('config:changed', {});
+    const client = createFakeSocket([]);
+
+    events.register(client.socket);
+
+    expect(client.emit).toHaveBeenCalledWith('events:seq', { epoch: events.epoch, seq: 1 });
+  });
+
+  it('replays missed events for the rooms a reconnecting socket is in', () => {
+    events.publish('config:changed', {});
+    events.publish('content:changed', { presentationId: 'deck' }, { room: 'presentation:deck' });
+    events.publish('content:changed', { presentationId: 'other' }, { room: 'presentation:other' });
+    events.publish('presentations:updated', { reason: 'slide-added', presentationId: 'other' });
+    const client = createFakeSocket(['presentation:deck']);
+    events.register(client.socket);
+    client.emit.mockClear();
+
+    client.receive('events:resume', { epoch: events.epoch, lastSeq: 1 });
+
+    expect(client.emit.mock.calls).toEqual([
+      ['content:changed', { presentationId: 'deck' }, 2],
+      ['presentations:updated', { reason: 'slide-added', presentationId: 'other' }, 4],
+    ]);
+  });
+
+  it('asks a socket to resync when its gap cannot be replayed', () => {
+    events.publish('config:changed', {});
+    const client = createFakeSocket([]);
+    events.register(client.socket);
+    client.emit.mockClear();
+
+    client.receive('events:resume', { epoch: events.epoch, lastSeq: 9 });
+    client.receive('events:resume', { epoch: events.epoch, lastSeq: 'soon' });
+
+    expect(client.emit.mock.calls).toEqual([['events:resync', { epoch: events.epoch, seq: 1 }]]);
+  });
+});
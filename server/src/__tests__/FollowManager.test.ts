@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Server, Socket } from 'socket.io';
+import { FollowManager } from '../FollowManager.js';
+import { presentationRoom } from '../utils/presenterRelay.js';
+
+/** Minimal stand-in for a Socket.io server socket */
+function createFakeSocket(id: string, rooms: string[]) {
+  const handlers = new Map<string, (event?: unknown) => void>();
+  const socket = {
+    id,
+    rooms: new Set(rooms),
+    on: (event: string, handler: (event?: unknown) => void) => handlers.set(event, handler),
+    emit: vi.fn(),
+  };
+  return {
+    socket: socket as unknown as Socket,
+    emit: socket.emit,
+    receive: (event: string, payload?: unknown) => handlers.get(event)?.(payload),
+  };
+}
+
+describe('FollowManager', () => {
+  const room = presentationRoom('deck');
+  const view = { presentationId: 'deck', assetId: 'intro', tabId: null, presentationMode: false };
+  let roomEmit: ReturnType<typeof vi.fn>;
+  let io: { to: ReturnType<typeof vi.fn> };
+  let manager: FollowManager;
+  let leader: ReturnType<typeof createFakeSocket>;
+  let follower: ReturnType<typeof createFakeSocket>;
+
+  beforeEach(() => {
+    roomEmit = vi.fn();
+    io = { to: vi.fn(() => ({ emit: roomEmit })) };
+    manager = new FollowManager(io as unknown as Server);
+    leader = createFakeSocket('leader', [room]);
+    follower = createFakeSocket('follower', [room]);
+    manager.register(leader.socket);
+    manager.register(follower.socket);
+  });
+
+  it('broadcasts the leader and its view to the room', () => {
+    leader.receive('follow:lead', view);
+    leader.receive('follow:navigate', { ...view, assetId: 'outro', presentationMode: true });
+
+    expect(io.to).toHaveBeenCalledWith(room);
+    expect(roomEmit).toHaveBeenLastCalledWith('follow:state', {
+      ...view,
+      assetId: 'outro',
+      presentationMode: true,
+      leaderId: 'leader',
+    });
+    expect(manager.getState('deck').leaderId).toBe('leader');
+  });
+
+  it('ignores navigation from clients that are not leading', () => {
+    leader.receive('follow:lead', view);
+    roomEmit.mockClear();
+
+    follower.receive('follow:navigate', { ...view, assetId: 'outro' });
+    expect(roomEmit).not.toHaveBeenCalled();
+    expect(manager.getState('deck').assetId).toBe('intro');
+  });
+
+  it('lets another client in the room take the lead', () => {
+    leader.receive('follow:lead', view);
+    follower.receive('follow:lead', { ...view, assetId: 'outro' });
+
+    expect(manager.getState('deck')).toMatchObject({ leaderId: 'follower', assetId: 'outro' });
+  });
+
+  it('rejects leads for rooms the socket has not joined and malformed events', () => {
+    leader.receive('follow:lead', { ...view, presentationId: 'other-deck' });
+    leader.receive('follow:lead', { presentationId: 'deck' });
+    leader.receive('follow:lead', null);
+
+    expect(roomEmit).not.toHaveBeenCalled();
+  });
+
+  it('ends leadership on release, leave and disconnect', () => {
+    leader.receive('follow:lead', view);
+    leader.receive('follow:release', { presentationId: 'deck' });
+    expect(roomEmit).toHaveBeenLastCalledWith(
+      'follow:state',
+      expect.objectContaining({ presentationId: 'deck', leaderId: null })
+    );
+
+    leader.receive('follow:lead', view);
+    leader.receive('leave:presentation', { presentationId: 'deck' });
+    expect(manager.getState('deck').leaderId).toBeNull();
+
+    leader.receive('follow:lead', view);
+    follower.receive('disconnect');
+    expect(manager.getState('deck').leaderId).toBe('leader');
+    leader.receive('disconnect');
+    expect(manager.getState('deck').leaderId).toBeNull();
+  });
+
+  it('sends the current state to joining sockets', () => {
+    leader.receive('follow:lead', view);
+    follower.receive('join:presentation', { presentationId: 'deck' });
+
+    expect(follower.emit).toHaveBeenCalledWith(
+      'follow:state',
+      expect.objectContaining({ leaderId: 'leader', assetId: 'intro' })
+    );
+  });
+});
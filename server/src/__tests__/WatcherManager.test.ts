@@ -0,0 +1,155 @@
+import { EventEmitter } from 'node:events';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Server } from 'socket.io';
+import { WatcherManager } from '../WatcherManager.js';
+
+type FakeWatcher = EventEmitter & {
+  options: Record<string, unknown>;
+  close: ReturnType<typeof vi.fn>;
+};
+
+/** chokidar watchers created by the manager, newest last */
+const created = vi.hoisted(() => [] as FakeWatcher[]);
+
+vi.mock('chokidar', async () => {
+  const { EventEmitter } = await import('node:events');
+  return {
+    watch: vi.fn((_path: string, options: Record<string, unknown>) => {
+      const watcher = Object.assign(new EventEmitter(), { options, close: vi.fn(async () => {}) });
+      created.push(watcher);
+      return watcher;
+    }),
+  };
+});
+
+function latest(): FakeWatcher {
+  return created[created.length - 1];
+}
+
+describe('WatcherManager', () => {
+  let io: { emit: ReturnType<typeof vi.fn>; to: ReturnType<typeof vi.fn> };
+  let manager: WatcherManager;
+  const onChangeCallback = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    created.length = 0;
+    onChangeCallback.mockReset();
+    io = { emit: vi.fn(), to: vi.fn() };
+    manager = new WatcherManager(io as unknown as Server);
+    manager.watch({
+      name: 'root',
+      path: '/decks',
+      event: 'presentations:changed',
+      onChangeCallback,
+    });
+    latest().emit('ready');
+  });
+
+  afterEach(() => {
+    manager.shutdown();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('tracks the last event and reports healthy watchers', () => {
+    latest().emit('all', 'change', '/decks/a/index.html');
+
+    const health = manager.getHealth();
+    expect(health.degraded).toBe(false);
+    expect(health.watchers[0]).toMatchObject({ name: 'root', state: 'watching', mode: 'native' });
+    expect(health.watchers[0].lastEventAt).not.toBeNull();
+  });
+
+  it('batches every distinct change of a burst', async () => {
+    const watcher = latest();
+    watcher.emit('all', 'add', '/decks/a/one.html');
+    watcher.emit('all', 'change', '/decks/a/two.html');
+    watcher.emit('all', 'change', '/decks/b/three.html');
+    watcher.emit('all', 'change', '/decks/a/two.html');
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(onChangeCallback).toHaveBeenCalledTimes(1);
+    expect(onChangeCallback).toHaveBeenCalledWith([
+      { eventType: 'add', filePath: '/decks/a/one.html' },
+      { eventType: 'change', filePath: '/decks/b/three.html' },
+      { eventType: 'change', filePath: '/decks/a/two.html' },
+    ]);
+    expect(io.emit).toHaveBeenCalledWith('presentations:changed', {
+      eventType: 'change',
+      filePath: '/decks/a/two.html',
+    });
+
+    watcher.emit('all', 'unlink', '/decks/a/one.html');
+    await vi.advanceTimersByTimeAsync(300);
+    expect(onChangeCallback).toHaveBeenLastCalledWith([
+      { eventType: 'unlink', filePath: '/decks/a/one.html' },
+    ]);
+  });
+
+  it('leaves socket events to the callback when no event is configured', async () => {
+    manager.watch({ name: 'quiet', path: '/other', onChangeCallback });
+    latest().emit('all', 'change', '/other/a.html');
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(onChangeCallback).toHaveBeenCalledWith([
+      { eventType: 'change', filePath: '/other/a.html' },
+    ]);
+    expect(io.emit.mock.calls.every(([event]) => event === 'watcher:status')).toBe(true);
+  });
+
+  it('restarts a failed watcher with backoff and resyncs once it is ready', async () => {
+    const failed = latest();
+    failed.emit('error', new Error('EMFILE'));
+
+    expect(failed.close).toHaveBeenCalled();
+    expect(manager.getHealth()).toMatchObject({
+      degraded: true,
+      watchers: [{ state: 'restarting', errorCount: 1, lastError: 'EMFILE' }],
+    });
+    expect(io.emit).toHaveBeenLastCalledWith('watcher:status', manager.getHealth());
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(created).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(created).toHaveLength(2);
+
+    latest().emit('ready');
+    expect(manager.getHealth()).toMatchObject({
+      degraded: false,
+      watchers: [{ state: 'watching', restarts: 1 }],
+    });
+
+    await vi.advanceTimersByTimeAsync(300);
+    expect(onChangeCallback).toHaveBeenCalledWith([{ eventType: 'addDir', filePath: '/decks' }]);
+  });
+
+  it('falls back to polling after repeated failures', async () => {
+    for (const delay of [1000, 2000, 4000]) {
+      latest().emit('error', new Error('ENOSPC'));
+      await vi.advanceTimersByTimeAsync(delay);
+    }
+
+    expect(created).toHaveLength(4);
+    expect(latest().options.usePolling).toBe(true);
+    latest().emit('ready');
+    expect(manager.getHealth()).toMatchObject({
+      degraded: true,
+      watchers: [{ state: 'watching', mode: 'polling', fallback: true, restarts: 3 }],
+    });
+  });
+
+  it('recreates watchers when the polling settings change', () => {
+    manager.configure({ usePolling: true, pollInterval: 500 });
+
+    expect(created[0].close).toHaveBeenCalled();
+    expect(created).toHaveLength(2);
+    expect(latest().options).toMatchObject({ usePolling: true, interval: 500 });
+    latest().emit('ready');
+    // Configured polling is not a degradation
+    expect(manager.getHealth()).toMatchObject({ degraded: false, watchers: [{ mode: 'polling' }] });
+  });
+});
@@ -2,18 +2,51 @@ import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
 import { fileURLToPath } from 'url';
+import type { FileRecoveryEvent } from '@flideck/shared';
+import { readJsonWithRecovery, writeJsonAtomic } from './utils/atomicWrite.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+/**
+ * An additional presentations directory served alongside presentationsRoot.
+ */
+export interface RootConfig {
+  /** Namespaces presentation IDs from this root ('<name>:<folder>'); defaults to the folder name */
+  name: string;
+  path: string;
+}
+
+/**
+ * File watcher settings (see WatcherManager).
+ */
+export interface WatcherConfig {
+  /** Poll for changes instead of native events (network drives, very large roots) */
+  usePolling: boolean;
+  /** Polling interval in milliseconds */
+  pollInterval: number;
+}
+
 export interface Config {
+  /** Primary root - its presentation IDs are bare folder names */
   presentationsRoot: string;
+  /** Additional roots, watched and browsable at the same time as the primary root */
+  roots: RootConfig[];
   history: string[];
+  watcher: WatcherConfig;
 }
 
 const CONFIG_FILENAME = 'config.json';
 const CONFIG_EXAMPLE_FILENAME = 'config.example.json';
+const CONFIG_BACKUP_FILENAME = 'config.json.bak';
 const MAX_HISTORY_ENTRIES = 10;
+const ROOT_NAME_PATTERN = /^[\w-]+$/;
+const DEFAULT_WATCHER_CONFIG: WatcherConfig = { usePolling: false, pollInterval: 1000 };
+/** Faster polling would stat every file in large roots several times a second */
+const MIN_POLL_INTERVAL = 100;
+
+type ConfigRecoveryListener = (event: FileRecoveryEvent) => void;
+const recoveryListeners = new Set<ConfigRecoveryListener>();
 
 /**
  * Get the project root directory (where config files live)
@@ -30,6 +63,22 @@ export function getConfigPath(): string {
   return path.join(getProjectRoot(), CONFIG_FILENAME);
 }
 
+/**
+ * Get the path to the last-known-good config backup
+ */
+export function getConfigBackupPath(): string {
+  return path.join(getProjectRoot(), CONFIG_BACKUP_FILENAME);
+}
+
+/**
+ * Register a listener notified when a corrupt config.json is restored from backup.
+ * Returns an unsubscribe function.
+ */
+export function onConfigRecovered(listener: ConfigRecoveryListener): () => void {
+  recoveryListeners.add(listener);
+  return () => recoveryListeners.delete(listener);
+}
+
 /**
  * Get the path to config.example.json
  */
@@ -55,17 +104,33 @@ export function expandPath(filePath: string): string {
 }
 
 /**
- * Load configuration from config.json, falling back to config.example.json
+ * Load configuration from config.json, falling back to config.example.json.
+ * A corrupt config.json (e.g., half-saved) is restored from config.json.bak first.
  */
 export async function loadConfig(): Promise<Config> {
   const configPath = getConfigPath();
+  const backupPath = getConfigBackupPath();
   const examplePath = getExampleConfigPath();
 
   let rawConfig: Config;
 
   try {
-    const content = await fs.readFile(configPath, 'utf-8');
-    rawConfig = JSON.parse(content);
+    const result = await readJsonWithRecovery<Config>(configPath, backupPath);
+    if (!result) {
+      throw new Error('config.json not found');
+    }
+    if (result.recovery) {
+      console.warn(`Restored config.json from backup: ${result.recovery.reason}`);
+      const event: FileRecoveryEvent = {
+        kind: 'config',
+        file: configPath,
+        backup: backupPath,
+        reason: result.recovery.reason,
+        recoveredAt: new Date().toISOString(),
+      };
+      recoveryListeners.forEach((listener) => listener(event));
+    }
+    rawConfig = result.data;
   } catch {
     // config.json doesn't exist or is invalid, fall back to example
     try {
@@ -77,22 +142,80 @@ export async function loadConfig(): Promise<Config> {
       console.warn('No config files found, using defaults');
       rawConfig = {
         presentationsRoot: './presentations',
+        roots: [],
         history: [],
+        watcher: DEFAULT_WATCHER_CONFIG,
       };
     }
   }
 
   // Validate and expand paths
+  const presentationsRoot = expandPath(rawConfig.presentationsRoot || './presentations');
   const config: Config = {
-    presentationsRoot: expandPath(rawConfig.presentationsRoot || './presentations'),
+    presentationsRoot,
+    roots: normalizeRoots(rawConfig.roots || [], presentationsRoot),
     history: (rawConfig.history || []).map(expandPath),
+    watcher: normalizeWatcherConfig(rawConfig.watcher),
   };
 
   return config;
 }
 
 /**
- * Save configuration to config.json
+ * Fill in watcher defaults, ignoring invalid values.
+ */
+export function normalizeWatcherConfig(watcher?: Partial<WatcherConfig>): WatcherConfig {
+  const { usePolling, pollInterval } = watcher ?? {};
+  return {
+    usePolling: typeof usePolling === 'boolean' ? usePolling : DEFAULT_WATCHER_CONFIG.usePolling,
+    pollInterval:
+      typeof pollInterval === 'number' && pollInterval >= MIN_POLL_INTERVAL
+        ? pollInterval
+        : DEFAULT_WATCHER_CONFIG.pollInterval,
+  };
+}
+
+/**
+ * Expand root paths, default missing names to the folder name and drop entries
+ * that are invalid, duplicate the primary root or reuse a name.
+ */
+export function normalizeRoots(
+  roots: Array<Partial<RootConfig>>,
+  presentationsRoot: string
+): RootConfig[] {
+  const usedNames = new Set([path.basename(presentationsRoot)]);
+  const usedPaths = new Set([presentationsRoot]);
+  const result: RootConfig[] = [];
+
+  for (const root of roots) {
+    if (!root.path || typeof root.path !== 'string') {
+      console.warn('Ignoring presentation root without a path');
+      continue;
+    }
+    const rootPath = expandPath(root.path);
+    const name = root.name || path.basename(rootPath);
+
+    if (!ROOT_NAME_PATTERN.test(name)) {
+      console.warn(`Ignoring presentation root "${name}": name must be letters, digits, _ or -`);
+      continue;
+    }
+    if (usedNames.has(name) || usedPaths.has(rootPath)) {
+      console.warn(`Ignoring duplicate presentation root "${name}" (${rootPath})`);
+      continue;
+    }
+
+    usedNames.add(name);
+    usedPaths.add(rootPath);
+    result.push({ name, path: rootPath });
+  }
+
+  return result;
+}
+
+/**
+ * Save configuration to config.json.
+ * Written atomically (temp file + fsync + rename); the previous valid config is
+ * kept as config.json.bak.
  */
 export async function saveConfig(config: Config): Promise<void> {
   const configPath = getConfigPath();
@@ -100,10 +223,12 @@ export async function saveConfig(config: Config): Promise<void> {
   // Convert absolute paths back to tilde notation for readability
   const configToSave: Config = {
     presentationsRoot: collapsePath(config.presentationsRoot),
+    roots: config.roots.map((root) => ({ name: root.name, path: collapsePath(root.path) })),
     history: config.history.map(collapsePath),
+    watcher: config.watcher,
   };
 
-  await fs.writeFile(configPath, JSON.stringify(configToSave, null, 2) + '\n', 'utf-8');
+  await writeJsonAtomic(configPath, configToSave, { backupPath: getConfigBackupPath() });
 }
 
 /**
@@ -7,12 +7,32 @@ import compression from 'compression';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import path from 'path';
-
-import { errorHandler, notFoundHandler } from './middleware/errorHandler.js';
+import type {
+  ChangesBatchEvent,
+  FileRecoveryEvent,
+  PresentationChanges,
+  PresentationsSummaryEvent,
+  WatcherEventType,
+} from '@flideck/shared';
+
+import { AppError, errorHandler, notFoundHandler } from './middleware/errorHandler.js';
+import { syncRootWatchers } from './utils/rootWatchers.js';
+import { presentationRoom, registerPresenterRelay } from './utils/presenterRelay.js';
+import { ApiRegistry, describeRoute } from './utils/apiRegistry.js';
 import { WatcherManager, type ChangeEventData } from './WatcherManager.js';
-import { createRoutes } from './routes/index.js';
+import { FollowManager } from './FollowManager.js';
+import { EventStream } from './EventStream.js';
+import { API_BASE, createRoutes } from './routes/index.js';
 import { PresentationService } from './services/PresentationService.js';
-import { loadConfig, getConfigPath, addToHistory, type Config } from './config.js';
+import { SearchService } from './services/SearchService.js';
+import { isManifestPath } from './services/ManifestService.js';
+import {
+  loadConfig,
+  getConfigPath,
+  addToHistory,
+  onConfigRecovered,
+  type Config,
+} from './config.js';
 
 // Load environment variables (for PORT and CLIENT_URL only)
 dotenv.config();
@@ -35,28 +55,26 @@ if (!CLIENT_URL.startsWith('http://') && !CLIENT_URL.startsWith('https://')) {
 let currentConfig: Config;
 let currentPresentationsRoot: string;
 
+// Recent manifest/config restores from backup (reported via /api/health)
+const MAX_RECENT_RECOVERIES = 20;
+const recentRecoveries: FileRecoveryEvent[] = [];
+
 /**
  * Parse a file path to extract presentation and asset information.
  * Returns null if the path is not a valid presentation asset.
  */
 function parseAssetPath(
-  filePath: string,
-  presentationsRoot: string
+  filePath: string
 ): { presentationId: string; assetId: string; filename: string } | null {
-  // Get relative path from presentations root
-  const relativePath = path.relative(presentationsRoot, filePath);
-  if (!relativePath || relativePath.startsWith('..')) {
-    return null;
-  }
-
-  // Split into parts: first part is presentation folder, rest is the file path
-  const parts = relativePath.split(path.sep);
-  if (parts.length < 2) {
+  // Find the presentation (in any root) and the path within its folder
+  const location = presentationService.locatePath(filePath);
+  if (!location || !location.relativePath) {
     return null;
   }
 
-  const presentationId = parts[0];
-  const filename = parts[parts.length - 1];
+  const { presentationId } = location;
+  // Path within the presentation folder (slides may live in subfolders)
+  const filename = location.relativePath;
 
   // Only handle files that are presentation assets (HTML, CSS, JS, images, etc.)
   const ext = path.extname(filename).toLowerCase();
@@ -76,48 +94,91 @@ function parseAssetPath(
     return null;
   }
 
-  // Asset ID is filename without extension
-  const assetId = path.basename(filename, ext);
+  // Asset ID as PresentationService discovery assigned it ('part-1/intro.html' -> 'part-1--intro')
+  const assetId = presentationService.assetIdOf(presentationId, filename);
 
   return { presentationId, assetId, filename };
 }
 
+/** Watcher events that add or remove files or folders */
+const STRUCTURE_EVENTS = ['add', 'unlink', 'addDir', 'unlinkDir'];
+
 /**
- * Handle file system changes in presentations directory.
- * Emits granular socket events based on change type.
+ * Handle a batch of file system changes in presentations directories.
+ * Updates the cache of the affected presentations only, then emits granular
+ * socket events based on change type (after the cache is current, so clients
+ * refetching on these events see the change). Per-presentation events, including
+ * a 'changes:batch' listing every change to the presentation, go to that
+ * presentation's room; everyone gets a 'presentations:summary' for list views.
  */
-function handlePresentationChange(data: ChangeEventData): void {
-  const { eventType, filePath } = data;
-  const assetInfo = parseAssetPath(filePath, currentPresentationsRoot);
-
-  // Always invalidate cache for any change
-  presentationService.invalidateCache();
-
-  // Determine if this is a content change (file modified) or structure change (file added/removed)
-  const isContentChange = eventType === 'change';
-  const isStructureChange = ['add', 'unlink', 'addDir', 'unlinkDir'].includes(eventType);
+async function handlePresentationChange(changes: ChangeEventData[]): Promise<void> {
+  const batch = new Map<string | null, PresentationChanges>();
+  const contentChanges = new Map<string, NonNullable<ReturnType<typeof parseAssetPath>>>();
+  // Latest structure change per presentation (null: outside any): one sidebar refresh each
+  const structureChanges = new Map<string | null, ChangeEventData>();
+
+  for (const change of changes) {
+    const { eventType, filePath } = change;
+    const assetInfo = parseAssetPath(filePath);
+    const relativePath = presentationService.locatePath(filePath)?.relativePath;
+
+    // Unknown location (null): the whole cache was cleared
+    const presentationId = await presentationService.applyFileChange(eventType, filePath);
+
+    // Re-index the changed presentation before the next search (unknown location: everything)
+    searchService.invalidate(presentationId ?? undefined);
+
+    const group = batch.get(presentationId) ?? { presentationId, changes: [] };
+    group.changes.push({ eventType: eventType as WatcherEventType, filePath });
+    batch.set(presentationId, group);
+
+    // Determine if this is a content change (file modified) or structure change (file
+    // added/removed, or a manifest edit reordering the sidebar)
+    if (eventType === 'change' && assetInfo) {
+      contentChanges.set(`${assetInfo.presentationId}/${assetInfo.filename}`, assetInfo);
+    }
+    const isManifestChange =
+      eventType === 'change' && !!relativePath && isManifestPath(relativePath);
+    if (STRUCTURE_EVENTS.includes(eventType) || isManifestChange) {
+      structureChanges.delete(presentationId);
+      structureChanges.set(presentationId, change);
+    }
+  }
 
-  if (isContentChange && assetInfo) {
+  for (const assetInfo of contentChanges.values()) {
     // Content changed - emit specific event for iframe reload
-    io.emit('content:changed', {
-      presentationId: assetInfo.presentationId,
-      assetId: assetInfo.assetId,
-      filename: assetInfo.filename,
-    });
+    events.publish(
+      'content:changed',
+      {
+        presentationId: assetInfo.presentationId,
+        assetId: assetInfo.assetId,
+        filename: assetInfo.filename,
+      },
+      { room: presentationRoom(assetInfo.presentationId) }
+    );
     console.log(`Content changed: ${assetInfo.presentationId}/${assetInfo.filename}`);
   }
 
-  if (isStructureChange) {
+  for (const [presentationId, { eventType, filePath }] of structureChanges) {
     // Structure changed - emit event for sidebar refresh
-    io.emit('structure:changed', {
-      eventType,
-      filePath,
-      presentationId: assetInfo?.presentationId,
+    const event = { eventType, filePath, presentationId: presentationId ?? undefined };
+    events.publish('structure:changed', event, {
+      room: presentationId ? presentationRoom(presentationId) : undefined,
     });
     console.log(`Structure changed (${eventType}): ${filePath}`);
+  }
 
-    // Also emit the legacy event for structure changes only
-    io.emit('presentations:updated', data);
+  const summary: PresentationsSummaryEvent = {
+    presentationIds: Array.from(batch.keys()).filter((id): id is string => id !== null),
+    structureChanged: structureChanges.size > 0,
+  };
+  events.publish('presentations:summary', summary);
+
+  for (const { presentationId, changes } of batch.values()) {
+    // Changes outside every presentation are covered by the summary
+    if (!presentationId) continue;
+    const event: ChangesBatchEvent = { presentationId, changes };
+    events.publish('changes:batch', event, { room: presentationRoom(presentationId) });
   }
 }
 
@@ -136,12 +197,29 @@ const io = new Server(httpServer, {
 // Middleware
 app.use(helmet());
 app.use(compression());
-app.use(cors({ origin: CLIENT_URL }));
-app.use(express.json());
+// The client reads manifest ETags for If-Match (see utils/manifestPrecondition.ts)
+app.use(cors({ origin: CLIENT_URL, exposedHeaders: ['ETag'] }));
+// Slide HTML is written through the API, so allow bodies larger than the 100kb default
+app.use(express.json({ limit: '5mb' }));
 
 // Initialize services
 const presentationService = PresentationService.getInstance();
+const searchService = SearchService.getInstance();
 const watcherManager = new WatcherManager(io);
+const followManager = new FollowManager(io);
+const events = new EventStream(io);
+
+/**
+ * Record a backup recovery and notify clients
+ */
+function reportRecovery(event: FileRecoveryEvent): void {
+  recentRecoveries.unshift(event);
+  recentRecoveries.splice(MAX_RECENT_RECOVERIES);
+  events.publish('file:recovered', event);
+}
+
+presentationService.on('file:recovered', reportRecovery);
+onConfigRecovered(reportRecovery);
 
 /**
  * Static files for flideck-index.js library
@@ -150,9 +228,28 @@ app.use(express.static(path.join(process.cwd(), 'public')));
 
 /**
  * Dynamic static file serving middleware
- * Uses current presentations root which can change at runtime
+ * Uses current presentations roots which can change at runtime
  */
 app.use('/presentations', (req, res, next) => {
+  // Secondary roots are addressed by namespaced IDs: /presentations/<root>:<folder>/...
+  const match = /^\/([^/?]+)(.*)$/.exec(req.url);
+  if (match) {
+    let id: string;
+    try {
+      id = decodeURIComponent(match[1]);
+    } catch {
+      // Malformed percent-encoding (e.g. '%E0%A4%A')
+      next(new AppError('Malformed presentation path', 400));
+      return;
+    }
+    const { root, folder } = presentationService.resolveId(id);
+    if (!root.isPrimary) {
+      req.url = `/${encodeURIComponent(folder)}${match[2]}`;
+      express.static(root.path)(req, res, next);
+      return;
+    }
+  }
+
   // Create static handler with current root on each request
   // This allows hot-reload of the presentations directory
   express.static(currentPresentationsRoot)(req, res, next);
@@ -163,33 +260,32 @@ app.use('/presentations', (req, res, next) => {
  */
 async function handleConfigChange(newConfig: Config, previousRoot?: string): Promise<void> {
   const rootChanged = previousRoot && previousRoot !== newConfig.presentationsRoot;
+  const rootsChanged = JSON.stringify(newConfig.roots) !== JSON.stringify(currentConfig.roots);
+
+  // Recreates running watchers if the polling settings changed
+  watcherManager.configure(newConfig.watcher);
 
   if (rootChanged) {
     console.log(`Presentations root changed: ${previousRoot} -> ${newConfig.presentationsRoot}`);
 
     // Add previous root to history
     currentConfig = await addToHistory(newConfig, previousRoot);
+  }
 
-    // Stop the old presentation watcher
-    watcherManager.stop('presentations');
-
-    // Update the presentation service root
+  if (rootChanged || rootsChanged) {
+    // Update the presentation service roots
     presentationService.setRoot(newConfig.presentationsRoot);
+    presentationService.setRoots(newConfig.roots);
 
-    // Start new watcher for the new path
-    watcherManager.watch({
-      name: 'presentations',
-      path: newConfig.presentationsRoot,
-      event: 'presentations:updated',
-      debounceMs: 200,
-      onChangeCallback: handlePresentationChange,
-    });
+    // Restart watchers for the new set of roots
+    syncRootWatchers(watcherManager, presentationService.getRoots(), handlePresentationChange);
 
-    // Invalidate cache to force re-discovery
+    // Invalidate cache and search index to force re-discovery
     presentationService.invalidateCache();
+    searchService.invalidate();
 
     // Notify clients that config changed
-    io.emit('config:changed', {
+    events.publish('config:changed', {
       presentationsRoot: newConfig.presentationsRoot,
     });
 
@@ -210,19 +306,18 @@ async function initialize(): Promise<void> {
   currentPresentationsRoot = currentConfig.presentationsRoot;
 
   console.log(`Loaded config: presentationsRoot = ${currentPresentationsRoot}`);
+  for (const root of currentConfig.roots) {
+    console.log(`Loaded config: root "${root.name}" = ${root.path}`);
+  }
 
   // Initialize presentation service with config
   presentationService.setRoot(currentPresentationsRoot);
+  presentationService.setRoots(currentConfig.roots);
   presentationService.setClientUrl(CLIENT_URL);
 
-  // Start watching presentations directory
-  watcherManager.watch({
-    name: 'presentations',
-    path: currentPresentationsRoot,
-    event: 'presentations:updated',
-    debounceMs: 200, // Faster debounce for real-time feel
-    onChangeCallback: handlePresentationChange,
-  });
+  // Start watching every presentations directory
+  watcherManager.configure(currentConfig.watcher);
+  syncRootWatchers(watcherManager, presentationService.getRoots(), handlePresentationChange);
 
   // Start watching config.json for hot-reload
   watcherManager.watch({
@@ -247,17 +342,29 @@ async function initialize(): Promise<void> {
 io.on('connection', (socket) => {
   console.log(`Client connected: ${socket.id}`);
 
+  // Clients show a banner while file watching is degraded
+  socket.emit('watcher:status', watcherManager.getHealth());
+
   socket.on('join:presentation', ({ presentationId }) => {
-    socket.join(`presentation:${presentationId}`);
+    socket.join(presentationRoom(presentationId));
     socket.emit('presentation:joined', { presentationId });
-    console.log(`Socket ${socket.id} joined presentation:${presentationId}`);
+    console.log(`Socket ${socket.id} joined ${presentationRoom(presentationId)}`);
   });
 
   socket.on('leave:presentation', ({ presentationId }) => {
-    socket.leave(`presentation:${presentationId}`);
+    socket.leave(presentationRoom(presentationId));
     socket.emit('presentation:left', { presentationId });
   });
 
+  // Presenter view: keep paired presenter/audience windows on the same slide
+  registerPresenterRelay(socket);
+
+  // Follow-me: one leader per presentation room drives everyone else
+  followManager.register(socket);
+
+  // Replay change events missed while disconnected
+  events.register(socket);
+
   socket.on('disconnect', () => {
     console.log(`Client disconnected: ${socket.id}`);
   });
@@ -266,19 +373,43 @@ io.on('connection', (socket) => {
 // Note: Cache invalidation and config reload are handled via watcher callbacks
 // See initialize() for callback setup
 
-// API Routes
-app.use('/api', createRoutes({ io, watcherManager, onPresentationChange: handlePresentationChange }));
+// API Routes (the registry also reads app-level routes such as /api/health)
+const api = new ApiRegistry();
+api.mount('', app.router);
+app.use(
+  API_BASE,
+  createRoutes({
+    io,
+    events,
+    watcherManager,
+    onPresentationChange: handlePresentationChange,
+    api,
+  })
+);
 
 // Health check
-app.get('/api/health', (_req, res) => {
-  res.json({
-    success: true,
-    status: 'ok',
-    timestamp: new Date().toISOString(),
-    presentationsRoot: currentPresentationsRoot,
-    activeWatchers: watcherManager.getActiveWatchers(),
-  });
-});
+app.get(
+  '/api/health',
+  describeRoute({
+    summary:
+      'Check if FliDeck is running; `watchers.degraded` is true while a file watcher is restarting or has fallen back to polling',
+    section: 'health',
+    unwrapped: true,
+    response: 'HealthResponse',
+  }),
+  (_req, res) => {
+    res.json({
+      success: true,
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      presentationsRoot: currentPresentationsRoot,
+      roots: presentationService.getRoots().map((root) => root.name),
+      activeWatchers: watcherManager.getActiveWatchers(),
+      watchers: watcherManager.getHealth(),
+      recoveries: recentRecoveries,
+    });
+  }
+);
 
 // Error handling
 app.use(notFoundHandler);
@@ -0,0 +1,84 @@
+import express from 'express';
+import request from 'supertest';
+import { describe, it, expect } from 'vitest';
+import { errorHandler } from '../errorHandler.js';
+import { validateBody } from '../validateBody.js';
+import type { RequestSchemaName } from '../../utils/apiSchemas.js';
+
+function buildApp(name: RequestSchemaName) {
+  const app = express();
+  app.use(express.json());
+  app.post('/', validateBody(name), (req, res) => {
+    res.json({ success: true, data: req.body });
+  });
+  app.use(errorHandler);
+  return app;
+}
+
+describe('validateBody', () => {
+  it('passes valid bodies through', async () => {
+    const res = await request(buildApp('AddSlideRequest'))
+      .post('/')
+      .send({ file: 'intro.html', title: 'Intro' });
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({ file: 'intro.html', title: 'Intro' });
+  });
+
+  it('validates a missing body as an empty object', async () => {
+    const res = await request(buildApp('SyncFromIndexRequest')).post('/');
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({});
+  });
+
+  it('returns 400 with every failing field', async () => {
+    const res = await request(buildApp('CreateGroupRequest'))
+      .post('/')
+      .send({ id: 'My Group', label: 42 });
+    expect(res.status).toBe(400);
+    expect(res.body.success).toBe(false);
+    expect(res.body.errors).toEqual([
+      { path: 'id', message: 'must be lowercase kebab-case (e.g., "my-group")' },
+      { path: 'label', message: 'must be string' },
+    ]);
+    expect(res.body.error).toBe(
+      'Invalid request body: id must be lowercase kebab-case (e.g., "my-group"); label must be string'
+    );
+  });
+
+  it('reports missing and nested fields by path', async () => {
+    const res = await request(buildApp('BulkAddSlidesRequest'))
+      .post('/')
+      .send({ slides: [{ file: 'a.html' }, { title: 'No file' }, { file: 'c.txt' }] });
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([
+      { path: 'slides[1].file', message: 'is required' },
+      { path: 'slides[2].file', message: 'must be a relative path ending with .html' },
+    ]);
+  });
+
+  it('lists the allowed values of enums', async () => {
+    const res = await request(buildApp('MigratePresentationRequest'))
+      .post('/')
+      .send({ output: 'elsewhere' });
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([
+      { path: 'output', message: 'must be one of: sibling, in-place' },
+    ]);
+  });
+
+  it('reports one error for a value matching none of its alternatives', async () => {
+    const res = await request(buildApp('BulkAddSlidesRequest'))
+      .post('/')
+      .send({ slides: [], position: { before: 'a.html' } });
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([
+      { path: 'position', message: "must be 'start', 'end' or { after: <slide file> }" },
+    ]);
+  });
+
+  it('rejects a body that is not an object', async () => {
+    const res = await request(buildApp('UpdateSlideRequest')).post('/').send(['title']);
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([{ path: '', message: 'must be object' }]);
+  });
+});
@@ -1,4 +1,5 @@
 import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import type { FieldError } from '@flideck/shared';
 
 /**
  * Custom application error with status code support.
@@ -17,6 +18,18 @@ export class AppError extends Error {
   }
 }
 
+/**
+ * Invalid request body (400), with the fields that failed validation.
+ */
+export class RequestValidationError extends AppError {
+  public readonly errors: FieldError[];
+
+  constructor(message: string, errors: FieldError[]) {
+    super(message, 400);
+    this.errors = errors;
+  }
+}
+
 /**
  * Type for async request handlers that return Promises.
  */
@@ -50,6 +63,7 @@ export function errorHandler(err: Error, _req: Request, res: Response, _next: Ne
   res.status(statusCode).json({
     success: false,
     error: err.message,
+    ...(err instanceof RequestValidationError && { errors: err.errors }),
     ...(process.env.NODE_ENV === 'development' && {
       stack: err.stack,
     }),
@@ -0,0 +1,103 @@
+import AjvModule from 'ajv';
+import type { ErrorObject, ValidateFunction } from 'ajv';
+import type { RequestHandler } from 'express';
+import type { FieldError } from '@flideck/shared';
+import { RequestValidationError } from './errorHandler.js';
+import { withRouteDoc } from '../utils/apiRegistry.js';
+import { PATTERN_MESSAGES, REQUEST_SCHEMAS, type RequestSchemaName } from '../utils/apiSchemas.js';
+
+// Handle both CommonJS and ESM imports
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const Ajv = (AjvModule as any).default || AjvModule;
+
+const ajv = new Ajv({ allErrors: true, verbose: true });
+
+/**
+ * Convert an instance path ('/slides/2/file') to a field path ('slides[2].file').
+ */
+function fieldPath(instancePath: string): string {
+  return instancePath
+    .split('/')
+    .slice(1)
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((path, token) => {
+      if (/^\d+$/.test(token)) return `${path}[${token}]`;
+      return path ? `${path}.${token}` : token;
+    }, '');
+}
+
+function toFieldError(error: ErrorObject): FieldError {
+  const path = fieldPath(error.instancePath);
+
+  switch (error.keyword) {
+    case 'required': {
+      const property: string = error.params.missingProperty;
+      return { path: path ? `${path}.${property}` : property, message: 'is required' };
+    }
+    case 'enum':
+      return { path, message: `must be one of: ${error.params.allowedValues.join(', ')}` };
+    case 'pattern':
+      return { path, message: PATTERN_MESSAGES[error.params.pattern] ?? `${error.message}` };
+    case 'minLength':
+      if (error.params.limit === 1) return { path, message: 'must not be empty' };
+      break;
+    case 'oneOf':
+    case 'anyOf':
+      if (error.parentSchema?.description) {
+        return { path, message: `must be ${error.parentSchema.description}` };
+      }
+      break;
+  }
+  return { path, message: error.message ?? 'is invalid' };
+}
+
+/**
+ * Field-level errors from ajv's, one per field and message.
+ */
+function toFieldErrors(errors: ErrorObject[]): FieldError[] {
+  const fieldErrors: FieldError[] = [];
+
+  for (const error of errors) {
+    // Failures inside oneOf/anyOf alternatives are summed up by the oneOf/anyOf error
+    if (/\/(oneOf|anyOf)\/\d+\//.test(error.schemaPath)) continue;
+
+    const fieldError = toFieldError(error);
+    const duplicate = fieldErrors.some(
+      (existing) => existing.path === fieldError.path && existing.message === fieldError.message
+    );
+    if (!duplicate) fieldErrors.push(fieldError);
+  }
+
+  return fieldErrors;
+}
+
+/**
+ * Validate the JSON request body against one of REQUEST_SCHEMAS. Invalid
+ * bodies are rejected with a 400 listing every failing field:
+ *
+ *   { success: false, error: 'Invalid request body: id is required',
+ *     errors: [{ path: 'id', message: 'is required' }] }
+ *
+ * A missing body is validated (and passed on) as {}. Also documents the
+ * route's request body for the API registry.
+ */
+export function validateBody(name: RequestSchemaName): RequestHandler {
+  const validate: ValidateFunction = ajv.compile(REQUEST_SCHEMAS[name]);
+
+  return withRouteDoc(
+    (req, _res, next) => {
+      req.body ??= {};
+      if (validate(req.body)) {
+        next();
+        return;
+      }
+
+      const errors = toFieldErrors(validate.errors ?? []);
+      const summary = errors
+        .map((error) => (error.path ? `${error.path} ${error.message}` : error.message))
+        .join('; ');
+      next(new RequestValidationError(`Invalid request body: ${summary}`, errors));
+    },
+    { body: name }
+  );
+}
@@ -1,32 +1,56 @@
 import express from 'express';
 import request from 'supertest';
 import { describe, it, expect } from 'vitest';
+import type { Server } from 'socket.io';
 import { errorHandler } from '../../middleware/errorHandler.js';
-import { createCapabilitiesRoutes } from '../capabilities.js';
+import { EventStream } from '../../EventStream.js';
+import type { WatcherManager } from '../../WatcherManager.js';
+import { ApiRegistry } from '../../utils/apiRegistry.js';
+import { API_BASE, createRoutes } from '../index.js';
+
+const mockIo = {
+  to: () => ({ emit: () => {} }),
+  emit: () => {},
+} as unknown as Server;
+
+const mockWatcherManager = {
+  watch: () => {},
+  stop: () => {},
+  getActiveWatchers: () => [],
+} as unknown as WatcherManager;
 
 function buildApp() {
   const app = express();
   app.use(express.json());
-  app.use('/', createCapabilitiesRoutes());
+  app.use(
+    API_BASE,
+    createRoutes({
+      io: mockIo,
+      events: new EventStream(mockIo),
+      watcherManager: mockWatcherManager,
+      onPresentationChange: () => {},
+      api: new ApiRegistry(),
+    })
+  );
   app.use(errorHandler);
   return app;
 }
 
 describe('GET /api/capabilities', () => {
   it('returns 200 with success envelope', async () => {
-    const res = await request(buildApp()).get('/');
+    const res = await request(buildApp()).get('/api/capabilities');
     expect(res.status).toBe(200);
     expect(res.body.success).toBe(true);
     expect(res.body.data).toBeDefined();
   });
 
   it('returns data.name as FliDeck Presentation Server', async () => {
-    const res = await request(buildApp()).get('/');
+    const res = await request(buildApp()).get('/api/capabilities');
     expect(res.body.data.name).toBe('FliDeck Presentation Server');
   });
 
   it('returns data.api_summary as an object with known keys', async () => {
-    const res = await request(buildApp()).get('/');
+    const res = await request(buildApp()).get('/api/capabilities');
     expect(res.body.data.api_summary).toBeDefined();
     expect(typeof res.body.data.api_summary).toBe('object');
     expect(Array.isArray(res.body.data.api_summary)).toBe(false);
@@ -35,9 +59,24 @@ describe('GET /api/capabilities', () => {
   });
 
   it('returns data.tips as a non-empty array of strings', async () => {
-    const res = await request(buildApp()).get('/');
+    const res = await request(buildApp()).get('/api/capabilities');
     expect(Array.isArray(res.body.data.tips)).toBe(true);
     expect(res.body.data.tips.length).toBeGreaterThan(0);
     expect(typeof res.body.data.tips[0]).toBe('string');
   });
+
+  it('derives api_summary from the registered routes', async () => {
+    const res = await request(buildApp()).get('/api/capabilities');
+    const { api_summary } = res.body.data;
+    expect(api_summary.slides['POST /api/presentations/:id/slides']).toBe(
+      'Add slide to manifest (optional content writes its HTML)'
+    );
+    expect(api_summary.capabilities).toHaveProperty('GET /api/openapi.json');
+    expect(api_summary.events).toHaveProperty('GET /api/events');
+
+    const summaries = Object.values(api_summary).flatMap((section) =>
+      Object.values(section as Record<string, string>)
+    );
+    expect(summaries).not.toContain('Undocumented');
+  });
 });
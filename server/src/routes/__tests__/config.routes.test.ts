@@ -4,13 +4,19 @@ import { describe, it, expect } from 'vitest';
 import type { Server } from 'socket.io';
 import { errorHandler } from '../../middleware/errorHandler.js';
 import { createConfigRoutes } from '../config.js';
+import { EventStream } from '../../EventStream.js';
 
 const mockIo = {
   to: () => ({ emit: () => {} }),
   emit: () => {},
 } as unknown as Server;
 
-const mockWatcherManager = { watch: () => {}, unwatch: () => {}, stop: () => {} } as any;
+const mockWatcherManager = {
+  watch: () => {},
+  unwatch: () => {},
+  stop: () => {},
+  getActiveWatchers: () => [],
+} as any;
 
 const mockOnChange = () => {};
 
@@ -20,7 +26,7 @@ function buildApp() {
   app.use(
     '/',
     createConfigRoutes({
-      io: mockIo,
+      events: new EventStream(mockIo),
       watcherManager: mockWatcherManager,
       onPresentationChange: mockOnChange,
     })
@@ -45,4 +51,36 @@ describe('GET /api/config', () => {
     // data itself should not carry a success key — that would indicate double-wrapping
     expect(res.body.data.success).toBeUndefined();
   });
+
+  it('lists served roots with the primary root first', async () => {
+    const res = await request(buildApp()).get('/');
+    expect(res.status).toBe(200);
+    expect(Array.isArray(res.body.data.roots)).toBe(true);
+    expect(res.body.data.roots[0]).toMatchObject({
+      path: res.body.data.presentationsRoot,
+      isPrimary: true,
+    });
+  });
+});
+
+describe('PUT /api/config', () => {
+  it('returns 400 when neither presentationsRoot nor roots is given', async () => {
+    const res = await request(buildApp()).put('/').send({});
+    expect(res.status).toBe(400);
+    expect(res.body.success).toBe(false);
+  });
+
+  it('returns 400 when roots is not an array', async () => {
+    const res = await request(buildApp()).put('/').send({ roots: 'archive' });
+    expect(res.status).toBe(400);
+    expect(res.body.success).toBe(false);
+  });
+
+  it('returns 404 when a root directory does not exist', async () => {
+    const res = await request(buildApp())
+      .put('/')
+      .send({ roots: [{ name: 'archive', path: '/nonexistent-flideck-root-xyz' }] });
+    expect(res.status).toBe(404);
+    expect(res.body.success).toBe(false);
+  });
 });
@@ -0,0 +1,139 @@
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server as HttpServer } from 'http';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { Server } from 'socket.io';
+import { errorHandler } from '../../middleware/errorHandler.js';
+import { createEventRoutes } from '../events.js';
+import { EventStream } from '../../EventStream.js';
+
+const mockIo = {
+  to: () => ({ emit: () => {} }),
+  emit: () => {},
+} as unknown as Server;
+
+let events: EventStream;
+let server: HttpServer;
+let baseUrl: string;
+
+beforeEach(async () => {
+  events = new EventStream(mockIo);
+  const app = express();
+  app.use('/', createEventRoutes({ events }));
+  app.use(errorHandler);
+
+  server = app.listen(0);
+  await new Promise<void>((resolve) => server.once('listening', () => resolve()));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+/**
+ * Open the stream, run `act` once it is connected, and collect text until `until` appears.
+ */
+async function readStream(
+  path: string,
+  until: string,
+  options: { headers?: Record<string, string>; act?: () => void } = {}
+): Promise<{ status: number; contentType: string | null; text: string }> {
+  const controller = new AbortController();
+  const res = await fetch(`${baseUrl}${path}`, {
+    headers: options.headers,
+    signal: controller.signal,
+  });
+  if (!res.body) throw new Error('No response body');
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  options.act?.();
+  while (!text.includes(until)) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value, { stream: true });
+  }
+  controller.abort();
+  return { status: res.status, contentType: res.headers.get('content-type'), text };
+}
+
+describe('GET /api/events', () => {
+  it('streams published events as SSE, filtered by presentation', async () => {
+    const { status, contentType, text } = await readStream('/?presentationId=deck', '-4\n', {
+      act: () => {
+        events.publish('content:changed', { presentationId: 'other', assetId: 'a' });
+        events.publish('config:changed', { presentationsRoot: '/decks' });
+        events.publish('presentations:summary', { presentationIds: ['other'] });
+        events.publish('content:changed', { presentationId: 'deck', assetId: 'b' });
+      },
+    });
+
+    expect(status).toBe(200);
+    expect(contentType).toContain('text/event-stream');
+    expect(text).not.toContain('"other"');
+    expect(text).not.toContain('event: config:changed');
+    expect(text).not.toContain('event: presentations:summary');
+    expect(text).toContain(
+      `id: ${events.epoch}-4\nevent: content:changed\ndata: {"presentationId":"deck","assetId":"b"}\n\n`
+    );
+  });
+
+  it('adds global events to a filtered stream with global=true', async () => {
+    const { text } = await readStream('/?presentationId=deck&global=true', '-3\n', {
+      act: () => {
+        events.publish('content:changed', { presentationId: 'other', assetId: 'a' });
+        events.publish('config:changed', { presentationsRoot: '/decks' });
+        events.publish('content:changed', { presentationId: 'deck', assetId: 'b' });
+      },
+    });
+
+    expect(text).not.toContain('"other"');
+    expect(text).toContain(
+      `id: ${events.epoch}-2\nevent: config:changed\ndata: {"presentationsRoot":"/decks"}\n\n`
+    );
+    expect(text).toContain('"assetId":"b"');
+  });
+
+  it('replays events after Last-Event-ID', async () => {
+    events.publish('structure:changed', { presentationId: 'deck', eventType: 'add' });
+    events.publish('structure:changed', { presentationId: 'deck', eventType: 'unlink' });
+
+    const { text } = await readStream('/', '-2\n', {
+      headers: { 'Last-Event-ID': `${events.epoch}-1` },
+    });
+
+    expect(text).not.toContain('-1\n');
+    expect(text).toContain('"eventType":"unlink"');
+  });
+
+  it('asks the client to resync when the gap cannot be replayed', async () => {
+    events.publish('config:changed', {});
+
+    const { text } = await readStream(`/?lastEventId=${events.epoch}-7`, 'event: resync');
+
+    expect(text).toContain(`id: ${events.epoch}-1\nevent: resync\n`);
+  });
+
+  it('asks the client to resync after a server restart', async () => {
+    for (let i = 0; i < 3; i++) events.publish('config:changed', {});
+
+    // An ID from the previous run (or a bare number) cannot be resumed, even within range
+    const { text } = await readStream('/', 'event: resync', {
+      headers: { 'Last-Event-ID': 'deadbeef-1' },
+    });
+    const bare = await readStream('/?lastEventId=1', 'event: resync');
+
+    expect(text).toContain(`id: ${events.epoch}-3\nevent: resync\n`);
+    expect(text).not.toContain('event: config:changed');
+    expect(bare.text).toContain('event: resync');
+  });
+
+  it('rejects a malformed Last-Event-ID with 400', async () => {
+    const res = await fetch(`${baseUrl}/`, { headers: { 'Last-Event-ID': 'abc' } });
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,97 @@
+import express from 'express';
+import request from 'supertest';
+import { describe, it, expect } from 'vitest';
+import type { Server } from 'socket.io';
+import { errorHandler } from '../../middleware/errorHandler.js';
+import { EventStream } from '../../EventStream.js';
+import type { WatcherManager } from '../../WatcherManager.js';
+import { ApiRegistry } from '../../utils/apiRegistry.js';
+import { API_BASE, createRoutes } from '../index.js';
+
+const mockIo = {
+  to: () => ({ emit: () => {} }),
+  emit: () => {},
+} as unknown as Server;
+
+const mockWatcherManager = {
+  watch: () => {},
+  stop: () => {},
+  getActiveWatchers: () => [],
+} as unknown as WatcherManager;
+
+function buildApp() {
+  const app = express();
+  app.use(express.json());
+  app.use(
+    API_BASE,
+    createRoutes({
+      io: mockIo,
+      events: new EventStream(mockIo),
+      watcherManager: mockWatcherManager,
+      onPresentationChange: () => {},
+      api: new ApiRegistry(),
+    })
+  );
+  app.use(errorHandler);
+  return app;
+}
+
+/** Every $ref in a JSON value */
+function collectRefs(value: unknown, refs = new Set<string>()): Set<string> {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectRefs(item, refs));
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      if (key === '$ref' && typeof child === 'string') refs.add(child);
+      else collectRefs(child, refs);
+    }
+  }
+  return refs;
+}
+
+describe('GET /api/openapi.json', () => {
+  it('returns an unwrapped OpenAPI 3.1 document', async () => {
+    const res = await request(buildApp()).get('/api/openapi.json');
+    expect(res.status).toBe(200);
+    expect(res.body.openapi).toBe('3.1.0');
+    expect(res.body.success).toBeUndefined();
+    expect(res.body.info.title).toBe('FliDeck API');
+  });
+
+  it('lists routes with OpenAPI path templates, parameters and schemas', async () => {
+    const res = await request(buildApp()).get('/api/openapi.json');
+    const operation = res.body.paths['/api/presentations/{id}/slides'].post;
+
+    expect(operation.tags).toEqual(['slides']);
+    expect(operation.parameters).toEqual([
+      expect.objectContaining({ name: 'id', in: 'path', required: true }),
+    ]);
+    expect(operation.requestBody.content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/AddSlideRequest',
+    });
+    expect(operation.responses['201'].content['application/json'].schema.properties.data).toEqual({
+      $ref: '#/components/schemas/Asset',
+    });
+    expect(res.body.components.schemas.AddSlideRequest.required).toEqual(['file']);
+  });
+
+  it('documents every route', async () => {
+    const res = await request(buildApp()).get('/api/openapi.json');
+    const operations = Object.values(res.body.paths).flatMap((methods) =>
+      Object.values(methods as Record<string, { summary: string }>)
+    );
+
+    expect(operations.length).toBeGreaterThan(50);
+    expect(operations.filter((operation) => operation.summary === 'Undocumented')).toEqual([]);
+  });
+
+  it('only references schemas that exist', async () => {
+    const res = await request(buildApp()).get('/api/openapi.json');
+    const { schemas, responses } = res.body.components;
+
+    for (const ref of collectRefs(res.body)) {
+      const [, , section, name] = ref.split('/');
+      expect(section === 'schemas' ? schemas[name] : responses[name], ref).toBeDefined();
+    }
+  });
+});
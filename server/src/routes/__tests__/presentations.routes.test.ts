@@ -7,6 +7,7 @@ import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import type { Server } from 'socket.io';
 import { errorHandler } from '../../middleware/errorHandler.js';
 import { createPresentationRoutes } from '../presentations.js';
+import { EventStream } from '../../EventStream.js';
 import { PresentationService } from '../../services/PresentationService.js';
 
 const mockIo = {
@@ -31,7 +32,7 @@ beforeAll(async () => {
 
   app = express();
   app.use(express.json());
-  app.use('/', createPresentationRoutes({ io: mockIo }));
+  app.use('/', createPresentationRoutes({ io: mockIo, events: new EventStream(mockIo) }));
   app.use(errorHandler);
 });
 
@@ -139,5 +140,512 @@ describe('presentations routes', () => {
     expect(res.status).toBe(400);
     expect(res.body.success).toBe(false);
     expect(typeof res.body.error).toBe('string');
+    expect(res.body.errors).toEqual([{ path: 'file', message: 'is required' }]);
+  });
+
+  it('PUT /:id/slides/:slideId rejects fields of the wrong type', async () => {
+    const res = await request(app)
+      .put('/test-deck/slides/intro')
+      .send({ title: 42, recommended: 'yes' });
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([
+      { path: 'title', message: 'must be string' },
+      { path: 'recommended', message: 'must be boolean' },
+    ]);
+  });
+
+  // Manifest history: list, unknown version, malformed version
+  it('GET /:id/manifest/history returns an array of snapshots', async () => {
+    const res = await request(app).get('/test-deck/manifest/history');
+    expect(res.status).toBe(200);
+    expect(res.body.success).toBe(true);
+    expect(Array.isArray(res.body.data)).toBe(true);
+  });
+
+  it('GET /:id/manifest/history/:version returns 404 for unknown version', async () => {
+    const res = await request(app).get('/test-deck/manifest/history/2020-01-01T00-00-00-000Z');
+    expect(res.status).toBe(404);
+    expect(res.body.success).toBe(false);
+  });
+
+  it('POST /:id/manifest/history/:version/restore returns 400 for malformed version', async () => {
+    const res = await request(app).post('/test-deck/manifest/history/not-a-version/restore');
+    expect(res.status).toBe(400);
+    expect(res.body.success).toBe(false);
+  });
+
+  // Offline export: html download, zip download, bad format, unknown presentation
+  it('GET /:id/export returns a standalone HTML download by default', async () => {
+    const res = await request(app).get('/test-deck/export');
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toContain('text/html');
+    expect(res.headers['content-disposition']).toBe('attachment; filename="test-deck.html"');
+    expect(res.text).toContain('id="flideck-data"');
+  });
+
+  it('GET /:id/export?format=zip returns a zip download', async () => {
+    const res = await request(app).get('/test-deck/export?format=zip');
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toBe('application/zip');
+    expect(res.headers['content-disposition']).toBe('attachment; filename="test-deck.zip"');
+  });
+
+  it('GET /:id/export returns 400 for an unknown format', async () => {
+    const res = await request(app).get('/test-deck/export?format=pdf');
+    expect(res.status).toBe(400);
+    expect(res.body.success).toBe(false);
+  });
+
+  it('GET /:id/export returns 404 for an unknown presentation', async () => {
+    const res = await request(app).get('/no-such-deck/export');
+    expect(res.status).toBe(404);
+    expect(res.body.success).toBe(false);
+  });
+});
+
+describe('presentations routes — multiple roots', () => {
+  let archiveRoot: string;
+
+  beforeAll(async () => {
+    archiveRoot = path.join(os.tmpdir(), `flideck-pres-archive-${Date.now()}`);
+    await fs.ensureDir(path.join(archiveRoot, 'old-deck'));
+    await fs.writeFile(path.join(archiveRoot, 'old-deck', 'index.html'), '<html></html>');
+    PresentationService.getInstance().setRoots([{ name: 'archive', path: archiveRoot }]);
+  });
+
+  afterAll(async () => {
+    PresentationService.getInstance().setRoots([]);
+    await fs.remove(archiveRoot);
+  });
+
+  it('GET / lists presentations from every root with namespaced IDs', async () => {
+    const res = await request(app).get('/');
+    expect(res.status).toBe(200);
+    const ids = (res.body.data as Array<{ id: string }>).map((p) => p.id);
+    expect(ids).toEqual(expect.arrayContaining(['test-deck', 'archive:old-deck']));
+  });
+
+  it('GET /?root=<name> lists only that root', async () => {
+    const res = await request(app).get('/?root=archive');
+    expect(res.status).toBe(200);
+    expect(res.body.data).toHaveLength(1);
+    expect(res.body.data[0]).toMatchObject({ id: 'archive:old-deck', root: 'archive' });
+  });
+
+  it('GET /:id?root=<name> resolves a bare ID in the selected root', async () => {
+    const res = await request(app).get('/old-deck?root=archive');
+    expect(res.status).toBe(200);
+    expect(res.body.data.id).toBe('archive:old-deck');
+  });
+
+  it('GET /:id accepts a namespaced ID', async () => {
+    const res = await request(app).get('/archive:old-deck');
+    expect(res.status).toBe(200);
+    expect(res.body.data.name).toBe('Old Deck');
+  });
+
+  it('returns 404 for an unknown root selector', async () => {
+    const res = await request(app).get('/?root=missing-root');
+    expect(res.status).toBe(404);
+    expect(res.body.success).toBe(false);
+  });
+});
+
+describe('presentations routes — lifecycle', () => {
+  beforeAll(async () => {
+    for (const id of ['life-deck', 'doomed-deck']) {
+      await fs.ensureDir(path.join(tmpRoot, id));
+      await fs.writeFile(path.join(tmpRoot, id, 'index.html'), '<html></html>');
+    }
+  });
+
+  it('POST /:id/clone copies the presentation and returns 201 with its location', async () => {
+    const res = await request(app)
+      .post('/life-deck/clone')
+      .send({ newId: 'life-copy', name: 'Copy' });
+    expect(res.status).toBe(201);
+    expect(res.body.data).toEqual({ id: 'life-copy', path: path.join(tmpRoot, 'life-copy') });
+
+    const copy = await request(app).get('/life-copy');
+    expect(copy.body.data.name).toBe('Copy');
+  });
+
+  it('POST /:id/rename moves the presentation to the new ID', async () => {
+    const res = await request(app).post('/life-copy/rename').send({ newId: 'life-renamed' });
+    expect(res.status).toBe(200);
+    expect(res.body.data.id).toBe('life-renamed');
+    expect((await request(app).get('/life-copy')).status).toBe(404);
+    expect((await request(app).get('/life-renamed')).status).toBe(200);
+  });
+
+  it('POST /:id/rename returns 409 when the new ID is taken', async () => {
+    const res = await request(app).post('/life-renamed/rename').send({ newId: 'life-deck' });
+    expect(res.status).toBe(409);
+    expect(res.body.success).toBe(false);
+  });
+
+  it('POST /:id/clone returns 400 for a missing or unsafe newId', async () => {
+    expect((await request(app).post('/life-deck/clone').send({})).status).toBe(400);
+    expect((await request(app).post('/life-deck/clone').send({ newId: '../x' })).status).toBe(400);
+  });
+
+  it('DELETE /:id?soft=true moves the presentation to the trash', async () => {
+    const res = await request(app).delete('/doomed-deck?soft=true');
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ id: 'doomed-deck', soft: true });
+    expect(await fs.pathExists(res.body.data.trashPath)).toBe(true);
+    expect((await request(app).get('/doomed-deck')).status).toBe(404);
+  });
+
+  it('DELETE /:id removes the presentation and returns 404 when it is gone', async () => {
+    expect((await request(app).delete('/life-renamed')).status).toBe(200);
+    expect(await fs.pathExists(path.join(tmpRoot, 'life-renamed'))).toBe(false);
+    expect((await request(app).delete('/life-renamed')).status).toBe(404);
+  });
+});
+
+describe('presentations routes — slide content', () => {
+  const deckPath = () => path.join(tmpRoot, 'content-deck');
+
+  beforeAll(async () => {
+    await fs.ensureDir(deckPath());
+    await fs.writeFile(path.join(deckPath(), 'index.html'), '<html></html>');
+  });
+
+  it('PUT /:id/slides/:slideId/content creates and registers a new slide (201)', async () => {
+    const res = await request(app)
+      .put('/content-deck/slides/intro/content')
+      .send({ content: '<h1>Intro</h1>' });
+    expect(res.status).toBe(201);
+    expect(res.body.data).toMatchObject({ id: 'intro', filename: 'intro.html' });
+    expect(await fs.readFile(path.join(deckPath(), 'intro.html'), 'utf-8')).toBe('<h1>Intro</h1>');
+
+    const manifest = await request(app).get('/content-deck/manifest');
+    expect(manifest.body.data.slides).toEqual([{ file: 'intro.html' }]);
+  });
+
+  it('PUT /:id/slides/:slideId/content overwrites an existing slide (200)', async () => {
+    const res = await request(app)
+      .put('/content-deck/slides/intro/content')
+      .send({ content: '<h1>Updated</h1>' });
+    expect(res.status).toBe(200);
+    expect(await fs.readFile(path.join(deckPath(), 'intro.html'), 'utf-8')).toBe(
+      '<h1>Updated</h1>'
+    );
+  });
+
+  it('PUT /:id/slides/:slideId with group: null moves the slide to root level', async () => {
+    await request(app).post('/content-deck/groups').send({ id: 'part-1', label: 'Part 1' });
+    await request(app).put('/content-deck/slides/intro').send({ group: 'part-1' });
+
+    const res = await request(app).put('/content-deck/slides/intro').send({ group: null });
+    expect(res.status).toBe(200);
+
+    const manifest = await request(app).get('/content-deck/manifest');
+    expect(manifest.body.data.slides).toEqual([{ file: 'intro.html' }]);
+  });
+
+  it('PUT /:id/slides/:slideId/content returns 400 without string content', async () => {
+    const res = await request(app).put('/content-deck/slides/intro/content').send({});
+    expect(res.status).toBe(400);
+    expect(res.body.success).toBe(false);
+  });
+
+  it('POST /:id/slides with content writes the file and returns the asset', async () => {
+    const res = await request(app)
+      .post('/content-deck/slides')
+      .send({ file: 'part-1/details.html', title: 'Details', content: '<h1>Details</h1>' });
+    expect(res.status).toBe(201);
+    expect(res.body.data).toMatchObject({ id: 'part-1--details', title: 'Details' });
+  });
+
+  it('POST /:id/manifest/slides/bulk reports which files were written', async () => {
+    const res = await request(app)
+      .post('/content-deck/manifest/slides/bulk')
+      .send({ slides: [{ file: 'summary.html', content: '<h1>Summary</h1>' }] });
+    expect(res.status).toBe(201);
+    expect(res.body.data.written).toEqual(['summary.html']);
+    expect(await fs.pathExists(path.join(deckPath(), 'summary.html'))).toBe(true);
+  });
+});
+
+describe('presentations routes — slide lint', () => {
+  beforeAll(async () => {
+    const deckPath = path.join(tmpRoot, 'lint-deck');
+    await fs.ensureDir(deckPath);
+    await fs.writeFile(path.join(deckPath, 'index.html'), '<h1>Clean</h1>');
+    await fs.writeFile(
+      path.join(deckPath, 'messy.html'),
+      '<style>\n* { margin: 0 }\n</style>\n<div style="position: fixed">x</div>'
+    );
+  });
+
+  it('GET /:id/lint reports issues per slide with totals', async () => {
+    const res = await request(app).get('/lint-deck/lint');
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ presentationId: 'lint-deck', errors: 1, warnings: 1 });
+    const messy = res.body.data.slides.find((s: { assetId: string }) => s.assetId === 'messy');
+    expect(messy.issues.map((i: { rule: string; line: number }) => [i.rule, i.line])).toEqual([
+      ['global-reset', 2],
+      ['position-fixed', 4],
+    ]);
+  });
+
+  it('GET /:id/slides/:slideId/lint lints one slide and returns 404 for unknown slides', async () => {
+    const res = await request(app).get('/lint-deck/slides/index/lint');
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ assetId: 'index', issues: [], errors: 0 });
+
+    expect((await request(app).get('/lint-deck/slides/missing/lint')).status).toBe(404);
+    expect((await request(app).get('/no-such-deck/lint')).status).toBe(404);
+  });
+
+  it('skips slides deleted since the presentation was discovered', async () => {
+    const goneFile = path.join(tmpRoot, 'lint-deck', 'gone.html');
+    await fs.writeFile(goneFile, '<h1>Soon gone</h1>');
+    PresentationService.getInstance().invalidateCache('lint-deck');
+    await PresentationService.getInstance().getById('lint-deck');
+    // Removed without a watcher event, so the cached presentation still lists it
+    await fs.remove(goneFile);
+
+    const res = await request(app).get('/lint-deck/lint');
+    expect(res.status).toBe(200);
+    expect(res.body.data.slides.map((s: { assetId: string }) => s.assetId).sort()).toEqual([
+      'index',
+      'messy',
+    ]);
+    expect((await request(app).get('/lint-deck/slides/gone/lint')).status).toBe(404);
+  });
+});
+
+describe('presentations routes — harness migration', () => {
+  const deckPath = () => path.join(tmpRoot, 'legacy-deck');
+  const typeA =
+    '<html><head><style>h1 { color: red; }</style></head><body><h1>A</h1></body></html>';
+  const typeC = '<body><p>Clock</p><script>setInterval(tick, 1000);</script></body>';
+
+  beforeAll(async () => {
+    await fs.ensureDir(path.join(deckPath(), 'images'));
+    await fs.writeFile(path.join(deckPath(), 'index.html'), typeA);
+    await fs.writeFile(path.join(deckPath(), 'clock.html'), typeC);
+    await fs.writeFile(path.join(deckPath(), 'images', 'logo.png'), 'png');
+    await fs.writeJson(path.join(deckPath(), 'index.json'), { slides: [{ file: 'index.html' }] });
+  });
+
+  it('POST /:id/migrate with dryRun returns diffs and writes nothing', async () => {
+    const res = await request(app).post('/legacy-deck/migrate').send({ dryRun: true });
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({
+      targetId: 'legacy-deck-v2',
+      output: 'sibling',
+      migrated: 1,
+      flagged: 1,
+      skipped: 0,
+    });
+    expect(res.body.data.slides[0]).toMatchObject({
+      file: 'index.html',
+      status: 'migrated',
+      type: 'a',
+    });
+    expect(res.body.data.slides[0].diff).toContain('+<!-- harness-fragment: type-a -->');
+    expect(await fs.pathExists(path.join(tmpRoot, 'legacy-deck-v2'))).toBe(false);
+    expect(await fs.readFile(path.join(deckPath(), 'index.html'), 'utf-8')).toBe(typeA);
+  });
+
+  it('POST /:id/migrate writes a sibling copy with harness types in its manifest', async () => {
+    const res = await request(app).post('/legacy-deck/migrate').send({});
+    expect(res.status).toBe(201);
+
+    const target = path.join(tmpRoot, 'legacy-deck-v2');
+    expect(await fs.readFile(path.join(target, 'index.html'), 'utf-8')).toContain(
+      '<!-- harness-fragment: type-a -->'
+    );
+    expect(await fs.readFile(path.join(target, 'clock.html'), 'utf-8')).toMatch(
+      /^<!-- WARNING: harness-migration-skip: type-c/
+    );
+    expect(await fs.pathExists(path.join(target, 'images', 'logo.png'))).toBe(true);
+    expect((await fs.readJson(path.join(target, 'index.json'))).slides).toEqual([
+      { file: 'index.html', harnessType: 'a' },
+      { file: 'clock.html', harnessType: 'c' },
+    ]);
+    expect(await fs.readFile(path.join(deckPath(), 'index.html'), 'utf-8')).toBe(typeA);
+
+    // The sibling now exists
+    expect((await request(app).post('/legacy-deck/migrate').send({})).status).toBe(409);
+  });
+
+  it('POST /:id/migrate in place rewrites slides but leaves Type C slides untouched', async () => {
+    const res = await request(app).post('/legacy-deck/migrate').send({ output: 'in-place' });
+    expect(res.status).toBe(200);
+    expect(res.body.data.targetId).toBe('legacy-deck');
+
+    expect(await fs.readFile(path.join(deckPath(), 'index.html'), 'utf-8')).toMatch(
+      /^<!-- harness-fragment: type-a -->/
+    );
+    expect(await fs.readFile(path.join(deckPath(), 'clock.html'), 'utf-8')).toBe(typeC);
+
+    const presentation = await request(app).get('/legacy-deck');
+    expect(
+      presentation.body.data.assets.map((a: { id: string; harnessType?: string }) => [
+        a.id,
+        a.harnessType,
+      ])
+    ).toEqual([
+      ['index', 'a'],
+      ['clock', 'c'],
+    ]);
+  });
+
+  it('POST /:id/migrate validates the request', async () => {
+    expect((await request(app).post('/legacy-deck/migrate').send({ output: 'copy' })).status).toBe(
+      400
+    );
+    expect(
+      (await request(app).post('/legacy-deck/migrate').send({ targetId: '../x' })).status
+    ).toBe(400);
+    expect((await request(app).post('/no-such-deck/migrate').send({})).status).toBe(404);
+  });
+});
+
+describe('presentations routes — ETags', () => {
+  const deckPath = () => path.join(tmpRoot, 'etag-deck');
+
+  beforeAll(async () => {
+    await fs.ensureDir(deckPath());
+    await fs.writeFile(path.join(deckPath(), 'index.html'), '<h1>ETag</h1>');
+    await fs.writeJson(path.join(deckPath(), 'index.json'), { slides: [{ file: 'index.html' }] });
+  });
+
+  it('GET /:id and GET /:id/manifest return the manifest ETag', async () => {
+    const presentation = await request(app).get('/etag-deck');
+    const manifest = await request(app).get('/etag-deck/manifest');
+
+    expect(presentation.headers.etag).toMatch(/^"[0-9a-f]{32}"$/);
+    expect(manifest.headers.etag).toBe(presentation.headers.etag);
+    expect(presentation.headers['cache-control']).toBe('no-store');
+  });
+
+  it('mutations with a stale If-Match return 412 and write nothing', async () => {
+    const before = await fs.readFile(path.join(deckPath(), 'index.json'), 'utf-8');
+
+    const res = await request(app)
+      .post('/etag-deck/groups')
+      .set('If-Match', '"stale"')
+      .send({ id: 'intro', label: 'Intro' });
+    expect(res.status).toBe(412);
+    expect(res.body.success).toBe(false);
+    expect(await fs.readFile(path.join(deckPath(), 'index.json'), 'utf-8')).toBe(before);
+  });
+
+  it('mutations with the current If-Match succeed and return the new ETag', async () => {
+    const { etag } = (await request(app).get('/etag-deck/manifest')).headers;
+
+    const res = await request(app)
+      .patch('/etag-deck/manifest')
+      .set('If-Match', etag)
+      .send({ meta: { name: 'ETag Deck' } });
+    expect(res.status).toBe(200);
+    expect(res.headers.etag).not.toBe(etag);
+    expect(res.headers.etag).toBe((await request(app).get('/etag-deck')).headers.etag);
+
+    // Without If-Match, writes are unconditional
+    expect(
+      (await request(app).post('/etag-deck/groups').send({ id: 'a', label: 'A' })).status
+    ).toBe(201);
+  });
+
+  it('only one of two concurrent writes with the same If-Match succeeds', async () => {
+    const { etag } = (await request(app).get('/etag-deck/manifest')).headers;
+
+    const results = await Promise.all([
+      request(app).put('/etag-deck/groups/a').set('If-Match', etag).send({ label: 'First' }),
+      request(app)
+        .patch('/etag-deck/manifest')
+        .set('If-Match', etag)
+        .send({ meta: { name: 'X' } }),
+    ]);
+    expect(results.map((r) => r.status).sort()).toEqual([200, 412]);
+  });
+
+  it('renames and deletes return no ETag for the folder that is gone', async () => {
+    await fs.ensureDir(path.join(tmpRoot, 'etag-moving'));
+    await fs.writeFile(path.join(tmpRoot, 'etag-moving', 'index.html'), '<h1>Moving</h1>');
+    const { etag } = (await request(app).get('/etag-moving')).headers;
+
+    const renamed = await request(app)
+      .post('/etag-moving/rename')
+      .set('If-Match', etag)
+      .send({ newId: 'etag-moved' });
+    const deleted = await request(app).delete('/etag-moved').set('If-Match', etag);
+
+    // Express may still add its own weak ETag for the response body
+    expect(renamed.status).toBe(200);
+    expect(renamed.headers.etag).not.toMatch(/^"[0-9a-f]{32}"$/);
+    expect(deleted.status).toBe(200);
+    expect(deleted.headers.etag).not.toMatch(/^"[0-9a-f]{32}"$/);
+  });
+});
+
+describe('presentations routes — JSON Patch', () => {
+  const manifestPath = () => path.join(tmpRoot, 'patch-deck', 'index.json');
+
+  beforeAll(async () => {
+    await fs.ensureDir(path.dirname(manifestPath()));
+    await fs.writeFile(path.join(tmpRoot, 'patch-deck', 'index.html'), '<h1>Patch</h1>');
+    await fs.writeJson(manifestPath(), {
+      meta: { name: 'Patch Deck', purpose: 'Demo' },
+      slides: [{ file: 'a.html' }, { file: 'b.html' }],
+    });
+  });
+
+  const patch = (url: string, operations: unknown) =>
+    request(app)
+      .patch(url)
+      .set('Content-Type', 'application/json-patch+json')
+      .send(JSON.stringify(operations));
+
+  it('applies an application/json-patch+json body and returns the manifest', async () => {
+    const res = await patch('/patch-deck/manifest', [
+      { op: 'test', path: '/slides/0/file', value: 'a.html' },
+      { op: 'remove', path: '/meta/purpose' },
+      { op: 'add', path: '/slides/0/title', value: 'First' },
+    ]);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.dryRun).toBe(false);
+    expect(res.body.data.manifest.slides[0]).toEqual({ file: 'a.html', title: 'First' });
+    expect(await fs.readJson(manifestPath())).toEqual(res.body.data.manifest);
+  });
+
+  it('returns the result without writing when ?dryRun=true', async () => {
+    const before = await fs.readFile(manifestPath(), 'utf-8');
+
+    const res = await patch('/patch-deck/manifest?dryRun=true', [
+      { op: 'move', from: '/slides/1', path: '/slides/0' },
+    ]);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.dryRun).toBe(true);
+    expect(res.body.data.manifest.slides.map((s: { file: string }) => s.file)).toEqual([
+      'b.html',
+      'a.html',
+    ]);
+    expect(await fs.readFile(manifestPath(), 'utf-8')).toBe(before);
+  });
+
+  it('answers 409 for a failed test, 400 for malformed or invalid patches', async () => {
+    const before = await fs.readFile(manifestPath(), 'utf-8');
+
+    const failedTest = await patch('/patch-deck/manifest', [
+      { op: 'test', path: '/meta/name', value: 'Other' },
+      { op: 'remove', path: '/slides' },
+    ]);
+    expect(failedTest.status).toBe(409);
+
+    expect((await patch('/patch-deck/manifest', { op: 'remove' })).status).toBe(400);
+    expect(
+      (await patch('/patch-deck/manifest', [{ op: 'replace', path: '/slides', value: 'x' }])).status
+    ).toBe(400);
+    expect(await fs.readFile(manifestPath(), 'utf-8')).toBe(before);
   });
 });
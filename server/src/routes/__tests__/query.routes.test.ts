@@ -81,3 +81,40 @@ describe('GET /presentations/:id', () => {
     expect(typeof res.body.error).toBe('string');
   });
 });
+
+describe('multiple roots', () => {
+  let archiveRoot: string;
+
+  beforeAll(async () => {
+    archiveRoot = path.join(os.tmpdir(), `flideck-query-archive-${Date.now()}`);
+    await fs.ensureDir(path.join(archiveRoot, 'old-deck'));
+    await fs.writeFile(path.join(archiveRoot, 'old-deck', 'index.html'), '<html></html>');
+    PresentationService.getInstance().setRoots([{ name: 'archive', path: archiveRoot }]);
+  });
+
+  afterAll(async () => {
+    PresentationService.getInstance().setRoots([]);
+    await fs.remove(archiveRoot);
+  });
+
+  it('GET /routes lists every served root', async () => {
+    const res = await request(app).get('/routes');
+    expect(res.status).toBe(200);
+    const archive = res.body.data.routes.find((r: { name: string }) => r.name === 'archive');
+    expect(archive).toMatchObject({ presentationCount: 1, isCurrent: false, isServed: true });
+  });
+
+  it('GET /routes/:route returns presentations of a secondary root', async () => {
+    const res = await request(app).get('/routes/archive');
+    expect(res.status).toBe(200);
+    expect(res.body.data.presentations.map((p: { id: string }) => p.id)).toEqual([
+      'archive:old-deck',
+    ]);
+  });
+
+  it('GET /presentations/:id?root=<name> reports the selected root', async () => {
+    const res = await request(app).get('/presentations/old-deck?root=archive');
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ id: 'archive:old-deck', route: 'archive' });
+  });
+});
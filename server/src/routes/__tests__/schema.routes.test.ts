@@ -27,3 +27,26 @@ describe('GET /api/schema/manifest', () => {
     expect(res.body.data.title).toBe('FliDeck Presentation Manifest');
   });
 });
+
+describe('GET /api/schema/requests', () => {
+  it('lists the request schema names', async () => {
+    const res = await request(buildApp()).get('/requests');
+    expect(res.status).toBe(200);
+    expect(res.body.data).toContain('AddSlideRequest');
+    expect(res.body.data).toContain('SyncFromIndexRequest');
+  });
+
+  it('returns a request schema as a standalone JSON Schema', async () => {
+    const res = await request(buildApp()).get('/requests/AddSlideRequest');
+    expect(res.status).toBe(200);
+    expect(res.body.data.$schema).toBe('http://json-schema.org/draft-07/schema#');
+    expect(res.body.data.title).toBe('AddSlideRequest');
+    expect(res.body.data.required).toEqual(['file']);
+  });
+
+  it('returns 404 for an unknown request schema', async () => {
+    const res = await request(buildApp()).get('/requests/toString');
+    expect(res.status).toBe(404);
+    expect(res.body.success).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import express from 'express';
+import request from 'supertest';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { errorHandler } from '../../middleware/errorHandler.js';
+import { createSearchRoutes } from '../search.js';
+import { PresentationService } from '../../services/PresentationService.js';
+import { SearchService } from '../../services/SearchService.js';
+
+let tmpRoot: string;
+let app: express.Express;
+
+beforeAll(async () => {
+  tmpRoot = path.join(os.tmpdir(), `flideck-search-test-${Date.now()}`);
+  const presentationDir = path.join(tmpRoot, 'test-deck');
+  await fs.ensureDir(presentationDir);
+  await fs.writeFile(path.join(presentationDir, 'index.html'), '<h1>Quarterly review</h1>');
+
+  PresentationService.getInstance().setRoot(tmpRoot);
+  SearchService.getInstance().invalidate();
+
+  app = express();
+  app.use('/', createSearchRoutes());
+  app.use(errorHandler);
+});
+
+afterAll(async () => {
+  PresentationService.getInstance().setRoot('');
+  await fs.remove(tmpRoot);
+});
+
+describe('GET /api/search', () => {
+  it('returns matching slides in the success envelope', async () => {
+    const res = await request(app).get('/?q=quarterly');
+    expect(res.status).toBe(200);
+    expect(res.body.success).toBe(true);
+    expect(res.body.data.total).toBe(1);
+    expect(res.body.data.results[0]).toMatchObject({
+      presentationId: 'test-deck',
+      assetId: 'index',
+    });
+  });
+
+  it('returns 400 when q is missing', async () => {
+    const res = await request(app).get('/');
+    expect(res.status).toBe(400);
+    expect(res.body.success).toBe(false);
+  });
+
+  it('returns 400 for an invalid limit', async () => {
+    const res = await request(app).get('/?q=review&limit=zero');
+    expect(res.status).toBe(400);
+    expect(res.body.success).toBe(false);
+  });
+
+  it('returns 404 for an unknown root selector', async () => {
+    const res = await request(app).get('/?q=review&root=missing-root');
+    expect(res.status).toBe(404);
+    expect(res.body.success).toBe(false);
+  });
+});
@@ -4,7 +4,9 @@ import fs from 'fs-extra';
 import { asyncHandler, AppError } from '../middleware/errorHandler.js';
 import { PresentationService } from '../services/PresentationService.js';
 import { queryString } from '../utils/queryString.js';
+import { qualifyIdParam } from '../utils/rootSelector.js';
 import { createApiResponse } from '../utils/responseHelper.js';
+import { describeRoute } from '../utils/apiRegistry.js';
 
 /**
  * Create asset routes for serving HTML content.
@@ -13,12 +15,16 @@ export function createAssetRoutes(): Router {
   const router = Router();
   const presentationService = PresentationService.getInstance();
 
+  // :presentationId accepts an optional ?root=<name> selector
+  router.param('presentationId', qualifyIdParam(presentationService));
+
   /**
    * GET /api/assets/:presentationId/:assetId
    * Serve the raw HTML content of an asset.
    */
   router.get(
     '/:presentationId/:assetId',
+    describeRoute({ summary: 'Get asset content', response: 'AssetContent' }),
     asyncHandler(async (req, res) => {
       const presentationId = queryString(req.params.presentationId);
       const assetId = queryString(req.params.assetId);
@@ -1,5 +1,7 @@
 import { Router } from 'express';
 import { createApiResponse } from '../utils/responseHelper.js';
+import { describeRoute, type ApiEndpoint, type ApiRegistry } from '../utils/apiRegistry.js';
+import { API_VERSION } from '../utils/openApi.js';
 
 /**
  * FliDeck capabilities description for agent discovery.
@@ -8,7 +10,7 @@ import { createApiResponse } from '../utils/responseHelper.js';
  */
 const CAPABILITIES = {
   name: 'FliDeck Presentation Server',
-  version: '0.2.0',
+  version: API_VERSION,
   description:
     'A local-first presentation viewer that discovers, organizes, and displays HTML slides generated by AI agents.',
 
@@ -111,92 +113,69 @@ const CAPABILITIES = {
     },
   },
 
-  api_summary: {
-    health: {
-      'GET /api/health': 'Check if FliDeck is running',
-    },
-    capabilities: {
-      'GET /api/capabilities': 'Discover FliDeck capabilities (this endpoint)',
-    },
-    presentations: {
-      'GET /api/presentations': 'List all presentations',
-      'GET /api/presentations/:id': 'Get single presentation with full data',
-      'POST /api/presentations': 'Create new presentation',
-      'POST /api/presentations/refresh': 'Force refresh presentation cache',
-      'PUT /api/presentations/:id/order': 'Update asset order',
-    },
-    assets: {
-      'GET /api/assets/:presentationId/:assetId': 'Get asset content',
-    },
-    manifest: {
-      'GET /api/presentations/:id/manifest': 'Get raw manifest JSON',
-      'PUT /api/presentations/:id/manifest': 'Replace entire manifest',
-      'PATCH /api/presentations/:id/manifest': 'Partial manifest update',
-    },
-    slides: {
-      'POST /api/presentations/:id/slides': 'Add slide to manifest',
-      'PUT /api/presentations/:id/slides/:slideId': 'Update slide metadata',
-      'DELETE /api/presentations/:id/slides/:slideId': 'Remove slide from manifest',
-    },
-    tabs: {
-      'POST /api/presentations/:id/tabs': 'Create tab',
-      'PUT /api/presentations/:id/tabs/:tabId': 'Rename tab',
-      'DELETE /api/presentations/:id/tabs/:tabId': 'Delete tab',
-      'PUT /api/presentations/:id/tabs/order': 'Reorder tabs',
-    },
-    groups: {
-      'PUT /api/presentations/:id/groups/order': 'Reorder groups',
-      'POST /api/presentations/:id/groups': 'Create group',
-      'PUT /api/presentations/:id/groups/:groupId': 'Rename group',
-      'DELETE /api/presentations/:id/groups/:groupId': 'Delete group',
-      'PUT /api/presentations/:id/groups/:groupId/parent': 'Assign group to tab',
-      'DELETE /api/presentations/:id/groups/:groupId/parent': 'Remove group from tab',
-    },
-    bulk_operations: {
-      'POST /api/presentations/:id/manifest/slides/bulk': 'Add multiple slides',
-      'POST /api/presentations/:id/manifest/groups/bulk': 'Bulk add groups',
-      'PUT /api/presentations/:id/manifest/sync': 'Sync manifest with filesystem',
-      'PUT /api/presentations/:id/manifest/sync-from-index':
-        'Parse index HTML to populate manifest',
-      'POST /api/presentations/:id/manifest/validate': 'Validate manifest',
-    },
-    schema: {
-      'GET /api/schema/manifest': 'Get JSON Schema for manifest validation',
-    },
-    templates: {
-      'GET /api/templates/manifest': 'List available manifest templates',
-      'GET /api/templates/manifest/:id': 'Get specific template',
-      'POST /api/presentations/:id/manifest/template': 'Apply template to presentation',
-    },
-  },
-
   tips: [
     'Always check GET /api/health first to confirm FliDeck is running',
+    'GET /api/openapi.json describes every endpoint with its request and response schemas',
     'Use GET /api/presentations/:id to understand current state before making changes',
+    'Send the ETag from GET /api/presentations/:id (or /manifest) back as If-Match on writes - a 412 means the manifest changed, so re-read and retry',
     'Prefer API calls over direct file writes - FliDeck validates and broadcasts changes',
+    'To react to changes without Socket.io, follow GET /api/events (curl -N works) - on a resync event, re-read what you track',
     'If FliDeck is offline, you can write index.json directly as fallback',
+    'Lint new slides with GET /api/presentations/:id/slides/:slideId/lint - errors break the slide in the harness',
+    'Preview a harness migration with POST /api/presentations/:id/migrate { dryRun: true } - Type C slides need manual work',
+    'Write slide HTML with PUT /api/presentations/:id/slides/:slideId/content - the file and its manifest entry are saved together',
     'Tab-specific slides need: tab → group with tabId → slide in group',
     'Slides without groups appear in ALL tabs (root assets)',
     'Use sync-from-index to recover structure from an index HTML file',
+    'To delete a key or move one slide, PATCH the manifest with a JSON Patch (application/json-patch+json) - add a test op to guard it',
+    'Every manifest write is snapshotted - use manifest/history to roll back a bad bulk operation',
+    'Presentations in additional roots have IDs like "archive:my-deck"; any :id route also accepts ?root=archive with the bare ID',
+    'Slides can live in subfolders - reference them as slides[].file "part-1/intro.html" (asset ID "part-1--intro")',
+    'slides[].notes are speaker notes - they are shown in the presenter view (/presenter/:id), not to the audience',
   ],
 
   documentation: {
     knowledge_base: 'docs/architecture/flideck-knowledge-base.md',
     api_reference: 'CLAUDE.md',
     schema: '/api/schema/manifest',
+    request_schemas: '/api/schema/requests/:name',
+    openapi: '/api/openapi.json',
   },
 };
 
+interface RouteConfig {
+  api: ApiRegistry;
+}
+
+/**
+ * Group the registered endpoints by section: { section: { 'GET /api/...': summary } }.
+ */
+function summarizeEndpoints(endpoints: ApiEndpoint[]): Record<string, Record<string, string>> {
+  const summary: Record<string, Record<string, string>> = {};
+  for (const { method, path, section, doc } of endpoints) {
+    summary[section] ??= {};
+    summary[section][`${method.toUpperCase()} ${path}`] = doc?.summary ?? 'Undocumented';
+  }
+  return summary;
+}
+
 /**
  * Create capabilities routes.
- * No dependencies needed - returns static capability description.
+ * The api_summary is derived from the route registry, so it always lists the
+ * endpoints the server actually has.
  */
-export function createCapabilitiesRoutes(): Router {
+export function createCapabilitiesRoutes({ api }: RouteConfig): Router {
   const router = Router();
 
-  router.get('/', (_req, res) => {
-    res.json(createApiResponse(CAPABILITIES));
-  });
+  router.get(
+    '/',
+    describeRoute({ summary: 'Discover FliDeck capabilities (this endpoint)' }),
+    (_req, res) => {
+      res.json(
+        createApiResponse({ ...CAPABILITIES, api_summary: summarizeEndpoints(api.endpoints()) })
+      );
+    }
+  );
 
   return router;
 }
@@ -1,22 +1,70 @@
 import { Router } from 'express';
-import type { Server } from 'socket.io';
 import fs from 'fs/promises';
-import { asyncHandler, AppError } from '../middleware/errorHandler.js';
-import { loadConfig, saveConfig, expandPath, collapsePath, type Config } from '../config.js';
+import path from 'path';
+import { asyncHandler, AppError, RequestValidationError } from '../middleware/errorHandler.js';
+import { validateBody } from '../middleware/validateBody.js';
+import type { PresentationRoot, UpdateConfigRequest } from '@flideck/shared';
+import {
+  loadConfig,
+  saveConfig,
+  expandPath,
+  collapsePath,
+  normalizeRoots,
+  type Config,
+} from '../config.js';
 import { PresentationService } from '../services/PresentationService.js';
 import { WatcherManager, type ChangeEventData } from '../WatcherManager.js';
+import type { EventStream } from '../EventStream.js';
 import { createApiResponse } from '../utils/responseHelper.js';
+import { syncRootWatchers } from '../utils/rootWatchers.js';
+import { describeRoute } from '../utils/apiRegistry.js';
 
 interface RouteConfig {
-  io: Server;
+  events: EventStream;
   watcherManager: WatcherManager;
-  onPresentationChange: (data: ChangeEventData) => void;
+  onPresentationChange: (changes: ChangeEventData[]) => void;
+}
+
+/**
+ * Check that a path exists and is a directory.
+ * Throws AppError(404) if missing, AppError(400) if not a directory.
+ */
+async function assertDirectory(dirPath: string): Promise<void> {
+  try {
+    const stat = await fs.stat(dirPath);
+    if (!stat.isDirectory()) {
+      throw new AppError(`Path is not a directory: ${collapsePath(dirPath)}`, 400);
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new AppError(`Directory does not exist: ${collapsePath(dirPath)}`, 404);
+    }
+    throw error;
+  }
+}
+
+/**
+ * List all roots (primary first) with collapsed paths for display.
+ */
+function describeRoots(config: Pick<Config, 'presentationsRoot' | 'roots'>): PresentationRoot[] {
+  return [
+    {
+      name: path.basename(config.presentationsRoot),
+      path: collapsePath(config.presentationsRoot),
+      isPrimary: true,
+    },
+    ...config.roots.map((root) => ({ ...root, path: collapsePath(root.path), isPrimary: false })),
+  ];
 }
 
 /**
  * Create config routes with dependency injection.
  */
-export function createConfigRoutes({ io, watcherManager, onPresentationChange }: RouteConfig): Router {
+export function createConfigRoutes({
+  events,
+  watcherManager,
+  onPresentationChange,
+}: RouteConfig): Router {
   const router = Router();
   const presentationService = PresentationService.getInstance();
 
@@ -26,12 +74,17 @@ export function createConfigRoutes({ io, watcherManager, onPresentationChange }:
    */
   router.get(
     '/',
+    describeRoute({
+      summary: 'Get current configuration (roots and root history)',
+      response: 'ConfigResponse',
+    }),
     asyncHandler(async (_req, res) => {
       const config = await loadConfig();
 
       // Return with collapsed paths for display
       res.json(createApiResponse({
         presentationsRoot: collapsePath(config.presentationsRoot),
+        roots: describeRoots(config),
         history: config.history.map(collapsePath),
       }));
     })
@@ -39,69 +92,68 @@ export function createConfigRoutes({ io, watcherManager, onPresentationChange }:
 
   /**
    * PUT /api/config
-   * Update configuration (presentationsRoot).
+   * Update configuration (presentationsRoot and/or additional roots).
    */
   router.put(
     '/',
+    describeRoute({
+      summary: 'Change presentationsRoot and/or additional roots',
+      response: 'UpdateConfigResponse',
+    }),
+    validateBody('UpdateConfigRequest'),
     asyncHandler(async (req, res) => {
-      const { presentationsRoot } = req.body;
+      const { presentationsRoot, roots } = req.body as UpdateConfigRequest;
 
-      if (!presentationsRoot || typeof presentationsRoot !== 'string') {
-        throw new AppError('presentationsRoot is required', 400);
-      }
-
-      // Expand and validate the new path
-      const expandedPath = expandPath(presentationsRoot);
-
-      // Check if path exists
-      try {
-        const stat = await fs.stat(expandedPath);
-        if (!stat.isDirectory()) {
-          throw new AppError('Path is not a directory', 400);
-        }
-      } catch (error) {
-        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-          throw new AppError('Directory does not exist', 404);
-        }
-        throw error;
+      if (presentationsRoot === undefined && roots === undefined) {
+        throw new RequestValidationError('presentationsRoot is required', [
+          { path: 'presentationsRoot', message: 'is required' },
+        ]);
       }
 
       // Load current config
       const currentConfig = await loadConfig();
       const previousRoot = currentConfig.presentationsRoot;
 
+      // Expand and validate the new paths
+      const expandedPath = presentationsRoot ? expandPath(presentationsRoot) : previousRoot;
+      await assertDirectory(expandedPath);
+
+      const requestedRoots = roots ?? currentConfig.roots;
+      for (const root of requestedRoots) {
+        await assertDirectory(expandPath(root.path));
+      }
+      const newRoots = normalizeRoots(requestedRoots, expandedPath);
+
+      const rootChanged = expandedPath !== previousRoot;
+      const rootsChanged = JSON.stringify(newRoots) !== JSON.stringify(currentConfig.roots);
+
       // Only update if actually changed
-      if (expandedPath !== previousRoot) {
+      if (rootChanged || rootsChanged) {
         // Add previous root to history
-        const newHistory = [
-          previousRoot,
-          ...currentConfig.history.filter((h) => h !== previousRoot),
-        ].slice(0, 10);
+        const newHistory = rootChanged
+          ? [previousRoot, ...currentConfig.history.filter((h) => h !== previousRoot)].slice(0, 10)
+          : currentConfig.history;
 
         const newConfig: Config = {
+          ...currentConfig,
           presentationsRoot: expandedPath,
+          roots: newRoots,
           history: newHistory,
         };
 
         // Save config
         await saveConfig(newConfig);
 
-        // Stop old watcher, update service, start new watcher
-        watcherManager.stop('presentations');
+        // Update service, restart watchers for the new set of roots
         presentationService.setRoot(expandedPath);
-        watcherManager.watch({
-          name: 'presentations',
-          path: expandedPath,
-          event: 'presentations:updated',
-          debounceMs: 200,
-          onChangeCallback: onPresentationChange,
-        });
+        presentationService.setRoots(newRoots);
+        syncRootWatchers(watcherManager, presentationService.getRoots(), onPresentationChange);
 
         // Invalidate cache
         presentationService.invalidateCache();
 
         // Notify clients
-        io.emit('config:changed', {
+        events.publish('config:changed', {
           presentationsRoot: collapsePath(expandedPath),
         });
 
@@ -110,6 +162,7 @@ export function createConfigRoutes({ io, watcherManager, onPresentationChange }:
 
       res.json(createApiResponse({
         presentationsRoot: collapsePath(expandedPath),
+        roots: describeRoots({ presentationsRoot: expandedPath, roots: newRoots }),
       }));
     })
   );
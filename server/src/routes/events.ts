@@ -0,0 +1,117 @@
+import { Router } from 'express';
+import type { LoggedEvent } from '@flideck/shared';
+import { AppError } from '../middleware/errorHandler.js';
+import type { EventStream } from '../EventStream.js';
+import { queryString } from '../utils/queryString.js';
+import { describeRoute } from '../utils/apiRegistry.js';
+
+/** Idle streams get a comment line this often so proxies keep them open */
+const HEARTBEAT_MS = 25_000;
+/** Reconnect delay suggested to EventSource clients */
+const RETRY_MS = 2000;
+
+interface RouteConfig {
+  events: EventStream;
+}
+
+/** SSE event IDs are '<epoch>-<seq>' (see EventStream); a bare sequence number has no epoch */
+const EVENT_ID_PATTERN = /^(?:([a-z0-9]+)-)?(\d+)$/i;
+
+function formatEvent(epoch: string, entry: LoggedEvent): string {
+  return `id: ${epoch}-${entry.seq}\nevent: ${entry.event}\ndata: ${JSON.stringify(entry.data)}\n\n`;
+}
+
+/**
+ * Parse the position to resume after (Last-Event-ID header, or ?lastEventId=
+ * for clients that cannot set headers). Undefined for a fresh stream.
+ */
+function parseLastEventId(
+  value: string | undefined
+): { epoch: string | undefined; seq: number } | undefined {
+  if (value === undefined || value === '') return undefined;
+
+  const match = EVENT_ID_PATTERN.exec(value.trim());
+  if (!match) {
+    throw new AppError('Invalid Last-Event-ID: must be an event ID from this stream', 400);
+  }
+  return { epoch: match[1], seq: Number(match[2]) };
+}
+
+/**
+ * Create the Server-Sent Events stream route.
+ */
+export function createEventRoutes({ events }: RouteConfig): Router {
+  const router = Router();
+
+  /**
+   * GET /api/events?presentationId=<id>[,<id>...][&global=true]
+   * Stream change events (content:changed, structure:changed, config:changed,
+   * manifest mutations as presentations:updated, changes:batch,
+   * presentations:summary and file:recovered) as Server-Sent Events, for agents that do not speak
+   * Socket.io. With presentationId, only those presentations' events are sent;
+   * global=true adds the events that concern no single presentation
+   * (config:changed, presentations:summary, ...).
+   * Reconnects resume after Last-Event-ID; when events in the gap are no longer
+   * available (or the server restarted since) a 'resync' event is sent instead
+   * and the client should refetch.
+   */
+  router.get(
+    '/',
+    describeRoute({
+      summary:
+        'Server-Sent Events stream of content, structure, config and manifest changes (?presentationId=, Last-Event-ID resume)',
+      query: {
+        presentationId: 'Comma-separated presentation IDs to limit the stream to',
+        global: "'true' to also send global events when limited to presentations",
+        lastEventId: 'Resume after this event (for clients that cannot send Last-Event-ID)',
+      },
+      produces: ['text/event-stream'],
+    }),
+    (req, res) => {
+      const presentationIds = queryString(req.query.presentationId as string | undefined)
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean);
+      const includeGlobal = req.query.global === 'true';
+      const lastEventId = parseLastEventId(
+        req.get('Last-Event-ID') ?? queryString(req.query.lastEventId as string | undefined)
+      );
+
+      const matches = (entry: LoggedEvent) =>
+        presentationIds.length === 0 ||
+        (entry.presentationId ? presentationIds.includes(entry.presentationId) : includeGlobal);
+
+      // no-transform keeps the compression middleware from buffering the stream
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+      res.write(`retry: ${RETRY_MS}\n\n`);
+
+      if (lastEventId !== undefined) {
+        const missed = events.since(lastEventId.seq, lastEventId.epoch);
+        if (missed) {
+          for (const entry of missed) {
+            if (matches(entry)) res.write(formatEvent(events.epoch, entry));
+          }
+        } else {
+          res.write(`id: ${events.epoch}-${events.getLastSeq()}\nevent: resync\ndata: {}\n\n`);
+        }
+      }
+
+      const unsubscribe = events.subscribe((entry) => {
+        if (matches(entry)) res.write(formatEvent(events.epoch, entry));
+      });
+      const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+
+      res.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+    }
+  );
+
+  return router;
+}
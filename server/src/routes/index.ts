@@ -7,27 +7,51 @@ import { createQueryRoutes } from './query.js';
 import { createSchemaRoutes } from './schema.js';
 import { createTemplateRoutes } from './templates.js';
 import { createCapabilitiesRoutes } from './capabilities.js';
+import { createSearchRoutes } from './search.js';
+import { createEventRoutes } from './events.js';
+import { createOpenApiRoutes } from './openapi.js';
 import type { WatcherManager, ChangeEventData } from '../WatcherManager.js';
+import type { EventStream } from '../EventStream.js';
+import type { ApiRegistry } from '../utils/apiRegistry.js';
+
+/** Where index.ts mounts the API router */
+export const API_BASE = '/api';
 
 interface RouteConfig {
   io: Server;
+  events: EventStream;
   watcherManager: WatcherManager;
-  onPresentationChange: (data: ChangeEventData) => void;
+  onPresentationChange: (changes: ChangeEventData[]) => void;
+  /** Records every router, for GET /api/openapi.json and GET /api/capabilities */
+  api: ApiRegistry;
 }
 
 /**
- * Create and aggregate all API routes.
+ * Create and aggregate all API routes (mounted at API_BASE).
  */
-export function createRoutes({ io, watcherManager, onPresentationChange }: RouteConfig): Router {
+export function createRoutes({
+  io,
+  events,
+  watcherManager,
+  onPresentationChange,
+  api,
+}: RouteConfig): Router {
   const router = Router();
+  const mount = (path: string, routes: Router) => {
+    router.use(path, routes);
+    api.mount(`${API_BASE}${path}`, routes);
+  };
 
-  router.use('/presentations', createPresentationRoutes({ io }));
-  router.use('/assets', createAssetRoutes());
-  router.use('/config', createConfigRoutes({ io, watcherManager, onPresentationChange }));
-  router.use('/query', createQueryRoutes());
-  router.use('/schema', createSchemaRoutes({ io }));
-  router.use('/templates', createTemplateRoutes({ io }));
-  router.use('/capabilities', createCapabilitiesRoutes());
+  mount('/presentations', createPresentationRoutes({ io, events }));
+  mount('/assets', createAssetRoutes());
+  mount('/config', createConfigRoutes({ events, watcherManager, onPresentationChange }));
+  mount('/query', createQueryRoutes());
+  mount('/schema', createSchemaRoutes({ io }));
+  mount('/templates', createTemplateRoutes({ io }));
+  mount('/capabilities', createCapabilitiesRoutes({ api }));
+  mount('/openapi.json', createOpenApiRoutes({ api }));
+  mount('/search', createSearchRoutes());
+  mount('/events', createEventRoutes({ events }));
 
   return router;
 }
@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import { describeRoute, type ApiRegistry } from '../utils/apiRegistry.js';
+import { buildOpenApiSpec } from '../utils/openApi.js';
+
+interface RouteConfig {
+  api: ApiRegistry;
+}
+
+/**
+ * Create the OpenAPI document route.
+ */
+export function createOpenApiRoutes({ api }: RouteConfig): Router {
+  const router = Router();
+
+  /**
+   * GET /api/openapi.json
+   * OpenAPI 3.1 description of every route, generated from the describeRoute()
+   * annotations. Served as plain JSON (no { success, data } envelope) so
+   * OpenAPI tooling can read it directly.
+   */
+  router.get(
+    '/',
+    describeRoute({
+      summary: 'OpenAPI 3.1 description of every endpoint with request and response schemas',
+      section: 'capabilities',
+      unwrapped: true,
+      response: { type: 'object' },
+    }),
+    (_req, res) => {
+      res.json(buildOpenApiSpec(api.endpoints()));
+    }
+  );
+
+  return router;
+}
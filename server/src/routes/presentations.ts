@@ -1,10 +1,12 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { execFile } from 'child_process';
 import type { Server } from 'socket.io';
+import type { EventStream } from '../EventStream.js';
 import type {
   CreatePresentationRequest,
   AddSlideRequest,
   UpdateSlideRequest,
+  WriteSlideContentRequest,
   ReorderGroupsRequest,
   CreateGroupRequest,
   UpdateGroupRequest,
@@ -18,45 +20,89 @@ import type {
   ReorderTabsRequest,
   SetGroupParentRequest,
   SyncFromIndexRequest,
+  ExportFormat,
+  RenamePresentationRequest,
+  ClonePresentationRequest,
+  PresentationLocation,
+  DeletePresentationResponse,
+  MigratePresentationRequest,
+  ManifestPatchResult,
 } from '@flideck/shared';
-import { asyncHandler, AppError } from '../middleware/errorHandler.js';
+import { asyncHandler, AppError, RequestValidationError } from '../middleware/errorHandler.js';
+import { validateBody } from '../middleware/validateBody.js';
+import { ExportService } from '../services/ExportService.js';
+import { LintService } from '../services/LintService.js';
+import { MigrationService } from '../services/MigrationService.js';
 import { PresentationService } from '../services/PresentationService.js';
 import { loadConfig, collapsePath } from '../config.js';
 import { validate } from '../utils/manifestValidator.js';
 import { getTemplateById } from '../utils/manifestTemplates.js';
+import { presentationRoom } from '../utils/presenterRelay.js';
 import { queryString } from '../utils/queryString.js';
+import { manifestPrecondition } from '../utils/manifestPrecondition.js';
+import { JSON_PATCH_MEDIA_TYPE, parseJsonPatch } from '../utils/jsonPatch.js';
+import { qualifyIdParam, rootSelector } from '../utils/rootSelector.js';
+import { isSafeSlidePath } from '../utils/slidePaths.js';
 import { createApiResponse, createErrorResponse } from '../utils/responseHelper.js';
+import { describeRoute } from '../utils/apiRegistry.js';
+
+const EXPORT_FORMATS: ExportFormat[] = ['html', 'zip'];
+
+/** Presentation IDs must be folder-name safe */
+const PRESENTATION_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
 
 interface RouteConfig {
   io: Server;
+  events: EventStream;
 }
 
 /**
  * Create presentation routes with dependency injection.
  */
-export function createPresentationRoutes({ io }: RouteConfig): Router {
+export function createPresentationRoutes({ io, events }: RouteConfig): Router {
   const router = Router();
   const presentationService = PresentationService.getInstance();
+  const exportService = ExportService.getInstance();
+  const lintService = LintService.getInstance();
+  const migrationService = MigrationService.getInstance();
+
+  // Every :id accepts an optional ?root=<name> selector (see qualifyIdParam)
+  router.param('id', qualifyIdParam(presentationService));
+
+  // Mutations honour If-Match and return the manifest's new ETag (see manifestPrecondition)
+  router.use('/:id', manifestPrecondition());
 
   /**
    * GET /api/presentations
-   * List all discovered presentations.
+   * List all discovered presentations (all roots, or only ?root=<name>).
    */
   router.get(
     '/',
-    asyncHandler(async (_req, res) => {
+    describeRoute({
+      summary: 'List all presentations (every root, or ?root=<name>)',
+      query: { root: 'Only this root' },
+      response: 'Presentation[]',
+    }),
+    asyncHandler(async (req, res) => {
       const config = await loadConfig();
-      const presentations = await presentationService.discoverAll();
+      const presentations = await presentationService.discoverAll(
+        rootSelector(req, presentationService)
+      );
       res.json(createApiResponse(presentations, { presentationsRoot: collapsePath(config.presentationsRoot) }));
     })
   );
 
   /**
    * GET /api/presentations/:id
-   * Get a single presentation by ID.
+   * Get a single presentation by ID. The ETag header is the manifest's version,
+   * for If-Match on later mutations.
    */
   router.get(
     '/:id',
+    describeRoute({
+      summary: 'Get single presentation with full data (ETag header for If-Match)',
+      response: 'Presentation',
+    }),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const config = await loadConfig();
@@ -66,6 +112,9 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
         throw new AppError('Presentation not found', 404);
       }
 
+      // The ETag versions the manifest only, so the response must not be revalidated from cache
+      res.set('ETag', await presentationService.getManifestETag(id));
+      res.set('Cache-Control', 'no-store');
       res.json(createApiResponse(presentation, { presentationsRoot: collapsePath(config.presentationsRoot) }));
     })
   );
@@ -76,12 +125,13 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
    */
   router.post(
     '/refresh',
+    describeRoute({ summary: 'Force refresh presentation cache', response: 'Presentation[]' }),
     asyncHandler(async (_req, res) => {
       presentationService.invalidateCache();
       const presentations = await presentationService.discoverAll();
 
       // Notify all clients
-      io.emit('presentations:updated', { reason: 'manual-refresh' });
+      events.publish('presentations:updated', { reason: 'manual-refresh' });
 
       res.json(createApiResponse(presentations));
     })
@@ -93,15 +143,12 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
    */
   router.put(
     '/:id/order',
+    describeRoute({ summary: 'Update asset order' }),
+    validateBody('UpdateAssetOrderRequest'),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const { order } = req.body;
 
-      // Validate request body
-      if (!order || !Array.isArray(order)) {
-        throw new AppError('Invalid request: order must be an array of filenames', 400);
-      }
-
       // Verify presentation exists
       const presentation = await presentationService.getById(id);
       if (!presentation) {
@@ -112,7 +159,7 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
       await presentationService.saveAssetOrder(id, order);
 
       // Notify clients about the change
-      io.emit('presentations:updated', { reason: 'order-changed', presentationId: id });
+      events.publish('presentations:updated', { reason: 'order-changed', presentationId: id });
 
       res.json(createApiResponse(null));
     })
@@ -124,37 +171,28 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
 
   /**
    * POST /api/presentations
-   * Create a new presentation folder and manifest.
+   * Create a new presentation folder and manifest (in the primary root, or ?root=<name>).
    */
   router.post(
     '/',
+    describeRoute({
+      summary: 'Create new presentation (in the primary root, or ?root=<name>)',
+      query: { root: 'Root to create the presentation in' },
+      response: 'CreatePresentationResponse',
+      status: 201,
+    }),
+    validateBody('CreatePresentationRequest'),
     asyncHandler(async (req, res) => {
       const body = req.body as CreatePresentationRequest;
-
-      // Validate required field
-      if (!body.id) {
-        throw new AppError('Missing required field: id', 400);
-      }
-
-      // Validate id format (folder name safe)
-      if (!/^[a-zA-Z0-9_-]+$/.test(body.id)) {
-        throw new AppError(
-          'Invalid id: must contain only letters, numbers, hyphens, and underscores',
-          400
-        );
-      }
+      const id = presentationService.qualifyId(body.id, rootSelector(req, presentationService));
 
       try {
-        const folderPath = await presentationService.createPresentation(
-          body.id,
-          body.name,
-          body.slides
-        );
+        const folderPath = await presentationService.createPresentation(id, body.name, body.slides);
 
         // Notify clients
-        io.emit('presentations:updated', {
+        events.publish('presentations:updated', {
           reason: 'presentation-created',
-          presentationId: body.id,
+          presentationId: id,
         });
 
         res.status(201).json(createApiResponse({ path: folderPath }));
@@ -167,39 +205,174 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
     })
   );
 
+  /**
+   * Validate a new ID from a rename/clone/migrate body and place it in the root
+   * of the source presentation.
+   */
+  const qualifyNewId = (newId: unknown, sourceId: string, field = 'newId'): string => {
+    if (typeof newId !== 'string' || !newId) {
+      throw new AppError(`Missing required field: ${field}`, 400);
+    }
+    if (!PRESENTATION_ID_PATTERN.test(newId)) {
+      throw new AppError(
+        `Invalid ${field}: must contain only letters, numbers, hyphens, and underscores`,
+        400
+      );
+    }
+    return presentationService.qualifyId(newId, presentationService.resolveId(sourceId).root.name);
+  };
+
+  /**
+   * Map lifecycle service errors to HTTP status codes.
+   */
+  const toLifecycleError = (error: unknown): unknown => {
+    if (error instanceof Error && !(error instanceof AppError)) {
+      if (error.message.includes('not found')) return new AppError(error.message, 404);
+      if (error.message.includes('already exists')) return new AppError(error.message, 409);
+    }
+    return error;
+  };
+
+  /**
+   * POST /api/presentations/:id/rename
+   * Rename a presentation folder (new ID in the same root, optional new display name).
+   */
+  router.post(
+    '/:id/rename',
+    describeRoute({
+      summary: 'Rename presentation folder ({ newId, name? }, same root)',
+      response: 'PresentationLocation',
+    }),
+    validateBody('RenamePresentationRequest'),
+    asyncHandler(async (req, res) => {
+      const id = queryString(req.params.id);
+      const body = req.body as RenamePresentationRequest;
+      const newId = qualifyNewId(body.newId, id);
+
+      try {
+        const folderPath = await presentationService.renamePresentation(id, newId, body.name);
+
+        // Notify clients
+        events.publish('structure:changed', {
+          eventType: 'presentation-renamed',
+          filePath: folderPath,
+          presentationId: newId,
+        });
+
+        res.json(createApiResponse<PresentationLocation>({ id: newId, path: folderPath }));
+      } catch (error) {
+        throw toLifecycleError(error);
+      }
+    })
+  );
+
+  /**
+   * POST /api/presentations/:id/clone
+   * Duplicate a presentation under a new ID (same root, optional display name).
+   */
+  router.post(
+    '/:id/clone',
+    describeRoute({
+      summary: 'Duplicate presentation ({ newId, name? }, same root)',
+      response: 'PresentationLocation',
+      status: 201,
+    }),
+    validateBody('ClonePresentationRequest'),
+    asyncHandler(async (req, res) => {
+      const id = queryString(req.params.id);
+      const body = req.body as ClonePresentationRequest;
+      const newId = qualifyNewId(body.newId, id);
+
+      try {
+        const folderPath = await presentationService.clonePresentation(id, newId, body.name);
+
+        // Notify clients
+        events.publish('structure:changed', {
+          eventType: 'presentation-cloned',
+          filePath: folderPath,
+          presentationId: newId,
+        });
+
+        res
+          .status(201)
+          .json(createApiResponse<PresentationLocation>({ id: newId, path: folderPath }));
+      } catch (error) {
+        throw toLifecycleError(error);
+      }
+    })
+  );
+
+  /**
+   * DELETE /api/presentations/:id
+   * Delete a presentation folder. ?soft=true moves it to the root's .flideck-trash folder instead.
+   */
+  router.delete(
+    '/:id',
+    describeRoute({
+      summary: 'Delete presentation folder (?soft=true moves it to <root>/.flideck-trash instead)',
+      query: { soft: "'true' to move the folder to the trash" },
+      response: 'DeletePresentationResponse',
+    }),
+    asyncHandler(async (req, res) => {
+      const id = queryString(req.params.id);
+      const soft = req.query.soft === 'true';
+
+      try {
+        const { path: folderPath, trashPath } = await presentationService.deletePresentation(id, {
+          soft,
+        });
+
+        // Notify clients
+        events.publish('structure:changed', {
+          eventType: 'presentation-deleted',
+          filePath: folderPath,
+          presentationId: id,
+        });
+
+        res.json(createApiResponse<DeletePresentationResponse>({ id, soft, trashPath }));
+      } catch (error) {
+        throw toLifecycleError(error);
+      }
+    })
+  );
+
   /**
    * POST /api/presentations/:id/slides
-   * Add a slide to a presentation's manifest.
+   * Add a slide to a presentation's manifest, optionally writing its HTML (content).
+   * Returns the new asset (null if the file does not exist yet).
    */
   router.post(
     '/:id/slides',
+    describeRoute({
+      summary: 'Add slide to manifest (optional content writes its HTML)',
+      section: 'slides',
+      response: 'Asset',
+      status: 201,
+    }),
+    validateBody('AddSlideRequest'),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const body = req.body as AddSlideRequest;
 
-      // Validate required field
-      if (!body.file) {
-        throw new AppError('Missing required field: file', 400);
-      }
-
-      // Validate file format
-      if (!body.file.endsWith('.html')) {
-        throw new AppError('Invalid file: must end with .html', 400);
+      // The schema checks the extension; this also rejects absolute paths and '..'
+      if (!isSafeSlidePath(body.file)) {
+        throw new AppError('Invalid file: must be a relative path ending with .html', 400);
       }
 
       try {
-        await presentationService.addSlide(id, {
+        const asset = await presentationService.addSlide(id, {
           file: body.file,
           title: body.title,
           group: body.group,
           description: body.description,
           recommended: body.recommended,
+          content: body.content,
         });
 
         // Notify clients
-        io.emit('presentations:updated', { reason: 'slide-added', presentationId: id });
+        events.publish('presentations:updated', { reason: 'slide-added', presentationId: id });
 
-        res.status(201).json(createApiResponse(null));
+        res.status(201).json(createApiResponse(asset));
       } catch (error) {
         if (error instanceof Error) {
           if (error.message.includes('not found')) {
@@ -214,12 +387,60 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
     })
   );
 
+  /**
+   * PUT /api/presentations/:id/slides/:slideId/content
+   * Write a slide's HTML. A slide missing from the manifest is created (201)
+   * and registered in the same operation; an existing one is overwritten (200).
+   * Returns the resulting asset.
+   */
+  router.put(
+    '/:id/slides/:slideId/content',
+    describeRoute({
+      summary: 'Write slide HTML ({ content, file? }); registers new slides in the manifest (201)',
+      section: 'slides',
+      response: 'Asset',
+    }),
+    validateBody('WriteSlideContentRequest'),
+    asyncHandler(async (req, res) => {
+      const id = queryString(req.params.id);
+      const slideId = queryString(req.params.slideId);
+      const body = req.body as WriteSlideContentRequest;
+
+      try {
+        const { asset, created } = await presentationService.writeSlideContent(
+          id,
+          slideId,
+          body.content,
+          body.file
+        );
+
+        // Notify clients
+        events.publish('presentations:updated', {
+          reason: 'slide-content-written',
+          presentationId: id,
+        });
+
+        res.status(created ? 201 : 200).json(createApiResponse(asset));
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('not found')) {
+          throw new AppError(error.message, 404);
+        }
+        throw error;
+      }
+    })
+  );
+
   /**
    * PUT /api/presentations/:id/slides/:slideId
    * Update metadata for a slide.
    */
   router.put(
     '/:id/slides/:slideId',
+    describeRoute({
+      summary: 'Update slide metadata',
+      section: 'slides',
+    }),
+    validateBody('UpdateSlideRequest'),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const slideId = queryString(req.params.slideId);
@@ -234,7 +455,7 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
         });
 
         // Notify clients
-        io.emit('presentations:updated', { reason: 'slide-updated', presentationId: id });
+        events.publish('presentations:updated', { reason: 'slide-updated', presentationId: id });
 
         res.json(createApiResponse(null));
       } catch (error) {
@@ -252,6 +473,7 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
    */
   router.delete(
     '/:id/slides/:slideId',
+    describeRoute({ summary: 'Remove slide from manifest', section: 'slides' }),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const slideId = queryString(req.params.slideId);
@@ -260,7 +482,7 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
         await presentationService.removeSlide(id, slideId);
 
         // Notify clients
-        io.emit('presentations:updated', { reason: 'slide-removed', presentationId: id });
+        events.publish('presentations:updated', { reason: 'slide-removed', presentationId: id });
 
         res.json(createApiResponse(null));
       } catch (error) {
@@ -282,20 +504,17 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
    */
   router.put(
     '/:id/groups/order',
+    describeRoute({ summary: 'Reorder groups', section: 'groups' }),
+    validateBody('ReorderGroupsRequest'),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const body = req.body as ReorderGroupsRequest;
 
-      // Validate request body
-      if (!body.order || !Array.isArray(body.order)) {
-        throw new AppError('Invalid request: order must be an array of group IDs', 400);
-      }
-
       try {
         await presentationService.reorderGroups(id, body.order);
 
         // Notify clients
-        io.emit('presentations:updated', { reason: 'groups-reordered', presentationId: id });
+        events.publish('presentations:updated', { reason: 'groups-reordered', presentationId: id });
 
         res.json(createApiResponse(null));
       } catch (error) {
@@ -313,28 +532,21 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
    */
   router.post(
     '/:id/groups',
+    describeRoute({
+      summary: 'Create group',
+      section: 'groups',
+      status: 201,
+    }),
+    validateBody('CreateGroupRequest'),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const body = req.body as CreateGroupRequest;
 
-      // Validate required fields
-      if (!body.id) {
-        throw new AppError('Missing required field: id', 400);
-      }
-      if (!body.label) {
-        throw new AppError('Missing required field: label', 400);
-      }
-
-      // Validate id format (kebab-case safe)
-      if (!/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(body.id)) {
-        throw new AppError('Invalid id: must be lowercase kebab-case (e.g., "my-group")', 400);
-      }
-
       try {
         await presentationService.createGroup(id, body.id, body.label);
 
         // Notify clients
-        io.emit('presentations:updated', { reason: 'group-created', presentationId: id });
+        events.publish('presentations:updated', { reason: 'group-created', presentationId: id });
 
         res.status(201).json(createApiResponse(null));
       } catch (error) {
@@ -357,21 +569,18 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
    */
   router.put(
     '/:id/groups/:groupId',
+    describeRoute({ summary: 'Rename group', section: 'groups' }),
+    validateBody('UpdateGroupRequest'),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const groupId = queryString(req.params.groupId);
       const body = req.body as UpdateGroupRequest;
 
-      // Validate required field
-      if (!body.label) {
-        throw new AppError('Missing required field: label', 400);
-      }
-
       try {
         await presentationService.updateGroup(id, groupId, body.label);
 
         // Notify clients
-        io.emit('presentations:updated', { reason: 'group-updated', presentationId: id });
+        events.publish('presentations:updated', { reason: 'group-updated', presentationId: id });
 
         res.json(createApiResponse(null));
       } catch (error) {
@@ -389,6 +598,7 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
    */
   router.delete(
     '/:id/groups/:groupId',
+    describeRoute({ summary: 'Delete group (its slides move to root level)', section: 'groups' }),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const groupId = queryString(req.params.groupId);
@@ -397,7 +607,7 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
         await presentationService.deleteGroup(id, groupId);
 
         // Notify clients
-        io.emit('presentations:updated', { reason: 'group-deleted', presentationId: id });
+        events.publish('presentations:updated', { reason: 'group-deleted', presentationId: id });
 
         res.json(createApiResponse(null));
       } catch (error) {
@@ -419,28 +629,21 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
    */
   router.post(
     '/:id/tabs',
+    describeRoute({
+      summary: 'Create tab',
+      section: 'tabs',
+      status: 201,
+    }),
+    validateBody('CreateTabRequest'),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const body = req.body as CreateTabRequest;
 
-      // Validate required fields
-      if (!body.id) {
-        throw new AppError('Missing required field: id', 400);
-      }
-      if (!body.label) {
-        throw new AppError('Missing required field: label', 400);
-      }
-
-      // Validate id format (kebab-case safe)
-      if (!/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(body.id)) {
-        throw new AppError('Invalid id: must be lowercase kebab-case (e.g., "my-tab")', 400);
-      }
-
       try {
         await presentationService.createTab(id, body.id, body.label);
 
         // Notify clients
-        io.emit('presentations:updated', { reason: 'tab-created', presentationId: id });
+        events.publish('presentations:updated', { reason: 'tab-created', presentationId: id });
 
         res.status(201).json(createApiResponse(null));
       } catch (error) {
@@ -465,20 +668,17 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
    */
   router.put(
     '/:id/tabs/order',
+    describeRoute({ summary: 'Reorder tabs', section: 'tabs' }),
+    validateBody('ReorderTabsRequest'),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const body = req.body as ReorderTabsRequest;
 
-      // Validate request body
-      if (!body.order || !Array.isArray(body.order)) {
-        throw new AppError('Invalid request: order must be an array of tab IDs', 400);
-      }
-
       try {
         await presentationService.reorderTabs(id, body.order);
 
         // Notify clients
-        io.emit('presentations:updated', { reason: 'tabs-reordered', presentationId: id });
+        events.publish('presentations:updated', { reason: 'tabs-reordered', presentationId: id });
 
         res.json(createApiResponse(null));
       } catch (error) {
@@ -501,21 +701,18 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
    */
   router.put(
     '/:id/tabs/:tabId',
+    describeRoute({ summary: 'Rename tab', section: 'tabs' }),
+    validateBody('UpdateTabRequest'),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const tabId = queryString(req.params.tabId);
       const body = req.body as UpdateTabRequest;
 
-      // Validate required field
-      if (!body.label) {
-        throw new AppError('Missing required field: label', 400);
-      }
-
       try {
         await presentationService.updateTab(id, tabId, body.label);
 
         // Notify clients
-        io.emit('presentations:updated', { reason: 'tab-updated', presentationId: id });
+        events.publish('presentations:updated', { reason: 'tab-updated', presentationId: id });
 
         res.json(createApiResponse(null));
       } catch (error) {
@@ -542,6 +739,13 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
    */
   router.delete(
     '/:id/tabs/:tabId',
+    describeRoute({
+      summary: 'Delete tab',
+      section: 'tabs',
+      query: {
+        strategy: 'orphan (default), cascade or reparent:<tabId> - what happens to child groups',
+      },
+    }),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const tabId = queryString(req.params.tabId);
@@ -551,7 +755,7 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
         await presentationService.deleteTab(id, tabId, strategy);
 
         // Notify clients
-        io.emit('presentations:updated', { reason: 'tab-deleted', presentationId: id });
+        events.publish('presentations:updated', { reason: 'tab-deleted', presentationId: id });
 
         res.json(createApiResponse(null));
       } catch (error) {
@@ -574,21 +778,21 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
    */
   router.put(
     '/:id/groups/:groupId/parent',
+    describeRoute({
+      summary: 'Assign group to tab',
+      section: 'groups',
+    }),
+    validateBody('SetGroupParentRequest'),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const groupId = queryString(req.params.groupId);
       const body = req.body as SetGroupParentRequest;
 
-      // Validate required field
-      if (!body.parent) {
-        throw new AppError('Missing required field: parent', 400);
-      }
-
       try {
         await presentationService.setGroupParent(id, groupId, body.parent);
 
         // Notify clients
-        io.emit('presentations:updated', { reason: 'group-parent-set', presentationId: id });
+        events.publish('presentations:updated', { reason: 'group-parent-set', presentationId: id });
 
         res.json(createApiResponse(null));
       } catch (error) {
@@ -611,6 +815,7 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
    */
   router.delete(
     '/:id/groups/:groupId/parent',
+    describeRoute({ summary: 'Remove group from tab', section: 'groups' }),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const groupId = queryString(req.params.groupId);
@@ -619,7 +824,10 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
         await presentationService.removeGroupParent(id, groupId);
 
         // Notify clients
-        io.emit('presentations:updated', { reason: 'group-parent-removed', presentationId: id });
+        events.publish('presentations:updated', {
+          reason: 'group-parent-removed',
+          presentationId: id,
+        });
 
         res.json(createApiResponse(null));
       } catch (error) {
@@ -637,14 +845,20 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
 
   /**
    * GET /api/presentations/:id/manifest
-   * Returns the raw manifest JSON for a presentation.
+   * Returns the raw manifest JSON for a presentation, with its ETag.
    */
   router.get(
     '/:id/manifest',
+    describeRoute({
+      summary: 'Get raw manifest JSON (null without a manifest; ETag header)',
+      section: 'manifest',
+      response: 'FlideckManifest',
+    }),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const config = await loadConfig();
       const manifest = await presentationService.getManifest(id);
+      res.set('ETag', await presentationService.getManifestETag(id));
 
       if (!manifest) {
         // Presentation exists but has no manifest - return empty object with context
@@ -662,6 +876,11 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
    */
   router.put(
     '/:id/manifest',
+    describeRoute({
+      summary: 'Replace entire manifest',
+      section: 'manifest',
+      body: 'FlideckManifest',
+    }),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const manifest = req.body;
@@ -670,11 +889,13 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
       const validationResult = validate(manifest);
 
       if (!validationResult.valid) {
-        throw new AppError(
-          `Manifest validation failed: ${validationResult.errors
-            ?.map((e) => `${e.field}: ${e.message}`)
-            .join(', ')}`,
-          400
+        const errors = (validationResult.errors ?? []).map((e) => ({
+          path: e.field,
+          message: e.message,
+        }));
+        throw new RequestValidationError(
+          `Manifest validation failed: ${errors.map((e) => `${e.path}: ${e.message}`).join(', ')}`,
+          errors
         );
       }
 
@@ -682,7 +903,7 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
       await presentationService.setManifest(id, manifest);
 
       // Notify clients
-      io.emit('presentations:updated', { reason: 'manifest-replaced', presentationId: id });
+      events.publish('presentations:updated', { reason: 'manifest-replaced', presentationId: id });
 
       res.json(createApiResponse(null));
     })
@@ -691,23 +912,146 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
   /**
    * PATCH /api/presentations/:id/manifest
    * Partial update with deep merge semantics.
+   *
+   * With Content-Type application/json-patch+json the body is a JSON Patch
+   * (RFC 6902) instead: operations can remove keys, move array items and target
+   * one slide by index ('/slides/3/title'), and 'test' operations guard them.
+   * The patched manifest is validated before writing and returned;
+   * ?dryRun=true returns it without writing. A failed 'test' or a missing path
+   * is a 409.
    */
   router.patch(
     '/:id/manifest',
+    describeRoute({
+      summary:
+        'Partial manifest update (deep merge, or a JSON Patch with Content-Type application/json-patch+json and ?dryRun=true)',
+      section: 'manifest',
+      query: { dryRun: "'true' to return a JSON Patch result without writing" },
+      body: { 'application/json': 'FlideckManifest', 'application/json-patch+json': 'JsonPatch' },
+      response: 'ManifestPatchResult',
+    }),
+    express.json({ type: JSON_PATCH_MEDIA_TYPE, limit: '5mb' }),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
+
+      if (req.is(JSON_PATCH_MEDIA_TYPE)) {
+        const operations = parseJsonPatch(req.body);
+        const dryRun = req.query.dryRun === 'true';
+        const manifest = await presentationService.applyManifestPatch(id, operations, { dryRun });
+
+        if (!dryRun) {
+          events.publish('presentations:updated', {
+            reason: 'manifest-patched',
+            presentationId: id,
+          });
+        }
+        res.json(createApiResponse<ManifestPatchResult>({ dryRun, manifest }));
+        return;
+      }
+
       const updates = req.body;
 
       // Apply patch (read/merge/validate/write are atomic inside patchManifest)
       await presentationService.patchManifest(id, updates);
 
       // Notify clients
-      io.emit('presentations:updated', { reason: 'manifest-patched', presentationId: id });
+      events.publish('presentations:updated', { reason: 'manifest-patched', presentationId: id });
 
       res.json(createApiResponse(null));
     })
   );
 
+  // ============================================================
+  // Manifest History
+  // ============================================================
+
+  /**
+   * GET /api/presentations/:id/manifest/history
+   * List manifest snapshots (newest first). A snapshot is taken before every manifest write.
+   */
+  router.get(
+    '/:id/manifest/history',
+    describeRoute({
+      summary: 'List manifest snapshots (newest first)',
+      section: 'manifest',
+      response: 'ManifestHistoryEntry[]',
+    }),
+    asyncHandler(async (req, res) => {
+      const id = queryString(req.params.id);
+
+      try {
+        const history = await presentationService.getManifestHistory(id);
+        res.json(createApiResponse(history));
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('not found')) {
+          throw new AppError(error.message, 404);
+        }
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * GET /api/presentations/:id/manifest/history/:version
+   * Returns the manifest as saved in a snapshot.
+   */
+  router.get(
+    '/:id/manifest/history/:version',
+    describeRoute({
+      summary: 'Get a manifest snapshot',
+      section: 'manifest',
+      response: 'FlideckManifest',
+    }),
+    asyncHandler(async (req, res) => {
+      const id = queryString(req.params.id);
+      const version = queryString(req.params.version);
+
+      try {
+        const manifest = await presentationService.getManifestVersion(id, version);
+        res.json(createApiResponse(manifest));
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('not found')) {
+          throw new AppError(error.message, 404);
+        }
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * POST /api/presentations/:id/manifest/history/:version/restore
+   * Restore a snapshot as the current manifest. The replaced manifest is snapshotted too.
+   */
+  router.post(
+    '/:id/manifest/history/:version/restore',
+    describeRoute({
+      summary: 'Restore a manifest snapshot',
+      section: 'manifest',
+      response: 'FlideckManifest',
+    }),
+    asyncHandler(async (req, res) => {
+      const id = queryString(req.params.id);
+      const version = queryString(req.params.version);
+
+      try {
+        const manifest = await presentationService.restoreManifestVersion(id, version);
+
+        // Notify clients
+        events.publish('presentations:updated', {
+          reason: 'manifest-restored',
+          presentationId: id,
+        });
+
+        res.json(createApiResponse(manifest));
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('not found')) {
+          throw new AppError(error.message, 404);
+        }
+        throw error;
+      }
+    })
+  );
+
   // ============================================================
   // FR-21: Agent Manifest Tooling - Bulk Operations
   // ============================================================
@@ -718,24 +1062,26 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
    */
   router.post(
     '/:id/manifest/slides/bulk',
+    describeRoute({
+      summary: 'Add multiple slides (slides[].content writes their HTML)',
+      section: 'bulk_operations',
+      query: { dryRun: "'true' to validate without writing" },
+      response: 'BulkOperationResult',
+      status: 201,
+    }),
+    validateBody('BulkAddSlidesRequest'),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const body = req.body as BulkAddSlidesRequest;
       const dryRun = body.dryRun || req.query.dryRun === 'true';
 
-      // Validate required fields
-      if (!body.slides || !Array.isArray(body.slides)) {
-        throw new AppError('Missing required field: slides (must be an array)', 400);
-      }
-
-      // Validate each slide has required fields
+      // The schema checks the extensions; this also rejects absolute paths and '..'
       for (let i = 0; i < body.slides.length; i++) {
-        const slide = body.slides[i];
-        if (!slide.file) {
-          throw new AppError(`Slide at index ${i} is missing required field: file`, 400);
-        }
-        if (!slide.file.endsWith('.html')) {
-          throw new AppError(`Slide at index ${i} has invalid file: must end with .html`, 400);
+        if (!isSafeSlidePath(body.slides[i].file)) {
+          throw new AppError(
+            `Slide at index ${i} has invalid file: must be a relative path ending with .html`,
+            400
+          );
         }
       }
 
@@ -754,13 +1100,17 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
         });
 
         // Notify clients
-        io.emit('presentations:updated', { reason: 'slides-bulk-added', presentationId: id });
+        events.publish('presentations:updated', {
+          reason: 'slides-bulk-added',
+          presentationId: id,
+        });
 
         res.status(201).json(createApiResponse({
           added: result.added,
           skipped: result.skipped,
           updated: result.updated,
           skippedItems: result.skippedItems,
+          written: result.written,
         }));
       } catch (error) {
         if (error instanceof Error && error.message.includes('not found')) {
@@ -777,34 +1127,19 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
    */
   router.post(
     '/:id/manifest/groups/bulk',
+    describeRoute({
+      summary: 'Bulk add groups',
+      section: 'bulk_operations',
+      query: { dryRun: "'true' to validate without writing" },
+      response: 'BulkOperationResult',
+      status: 201,
+    }),
+    validateBody('BulkAddGroupsRequest'),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const body = req.body as BulkAddGroupsRequest;
       const dryRun = body.dryRun || req.query.dryRun === 'true';
 
-      // Validate required fields
-      if (!body.groups || !Array.isArray(body.groups)) {
-        throw new AppError('Missing required field: groups (must be an array)', 400);
-      }
-
-      // Validate each group has required fields
-      for (let i = 0; i < body.groups.length; i++) {
-        const group = body.groups[i];
-        if (!group.id) {
-          throw new AppError(`Group at index ${i} is missing required field: id`, 400);
-        }
-        if (!group.label) {
-          throw new AppError(`Group at index ${i} is missing required field: label`, 400);
-        }
-        // Validate id format (kebab-case safe)
-        if (!/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(group.id)) {
-          throw new AppError(
-            `Group at index ${i} has invalid id: must be lowercase kebab-case`,
-            400
-          );
-        }
-      }
-
       if (dryRun) {
         // Dry run - return what would happen without persisting
         res.json(createApiResponse({ dryRun: true, message: 'Dry run successful - no changes made', groups: body.groups.length }));
@@ -815,7 +1150,10 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
         const result = await presentationService.bulkAddGroups(id, body.groups);
 
         // Notify clients
-        io.emit('presentations:updated', { reason: 'groups-bulk-added', presentationId: id });
+        events.publish('presentations:updated', {
+          reason: 'groups-bulk-added',
+          presentationId: id,
+        });
 
         res.status(201).json(createApiResponse({
           added: result.added,
@@ -837,6 +1175,11 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
    */
   router.put(
     '/:id/manifest/sync',
+    describeRoute({
+      summary: 'Sync manifest with filesystem',
+      section: 'bulk_operations',
+    }),
+    validateBody('SyncManifestRequest'),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const body = req.body as SyncManifestRequest;
@@ -849,7 +1192,7 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
         });
 
         // Notify clients
-        io.emit('presentations:updated', { reason: 'manifest-synced', presentationId: id });
+        events.publish('presentations:updated', { reason: 'manifest-synced', presentationId: id });
 
         res.json(createApiResponse(null));
       } catch (error) {
@@ -867,15 +1210,16 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
    */
   router.post(
     '/:id/manifest/validate',
+    describeRoute({
+      summary: 'Validate manifest',
+      section: 'bulk_operations',
+      response: 'ValidateManifestResponse',
+    }),
+    validateBody('ValidateManifestRequest'),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const body = req.body as ValidateManifestRequest;
 
-      // Validate request body
-      if (!body.manifest) {
-        throw new AppError('Missing required field: manifest', 400);
-      }
-
       // First validate against JSON Schema
       const schemaValidation = validate(body.manifest);
 
@@ -914,15 +1258,15 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
    */
   router.post(
     '/:id/manifest/template',
+    describeRoute({
+      summary: 'Apply template to presentation',
+      section: 'templates',
+    }),
+    validateBody('ApplyTemplateRequest'),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const body = req.body as ApplyTemplateRequest;
 
-      // Validate request body
-      if (!body.templateId) {
-        throw new AppError('Missing required field: templateId', 400);
-      }
-
       // Get template
       const template = getTemplateById(body.templateId);
       if (!template) {
@@ -937,7 +1281,7 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
         );
 
         // Notify clients
-        io.emit('presentations:updated', {
+        events.publish('presentations:updated', {
           reason: 'template-applied',
           presentationId: id,
         });
@@ -963,9 +1307,15 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
    */
   router.put(
     '/:id/manifest/sync-from-index',
+    describeRoute({
+      summary: 'Parse index HTML to populate manifest',
+      section: 'bulk_operations',
+      response: 'SyncFromIndexResponse',
+    }),
+    validateBody('SyncFromIndexRequest'),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
-      const body = (req.body || {}) as SyncFromIndexRequest;
+      const body = req.body as SyncFromIndexRequest;
 
       try {
         const result = await presentationService.syncFromIndex(id, {
@@ -975,7 +1325,7 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
         });
 
         // Notify clients
-        io.emit('presentations:updated', {
+        events.publish('presentations:updated', {
           reason: 'manifest-synced-from-index',
           presentationId: id,
         });
@@ -990,9 +1340,144 @@ export function createPresentationRoutes({ io }: RouteConfig): Router {
     })
   );
 
+  // ============================================================
+  // Slide Lint
+  // ============================================================
+
+  /**
+   * GET /api/presentations/:id/lint
+   * Check every slide against the harness authoring standard
+   * (docs/harness-authoring-standard.md). Returns issues with line numbers
+   * and severities per slide, plus error/warning totals.
+   */
+  router.get(
+    '/:id/lint',
+    describeRoute({
+      summary: 'Check every slide against the harness authoring standard (issues with lines)',
+      section: 'lint',
+      response: 'PresentationLintResponse',
+    }),
+    asyncHandler(async (req, res) => {
+      const id = queryString(req.params.id);
+      res.json(createApiResponse(await lintService.lintPresentation(id)));
+    })
+  );
+
+  /**
+   * GET /api/presentations/:id/slides/:slideId/lint
+   * Check a single slide against the harness authoring standard.
+   */
+  router.get(
+    '/:id/slides/:slideId/lint',
+    describeRoute({ summary: 'Lint a single slide', section: 'lint', response: 'SlideLintResult' }),
+    asyncHandler(async (req, res) => {
+      const id = queryString(req.params.id);
+      const slideId = queryString(req.params.slideId);
+      res.json(createApiResponse(await lintService.lintSlide(id, slideId)));
+    })
+  );
+
+  // ============================================================
+  // Harness Migration
+  // ============================================================
+
+  /**
+   * POST /api/presentations/:id/migrate
+   * Convert slides to harness fragments, classifying each as Type A, B or C
+   * (recorded in the manifest as harnessType). Writes to a sibling copy
+   * ('<id>-v2' or targetId) by default, or in place with output: 'in-place';
+   * dryRun returns per-slide diffs without writing. Emits 'migration:progress'
+   * to the presentation's room after each slide (not logged in the event stream:
+   * progress ticks would crowd change events out of the replay log).
+   */
+  router.post(
+    '/:id/migrate',
+    describeRoute({
+      summary:
+        'Convert slides to harness fragments ({ output: sibling|in-place, targetId?, dryRun? })',
+      section: 'migration',
+      response: 'MigrationResult',
+      status: 201,
+    }),
+    validateBody('MigratePresentationRequest'),
+    asyncHandler(async (req, res) => {
+      const id = queryString(req.params.id);
+      const body = req.body as MigratePresentationRequest;
+      const targetId =
+        body.output === 'in-place'
+          ? undefined
+          : qualifyNewId(
+              body.targetId ?? `${presentationService.resolveId(id).folder}-v2`,
+              id,
+              'targetId'
+            );
+
+      try {
+        const result = await migrationService.migratePresentation(
+          id,
+          { output: body.output, targetId, dryRun: body.dryRun },
+          (event) => io.to(presentationRoom(id)).emit('migration:progress', event)
+        );
+
+        // Notify clients
+        if (!result.dryRun && result.output === 'sibling') {
+          const target = await presentationService.getById(result.targetId);
+          events.publish('structure:changed', {
+            eventType: 'presentation-migrated',
+            filePath: target?.path ?? '',
+            presentationId: result.targetId,
+          });
+        } else if (!result.dryRun) {
+          events.publish('presentations:updated', {
+            reason: 'presentation-migrated',
+            presentationId: id,
+          });
+        }
+
+        res
+          .status(result.dryRun || result.output === 'in-place' ? 200 : 201)
+          .json(createApiResponse(result));
+      } catch (error) {
+        throw toLifecycleError(error);
+      }
+    })
+  );
+
+  // ============================================================
+  // Offline Export
+  // ============================================================
+
+  /**
+   * GET /api/presentations/:id/export?format=html|zip
+   * Download a standalone copy of the presentation that works without FliDeck:
+   * scoped slides, sidebar order, groups and tabs, inlined images/CSS and an
+   * embedded navigator. format defaults to html; zip adds the source files.
+   */
+  router.get(
+    '/:id/export',
+    describeRoute({
+      summary: 'Download a standalone offline bundle (zip also includes the source files)',
+      query: { format: 'html (default) or zip' },
+      produces: ['text/html', 'application/zip'],
+    }),
+    asyncHandler(async (req, res) => {
+      const id = queryString(req.params.id);
+      const format = queryString(req.query.format as string | undefined) || 'html';
+      if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+        throw new AppError(`Invalid format: must be one of ${EXPORT_FORMATS.join(', ')}`, 400);
+      }
+
+      const result = await exportService.exportPresentation(id, format as ExportFormat);
+      res.attachment(result.filename);
+      res.type(result.contentType);
+      res.send(result.content);
+    })
+  );
+
   // Open presentation folder in Finder (macOS)
   router.post(
     '/:id/open',
+    describeRoute({ summary: 'Open the presentation folder in Finder (macOS)' }),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const presentation = await presentationService.getById(id);
@@ -6,6 +6,8 @@ import { PresentationService } from '../services/PresentationService.js';
 import { loadConfig, collapsePath } from '../config.js';
 import { queryString } from '../utils/queryString.js';
 import { createApiResponse } from '../utils/responseHelper.js';
+import { qualifyIdParam } from '../utils/rootSelector.js';
+import { describeRoute } from '../utils/apiRegistry.js';
 
 /**
  * Count presentations in a directory (folders containing index.html)
@@ -39,34 +41,41 @@ export function createQueryRoutes(): Router {
   const router = Router();
   const presentationService = PresentationService.getInstance();
 
+  // :id accepts an optional ?root=<name> selector
+  router.param('id', qualifyIdParam(presentationService));
+
   /**
    * GET /api/query/routes
    * List available presentation routes (directories).
-   * Returns current route plus all routes from history.
+   * Returns every served root (primary first, isServed: true) plus routes from history.
    */
   router.get(
     '/routes',
+    describeRoute({
+      summary: 'List served roots and previously used roots with presentation counts',
+      response: 'QueryRoutesResponse',
+    }),
     asyncHandler(async (_req, res) => {
       const config = await loadConfig();
-      const currentRoot = presentationService.getRoot();
-      const currentRouteName = path.basename(currentRoot);
-
-      // Get presentations for current route
-      const currentPresentations = await presentationService.discoverAll();
-
-      // Build routes array: current route first, then history
-      const routes = [
-        {
-          name: currentRouteName,
-          path: collapsePath(currentRoot),
-          presentationCount: currentPresentations.length,
-          isCurrent: true,
-        },
-      ];
-
-      // Add history routes (excluding current if it's in history)
+      const roots = presentationService.getRoots();
+      const currentRouteName = path.basename(presentationService.getRoot());
+
+      // Build routes array: served roots first, then history
+      const routes = [];
+      for (const root of roots) {
+        const presentations = await presentationService.discoverAll(root.name);
+        routes.push({
+          name: root.name,
+          path: collapsePath(root.path),
+          presentationCount: presentations.length,
+          isCurrent: root.isPrimary,
+          isServed: true,
+        });
+      }
+
+      // Add history routes (excluding roots that are already served)
       for (const historyPath of config.history) {
-        if (historyPath !== currentRoot) {
+        if (!roots.some((root) => root.path === historyPath)) {
           const routeName = path.basename(historyPath);
           const presentationCount = await countPresentationsInDir(historyPath);
           routes.push({
@@ -74,6 +83,7 @@ export function createQueryRoutes(): Router {
             path: collapsePath(historyPath),
             presentationCount,
             isCurrent: false,
+            isServed: false,
           });
         }
       }
@@ -84,25 +94,30 @@ export function createQueryRoutes(): Router {
 
   /**
    * GET /api/query/routes/:route
-   * Get details for a specific route including its presentations.
+   * Get details for a served root including its presentations.
    */
   router.get(
     '/routes/:route',
+    describeRoute({
+      summary: 'Get a served root with its presentations',
+      params: { route: 'Root name' },
+      response: 'QueryRouteResponse',
+    }),
     asyncHandler(async (req, res) => {
       const route = queryString(req.params.route);
-      const root = presentationService.getRoot();
-      const routeName = path.basename(root);
+      const roots = presentationService.getRoots();
+      const root = roots.find((r) => r.name === route);
 
-      // Currently only support the active route
-      if (route !== routeName) {
-        throw new AppError(`Route '${route}' not found. Available: ${routeName}`, 404);
+      if (!root) {
+        const available = roots.map((r) => r.name).join(', ');
+        throw new AppError(`Route '${route}' not found. Available: ${available}`, 404);
       }
 
-      const presentations = await presentationService.discoverAll();
+      const presentations = await presentationService.discoverAll(root.name);
 
       res.json(createApiResponse({
-        name: routeName,
-        path: root,
+        name: root.name,
+        path: root.path,
         presentations: presentations.map((p) => ({
           id: p.id,
           name: p.name,
@@ -119,6 +134,10 @@ export function createQueryRoutes(): Router {
    */
   router.get(
     '/presentations/:id',
+    describeRoute({
+      summary: 'Get a presentation with asset order and file sizes',
+      response: 'QueryPresentationResponse',
+    }),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const presentation = await presentationService.getById(id);
@@ -127,8 +146,7 @@ export function createQueryRoutes(): Router {
         throw new AppError(`Presentation '${id}' not found`, 404);
       }
 
-      const root = presentationService.getRoot();
-      const routeName = path.basename(root);
+      const routeName = presentationService.resolveId(presentation.id).root.name;
 
       // Get file sizes for assets
       const assetsWithSize = await Promise.all(
@@ -1,15 +1,18 @@
 import { Router } from 'express';
 import type { Server } from 'socket.io';
 import { getSchema } from '../utils/manifestValidator.js';
-import { asyncHandler } from '../middleware/errorHandler.js';
+import { asyncHandler, AppError } from '../middleware/errorHandler.js';
 import { createApiResponse } from '../utils/responseHelper.js';
+import { queryString } from '../utils/queryString.js';
+import { describeRoute } from '../utils/apiRegistry.js';
+import { REQUEST_SCHEMAS, type RequestSchemaName } from '../utils/apiSchemas.js';
 
 interface RouteConfig {
   io?: Server;
 }
 
 /**
- * Schema routes - expose JSON Schema for manifest
+ * Schema routes - expose JSON Schemas for the manifest and request bodies
  */
 export function createSchemaRoutes(_config?: RouteConfig): Router {
   const router = Router();
@@ -20,12 +23,59 @@ export function createSchemaRoutes(_config?: RouteConfig): Router {
    */
   router.get(
     '/manifest',
+    describeRoute({
+      summary: 'Get JSON Schema for manifest validation',
+      response: 'JsonSchemaDocument',
+    }),
     asyncHandler(async (_req, res) => {
       const schema = getSchema();
       res.json(createApiResponse(schema));
     })
   );
 
+  /**
+   * GET /api/schema/requests
+   * List the request body schemas, by name
+   */
+  router.get(
+    '/requests',
+    describeRoute({
+      summary: 'List request body schema names',
+      response: { type: 'array', items: { type: 'string' } },
+    }),
+    (_req, res) => {
+      res.json(createApiResponse(Object.keys(REQUEST_SCHEMAS)));
+    }
+  );
+
+  /**
+   * GET /api/schema/requests/:name
+   * Returns the JSON Schema that request bodies of this type are validated
+   * against (e.g. AddSlideRequest)
+   */
+  router.get(
+    '/requests/:name',
+    describeRoute({
+      summary: 'Get JSON Schema for a request body (e.g. AddSlideRequest)',
+      params: { name: 'Request type name (from GET /api/schema/requests)' },
+      response: 'JsonSchemaDocument',
+    }),
+    (req, res) => {
+      const name = queryString(req.params.name);
+      if (!Object.hasOwn(REQUEST_SCHEMAS, name)) {
+        throw new AppError(`Unknown request schema: ${name}`, 404);
+      }
+
+      res.json(
+        createApiResponse({
+          $schema: 'http://json-schema.org/draft-07/schema#',
+          title: name,
+          ...REQUEST_SCHEMAS[name as RequestSchemaName],
+        })
+      );
+    }
+  );
+
   // ============================================================
   // FR-21: Manifest Templates
   // ============================================================
@@ -0,0 +1,56 @@
+import { Router } from 'express';
+import { asyncHandler, AppError } from '../middleware/errorHandler.js';
+import { PresentationService } from '../services/PresentationService.js';
+import { SearchService } from '../services/SearchService.js';
+import { queryString } from '../utils/queryString.js';
+import { createApiResponse } from '../utils/responseHelper.js';
+import { rootSelector } from '../utils/rootSelector.js';
+import { describeRoute } from '../utils/apiRegistry.js';
+
+/**
+ * Create full-text search routes.
+ */
+export function createSearchRoutes(): Router {
+  const router = Router();
+  const presentationService = PresentationService.getInstance();
+  const searchService = SearchService.getInstance();
+
+  /**
+   * GET /api/search?q=<terms>&limit=<n>&root=<name>
+   * Search slide titles, headings, body text and manifest descriptions/notes
+   * across every presentation. Returns snippets with highlight ranges.
+   * limit defaults to 20 and is capped at 100.
+   */
+  router.get(
+    '/',
+    describeRoute({
+      summary: 'Full-text search of slide content with snippets',
+      query: {
+        q: 'Search terms (required)',
+        limit: 'Maximum results (default 20, at most 100)',
+        root: 'Only this root',
+      },
+      response: 'SearchResponse',
+    }),
+    asyncHandler(async (req, res) => {
+      const q = queryString(req.query.q as string | undefined).trim();
+      if (!q) {
+        throw new AppError('Missing required query parameter: q', 400);
+      }
+
+      const rawLimit = queryString(req.query.limit as string | undefined);
+      const limit = rawLimit ? Number(rawLimit) : undefined;
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+        throw new AppError('Invalid limit: must be a positive integer', 400);
+      }
+
+      const response = await searchService.search(q, {
+        limit,
+        root: rootSelector(req, presentationService),
+      });
+      res.json(createApiResponse(response));
+    })
+  );
+
+  return router;
+}
@@ -4,6 +4,7 @@ import { getTemplates, getTemplateById } from '../utils/manifestTemplates.js';
 import { asyncHandler, AppError } from '../middleware/errorHandler.js';
 import { queryString } from '../utils/queryString.js';
 import { createApiResponse } from '../utils/responseHelper.js';
+import { describeRoute } from '../utils/apiRegistry.js';
 
 interface RouteConfig {
   io: Server;
@@ -21,6 +22,7 @@ export function createTemplateRoutes(_config: RouteConfig): Router {
    */
   router.get(
     '/manifest',
+    describeRoute({ summary: 'List available manifest templates', response: 'ManifestTemplate[]' }),
     asyncHandler(async (_req, res) => {
       const templates = getTemplates();
       res.json(createApiResponse(templates));
@@ -33,6 +35,11 @@ export function createTemplateRoutes(_config: RouteConfig): Router {
    */
   router.get(
     '/manifest/:id',
+    describeRoute({
+      summary: 'Get specific template',
+      params: { id: 'Template ID' },
+      response: 'ManifestTemplate',
+    }),
     asyncHandler(async (req, res) => {
       const id = queryString(req.params.id);
       const template = getTemplateById(id);
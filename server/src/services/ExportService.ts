@@ -0,0 +1,208 @@
+import fs from 'fs-extra';
+import path from 'path';
+import * as cheerio from 'cheerio';
+import { getSidebarOrder, type Asset, type ExportFormat, type Presentation } from '@flideck/shared';
+import { AppError } from '../middleware/errorHandler.js';
+import { PresentationService } from './PresentationService.js';
+import {
+  renderExportBundle,
+  type BundleData,
+  type BundleSection,
+  type BundleSlide,
+} from '../utils/exportBundle.js';
+import { AssetInliner } from '../utils/inlineAssets.js';
+import { isIgnoredDir } from '../utils/slidePaths.js';
+import { scopeSlideStyles, stripSlideWrapper } from '../utils/stripSlideWrapper.js';
+import { createZip, type ZipEntry } from '../utils/zip.js';
+
+/**
+ * A rendered export, ready to be sent as a download.
+ */
+export interface ExportResult {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+/**
+ * ExportService renders a presentation as a standalone bundle that works
+ * without FliDeck running.
+ *
+ * Every slide goes through the same wrapper stripping and style scoping as
+ * the harness, with local images, media and stylesheets inlined as data: URIs.
+ * Slides are ordered as in the sidebar (one sequence per container tab) and
+ * driven by an embedded navigator with PresentationPage's keyboard contract.
+ */
+export class ExportService {
+  private static instance: ExportService;
+
+  private constructor(private presentationService: PresentationService) {}
+
+  /**
+   * Get the singleton instance of ExportService.
+   */
+  static getInstance(): ExportService {
+    if (!ExportService.instance) {
+      ExportService.instance = new ExportService(PresentationService.getInstance());
+    }
+    return ExportService.instance;
+  }
+
+  /**
+   * Export a presentation as a single HTML file, or as a zip holding that file
+   * (index.html) and the presentation's source files (source/).
+   *
+   * @throws AppError(404) if the presentation does not exist
+   */
+  async exportPresentation(id: string, format: ExportFormat): Promise<ExportResult> {
+    const presentation = await this.presentationService.getById(id);
+    if (!presentation) {
+      throw new AppError('Presentation not found', 404);
+    }
+
+    const html = renderExportBundle(await this.buildBundle(presentation));
+    const baseName = this.presentationService.resolveId(id).folder;
+
+    if (format === 'html') {
+      return {
+        filename: `${baseName}.html`,
+        contentType: 'text/html; charset=utf-8',
+        content: Buffer.from(html, 'utf-8'),
+      };
+    }
+
+    const entries: ZipEntry[] = [
+      { name: `${baseName}/index.html`, data: Buffer.from(html, 'utf-8') },
+    ];
+    for (const file of await this.listSourceFiles(presentation.path)) {
+      const filePath = path.join(presentation.path, file);
+      entries.push({
+        name: `${baseName}/source/${file}`,
+        data: await fs.readFile(filePath),
+        modified: (await fs.stat(filePath)).mtime,
+      });
+    }
+
+    return {
+      filename: `${baseName}.zip`,
+      contentType: 'application/zip',
+      content: createZip(entries),
+    };
+  }
+
+  /**
+   * Collect the navigator data: one section per container tab (tab index page
+   * first, then its slides in sidebar order), or a single section without tabs.
+   * Slides shared between tabs are bundled once.
+   */
+  private async buildBundle(presentation: Presentation): Promise<BundleData> {
+    const inliner = new AssetInliner(presentation.path);
+    const slides: BundleSlide[] = [];
+    const slideIndexes = new Map<string, number>();
+
+    const toIndexes = async (assets: Asset[]): Promise<number[]> => {
+      const indexes: number[] = [];
+      for (const asset of assets) {
+        let index = slideIndexes.get(asset.id);
+        if (index === undefined) {
+          index = slides.push(await this.bundleSlide(presentation, asset, inliner)) - 1;
+          slideIndexes.set(asset.id, index);
+        }
+        indexes.push(index);
+      }
+      return indexes;
+    };
+
+    const sections: BundleSection[] = [];
+    const tabs = [...(presentation.tabs ?? [])].sort((a, b) => a.order - b.order);
+    if (tabs.length === 0) {
+      sections.push({
+        id: null,
+        label: presentation.name,
+        slides: await toIndexes(getSidebarOrder(presentation)),
+      });
+    }
+    for (const tab of tabs) {
+      const tabIndex = presentation.assets.find((a) => a.filename === tab.file);
+      sections.push({
+        id: tab.id,
+        label: tab.label,
+        slides: await toIndexes([
+          ...(tabIndex ? [tabIndex] : []),
+          ...getSidebarOrder(presentation, tab.id),
+        ]),
+      });
+    }
+
+    const groups: Record<string, string> = {};
+    for (const [groupId, group] of Object.entries(presentation.groups ?? {})) {
+      if (!group.tab) groups[groupId] = group.label;
+    }
+
+    return { title: presentation.name, groups, sections, slides };
+  }
+
+  /**
+   * Strip, scope and inline one slide.
+   */
+  private async bundleSlide(
+    presentation: Presentation,
+    asset: Asset,
+    inliner: AssetInliner
+  ): Promise<BundleSlide> {
+    const filePath = path.join(presentation.path, asset.filename);
+    const baseDir = path.dirname(filePath);
+    const stripped = stripSlideWrapper(await fs.readFile(filePath, 'utf-8'));
+
+    // Linked stylesheets come first, as they normally sit in <head> before inline styles
+    const styles: string[] = [];
+    for (const href of stripped.stylesheets) {
+      try {
+        const cssPath = path.resolve(baseDir, decodeURIComponent(href.split(/[?#]/)[0]));
+        if (!cssPath.startsWith(path.resolve(presentation.path) + path.sep)) continue;
+        const css = await fs.readFile(cssPath, 'utf-8');
+        styles.push(await inliner.inlineCss(css, path.dirname(cssPath)));
+      } catch {
+        // Missing or malformed stylesheet link - the live harness skips these too
+      }
+    }
+    styles.push(await inliner.inlineCss(stripped.styles, baseDir));
+
+    // Styles and scripts travel separately; left in the body they would run unscoped
+    const $ = cheerio.load(stripped.body, null, false);
+    $('style, script').remove();
+    await inliner.inlineElements($, baseDir);
+
+    const allStyles = styles.filter((css) => css.trim()).join('\n');
+    return {
+      id: asset.id,
+      title: asset.name,
+      file: asset.filename,
+      group: asset.group,
+      viewportLock: asset.viewportLock ?? stripped.viewportLock,
+      styles: allStyles ? scopeSlideStyles(allStyles) : '',
+      body: $.html(),
+      scripts: stripped.scripts,
+    };
+  }
+
+  /**
+   * List the presentation's files (relative POSIX paths), skipping hidden
+   * files and folders (such as .flideck) and node_modules.
+   */
+  private async listSourceFiles(folderPath: string, prefix = ''): Promise<string[]> {
+    const files: string[] = [];
+    const entries = await fs.readdir(path.join(folderPath, prefix), { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+      if (entry.isFile()) {
+        files.push(prefix + entry.name);
+      } else if (entry.isDirectory() && !isIgnoredDir(entry.name)) {
+        files.push(...(await this.listSourceFiles(folderPath, `${prefix}${entry.name}/`)));
+      }
+    }
+    return files;
+  }
+}
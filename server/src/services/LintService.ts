@@ -0,0 +1,156 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type {
+  Asset,
+  LintIssue,
+  Presentation,
+  PresentationLintResponse,
+  SlideLintResult,
+} from '@flideck/shared';
+import { AppError } from '../middleware/errorHandler.js';
+import { PresentationService } from './PresentationService.js';
+import { lintSlideHtml } from '../utils/slideLint.js';
+
+/** Lint results by slide filename, with the modification time they were computed for */
+type LintCache = Map<string, { lastModified: number; issues: LintIssue[] }>;
+
+interface PresentationLintCache {
+  /** Presentation folder, to notice when it is deleted or renamed */
+  path: string;
+  files: LintCache;
+}
+
+/**
+ * LintService checks slides against the harness authoring standard
+ * (see utils/slideLint.ts for the rules).
+ *
+ * Results are cached per presentation and file, and reused while the file's
+ * modification time is unchanged, so re-linting a presentation only re-reads
+ * edited slides. Linting a whole presentation drops the entries of files it no
+ * longer has; presentations whose folder is gone are dropped when the
+ * presentation cache is invalidated.
+ */
+export class LintService {
+  private static instance: LintService;
+  private cache = new Map<string, PresentationLintCache>();
+
+  private constructor(private presentationService: PresentationService) {
+    presentationService.on('cache:invalidated', ({ id }: { id?: string }) => {
+      this.pruneRemovedPresentations(id).catch((error) =>
+        console.warn('[LintService] Failed to prune lint cache:', error)
+      );
+    });
+  }
+
+  /**
+   * Get the singleton instance of LintService.
+   */
+  static getInstance(): LintService {
+    if (!LintService.instance) {
+      LintService.instance = new LintService(PresentationService.getInstance());
+    }
+    return LintService.instance;
+  }
+
+  /**
+   * Lint every slide of a presentation.
+   *
+   * @throws AppError(404) if the presentation does not exist
+   */
+  async lintPresentation(id: string): Promise<PresentationLintResponse> {
+    const presentation = await this.getPresentation(id);
+    const previous = this.cache.get(presentation.id);
+    // Rebuilt from the current assets, so removed and renamed files are dropped
+    const files: LintCache = new Map();
+
+    const slides: SlideLintResult[] = [];
+    for (const asset of presentation.assets) {
+      const result = await this.lintAsset(presentation, asset, previous?.files, files);
+      if (result) slides.push(result);
+    }
+    this.cache.set(presentation.id, { path: presentation.path, files });
+
+    return {
+      presentationId: presentation.id,
+      slides,
+      errors: slides.reduce((sum, s) => sum + s.errors, 0),
+      warnings: slides.reduce((sum, s) => sum + s.warnings, 0),
+    };
+  }
+
+  /**
+   * Lint a single slide, found by asset ID or relative filename.
+   *
+   * @throws AppError(404) if the presentation or slide does not exist
+   */
+  async lintSlide(id: string, slideId: string): Promise<SlideLintResult> {
+    const presentation = await this.getPresentation(id);
+    const asset = presentation.assets.find((a) => a.id === slideId || a.filename === slideId);
+    const entry = this.cache.get(presentation.id) ?? { path: presentation.path, files: new Map() };
+    const result = asset && (await this.lintAsset(presentation, asset, entry.files, entry.files));
+    if (!result) {
+      throw new AppError(`Slide not found: ${slideId}`, 404);
+    }
+    this.cache.set(presentation.id, entry);
+    return result;
+  }
+
+  private async getPresentation(id: string): Promise<Presentation> {
+    const presentation = await this.presentationService.getById(id);
+    if (!presentation) {
+      throw new AppError('Presentation not found', 404);
+    }
+    return presentation;
+  }
+
+  /**
+   * Drop the cached results of presentations whose folder no longer exists
+   * (deleted or renamed), or only those of presentationId if given.
+   */
+  private async pruneRemovedPresentations(presentationId?: string): Promise<void> {
+    const ids = presentationId ? [presentationId] : Array.from(this.cache.keys());
+    for (const id of ids) {
+      const entry = this.cache.get(id);
+      if (entry && !(await fs.pathExists(entry.path))) {
+        this.cache.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Lint one asset, reusing its result from `cached` while the file is unchanged
+   * and recording it in `into`.
+   *
+   * @returns null if the file vanished since the presentation was discovered
+   */
+  private async lintAsset(
+    presentation: Presentation,
+    asset: Asset,
+    cached: LintCache | undefined,
+    into: LintCache
+  ): Promise<SlideLintResult | null> {
+    let entry = cached?.get(asset.filename);
+    if (!entry || entry.lastModified !== asset.lastModified) {
+      let html: string;
+      try {
+        html = await fs.readFile(path.join(presentation.path, asset.filename), 'utf-8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        // Deleted or renamed between discovery and linting - skip it
+        into.delete(asset.filename);
+        return null;
+      }
+      entry = { lastModified: asset.lastModified, issues: lintSlideHtml(html) };
+    }
+    into.set(asset.filename, entry);
+
+    const { issues } = entry;
+    return {
+      assetId: asset.id,
+      filename: asset.filename,
+      issues,
+      errors: issues.filter((i) => i.severity === 'error').length,
+      warnings: issues.filter((i) => i.severity === 'warning').length,
+    };
+  }
+}
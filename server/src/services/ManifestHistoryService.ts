@@ -0,0 +1,114 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { FlideckManifest, ManifestHistoryEntry } from '@flideck/shared';
+import { AppError } from '../middleware/errorHandler.js';
+
+/** History lives in a hidden folder so the file watcher and asset discovery ignore it */
+const HISTORY_DIR = path.join('.flideck', 'history');
+const MAX_HISTORY_ENTRIES = 50;
+
+/** Versions are filesystem-safe UTC timestamps, optionally suffixed to break ties */
+const VERSION_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z(-\d+)?$/;
+
+/**
+ * ManifestHistoryService keeps timestamped snapshots of a presentation's manifest.
+ *
+ * Before every manifest write, the file about to be replaced is copied to
+ * `<presentation>/.flideck/history/<version>.json`, so any write (including a
+ * restore) can be rolled back. Oldest snapshots are pruned beyond maxEntries.
+ */
+export class ManifestHistoryService {
+  constructor(private maxEntries: number = MAX_HISTORY_ENTRIES) {}
+
+  /**
+   * Snapshot the manifest currently on disk before it is overwritten.
+   * Returns null when there is nothing to snapshot yet.
+   */
+  async snapshot(folderPath: string, manifestPath: string): Promise<ManifestHistoryEntry | null> {
+    if (!(await fs.pathExists(manifestPath))) {
+      return null;
+    }
+
+    const historyDir = path.join(folderPath, HISTORY_DIR);
+    await fs.ensureDir(historyDir);
+
+    const now = new Date();
+    const baseVersion = now.toISOString().replace(/[:.]/g, '-');
+    let version = baseVersion;
+    for (let n = 1; await fs.pathExists(this.getSnapshotPath(folderPath, version)); n++) {
+      version = `${baseVersion}-${n}`;
+    }
+
+    const snapshotPath = this.getSnapshotPath(folderPath, version);
+    await fs.copy(manifestPath, snapshotPath);
+    await this.prune(folderPath);
+
+    const stats = await fs.stat(snapshotPath);
+    return { version, createdAt: now.toISOString(), size: stats.size };
+  }
+
+  /**
+   * List snapshots for a presentation, newest first.
+   */
+  async list(folderPath: string): Promise<ManifestHistoryEntry[]> {
+    const historyDir = path.join(folderPath, HISTORY_DIR);
+    if (!(await fs.pathExists(historyDir))) {
+      return [];
+    }
+
+    const versions = (await fs.readdir(historyDir))
+      .filter((name) => name.endsWith('.json'))
+      .map((name) => name.slice(0, -'.json'.length))
+      .filter((version) => VERSION_PATTERN.test(version))
+      .sort()
+      .reverse();
+
+    return Promise.all(
+      versions.map(async (version) => {
+        const stats = await fs.stat(this.getSnapshotPath(folderPath, version));
+        return { version, createdAt: this.versionToIso(version), size: stats.size };
+      })
+    );
+  }
+
+  /**
+   * Read a snapshot by version.
+   *
+   * @throws AppError(400) if the version identifier is malformed
+   * @throws Error if the version does not exist
+   */
+  async read(folderPath: string, version: string): Promise<FlideckManifest> {
+    if (!VERSION_PATTERN.test(version)) {
+      throw new AppError(`Invalid manifest version: ${version}`, 400);
+    }
+
+    const snapshotPath = this.getSnapshotPath(folderPath, version);
+    if (!(await fs.pathExists(snapshotPath))) {
+      throw new Error(`Manifest version not found: ${version}`);
+    }
+
+    return (await fs.readJson(snapshotPath)) as FlideckManifest;
+  }
+
+  private getSnapshotPath(folderPath: string, version: string): string {
+    return path.join(folderPath, HISTORY_DIR, `${version}.json`);
+  }
+
+  /**
+   * Convert a version identifier back to an ISO 8601 timestamp.
+   */
+  private versionToIso(version: string): string {
+    const [date, time] = version.split('T');
+    const [hh, mm, ss, ms] = time.split('-');
+    return `${date}T${hh}:${mm}:${ss}.${ms.slice(0, 3)}Z`;
+  }
+
+  /**
+   * Remove the oldest snapshots beyond maxEntries.
+   */
+  private async prune(folderPath: string): Promise<void> {
+    const entries = await this.list(folderPath);
+    const stale = entries.slice(this.maxEntries);
+    await Promise.all(stale.map((e) => fs.remove(this.getSnapshotPath(folderPath, e.version))));
+  }
+}
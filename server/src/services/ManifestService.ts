@@ -2,7 +2,10 @@ import fs from 'fs-extra';
 import path from 'path';
 import * as cheerio from 'cheerio';
 import type {
+  FileRecoveryEvent,
   FlideckManifest,
+  JsonPatchOperation,
+  ManifestHistoryEntry,
   ManifestSlide,
   ManifestTemplate,
   ParsedCard,
@@ -15,9 +18,23 @@ import type { Cheerio, CheerioAPI } from 'cheerio';
 import { applyTemplate as applyManifestTemplate } from '../utils/manifestTemplates.js';
 import { AppError } from '../middleware/errorHandler.js';
 import * as manifestValidator from '../utils/manifestValidator.js';
+import { ManifestHistoryService } from './ManifestHistoryService.js';
+import { readJsonWithRecovery, writeFileAtomic, writeJsonAtomic } from '../utils/atomicWrite.js';
+import { listHtmlFiles, slideFolder } from '../utils/slidePaths.js';
+import { manifestETag } from '../utils/manifestPrecondition.js';
+import { applyJsonPatch } from '../utils/jsonPatch.js';
 
 const MANIFEST_FILENAME = 'index.json';
 const LEGACY_MANIFEST_FILENAME = 'flideck.json';
+/** Last-known-good copy of index.json, kept in the hidden .flideck folder */
+const MANIFEST_BACKUP_PATH = path.join('.flideck', 'index.json.bak');
+
+/**
+ * Whether a POSIX path relative to a presentation folder is its manifest file.
+ */
+export function isManifestPath(relativePath: string): boolean {
+  return relativePath === MANIFEST_FILENAME || relativePath === LEGACY_MANIFEST_FILENAME;
+}
 
 /**
  * ManifestService owns all manifest read/write/patch/sync/validate/template operations.
@@ -28,15 +45,22 @@ const LEGACY_MANIFEST_FILENAME = 'flideck.json';
  *   - assertSafeId:        throws AppError(400) on path-traversal attempts
  *   - formatName:          converts kebab/snake to Title Case (shared with PresentationService)
  *   - invalidateCache:     tells PresentationService to drop cached entries
+ *   - withWriteLock:       PresentationService's per-presentation write lock, shared so
+ *                          manifest and slide/group/tab writes are serialised together
+ *   - withFolderWriteLock: the same lock, for a presentation folder path
+ *   - onRecovered:         notified when a corrupt index.json is restored from backup
  */
 export class ManifestService {
-  private writeLocks = new Map<string, Promise<void>>();
+  private history = new ManifestHistoryService();
 
   constructor(
     private getPresentationPath: (id: string) => string,
     private assertSafeId: (folderPath: string) => void,
     private formatName: (name: string) => string,
-    private invalidateCache: (id?: string) => void
+    private invalidateCache: (id?: string) => void,
+    private withWriteLock: <T>(id: string, fn: () => Promise<T>) => Promise<T>,
+    private withFolderWriteLock: <T>(folderPath: string, fn: () => Promise<T>) => Promise<T>,
+    private onRecovered: (event: FileRecoveryEvent) => void = () => {}
   ) {}
 
   // ============================================================
@@ -49,8 +73,11 @@ export class ManifestService {
    * Returns null if no manifest exists or is invalid.
    */
   async readManifest(folderPath: string): Promise<FlideckManifest | null> {
-    // Try index.json first (preferred)
-    const manifest = await this.tryReadManifestFile(path.join(folderPath, MANIFEST_FILENAME));
+    // Try index.json first (preferred), recovering from the backup if it is corrupt
+    const manifest = await this.tryReadManifestFile(
+      path.join(folderPath, MANIFEST_FILENAME),
+      path.join(folderPath, MANIFEST_BACKUP_PATH)
+    );
     if (manifest) return manifest;
 
     // Fall back to legacy flideck.json
@@ -59,16 +86,38 @@ export class ManifestService {
 
   /**
    * Attempt to read and parse a manifest file at the given path.
+   * If the file is corrupt and a backup path is given, the backup is restored
+   * (inside the presentation's write lock, so it cannot undo a concurrent write)
+   * and the recovery is reported via onRecovered.
    * Returns null if file doesn't exist or is invalid.
    */
-  private async tryReadManifestFile(manifestPath: string): Promise<FlideckManifest | null> {
+  private async tryReadManifestFile(
+    manifestPath: string,
+    backupPath?: string
+  ): Promise<FlideckManifest | null> {
     try {
-      if (!(await fs.pathExists(manifestPath))) {
+      const result = await readJsonWithRecovery<unknown>(manifestPath, backupPath, {
+        withLock: (restore) => this.withFolderWriteLock(path.dirname(manifestPath), restore),
+      });
+      if (!result) {
         return null;
       }
 
-      const content = await fs.readFile(manifestPath, 'utf-8');
-      const parsed = JSON.parse(content);
+      if (result.recovery && backupPath) {
+        console.warn(
+          `[ManifestService] Restored ${manifestPath} from backup: ${result.recovery.reason}`
+        );
+        this.onRecovered({
+          kind: 'manifest',
+          presentationId: path.basename(path.dirname(manifestPath)),
+          file: manifestPath,
+          backup: backupPath,
+          reason: result.recovery.reason,
+          recoveredAt: new Date().toISOString(),
+        });
+      }
+
+      const parsed = result.data;
       // Validate against schema — log warning but don't crash on bad disk state
       const validation = manifestValidator.validate(parsed);
       if (!validation.valid) {
@@ -88,32 +137,31 @@ export class ManifestService {
 
   /**
    * Write manifest JSON to the presentation folder.
+   * All manifest writes (including PresentationService's) go through here so the
+   * replaced manifest is always snapshotted to history first.
+   * The write is atomic (temp file + fsync + rename) and refreshes the backup.
    */
-  private async writeManifest(folderPath: string, manifest: FlideckManifest): Promise<void> {
+  async writeManifest(folderPath: string, manifest: FlideckManifest): Promise<void> {
     const manifestPath = path.join(folderPath, MANIFEST_FILENAME);
-    await fs.writeJson(manifestPath, manifest, { spaces: 2 });
+    await this.history.snapshot(folderPath, manifestPath);
+    await writeJsonAtomic(manifestPath, manifest, {
+      backupPath: path.join(folderPath, MANIFEST_BACKUP_PATH),
+    });
   }
 
   /**
-   * Serialises concurrent writes to the same presentation via a per-id mutex.
-   * Each caller waits for the previous promise to settle before proceeding.
+   * ETag of the manifest file currently on disk (index.json, or legacy flideck.json).
+   * Hashes the raw bytes, so any write - through the API or by hand - changes it.
    */
-  private async withWriteLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
-    const current = this.writeLocks.get(id) ?? Promise.resolve();
-    let release!: () => void;
-    const next = new Promise<void>((resolve) => {
-      release = resolve;
-    });
-    this.writeLocks.set(id, next);
-    try {
-      await current;
-      return await fn();
-    } finally {
-      release();
-      if (this.writeLocks.get(id) === next) {
-        this.writeLocks.delete(id);
+  async getManifestETag(folderPath: string): Promise<string> {
+    for (const filename of [MANIFEST_FILENAME, LEGACY_MANIFEST_FILENAME]) {
+      try {
+        return manifestETag(await fs.readFile(path.join(folderPath, filename), 'utf-8'));
+      } catch {
+        // Missing - try the next candidate
       }
     }
+    return manifestETag('');
   }
 
   /**
@@ -169,18 +217,6 @@ export class ManifestService {
     return result;
   }
 
-  // ============================================================
-  // Test helpers
-  // ============================================================
-
-  /**
-   * Clears all pending write locks. For use in tests only.
-   * Prevents stale lock state from leaking between test cases.
-   */
-  _resetWriteLocks(): void {
-    this.writeLocks.clear();
-  }
-
   // ============================================================
   // FR-19: Manifest Schema & Data API Methods
   // ============================================================
@@ -285,6 +321,130 @@ export class ManifestService {
     });
   }
 
+  /**
+   * Apply a JSON Patch (RFC 6902) to the manifest for a presentation.
+   * Unlike patchManifest, operations can remove keys, move array items and
+   * address a single slide by index. The patched manifest is validated before
+   * it is written; with dryRun it is only returned.
+   *
+   * @param presentationId - Presentation ID
+   * @param operations - JSON Patch operations, applied in order
+   * @param options.dryRun - Return the patched manifest without writing it
+   * @returns The patched manifest
+   * @throws Error if presentation not found
+   * @throws AppError(409) if a 'test' operation fails or a path does not exist
+   * @throws AppError(400) if the patched manifest fails schema validation
+   */
+  async applyManifestPatch(
+    presentationId: string,
+    operations: JsonPatchOperation[],
+    { dryRun = false }: { dryRun?: boolean } = {}
+  ): Promise<FlideckManifest> {
+    const folderPath = this.getPresentationPath(presentationId);
+    this.assertSafeId(folderPath);
+
+    if (!(await fs.pathExists(folderPath))) {
+      throw new Error(`Presentation not found: ${presentationId}`);
+    }
+
+    const patch = async (): Promise<FlideckManifest> => {
+      const currentManifest = await this.readManifest(folderPath);
+      const manifest = applyJsonPatch<FlideckManifest>(currentManifest || {}, operations);
+      if (!manifest || typeof manifest !== 'object' || Array.isArray(manifest)) {
+        throw new AppError(
+          'Manifest validation failed after patch: manifest must be an object',
+          400
+        );
+      }
+
+      if (!manifest.meta) manifest.meta = {};
+      manifest.meta.updated = new Date().toISOString().split('T')[0];
+
+      const validationResult = manifestValidator.validate(manifest);
+      if (!validationResult.valid) {
+        throw new AppError(
+          `Manifest validation failed after patch: ${validationResult.errors
+            ?.map((e) => `${e.field}: ${e.message}`)
+            .join(', ')}`,
+          400
+        );
+      }
+
+      if (!dryRun) {
+        await this.writeManifest(folderPath, manifest);
+        this.invalidateCache(presentationId);
+      }
+      return manifest;
+    };
+
+    // A dry run writes nothing, so it does not need the write lock
+    return dryRun ? patch() : this.withWriteLock(presentationId, patch);
+  }
+
+  // ============================================================
+  // Manifest History Methods
+  // ============================================================
+
+  /**
+   * List saved manifest snapshots for a presentation, newest first.
+   *
+   * @param presentationId - Presentation ID
+   * @throws Error if presentation not found
+   */
+  async getManifestHistory(presentationId: string): Promise<ManifestHistoryEntry[]> {
+    const folderPath = this.getPresentationPath(presentationId);
+    this.assertSafeId(folderPath);
+
+    if (!(await fs.pathExists(folderPath))) {
+      throw new Error(`Presentation not found: ${presentationId}`);
+    }
+
+    return this.history.list(folderPath);
+  }
+
+  /**
+   * Get the manifest as it was saved in a specific snapshot.
+   *
+   * @param presentationId - Presentation ID
+   * @param version - Snapshot version from getManifestHistory
+   * @throws Error if presentation or version not found
+   */
+  async getManifestVersion(presentationId: string, version: string): Promise<FlideckManifest> {
+    const folderPath = this.getPresentationPath(presentationId);
+    this.assertSafeId(folderPath);
+
+    if (!(await fs.pathExists(folderPath))) {
+      throw new Error(`Presentation not found: ${presentationId}`);
+    }
+
+    return this.history.read(folderPath, version);
+  }
+
+  /**
+   * Restore a manifest snapshot as the current manifest.
+   * The manifest being replaced is itself snapshotted, so a restore can be undone.
+   *
+   * @param presentationId - Presentation ID
+   * @param version - Snapshot version from getManifestHistory
+   * @returns The restored manifest
+   * @throws Error if presentation or version not found
+   */
+  async restoreManifestVersion(presentationId: string, version: string): Promise<FlideckManifest> {
+    const folderPath = this.getPresentationPath(presentationId);
+    this.assertSafeId(folderPath);
+
+    if (!(await fs.pathExists(folderPath))) {
+      throw new Error(`Presentation not found: ${presentationId}`);
+    }
+
+    return await this.withWriteLock(presentationId, async () => {
+      const manifest = await this.history.read(folderPath, version);
+      await this.writeManifest(folderPath, manifest);
+      this.invalidateCache(presentationId);
+      return manifest;
+    });
+  }
+
   // ============================================================
   // FR-21: Agent Manifest Tooling Methods
   // ============================================================
@@ -292,6 +452,8 @@ export class ManifestService {
   /**
    * Bulk add slides to a presentation's manifest.
    * Supports auto-creating groups, position control, and conflict resolution.
+   * Slides with `content` have their HTML written (to the final filename, after
+   * any rename) in the same locked operation as the manifest update.
    *
    * @param presentationId - Presentation ID
    * @param slides - Array of slides to add
@@ -306,6 +468,7 @@ export class ManifestService {
       group?: string;
       description?: string;
       recommended?: boolean;
+      content?: string;
     }>,
     options: {
       createGroups?: boolean;
@@ -320,6 +483,7 @@ export class ManifestService {
     skipped: number;
     updated: number;
     skippedItems: Array<{ item: string; reason: string }>;
+    written: string[];
   }> {
     const folderPath = this.getPresentationPath(presentationId);
     this.assertSafeId(folderPath);
@@ -351,9 +515,11 @@ export class ManifestService {
         skipped: 0,
         updated: 0,
         skippedItems: [] as Array<{ item: string; reason: string }>,
+        written: [] as string[],
       };
 
       const slidesToAdd: ManifestSlide[] = [];
+      const contentToWrite: Array<{ file: string; content: string }> = [];
 
       // Process each slide — copy to avoid mutating the caller's input array elements
       for (const rawSlide of slides) {
@@ -375,12 +541,13 @@ export class ManifestService {
             manifest.slides.splice(existingIndex, 1);
             result.updated++;
           } else if (conflictStrategy === 'rename') {
-            // Generate unique filename
-            const baseName = path.basename(slide.file, '.html');
+            // Generate unique filename (in the same subfolder)
+            const dirName = path.posix.dirname(slide.file);
+            const baseName = path.posix.basename(slide.file, '.html');
             let counter = 1;
             let newFile = slide.file;
             while (manifest.slides.some((s) => s.file === newFile)) {
-              newFile = `${baseName}-${counter}.html`;
+              newFile = path.posix.join(dirName, `${baseName}-${counter}.html`);
               counter++;
             }
             slide.file = newFile;
@@ -420,6 +587,9 @@ export class ManifestService {
         if (slide.recommended !== undefined) newSlide.recommended = slide.recommended;
 
         slidesToAdd.push(newSlide);
+        if (slide.content !== undefined) {
+          contentToWrite.push({ file: slide.file, content: slide.content });
+        }
       }
 
       // Apply position
@@ -436,6 +606,14 @@ export class ManifestService {
         manifest.slides.splice(afterIndex + 1, 0, ...slidesToAdd);
       }
 
+      // Write slide HTML before the manifest, so registered slides always exist
+      for (const { file, content } of contentToWrite) {
+        const filePath = path.join(folderPath, file);
+        await fs.ensureDir(path.dirname(filePath));
+        await writeFileAtomic(filePath, content);
+        result.written.push(file);
+      }
+
       // Update timestamp
       if (!manifest.meta) manifest.meta = {};
       manifest.meta.updated = new Date().toISOString().split('T')[0];
@@ -556,11 +734,8 @@ export class ManifestService {
       throw new Error(`Presentation not found: ${presentationId}`);
     }
 
-    // Discover all HTML files in folder (outside lock — read-only scan)
-    const entries = await fs.readdir(folderPath, { withFileTypes: true });
-    const htmlFiles = entries
-      .filter((e) => e.isFile() && e.name.endsWith('.html'))
-      .map((e) => e.name);
+    // Discover all HTML files in folder and subfolders (outside lock — read-only scan)
+    const htmlFiles = await listHtmlFiles(folderPath);
 
     const strategy = options.strategy || 'merge';
 
@@ -611,11 +786,13 @@ export class ManifestService {
           }
         }
 
-        // Infer group from filename prefix (e.g., api-reference.html -> api group)
+        // Infer group from subfolder (part-1/intro.html -> part-1 group)
+        // or filename prefix (e.g., api-reference.html -> api group)
         if (options.inferGroups) {
+          const folder = slideFolder(filename);
           const parts = filename.split('-');
-          if (parts.length > 1) {
-            const prefix = parts[0];
+          const prefix = folder ? folder.split('/')[0] : parts.length > 1 ? parts[0] : undefined;
+          if (prefix) {
             slide.group = prefix;
 
             // Auto-create group if it doesn't exist
@@ -697,10 +874,7 @@ export class ManifestService {
 
       // Check for orphan files (files not in manifest)
       try {
-        const entries = await fs.readdir(folderPath, { withFileTypes: true });
-        const htmlFiles = entries
-          .filter((e) => e.isFile() && e.name.endsWith('.html'))
-          .map((e) => e.name);
+        const htmlFiles = await listHtmlFiles(folderPath);
 
         const manifestFiles = new Set(manifest.slides.map((s) => s.file));
 
@@ -0,0 +1,132 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type {
+  MigratePresentationRequest,
+  MigrationProgressEvent,
+  MigrationResult,
+  SlideMigrationResult,
+} from '@flideck/shared';
+import { AppError } from '../middleware/errorHandler.js';
+import { PresentationService, type SlideMigrationWrite } from './PresentationService.js';
+import { createUnifiedDiff, migrateSlideHtml } from '../utils/harnessMigration.js';
+
+/**
+ * MigrationService converts presentations to harness fragments
+ * (see utils/harnessMigration.ts for the Type A/B/C rules).
+ *
+ * Slides are written either to a sibling copy of the presentation (made with
+ * clonePresentation, so images and other files come along) or in place, and
+ * each slide's type is recorded in the manifest as `harnessType`.
+ */
+export class MigrationService {
+  private static instance: MigrationService;
+
+  private constructor(private presentationService: PresentationService) {}
+
+  /**
+   * Get the singleton instance of MigrationService.
+   */
+  static getInstance(): MigrationService {
+    if (!MigrationService.instance) {
+      MigrationService.instance = new MigrationService(PresentationService.getInstance());
+    }
+    return MigrationService.instance;
+  }
+
+  /**
+   * Migrate every slide of a presentation.
+   * Type C slides are never rewritten in place; sibling copies get the original
+   * with a warning comment. Dry runs write nothing and include a diff per slide.
+   *
+   * @param id - Presentation to migrate
+   * @param options.targetId - Fully qualified ID of the sibling copy (default '<id>-v2')
+   * @param onProgress - Called after each slide is classified
+   * @throws AppError(404) if the presentation does not exist
+   * @throws Error('... already exists') if the sibling copy already exists
+   * @throws AppError(409) if a slide is edited while the presentation is being migrated
+   */
+  async migratePresentation(
+    id: string,
+    options: MigratePresentationRequest = {},
+    onProgress?: (event: MigrationProgressEvent) => void
+  ): Promise<MigrationResult> {
+    const presentation = await this.presentationService.getById(id);
+    if (!presentation) {
+      throw new AppError('Presentation not found', 404);
+    }
+
+    const output = options.output ?? 'sibling';
+    const dryRun = options.dryRun ?? false;
+    const targetId = output === 'in-place' ? id : (options.targetId ?? `${id}-v2`);
+    if (output === 'sibling' && targetId === id) {
+      throw new AppError('targetId must differ from the presentation ID', 400);
+    }
+    // Fail before any progress is reported rather than when cloning
+    if (output === 'sibling' && !dryRun && (await this.presentationService.getById(targetId))) {
+      throw new Error(`Presentation already exists: ${targetId}`);
+    }
+
+    // Sibling copies are made first and migrated from their own files, so each
+    // slide written replaces exactly the content it was migrated from
+    let folderPath = presentation.path;
+    if (output === 'sibling' && !dryRun) {
+      await this.presentationService.clonePresentation(id, targetId);
+      folderPath = (await this.presentationService.getById(targetId))?.path ?? folderPath;
+    }
+
+    const slides: SlideMigrationResult[] = [];
+    const writes: SlideMigrationWrite[] = [];
+    const total = presentation.assets.length;
+
+    for (const [index, asset] of presentation.assets.entries()) {
+      const html = await fs.readFile(path.join(folderPath, asset.filename), 'utf-8');
+      const migration = migrateSlideHtml(html);
+
+      const result: SlideMigrationResult = { file: asset.filename, status: migration.status };
+      if (migration.type) result.type = migration.type;
+      if (migration.status !== 'migrated') result.reason = migration.reason;
+
+      // Type C slides keep their content unless they go to a sibling copy
+      const content =
+        migration.status === 'migrated' || (migration.status === 'flagged' && output === 'sibling')
+          ? migration.content
+          : undefined;
+      if (dryRun && content !== undefined) {
+        result.diff = createUnifiedDiff(html, content, asset.filename) || undefined;
+      }
+
+      slides.push(result);
+      writes.push({
+        file: asset.filename,
+        content,
+        original: content !== undefined ? html : undefined,
+        harnessType: migration.type,
+      });
+      onProgress?.({
+        presentationId: id,
+        targetId,
+        dryRun,
+        file: asset.filename,
+        status: result.status,
+        type: result.type,
+        index: index + 1,
+        total,
+      });
+    }
+
+    if (!dryRun) {
+      await this.presentationService.applySlideMigration(targetId, writes);
+    }
+
+    return {
+      presentationId: id,
+      targetId,
+      output,
+      dryRun,
+      slides,
+      migrated: slides.filter((s) => s.status === 'migrated').length,
+      flagged: slides.filter((s) => s.status === 'flagged').length,
+      skipped: slides.filter((s) => s.status === 'skipped').length,
+    };
+  }
+}
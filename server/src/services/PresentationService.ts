@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { EventEmitter } from 'events';
 import fs from 'fs-extra';
 import path from 'path';
@@ -5,14 +6,30 @@ import type {
   Presentation,
   Asset,
   FlideckManifest,
+  GroupDefinition,
+  HarnessSlideType,
+  JsonPatchOperation,
+  ManifestHistoryEntry,
   ManifestSlide,
   ManifestTemplate,
+  PresentationRoot,
   SyncFromIndexResponse,
 } from '@flideck/shared';
 import { AppError } from '../middleware/errorHandler.js';
-import { ManifestService } from './ManifestService.js';
-
-const MANIFEST_FILENAME = 'index.json';
+import { ManifestService, isManifestPath } from './ManifestService.js';
+import { writeFileAtomic } from '../utils/atomicWrite.js';
+import { getManifestPrecondition, ifMatchAccepts } from '../utils/manifestPrecondition.js';
+import {
+  listHtmlFiles,
+  assetIdFromPath,
+  assignAssetIds,
+  slideFolder,
+  isSafeSlidePath,
+  isScannedHtmlPath,
+} from '../utils/slidePaths.js';
+
+/** Hidden folder in each root that soft-deleted presentations are moved to */
+const TRASH_FOLDER = '.flideck-trash';
 
 // Entry point patterns in priority order
 const ENTRY_POINT_PATTERNS = {
@@ -36,19 +53,60 @@ interface EntryPointResult {
   tabFiles: string[];
 }
 
+/**
+ * One slide of a harness migration (see applySlideMigration).
+ */
+export interface SlideMigrationWrite {
+  file: string;
+  /** New content; omitted to leave the file as-is */
+  content?: string;
+  /** Content it was migrated from; nothing is written if the file no longer has it */
+  original?: string;
+  harnessType?: HarnessSlideType;
+}
+
+/**
+ * A cached presentation plus what it was built from, so a single slide change
+ * can rebuild it without rescanning the folder (see applyFileChange).
+ */
+interface CacheEntry {
+  presentation: Presentation;
+  folderPath: string;
+  manifest: FlideckManifest | null;
+  entryFile: string;
+  /** Filesystem assets by relative path, before manifest metadata is applied */
+  files: Map<string, Asset>;
+}
+
 /**
  * Service for discovering and managing presentations.
  * Uses EventEmitter pattern for notifying consumers of changes.
  */
 export class PresentationService extends EventEmitter {
   private static instance: PresentationService;
-  private cache = new Map<string, Presentation>();
+  private cache = new Map<string, CacheEntry>();
   private presentationsRoot: string = '';
+  private secondaryRoots: Array<Pick<PresentationRoot, 'name' | 'path'>> = [];
   private clientUrl: string = 'http://localhost:5200';
   private manifestService!: ManifestService;
   private writeLocks = new Map<string, Promise<void>>();
+  /** IDs whose write lock the current async context holds */
+  private heldWriteLocks = new AsyncLocalStorage<Set<string>>();
 
+  /**
+   * Serialise writes to a presentation (shared with ManifestService).
+   * An If-Match precondition on the current request is checked once the lock is
+   * held, and the manifest's new ETag is reported back after the write unless
+   * the presentation is gone (see utils/manifestPrecondition.ts).
+   * Re-entrant: code already holding the lock (e.g. a manifest read restoring
+   * index.json from backup during a write) runs directly.
+   *
+   * @throws AppError(412) if If-Match does not match the manifest's current ETag
+   */
   private async withWriteLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+    const held = this.heldWriteLocks.getStore();
+    if (held?.has(id)) return fn();
+
     const current = this.writeLocks.get(id) ?? Promise.resolve();
     let release!: () => void;
     const next = new Promise<void>((resolve) => {
@@ -57,7 +115,24 @@ export class PresentationService extends EventEmitter {
     this.writeLocks.set(id, next);
     try {
       await current;
-      return await fn();
+
+      const precondition = getManifestPrecondition(id);
+      if (precondition?.ifMatch && !precondition.checked) {
+        precondition.checked = true;
+        if (!ifMatchAccepts(precondition.ifMatch, await this.getManifestETag(id))) {
+          throw new AppError(
+            'Precondition failed: the manifest has changed since it was read (ETag mismatch)',
+            412
+          );
+        }
+      }
+
+      const result = await this.heldWriteLocks.run(new Set(held).add(id), fn);
+      // A renamed or deleted presentation has no manifest left to report
+      if (precondition && (await fs.pathExists(this.getPresentationPath(id)))) {
+        precondition.onWrite(await this.getManifestETag(id));
+      }
+      return result;
     } finally {
       release();
       if (this.writeLocks.get(id) === next) {
@@ -73,10 +148,21 @@ export class PresentationService extends EventEmitter {
 
   private initManifestService(): void {
     this.manifestService = new ManifestService(
-      (id) => path.join(this.presentationsRoot, id),
+      (id) => this.getPresentationPath(id),
       (folderPath) => this.assertSafeId(folderPath),
       (name) => this.formatName(name),
-      (id) => this.invalidateCache(id)
+      (id) => this.invalidateCache(id),
+      (id, fn) => this.withWriteLock(id, fn),
+      (folderPath, fn) => {
+        const location = this.locatePath(folderPath);
+        return location ? this.withWriteLock(location.presentationId, fn) : fn();
+      },
+      (event) =>
+        this.emit('file:recovered', {
+          ...event,
+          presentationId:
+            this.locatePath(path.dirname(event.file))?.presentationId ?? event.presentationId,
+        })
     );
   }
 
@@ -105,6 +191,95 @@ export class PresentationService extends EventEmitter {
     return this.presentationsRoot;
   }
 
+  /**
+   * Set the secondary presentation roots, served alongside the primary root.
+   * Their presentation IDs are namespaced as '<root>:<folder>'.
+   */
+  setRoots(roots: Array<Pick<PresentationRoot, 'name' | 'path'>>): void {
+    this.secondaryRoots = roots.map(({ name, path: rootPath }) => ({ name, path: rootPath }));
+    this.cache.clear();
+  }
+
+  /**
+   * Get all presentation roots, primary first.
+   */
+  getRoots(): PresentationRoot[] {
+    const primary = this.presentationsRoot ? [this.getPrimaryRoot()] : [];
+    return [...primary, ...this.secondaryRoots.map((root) => ({ ...root, isPrimary: false }))];
+  }
+
+  private getPrimaryRoot(): PresentationRoot {
+    return {
+      name: path.basename(this.presentationsRoot),
+      path: this.presentationsRoot,
+      isPrimary: true,
+    };
+  }
+
+  /**
+   * Split a presentation ID into its root and folder.
+   * IDs without a known '<root>:' prefix belong to the primary root.
+   */
+  resolveId(id: string): { root: PresentationRoot; folder: string } {
+    const separator = id.indexOf(':');
+    if (separator > 0) {
+      const secondary = this.secondaryRoots.find((r) => r.name === id.slice(0, separator));
+      if (secondary) {
+        return { root: { ...secondary, isPrimary: false }, folder: id.slice(separator + 1) };
+      }
+    }
+    return { root: this.getPrimaryRoot(), folder: id };
+  }
+
+  /**
+   * Build the presentation ID for a folder in the named root.
+   * Without a root name the ID is returned unchanged.
+   *
+   * @throws AppError(404) if the root name is not configured
+   */
+  qualifyId(id: string, rootName?: string): string {
+    if (!rootName) return id;
+
+    const root = this.getRoots().find((r) => r.name === rootName);
+    if (!root) {
+      throw new AppError(`Root '${rootName}' not found`, 404);
+    }
+    if (root.isPrimary || id.startsWith(`${root.name}:`)) {
+      return id;
+    }
+    return `${root.name}:${id}`;
+  }
+
+  /**
+   * Map an absolute path inside a presentations root to its presentation ID and
+   * the POSIX path within that presentation ('' for the presentation folder itself).
+   * Returns null for paths outside every root or directly in a root.
+   */
+  locatePath(filePath: string): { presentationId: string; relativePath: string } | null {
+    // Prefer the most specific root in case roots are nested
+    const roots = this.getRoots().sort((a, b) => b.path.length - a.path.length);
+
+    for (const root of roots) {
+      const relative = path.relative(root.path, filePath);
+      if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) continue;
+
+      const [folder, ...rest] = relative.split(path.sep);
+      return {
+        presentationId: root.isPrimary ? folder : `${root.name}:${folder}`,
+        relativePath: rest.join('/'),
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Resolve a presentation ID to its folder path (not yet checked with assertSafeId).
+   */
+  private getPresentationPath(id: string): string {
+    const { root, folder } = this.resolveId(id);
+    return path.join(root.path, folder);
+  }
+
   /**
    * Set the client URL for generating asset URLs.
    */
@@ -113,13 +288,16 @@ export class PresentationService extends EventEmitter {
   }
 
   /**
-   * Assert that a user-supplied presentation ID does not escape the presentations root.
+   * Assert that a user-supplied presentation ID does not escape the presentations roots.
    * Throws AppError(400) on path traversal attempts.
    */
   private assertSafeId(folderPath: string): void {
     const resolvedPath = path.resolve(folderPath);
-    const resolvedRoot = path.resolve(this.presentationsRoot);
-    if (!resolvedPath.startsWith(resolvedRoot + path.sep) && resolvedPath !== resolvedRoot) {
+    const insideRoot = this.getRoots().some((root) => {
+      const resolvedRoot = path.resolve(root.path);
+      return resolvedPath.startsWith(resolvedRoot + path.sep) || resolvedPath === resolvedRoot;
+    });
+    if (!insideRoot) {
       throw new AppError('Invalid presentation ID', 400);
     }
   }
@@ -185,41 +363,62 @@ export class PresentationService extends EventEmitter {
   }
 
   /**
-   * Discover all presentations in the root directory.
+   * Discover all presentations in every root (primary first), or only in the named root.
    * A valid presentation has an entry point (see findEntryPoint for priority).
    */
-  async discoverAll(): Promise<Presentation[]> {
+  async discoverAll(rootName?: string): Promise<Presentation[]> {
     if (!this.presentationsRoot) {
       throw new Error('Presentations root not configured');
     }
 
-    const rootExists = await fs.pathExists(this.presentationsRoot);
+    const roots = this.getRoots().filter((root) => !rootName || root.name === rootName);
+    const presentations: Presentation[] = [];
+
+    for (const root of roots) {
+      presentations.push(...(await this.discoverRoot(root)));
+    }
+
+    this.emit('presentations:discovered', { count: presentations.length });
+    return presentations;
+  }
+
+  /**
+   * Discover the presentations in one root, sorted by name.
+   * Cached presentations are reused; only uncached folders are loaded from disk.
+   */
+  private async discoverRoot(root: PresentationRoot): Promise<Presentation[]> {
+    const rootExists = await fs.pathExists(root.path);
     if (!rootExists) {
-      console.warn(`Presentations root does not exist: ${this.presentationsRoot}`);
+      console.warn(`Presentations root does not exist: ${root.path}`);
       return [];
     }
 
-    const entries = await fs.readdir(this.presentationsRoot, { withFileTypes: true });
+    const entries = await fs.readdir(root.path, { withFileTypes: true });
     const presentations: Presentation[] = [];
 
     for (const entry of entries) {
       if (!entry.isDirectory()) continue;
 
-      const folderPath = path.join(this.presentationsRoot, entry.name);
+      const id = root.isPrimary ? entry.name : `${root.name}:${entry.name}`;
+      const cached = this.cache.get(id);
+      if (cached) {
+        presentations.push(cached.presentation);
+        continue;
+      }
+
+      const folderPath = path.join(root.path, entry.name);
       const entryPoint = await this.findEntryPoint(folderPath);
 
       // A valid presentation must have an entry point
       if (entryPoint) {
-        const presentation = await this.loadPresentation(entry.name, folderPath, entryPoint);
-        presentations.push(presentation);
-        this.cache.set(entry.name, presentation);
+        const loaded = await this.loadPresentation(id, folderPath, entryPoint);
+        presentations.push(loaded.presentation);
+        this.cache.set(id, loaded);
       }
     }
 
     // Sort by name
     presentations.sort((a, b) => a.name.localeCompare(b.name));
-
-    this.emit('presentations:discovered', { count: presentations.length });
     return presentations;
   }
 
@@ -230,12 +429,13 @@ export class PresentationService extends EventEmitter {
     if (!this.presentationsRoot) {
       throw new AppError('Root not configured', 400);
     }
-    const folderPath = path.join(this.presentationsRoot, id);
+    const folderPath = this.getPresentationPath(id);
     this.assertSafeId(folderPath);
 
     // Check cache after security validation
-    if (this.cache.has(id)) {
-      return this.cache.get(id)!;
+    const cached = this.cache.get(id);
+    if (cached) {
+      return cached.presentation;
     }
 
     // Check if folder exists
@@ -249,9 +449,9 @@ export class PresentationService extends EventEmitter {
       return null;
     }
 
-    const presentation = await this.loadPresentation(id, folderPath, entryPoint);
-    this.cache.set(id, presentation);
-    return presentation;
+    const loaded = await this.loadPresentation(id, folderPath, entryPoint);
+    this.cache.set(id, loaded);
+    return loaded.presentation;
   }
 
   /**
@@ -266,6 +466,81 @@ export class PresentationService extends EventEmitter {
     this.emit('cache:invalidated', { id });
   }
 
+  /**
+   * Update the cache for a file watcher event, touching only the presentation
+   * the path belongs to:
+   * - slide HTML added, changed or removed: only that file is re-read, and the
+   *   presentation is rebuilt from its cached file list and manifest
+   * - manifest, entry point files and subfolders: the presentation is reloaded
+   * - folders and files directly in a root: the cache entry is dropped, so the
+   *   next discovery re-lists the root
+   * Other files (CSS, images, ...) leave the cache as is; paths outside every
+   * root clear the whole cache.
+   *
+   * @returns The affected presentation ID, or null for paths outside every root
+   */
+  async applyFileChange(eventType: string, filePath: string): Promise<string | null> {
+    const location = this.locatePath(filePath);
+    if (!location) {
+      this.invalidateCache();
+      return null;
+    }
+
+    const { presentationId, relativePath } = location;
+    const entry = this.cache.get(presentationId);
+    if (!entry) return presentationId;
+
+    const isSlide = isScannedHtmlPath(relativePath);
+    if (
+      !relativePath ||
+      eventType === 'addDir' ||
+      eventType === 'unlinkDir' ||
+      isManifestPath(relativePath) ||
+      (isSlide && eventType !== 'change' && this.isEntryPointFile(relativePath))
+    ) {
+      this.invalidateCache(presentationId);
+      return presentationId;
+    }
+    if (!isSlide) return presentationId;
+
+    const files = new Map(entry.files);
+    if (eventType === 'unlink') {
+      files.delete(relativePath);
+    } else {
+      try {
+        const asset = await this.createAsset(
+          presentationId,
+          entry.folderPath,
+          relativePath,
+          entry.entryFile
+        );
+        files.set(relativePath, asset);
+      } catch {
+        // Removed again before it could be read
+        files.delete(relativePath);
+      }
+    }
+
+    const updated = await this.buildCacheEntry(presentationId, { ...entry, files });
+    // A write or reload while this update was reading the disk takes precedence
+    if (this.cache.get(presentationId) === entry) {
+      this.cache.set(presentationId, updated);
+    }
+    return presentationId;
+  }
+
+  /**
+   * Whether adding or removing this file can change the presentation's entry point.
+   */
+  private isEntryPointFile(relativePath: string): boolean {
+    return (
+      relativePath === ENTRY_POINT_PATTERNS.PRESENTATION_HTML ||
+      relativePath === ENTRY_POINT_PATTERNS.INDEX_HTML ||
+      ENTRY_POINT_PATTERNS.PRESENTATION_TAB_REGEX.test(relativePath) ||
+      ENTRY_POINT_PATTERNS.INDEX_TAB_REGEX.test(relativePath)
+    );
+  }
+
   /**
    * Load a presentation from disk.
    */
@@ -273,64 +548,122 @@ export class PresentationService extends EventEmitter {
     id: string,
     folderPath: string,
     entryPoint?: EntryPointResult
-  ): Promise<Presentation> {
+  ): Promise<CacheEntry> {
     const manifest = await this.readManifest(folderPath);
-    const assets = await this.discoverAssets(id, folderPath, manifest, entryPoint);
+    const entryFile = this.determineEntryFile(entryPoint, manifest);
+
+    const files = new Map<string, Asset>();
+    for (const relativePath of await listHtmlFiles(folderPath)) {
+      files.set(relativePath, await this.createAsset(id, folderPath, relativePath, entryFile));
+    }
+
+    return this.buildCacheEntry(id, { folderPath, manifest, entryFile, files });
+  }
+
+  /**
+   * Build a presentation from its scanned files and manifest, without rescanning.
+   */
+  private async buildCacheEntry(
+    id: string,
+    source: Omit<CacheEntry, 'presentation'>
+  ): Promise<CacheEntry> {
+    const { folderPath, manifest, entryFile, files } = source;
+    const assets = this.orderAssets(files, manifest, entryFile);
     const stat = await fs.stat(folderPath);
+    const { root, folder } = this.resolveId(id);
 
     // Use manifest name if available, otherwise format folder name
-    const name = manifest?.meta?.name || this.formatName(id);
+    const name = manifest?.meta?.name || this.formatName(folder);
 
-    return {
+    // Optional: ungrouped slides in subfolders are grouped by their top-level folder
+    const groups = manifest?.meta?.groupByFolder
+      ? this.applyFolderGroups(assets, manifest.groups)
+      : manifest?.groups;
+
+    const presentation: Presentation = {
       id,
       name,
+      root: root.name,
       path: folderPath,
       assets,
       lastModified: stat.mtimeMs,
-      groups: manifest?.groups,
+      groups,
       meta: manifest?.meta,
       tabs: manifest?.tabs, // FR-24: Container-level tabs
     };
+    return { ...source, presentation };
   }
 
   /**
-   * Discover all HTML assets in a presentation folder.
-   * Applies custom ordering from index.json manifest if present.
-   * Supports both new `slides` array format and legacy `assets.order` format.
+   * Assign ungrouped assets in subfolders to a group named after their top-level
+   * folder, synthesizing group definitions (after existing groups) where missing.
+   * Groups are derived at load time and never written to the manifest.
+   */
+  private applyFolderGroups(
+    assets: Asset[],
+    groups: Record<string, GroupDefinition> | undefined
+  ): Record<string, GroupDefinition> | undefined {
+    const result = { ...groups };
+    let nextOrder = Math.max(0, ...Object.values(result).map((g) => g.order)) + 1;
+
+    for (const asset of assets) {
+      if (asset.group || !asset.folder) continue;
+      const groupId = asset.folder.split('/')[0];
+      if (!result[groupId]) {
+        result[groupId] = { label: this.formatName(groupId), order: nextOrder++ };
+      }
+      asset.group = groupId;
+    }
+
+    return Object.keys(result).length > 0 ? result : groups;
+  }
+
+  /**
+   * Read one HTML file's asset (filesystem data only, before manifest metadata).
+   * Assets are keyed by their relative path (e.g., 'part-1/intro.html'), which is
+   * also what manifest `slides[].file` entries refer to.
    */
-  private async discoverAssets(
+  private async createAsset(
     presentationId: string,
     folderPath: string,
-    manifest: FlideckManifest | null,
-    entryPoint?: EntryPointResult
-  ): Promise<Asset[]> {
-    const entries = await fs.readdir(folderPath, { withFileTypes: true });
-    const assetMap = new Map<string, Asset>();
+    relativePath: string,
+    entryFile: string
+  ): Promise<Asset> {
+    const stat = await fs.stat(path.join(folderPath, relativePath));
+    const isIndex = relativePath === entryFile;
+    // Use birthtime (creation time) if available, fall back to mtime
+    const createdAt = stat.birthtimeMs || stat.mtimeMs;
 
-    // Determine the entry file for this presentation
-    const entryFile = this.determineEntryFile(entryPoint, manifest);
+    return {
+      id: assetIdFromPath(relativePath),
+      name: isIndex ? 'Index' : this.formatName(path.basename(relativePath, '.html')),
+      filename: relativePath,
+      relativePath,
+      folder: slideFolder(relativePath),
+      isIndex,
+      createdAt,
+      lastModified: stat.mtimeMs,
+      url: `${this.clientUrl}/presentations/${presentationId}/${relativePath}`,
+    };
+  }
 
-    // Build map of all HTML assets from filesystem
-    for (const entry of entries) {
-      if (!entry.isFile() || !entry.name.endsWith('.html')) continue;
-
-      const filePath = path.join(folderPath, entry.name);
-      const stat = await fs.stat(filePath);
-      const isIndex = entry.name === entryFile;
-      // Use birthtime (creation time) if available, fall back to mtime
-      const createdAt = stat.birthtimeMs || stat.mtimeMs;
-
-      assetMap.set(entry.name, {
-        id: path.basename(entry.name, '.html'),
-        name: isIndex ? 'Index' : this.formatName(path.basename(entry.name, '.html')),
-        filename: entry.name,
-        relativePath: entry.name,
-        isIndex,
-        createdAt,
-        lastModified: stat.mtimeMs,
-        url: `${this.clientUrl}/presentations/${presentationId}/${entry.name}`,
-      });
-    }
+  /**
+   * Order a presentation's assets and apply manifest metadata.
+   * Works on copies, so the scanned files can be reused for the next rebuild.
+   * Supports both new `slides` array format and legacy `assets.order` format.
+   */
+  private orderAssets(
+    files: Map<string, Asset>,
+    manifest: FlideckManifest | null,
+    entryFile: string
+  ): Asset[] {
+    const ids = assignAssetIds(files.keys());
+    const assetMap = new Map(
+      Array.from(files, ([relativePath, asset]) => [
+        relativePath,
+        { ...asset, id: ids.get(relativePath) ?? asset.id },
+      ])
+    );
 
     // New format: slides array with metadata
     if (manifest?.slides && Array.isArray(manifest.slides)) {
@@ -397,7 +730,7 @@ export class PresentationService extends EventEmitter {
   /**
    * Apply slide metadata from manifest to assets.
    * - Preserves order from slides array
-   * - Applies title, group, description, recommended from manifest
+   * - Applies title, group, description, recommended, notes from manifest
    * - Self-healing: skips missing files, appends new files
    */
   private applySlideMetadata(
@@ -429,6 +762,12 @@ export class PresentationService extends EventEmitter {
         if (slide.viewportLock) {
           asset.viewportLock = slide.viewportLock;
         }
+        if (slide.notes) {
+          asset.notes = slide.notes;
+        }
+        if (slide.harnessType) {
+          asset.harnessType = slide.harnessType;
+        }
 
         orderedAssets.push(asset);
         includedFilenames.add(slide.file);
@@ -482,9 +821,8 @@ export class PresentationService extends EventEmitter {
    * Handles both new slides format and legacy assets.order format.
    */
   async saveAssetOrder(presentationId: string, order: string[]): Promise<void> {
-    const folderPath = path.join(this.presentationsRoot, presentationId);
+    const folderPath = this.getPresentationPath(presentationId);
     this.assertSafeId(folderPath);
-    const manifestPath = path.join(folderPath, MANIFEST_FILENAME);
 
     await this.withWriteLock(presentationId, async () => {
       // Read existing manifest or create new one
@@ -505,7 +843,7 @@ export class PresentationService extends EventEmitter {
       }
 
       // Write manifest
-      await fs.writeJson(manifestPath, manifest, { spaces: 2 });
+      await this.manifestService.writeManifest(folderPath, manifest);
 
       // Invalidate cache for this presentation
       this.invalidateCache(presentationId);
@@ -520,9 +858,8 @@ export class PresentationService extends EventEmitter {
     presentationId: string,
     orderedSlides: Array<{ file: string; group?: string }>
   ): Promise<void> {
-    const folderPath = path.join(this.presentationsRoot, presentationId);
+    const folderPath = this.getPresentationPath(presentationId);
     this.assertSafeId(folderPath);
-    const manifestPath = path.join(folderPath, MANIFEST_FILENAME);
 
     await this.withWriteLock(presentationId, async () => {
       // Read existing manifest or create new one
@@ -558,13 +895,47 @@ export class PresentationService extends EventEmitter {
       }
 
       // Write manifest
-      await fs.writeJson(manifestPath, manifest, { spaces: 2 });
+      await this.manifestService.writeManifest(folderPath, manifest);
 
       // Invalidate cache for this presentation
       this.invalidateCache(presentationId);
     });
   }
 
+  /**
+   * Find a manifest slide by asset ID ('intro', 'part-1--intro') or by its
+   * relative filename ('intro.html', 'part-1/intro.html').
+   * assetIds are the presentation's discovered IDs (see assignAssetIds).
+   * Returns -1 if not found.
+   */
+  private findSlideIndex(
+    slides: ManifestSlide[],
+    slideId: string,
+    assetIds: Map<string, string>
+  ): number {
+    const filename = slideId.endsWith('.html') ? slideId : `${slideId}.html`;
+    return slides.findIndex(
+      (s) => s.file === filename || (assetIds.get(s.file) ?? assetIdFromPath(s.file)) === slideId
+    );
+  }
+
+  /**
+   * Asset IDs of the HTML files in a presentation folder, by relative path.
+   */
+  private async scanAssetIds(folderPath: string): Promise<Map<string, string>> {
+    return assignAssetIds(await listHtmlFiles(folderPath));
+  }
+
+  /**
+   * Asset ID of a file in a presentation, as discovery assigned it
+   * ('part-1/intro.html' -> 'part-1--intro', unless that ID was taken).
+   */
+  assetIdOf(presentationId: string, relativePath: string): string {
+    const files = this.cache.get(presentationId)?.files;
+    const ids = files ? assignAssetIds(files.keys()) : undefined;
+    return ids?.get(relativePath) ?? assetIdFromPath(relativePath);
+  }
+
   /**
    * Reorder slides array while preserving all metadata.
    */
@@ -622,9 +993,8 @@ export class PresentationService extends EventEmitter {
     name?: string,
     slides?: Array<{ file: string; title?: string; group?: string }>
   ): Promise<string> {
-    const folderPath = path.join(this.presentationsRoot, id);
+    const folderPath = this.getPresentationPath(id);
     this.assertSafeId(folderPath);
-    const manifestPath = path.join(folderPath, MANIFEST_FILENAME);
 
     await this.withWriteLock(id, async () => {
       // Check if folder already exists
@@ -638,7 +1008,7 @@ export class PresentationService extends EventEmitter {
       // Build manifest
       const manifest: FlideckManifest = {
         meta: {
-          name: name || this.formatName(id),
+          name: name || this.formatName(this.resolveId(id).folder),
           created: new Date().toISOString().split('T')[0],
           updated: new Date().toISOString().split('T')[0],
         },
@@ -651,21 +1021,174 @@ export class PresentationService extends EventEmitter {
       };
 
       // Write manifest
-      await fs.writeJson(manifestPath, manifest, { spaces: 2 });
+      await this.manifestService.writeManifest(folderPath, manifest);
 
       // Invalidate cache
-      this.invalidateCache();
+      this.invalidateCache(id);
+    });
+
+    return folderPath;
+  }
+
+  /**
+   * Rename a presentation: move its folder to a new ID in the same root.
+   * The manifest, history and slide files move with it.
+   *
+   * @param id - Current presentation ID
+   * @param newId - New presentation ID (same root)
+   * @param name - Optional new display name (written to the manifest)
+   * @returns Path to the renamed presentation folder
+   * @throws Error if the presentation is not found or the new ID is taken
+   */
+  async renamePresentation(id: string, newId: string, name?: string): Promise<string> {
+    const folderPath = this.getLifecycleFolder(id);
+    const targetPath = this.getLifecycleFolder(newId);
+    this.assertSameRoot(id, newId);
+
+    await this.withWriteLocks([id, newId], async () => {
+      await this.assertPresentationExists(id, folderPath);
+      if (await fs.pathExists(targetPath)) {
+        throw new Error(`Presentation already exists: ${newId}`);
+      }
+
+      await fs.move(folderPath, targetPath);
+      if (name) {
+        await this.writePresentationName(targetPath, name);
+      }
+
+      this.invalidateCache(id);
+      this.invalidateCache(newId);
+    });
+
+    return targetPath;
+  }
+
+  /**
+   * Duplicate a presentation under a new ID in the same root.
+   * Manifest history and backups (.flideck) stay with the original.
+   *
+   * @param id - Presentation to copy
+   * @param newId - ID of the copy (same root)
+   * @param name - Optional display name for the copy (written to the manifest)
+   * @returns Path to the new presentation folder
+   * @throws Error if the presentation is not found or the new ID is taken
+   */
+  async clonePresentation(id: string, newId: string, name?: string): Promise<string> {
+    const folderPath = this.getLifecycleFolder(id);
+    const targetPath = this.getLifecycleFolder(newId);
+    this.assertSameRoot(id, newId);
+
+    await this.withWriteLocks([id, newId], async () => {
+      await this.assertPresentationExists(id, folderPath);
+      if (await fs.pathExists(targetPath)) {
+        throw new Error(`Presentation already exists: ${newId}`);
+      }
+
+      await fs.copy(folderPath, targetPath, {
+        filter: (src) => path.relative(folderPath, src).split(path.sep)[0] !== '.flideck',
+      });
+      if (name) {
+        await this.writePresentationName(targetPath, name);
+      }
+
+      this.invalidateCache(newId);
     });
 
+    return targetPath;
+  }
+
+  /**
+   * Delete a presentation folder.
+   * A soft delete moves the folder to the root's hidden .flideck-trash folder
+   * (as '<folder>-<timestamp>') instead of removing it, so it can be restored by hand.
+   *
+   * @param id - Presentation ID
+   * @param options.soft - Move to the trash instead of deleting
+   * @returns The deleted folder path, and the trash path for soft deletes
+   * @throws Error if the presentation is not found
+   */
+  async deletePresentation(
+    id: string,
+    options: { soft?: boolean } = {}
+  ): Promise<{ path: string; trashPath?: string }> {
+    const folderPath = this.getLifecycleFolder(id);
+
+    return this.withWriteLock(id, async () => {
+      await this.assertPresentationExists(id, folderPath);
+
+      let trashPath: string | undefined;
+      if (options.soft) {
+        const { root, folder } = this.resolveId(id);
+        const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+        trashPath = path.join(root.path, TRASH_FOLDER, `${folder}-${stamp}`);
+        await fs.move(folderPath, trashPath);
+      } else {
+        await fs.remove(folderPath);
+      }
+
+      this.invalidateCache(id);
+      return { path: folderPath, trashPath };
+    });
+  }
+
+  /**
+   * Resolve a presentation ID for rename/clone/delete. Stricter than assertSafeId:
+   * the folder must be a direct child of its root, never the root itself.
+   */
+  private getLifecycleFolder(id: string): string {
+    const folderPath = this.getPresentationPath(id);
+    this.assertSafeId(folderPath);
+
+    const { root } = this.resolveId(id);
+    if (path.dirname(path.resolve(folderPath)) !== path.resolve(root.path)) {
+      throw new AppError('Invalid presentation ID', 400);
+    }
     return folderPath;
   }
 
+  private assertSameRoot(id: string, newId: string): void {
+    if (this.resolveId(id).root.name !== this.resolveId(newId).root.name) {
+      throw new AppError('Presentations can only be renamed or cloned within their root', 400);
+    }
+  }
+
+  private async assertPresentationExists(id: string, folderPath: string): Promise<void> {
+    if (!(await fs.pathExists(folderPath)) || !(await this.findEntryPoint(folderPath))) {
+      throw new Error(`Presentation not found: ${id}`);
+    }
+  }
+
+  /**
+   * Set meta.name in a presentation's manifest (creating the manifest if needed).
+   */
+  private async writePresentationName(folderPath: string, name: string): Promise<void> {
+    const manifest: FlideckManifest = (await this.readManifest(folderPath)) ?? {};
+    manifest.meta = {
+      ...manifest.meta,
+      name,
+      updated: new Date().toISOString().split('T')[0],
+    };
+    await this.manifestService.writeManifest(folderPath, manifest);
+  }
+
+  /**
+   * Run fn holding the write locks of several presentations.
+   * Locks are taken in sorted order so concurrent calls cannot deadlock.
+   */
+  private async withWriteLocks<T>(ids: string[], fn: () => Promise<T>): Promise<T> {
+    const [first, ...rest] = [...new Set(ids)].sort();
+    if (first === undefined) return fn();
+    return this.withWriteLock(first, () => this.withWriteLocks(rest, fn));
+  }
+
   /**
    * Add a slide to a presentation's manifest.
-   * Does NOT create the HTML file (agent's responsibility).
+   * When `content` is given the HTML file is written first, under the same lock;
+   * otherwise creating the file is the caller's responsibility.
    *
    * @param presentationId - Presentation ID
-   * @param slide - Slide metadata
+   * @param slide - Slide metadata (and optional HTML content)
+   * @returns The new asset, or null if its file does not exist yet
    * @throws Error if presentation not found or slide already exists
    */
   async addSlide(
@@ -676,11 +1199,11 @@ export class PresentationService extends EventEmitter {
       group?: string;
       description?: string;
       recommended?: boolean;
+      content?: string;
     }
-  ): Promise<void> {
-    const folderPath = path.join(this.presentationsRoot, presentationId);
+  ): Promise<Asset | null> {
+    const folderPath = this.getPresentationPath(presentationId);
     this.assertSafeId(folderPath);
-    const manifestPath = path.join(folderPath, MANIFEST_FILENAME);
 
     // Verify presentation exists
     if (!(await fs.pathExists(folderPath))) {
@@ -711,6 +1234,10 @@ export class PresentationService extends EventEmitter {
         throw new Error(`Slide already exists: ${slide.file}`);
       }
 
+      if (slide.content !== undefined) {
+        await this.writeSlideFile(folderPath, slide.file, slide.content);
+      }
+
       // Build slide entry
       const newSlide: ManifestSlide = {
         file: slide.file,
@@ -728,11 +1255,162 @@ export class PresentationService extends EventEmitter {
       manifest.meta.updated = new Date().toISOString().split('T')[0];
 
       // Write manifest
-      await fs.writeJson(manifestPath, manifest, { spaces: 2 });
+      await this.manifestService.writeManifest(folderPath, manifest);
 
       // Invalidate cache
       this.invalidateCache(presentationId);
     });
+
+    return this.findAsset(presentationId, slide.file);
+  }
+
+  /**
+   * Write a slide's HTML and make sure it is registered in the manifest.
+   * A slide already in the manifest is overwritten in place; otherwise the file
+   * (default '<slideId>.html') is written and appended to the manifest, all
+   * under the presentation's write lock.
+   *
+   * @param presentationId - Presentation ID
+   * @param slideId - Slide ID (asset ID or relative filename)
+   * @param content - Full HTML for the slide
+   * @param file - File to create for a new slide (must match slideId)
+   * @returns The resulting asset, and whether the slide was newly created
+   * @throws Error if presentation not found; AppError(400) for an invalid file
+   */
+  async writeSlideContent(
+    presentationId: string,
+    slideId: string,
+    content: string,
+    file?: string
+  ): Promise<{ asset: Asset | null; created: boolean }> {
+    const folderPath = this.getPresentationPath(presentationId);
+    this.assertSafeId(folderPath);
+
+    // Verify presentation exists
+    if (!(await fs.pathExists(folderPath))) {
+      throw new Error(`Presentation not found: ${presentationId}`);
+    }
+
+    const { filename, created } = await this.withWriteLock(presentationId, async () => {
+      const manifest = (await this.readManifest(folderPath)) ?? { slides: [] };
+      if (!manifest.slides) {
+        // Convert legacy format if present
+        manifest.slides = (manifest.assets?.order ?? []).map((f) => ({ file: f }));
+        delete manifest.assets;
+      }
+
+      const slideIndex = this.findSlideIndex(
+        manifest.slides,
+        slideId,
+        await this.scanAssetIds(folderPath)
+      );
+      const existing = slideIndex !== -1;
+      const target = existing
+        ? manifest.slides[slideIndex].file
+        : (file ?? (slideId.endsWith('.html') ? slideId : `${slideId}.html`));
+
+      if (!isSafeSlidePath(target)) {
+        throw new AppError('Invalid file: must be a relative path ending with .html', 400);
+      }
+      if (!existing && target !== slideId && assetIdFromPath(target) !== slideId) {
+        throw new AppError(`File ${target} does not match slide ID: ${slideId}`, 400);
+      }
+
+      await this.writeSlideFile(folderPath, target, content);
+
+      if (existing) {
+        this.invalidateCache(presentationId);
+        return { filename: target, created: false };
+      }
+
+      manifest.slides.push({ file: target });
+      if (!manifest.meta) manifest.meta = {};
+      manifest.meta.updated = new Date().toISOString().split('T')[0];
+      await this.manifestService.writeManifest(folderPath, manifest);
+
+      this.invalidateCache(presentationId);
+      return { filename: target, created: true };
+    });
+
+    return { asset: await this.findAsset(presentationId, filename), created };
+  }
+
+  /**
+   * Atomically write a slide file inside a presentation folder.
+   */
+  private async writeSlideFile(folderPath: string, file: string, content: string): Promise<void> {
+    const filePath = path.join(folderPath, file);
+    await fs.ensureDir(path.dirname(filePath));
+    await writeFileAtomic(filePath, content);
+  }
+
+  /**
+   * Write migrated slide files and record each slide's harness type in the manifest.
+   * Slides missing from the manifest are appended in the order given, so passing
+   * the presentation's assets in order leaves the sidebar order unchanged.
+   *
+   * @param presentationId - Presentation ID
+   * @param slides - Slides with their new content and type
+   * @throws Error if presentation not found; AppError(400) for an invalid file;
+   *   AppError(409) if a slide no longer has its original content (nothing is written)
+   */
+  async applySlideMigration(presentationId: string, slides: SlideMigrationWrite[]): Promise<void> {
+    const folderPath = this.getPresentationPath(presentationId);
+    this.assertSafeId(folderPath);
+
+    // Verify presentation exists
+    if (!(await fs.pathExists(folderPath))) {
+      throw new Error(`Presentation not found: ${presentationId}`);
+    }
+
+    await this.withWriteLock(presentationId, async () => {
+      const manifest = (await this.readManifest(folderPath)) ?? {};
+      if (!manifest.slides) {
+        // Convert legacy format if present
+        manifest.slides = (manifest.assets?.order ?? []).map((f) => ({ file: f }));
+        delete manifest.assets;
+      }
+
+      for (const slide of slides) {
+        if (!isSafeSlidePath(slide.file)) {
+          throw new AppError(`Invalid file: ${slide.file}`, 400);
+        }
+        if (slide.original === undefined) continue;
+        const current = await fs
+          .readFile(path.join(folderPath, slide.file), 'utf-8')
+          .catch(() => undefined);
+        if (current !== slide.original) {
+          throw new AppError(`Slide changed during migration: ${slide.file}`, 409);
+        }
+      }
+
+      for (const slide of slides) {
+        if (slide.content !== undefined) {
+          await this.writeSlideFile(folderPath, slide.file, slide.content);
+        }
+
+        let entry = manifest.slides.find((s) => s.file === slide.file);
+        if (!entry) {
+          entry = { file: slide.file };
+          manifest.slides.push(entry);
+        }
+        if (slide.harnessType) entry.harnessType = slide.harnessType;
+      }
+
+      if (!manifest.meta) manifest.meta = {};
+      manifest.meta.updated = new Date().toISOString().split('T')[0];
+      await this.manifestService.writeManifest(folderPath, manifest);
+
+      this.invalidateCache(presentationId);
+    });
+  }
+
+  /**
+   * Look up a presentation's asset by its relative filename.
+   */
+  private async findAsset(presentationId: string, filename: string): Promise<Asset | null> {
+    const presentation = await this.getById(presentationId);
+    return presentation?.assets.find((a) => a.filename === filename) ?? null;
   }
 
   /**
@@ -748,14 +1426,13 @@ export class PresentationService extends EventEmitter {
     slideId: string,
     updates: {
       title?: string;
-      group?: string;
+      group?: string | null;
       description?: string;
       recommended?: boolean;
     }
   ): Promise<void> {
-    const folderPath = path.join(this.presentationsRoot, presentationId);
+    const folderPath = this.getPresentationPath(presentationId);
     this.assertSafeId(folderPath);
-    const manifestPath = path.join(folderPath, MANIFEST_FILENAME);
 
     // Verify presentation exists
     if (!(await fs.pathExists(folderPath))) {
@@ -774,9 +1451,12 @@ export class PresentationService extends EventEmitter {
         throw new Error(`Slide not found: ${slideId}`);
       }
 
-      // Find slide by ID (filename without extension)
-      const filename = slideId.endsWith('.html') ? slideId : `${slideId}.html`;
-      const slideIndex = manifest.slides.findIndex((s) => s.file === filename);
+      // Find slide by ID (asset ID or relative filename)
+      const slideIndex = this.findSlideIndex(
+        manifest.slides,
+        slideId,
+        await this.scanAssetIds(folderPath)
+      );
       if (slideIndex === -1) {
         throw new Error(`Slide not found: ${slideId}`);
       }
@@ -801,7 +1481,7 @@ export class PresentationService extends EventEmitter {
       manifest.meta.updated = new Date().toISOString().split('T')[0];
 
       // Write manifest
-      await fs.writeJson(manifestPath, manifest, { spaces: 2 });
+      await this.manifestService.writeManifest(folderPath, manifest);
 
       // Invalidate cache
       this.invalidateCache(presentationId);
@@ -817,9 +1497,8 @@ export class PresentationService extends EventEmitter {
    * @throws Error if presentation or slide not found
    */
   async removeSlide(presentationId: string, slideId: string): Promise<void> {
-    const folderPath = path.join(this.presentationsRoot, presentationId);
+    const folderPath = this.getPresentationPath(presentationId);
     this.assertSafeId(folderPath);
-    const manifestPath = path.join(folderPath, MANIFEST_FILENAME);
 
     // Verify presentation exists
     if (!(await fs.pathExists(folderPath))) {
@@ -838,9 +1517,12 @@ export class PresentationService extends EventEmitter {
         throw new Error(`Slide not found: ${slideId}`);
       }
 
-      // Find slide by ID (filename without extension)
-      const filename = slideId.endsWith('.html') ? slideId : `${slideId}.html`;
-      const slideIndex = manifest.slides.findIndex((s) => s.file === filename);
+      // Find slide by ID (asset ID or relative filename)
+      const slideIndex = this.findSlideIndex(
+        manifest.slides,
+        slideId,
+        await this.scanAssetIds(folderPath)
+      );
       if (slideIndex === -1) {
         throw new Error(`Slide not found: ${slideId}`);
       }
@@ -853,7 +1535,7 @@ export class PresentationService extends EventEmitter {
       manifest.meta.updated = new Date().toISOString().split('T')[0];
 
       // Write manifest
-      await fs.writeJson(manifestPath, manifest, { spaces: 2 });
+      await this.manifestService.writeManifest(folderPath, manifest);
 
       // Invalidate cache
       this.invalidateCache(presentationId);
@@ -872,9 +1554,8 @@ export class PresentationService extends EventEmitter {
    * @throws Error if presentation not found
    */
   async reorderGroups(presentationId: string, order: string[]): Promise<void> {
-    const folderPath = path.join(this.presentationsRoot, presentationId);
+    const folderPath = this.getPresentationPath(presentationId);
     this.assertSafeId(folderPath);
-    const manifestPath = path.join(folderPath, MANIFEST_FILENAME);
 
     // Verify presentation exists
     if (!(await fs.pathExists(folderPath))) {
@@ -906,7 +1587,7 @@ export class PresentationService extends EventEmitter {
       manifest.meta.updated = new Date().toISOString().split('T')[0];
 
       // Write manifest
-      await fs.writeJson(manifestPath, manifest, { spaces: 2 });
+      await this.manifestService.writeManifest(folderPath, manifest);
 
       // Invalidate cache
       this.invalidateCache(presentationId);
@@ -922,9 +1603,8 @@ export class PresentationService extends EventEmitter {
    * @throws Error if presentation not found or group already exists
    */
   async createGroup(presentationId: string, id: string, label: string): Promise<void> {
-    const folderPath = path.join(this.presentationsRoot, presentationId);
+    const folderPath = this.getPresentationPath(presentationId);
     this.assertSafeId(folderPath);
-    const manifestPath = path.join(folderPath, MANIFEST_FILENAME);
 
     // Verify presentation exists
     if (!(await fs.pathExists(folderPath))) {
@@ -960,7 +1640,7 @@ export class PresentationService extends EventEmitter {
       manifest.meta.updated = new Date().toISOString().split('T')[0];
 
       // Write manifest
-      await fs.writeJson(manifestPath, manifest, { spaces: 2 });
+      await this.manifestService.writeManifest(folderPath, manifest);
 
       // Invalidate cache
       this.invalidateCache(presentationId);
@@ -976,9 +1656,8 @@ export class PresentationService extends EventEmitter {
    * @throws Error if presentation or group not found
    */
   async updateGroup(presentationId: string, groupId: string, label: string): Promise<void> {
-    const folderPath = path.join(this.presentationsRoot, presentationId);
+    const folderPath = this.getPresentationPath(presentationId);
     this.assertSafeId(folderPath);
-    const manifestPath = path.join(folderPath, MANIFEST_FILENAME);
 
     // Verify presentation exists
     if (!(await fs.pathExists(folderPath))) {
@@ -1005,7 +1684,7 @@ export class PresentationService extends EventEmitter {
       manifest.meta.updated = new Date().toISOString().split('T')[0];
 
       // Write manifest
-      await fs.writeJson(manifestPath, manifest, { spaces: 2 });
+      await this.manifestService.writeManifest(folderPath, manifest);
 
       // Invalidate cache
       this.invalidateCache(presentationId);
@@ -1021,9 +1700,8 @@ export class PresentationService extends EventEmitter {
    * @throws Error if presentation or group not found
    */
   async deleteGroup(presentationId: string, groupId: string): Promise<void> {
-    const folderPath = path.join(this.presentationsRoot, presentationId);
+    const folderPath = this.getPresentationPath(presentationId);
     this.assertSafeId(folderPath);
-    const manifestPath = path.join(folderPath, MANIFEST_FILENAME);
 
     // Verify presentation exists
     if (!(await fs.pathExists(folderPath))) {
@@ -1066,7 +1744,7 @@ export class PresentationService extends EventEmitter {
       manifest.meta.updated = new Date().toISOString().split('T')[0];
 
       // Write manifest
-      await fs.writeJson(manifestPath, manifest, { spaces: 2 });
+      await this.manifestService.writeManifest(folderPath, manifest);
 
       // Invalidate cache
       this.invalidateCache(presentationId);
@@ -1082,9 +1760,8 @@ export class PresentationService extends EventEmitter {
    * Tabs are convenience wrappers around groups with tab: true.
    */
   async createTab(presentationId: string, id: string, label: string): Promise<void> {
-    const folderPath = path.join(this.presentationsRoot, presentationId);
+    const folderPath = this.getPresentationPath(presentationId);
     this.assertSafeId(folderPath);
-    const manifestPath = path.join(folderPath, MANIFEST_FILENAME);
 
     // Verify presentation exists
     if (!(await fs.pathExists(folderPath))) {
@@ -1120,7 +1797,7 @@ export class PresentationService extends EventEmitter {
       manifest.meta.updated = new Date().toISOString().split('T')[0];
 
       // Write manifest
-      await fs.writeJson(manifestPath, manifest, { spaces: 2 });
+      await this.manifestService.writeManifest(folderPath, manifest);
 
       // Invalidate cache
       this.invalidateCache(presentationId);
@@ -1139,9 +1816,8 @@ export class PresentationService extends EventEmitter {
     tabId: string,
     strategy: string = 'orphan'
   ): Promise<void> {
-    const folderPath = path.join(this.presentationsRoot, presentationId);
+    const folderPath = this.getPresentationPath(presentationId);
     this.assertSafeId(folderPath);
-    const manifestPath = path.join(folderPath, MANIFEST_FILENAME);
 
     // Verify presentation exists
     if (!(await fs.pathExists(folderPath))) {
@@ -1232,7 +1908,7 @@ export class PresentationService extends EventEmitter {
       manifest.meta.updated = new Date().toISOString().split('T')[0];
 
       // Write manifest
-      await fs.writeJson(manifestPath, manifest, { spaces: 2 });
+      await this.manifestService.writeManifest(folderPath, manifest);
 
       // Invalidate cache
       this.invalidateCache(presentationId);
@@ -1243,9 +1919,8 @@ export class PresentationService extends EventEmitter {
    * Update a tab's label.
    */
   async updateTab(presentationId: string, tabId: string, label: string): Promise<void> {
-    const folderPath = path.join(this.presentationsRoot, presentationId);
+    const folderPath = this.getPresentationPath(presentationId);
     this.assertSafeId(folderPath);
-    const manifestPath = path.join(folderPath, MANIFEST_FILENAME);
 
     // Verify presentation exists
     if (!(await fs.pathExists(folderPath))) {
@@ -1276,7 +1951,7 @@ export class PresentationService extends EventEmitter {
       manifest.meta.updated = new Date().toISOString().split('T')[0];
 
       // Write manifest
-      await fs.writeJson(manifestPath, manifest, { spaces: 2 });
+      await this.manifestService.writeManifest(folderPath, manifest);
 
       // Invalidate cache
       this.invalidateCache(presentationId);
@@ -1288,9 +1963,8 @@ export class PresentationService extends EventEmitter {
    * This is a filtered convenience over reorderGroups.
    */
   async reorderTabs(presentationId: string, order: string[]): Promise<void> {
-    const folderPath = path.join(this.presentationsRoot, presentationId);
+    const folderPath = this.getPresentationPath(presentationId);
     this.assertSafeId(folderPath);
-    const manifestPath = path.join(folderPath, MANIFEST_FILENAME);
 
     // Verify presentation exists
     if (!(await fs.pathExists(folderPath))) {
@@ -1340,7 +2014,7 @@ export class PresentationService extends EventEmitter {
       manifest.meta.updated = new Date().toISOString().split('T')[0];
 
       // Write manifest
-      await fs.writeJson(manifestPath, manifest, { spaces: 2 });
+      await this.manifestService.writeManifest(folderPath, manifest);
 
       // Invalidate cache
       this.invalidateCache(presentationId);
@@ -1355,9 +2029,8 @@ export class PresentationService extends EventEmitter {
     groupId: string,
     parentTabId: string
   ): Promise<void> {
-    const folderPath = path.join(this.presentationsRoot, presentationId);
+    const folderPath = this.getPresentationPath(presentationId);
     this.assertSafeId(folderPath);
-    const manifestPath = path.join(folderPath, MANIFEST_FILENAME);
 
     // Verify presentation exists
     if (!(await fs.pathExists(folderPath))) {
@@ -1393,7 +2066,7 @@ export class PresentationService extends EventEmitter {
       manifest.meta.updated = new Date().toISOString().split('T')[0];
 
       // Write manifest
-      await fs.writeJson(manifestPath, manifest, { spaces: 2 });
+      await this.manifestService.writeManifest(folderPath, manifest);
 
       // Invalidate cache
       this.invalidateCache(presentationId);
@@ -1404,9 +2077,8 @@ export class PresentationService extends EventEmitter {
    * Remove a group's parent tab (make group parentless).
    */
   async removeGroupParent(presentationId: string, groupId: string): Promise<void> {
-    const folderPath = path.join(this.presentationsRoot, presentationId);
+    const folderPath = this.getPresentationPath(presentationId);
     this.assertSafeId(folderPath);
-    const manifestPath = path.join(folderPath, MANIFEST_FILENAME);
 
     // Verify presentation exists
     if (!(await fs.pathExists(folderPath))) {
@@ -1433,7 +2105,7 @@ export class PresentationService extends EventEmitter {
       manifest.meta.updated = new Date().toISOString().split('T')[0];
 
       // Write manifest
-      await fs.writeJson(manifestPath, manifest, { spaces: 2 });
+      await this.manifestService.writeManifest(folderPath, manifest);
 
       // Invalidate cache
       this.invalidateCache(presentationId);
@@ -1444,6 +2116,15 @@ export class PresentationService extends EventEmitter {
   // FR-19: Manifest Schema & Data API Methods (delegated to ManifestService)
   // ============================================================
 
+  /**
+   * ETag of a presentation's manifest, for GET responses and If-Match checks.
+   */
+  async getManifestETag(presentationId: string): Promise<string> {
+    const folderPath = this.getPresentationPath(presentationId);
+    this.assertSafeId(folderPath);
+    return this.manifestService.getManifestETag(folderPath);
+  }
+
   /** Get the raw manifest for a presentation. Delegates to ManifestService. */
   async getManifest(presentationId: string): Promise<FlideckManifest | null> {
     return this.manifestService.getManifest(presentationId);
@@ -1459,6 +2140,34 @@ export class PresentationService extends EventEmitter {
     return this.manifestService.patchManifest(presentationId, updates);
   }
 
+  /** Apply a JSON Patch (RFC 6902) to the manifest. Delegates to ManifestService. */
+  async applyManifestPatch(
+    presentationId: string,
+    operations: JsonPatchOperation[],
+    options: { dryRun?: boolean } = {}
+  ): Promise<FlideckManifest> {
+    return this.manifestService.applyManifestPatch(presentationId, operations, options);
+  }
+
+  // ============================================================
+  // Manifest History Methods (delegated to ManifestService)
+  // ============================================================
+
+  /** List saved manifest snapshots, newest first. Delegates to ManifestService. */
+  async getManifestHistory(presentationId: string): Promise<ManifestHistoryEntry[]> {
+    return this.manifestService.getManifestHistory(presentationId);
+  }
+
+  /** Get a manifest snapshot by version. Delegates to ManifestService. */
+  async getManifestVersion(presentationId: string, version: string): Promise<FlideckManifest> {
+    return this.manifestService.getManifestVersion(presentationId, version);
+  }
+
+  /** Restore a manifest snapshot as the current manifest. Delegates to ManifestService. */
+  async restoreManifestVersion(presentationId: string, version: string): Promise<FlideckManifest> {
+    return this.manifestService.restoreManifestVersion(presentationId, version);
+  }
+
   // ============================================================
   // FR-21: Agent Manifest Tooling Methods (delegated to ManifestService)
   // ============================================================
@@ -1472,6 +2181,7 @@ export class PresentationService extends EventEmitter {
       group?: string;
       description?: string;
       recommended?: boolean;
+      content?: string;
     }>,
     options: {
       createGroups?: boolean;
@@ -1486,6 +2196,7 @@ export class PresentationService extends EventEmitter {
     skipped: number;
     updated: number;
     skippedItems: Array<{ item: string; reason: string }>;
+    written: string[];
   }> {
     return this.manifestService.bulkAddSlides(presentationId, slides, options);
   }
@@ -0,0 +1,334 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type {
+  Presentation,
+  SearchField,
+  SearchHighlight,
+  SearchResponse,
+  SearchResult,
+} from '@flideck/shared';
+import { PresentationService } from './PresentationService.js';
+import { extractSlideText, type SlideText } from '../utils/slideText.js';
+
+/** Relative weight of a term match in each field */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 5,
+  heading: 3,
+  description: 2,
+  notes: 2,
+  body: 1,
+};
+/** Characters of context kept before the first match in a snippet */
+const SNIPPET_LEAD = 60;
+const SNIPPET_LENGTH = 180;
+const DEFAULT_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+
+interface IndexedField {
+  field: SearchField;
+  text: string;
+  lower: string;
+}
+
+interface IndexedSlide {
+  presentationId: string;
+  presentationName: string;
+  assetId: string;
+  assetName: string;
+  /** Position within the presentation (breaks score ties in sidebar order) */
+  order: number;
+  /** Text extracted from the HTML file, reused while the file is unchanged */
+  html: { lastModified: number; text: SlideText };
+  fields: IndexedField[];
+}
+
+export interface SearchOptions {
+  /** Maximum results to return (default 20, capped at MAX_SEARCH_LIMIT) */
+  limit?: number;
+  /** Only search presentations in this root */
+  root?: string;
+}
+
+/**
+ * SearchService keeps a full-text index of slide content across all presentations:
+ * titles, headings, body text and manifest descriptions/notes.
+ *
+ * The index is built on the first search. File watcher events mark individual
+ * presentations stale (see invalidate), and stale presentations are re-indexed
+ * before the next search - only slides whose files changed are re-read.
+ */
+export class SearchService {
+  private static instance: SearchService;
+  private index = new Map<string, IndexedSlide[]>();
+  private built = false;
+  /** Bumped when the whole index is invalidated, so a rebuild racing it is not kept as built */
+  private generation = 0;
+  private stale = new Set<string>();
+  private refreshing: Promise<void> | null = null;
+
+  private constructor(private presentationService: PresentationService) {}
+
+  /**
+   * Get the singleton instance of SearchService.
+   */
+  static getInstance(): SearchService {
+    if (!SearchService.instance) {
+      SearchService.instance = new SearchService(PresentationService.getInstance());
+    }
+    return SearchService.instance;
+  }
+
+  /**
+   * Mark a presentation as changed, or the whole index when no ID is given
+   * (e.g., after the presentation roots change).
+   */
+  invalidate(presentationId?: string): void {
+    if (presentationId) {
+      this.stale.add(presentationId);
+    } else {
+      this.built = false;
+      this.generation++;
+    }
+  }
+
+  /**
+   * Find slides containing every term of the query (case-insensitive).
+   */
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResponse> {
+    const terms = tokenize(query);
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_LIMIT, 1), MAX_SEARCH_LIMIT);
+
+    if (terms.length === 0) {
+      return { query, results: [], total: 0 };
+    }
+
+    await this.refresh();
+
+    const matches: Array<{ result: SearchResult; order: number }> = [];
+    for (const [presentationId, slides] of this.index) {
+      if (
+        options.root &&
+        this.presentationService.resolveId(presentationId).root.name !== options.root
+      ) {
+        continue;
+      }
+      for (const slide of slides) {
+        const result = matchSlide(slide, terms);
+        if (result) matches.push({ result, order: slide.order });
+      }
+    }
+
+    matches.sort(
+      (a, b) =>
+        b.result.score - a.result.score ||
+        a.result.presentationName.localeCompare(b.result.presentationName) ||
+        a.order - b.order
+    );
+
+    return {
+      query,
+      results: matches.slice(0, limit).map((m) => m.result),
+      total: matches.length,
+    };
+  }
+
+  /**
+   * Bring the index up to date. Concurrent searches share one refresh.
+   */
+  private refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.runRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async runRefresh(): Promise<void> {
+    // Take the pending work up front so invalidations during the refresh are kept
+    const stale = [...this.stale];
+    this.stale.clear();
+
+    if (!this.built) {
+      const generation = this.generation;
+      const next = new Map<string, IndexedSlide[]>();
+      for (const presentation of await this.presentationService.discoverAll()) {
+        next.set(
+          presentation.id,
+          await this.indexPresentation(presentation, this.index.get(presentation.id))
+        );
+      }
+      this.index = next;
+      // A failed discovery throws above and leaves the index to be rebuilt next time
+      this.built = this.generation === generation;
+      return;
+    }
+
+    for (const presentationId of stale) {
+      let presentation: Presentation | null = null;
+      try {
+        presentation = await this.presentationService.getById(presentationId);
+      } catch {
+        // Invalid or unreadable presentation - drop it from the index
+      }
+
+      if (presentation) {
+        this.index.set(
+          presentationId,
+          await this.indexPresentation(presentation, this.index.get(presentationId))
+        );
+      } else {
+        this.index.delete(presentationId);
+      }
+    }
+  }
+
+  /**
+   * Index every asset of a presentation, reusing extracted HTML text for
+   * files that have not changed since they were last indexed.
+   */
+  private async indexPresentation(
+    presentation: Presentation,
+    previous: IndexedSlide[] = []
+  ): Promise<IndexedSlide[]> {
+    const slides: IndexedSlide[] = [];
+    for (const [order, asset] of presentation.assets.entries()) {
+      const cached = previous.find((s) => s.assetId === asset.id)?.html;
+      let html = cached?.lastModified === asset.lastModified ? cached : undefined;
+
+      if (!html) {
+        try {
+          const content = await fs.readFile(path.join(presentation.path, asset.filename), 'utf-8');
+          html = { lastModified: asset.lastModified, text: extractSlideText(content) };
+        } catch {
+          // File vanished between discovery and indexing - skip it
+          continue;
+        }
+      }
+
+      const title = [...new Set([asset.name, html.text.title].filter(Boolean))].join(' · ');
+      slides.push({
+        presentationId: presentation.id,
+        presentationName: presentation.name,
+        assetId: asset.id,
+        assetName: asset.name,
+        order,
+        html,
+        fields: [
+          toField('title', title),
+          toField('heading', html.text.headings.join(' · ')),
+          toField('description', asset.description ?? ''),
+          toField('notes', asset.notes ?? ''),
+          toField('body', html.text.body),
+        ].filter((f) => f.text),
+      });
+    }
+    return slides;
+  }
+}
+
+function toField(field: SearchField, text: string): IndexedField {
+  return { field, text, lower: text.toLowerCase() };
+}
+
+/**
+ * Split a query into unique lowercase terms.
+ */
+function tokenize(query: string): string[] {
+  return [...new Set(query.toLowerCase().split(/\s+/).filter(Boolean))];
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  for (
+    let i = haystack.indexOf(needle);
+    i !== -1;
+    i = haystack.indexOf(needle, i + needle.length)
+  ) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Score a slide against the query terms.
+ * Returns null unless every term occurs in at least one field.
+ */
+function matchSlide(slide: IndexedSlide, terms: string[]): SearchResult | null {
+  if (!terms.every((term) => slide.fields.some((f) => f.lower.includes(term)))) {
+    return null;
+  }
+
+  let score = 0;
+  let best: { field: IndexedField; score: number } | null = null;
+  for (const field of slide.fields) {
+    const hits = terms.reduce((sum, term) => sum + countOccurrences(field.lower, term), 0);
+    const fieldScore = hits * FIELD_WEIGHTS[field.field];
+    score += fieldScore;
+    if (fieldScore > 0 && (!best || fieldScore > best.score)) {
+      best = { field, score: fieldScore };
+    }
+  }
+
+  // every() above guarantees at least one field matched
+  const { field } = best!;
+  const snippet = buildSnippet(field, terms);
+
+  return {
+    presentationId: slide.presentationId,
+    presentationName: slide.presentationName,
+    assetId: slide.assetId,
+    assetName: slide.assetName,
+    field: field.field,
+    snippet,
+    highlights: findHighlights(snippet, terms),
+    score,
+  };
+}
+
+/**
+ * Cut an excerpt around the first term occurrence, trimmed to word boundaries.
+ */
+function buildSnippet(field: IndexedField, terms: string[]): string {
+  const { text, lower } = field;
+  const first = Math.min(...terms.map((t) => lower.indexOf(t)).filter((i) => i >= 0));
+
+  let start = Math.max(0, first - SNIPPET_LEAD);
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < first) start = space + 1;
+  }
+
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > first) end = space;
+  }
+
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Find every term occurrence in a snippet, merging overlapping ranges.
+ */
+function findHighlights(snippet: string, terms: string[]): SearchHighlight[] {
+  const lower = snippet.toLowerCase();
+  const ranges: SearchHighlight[] = [];
+  for (const term of terms) {
+    for (let i = lower.indexOf(term); i !== -1; i = lower.indexOf(term, i + term.length)) {
+      ranges.push({ start: i, end: i + term.length });
+    }
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: SearchHighlight[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
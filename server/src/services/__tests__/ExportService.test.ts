@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile, mkdir } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { inflateRawSync } from 'zlib';
+import type { BundleData } from '../../utils/exportBundle.js';
+import { PresentationService } from '../PresentationService.js';
+import { ExportService } from '../ExportService.js';
+
+/** 1x1 transparent PNG */
+const PIXEL = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64'
+);
+
+/** Pull the navigator data back out of an exported HTML bundle */
+function readBundle(html: string): BundleData {
+  const match = html.match(/<script type="application\/json" id="flideck-data">(.*?)<\/script>/s);
+  expect(match).not.toBeNull();
+  return JSON.parse(match![1]) as BundleData;
+}
+
+/** Minimal zip reader: walks the central directory and inflates each entry */
+function readZip(zip: Buffer): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  let offset = zip.readUInt32LE(end + 16);
+  for (let i = 0; i < zip.readUInt16LE(end + 10); i++) {
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+    files.set(name, method === 8 ? inflateRawSync(data) : data);
+    offset += 46 + nameLength;
+  }
+  return files;
+}
+
+describe('ExportService', () => {
+  let tempDir: string;
+  let service: ExportService;
+
+  async function writeDeck(id: string, files: Record<string, string | Buffer>): Promise<void> {
+    for (const [file, content] of Object.entries(files)) {
+      await mkdir(dirname(join(tempDir, id, file)), { recursive: true });
+      await writeFile(join(tempDir, id, file), content);
+    }
+  }
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'flideck-export-'));
+    PresentationService.getInstance().setRoot(tempDir);
+    service = ExportService.getInstance();
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('bundles slides in sidebar order with group labels', async () => {
+    await writeDeck('deck', {
+      'index.html': '<h1>Home</h1>',
+      'intro.html': '<p>Intro</p>',
+      'b.html': '<p>B</p>',
+      'a.html': '<p>A</p>',
+      'index.json': JSON.stringify({
+        groups: { details: { label: 'Details', order: 1 } },
+        slides: [
+          { file: 'b.html', group: 'details' },
+          { file: 'a.html', group: 'details' },
+          { file: 'intro.html' },
+        ],
+      }),
+    });
+
+    const result = await service.exportPresentation('deck', 'html');
+    expect(result.filename).toBe('deck.html');
+    expect(result.contentType).toBe('text/html; charset=utf-8');
+
+    const bundle = readBundle(result.content.toString('utf-8'));
+    expect(bundle.sections).toHaveLength(1);
+    expect(bundle.sections[0].slides.map((i) => bundle.slides[i].file)).toEqual([
+      'index.html',
+      'intro.html',
+      'b.html',
+      'a.html',
+    ]);
+    expect(bundle.groups).toEqual({ details: 'Details' });
+    expect(bundle.slides.find((s) => s.file === 'a.html')?.group).toBe('details');
+  });
+
+  it('scopes styles, separates scripts and inlines local assets', async () => {
+    await writeDeck('deck', {
+      'index.html': `<html><head>
+        <link rel="stylesheet" href="css/theme.css">
+        <link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Oswald">
+        <style>body { color: red } .hero { background: url('img/pixel.png') }</style>
+        </head><body style="margin: 0">
+        <img src="img/pixel.png" alt="pixel">
+        <img src="https://example.com/remote.png">
+        <img src="../secret.png">
+        <script>window.slideLoaded = true;</script>
+        </body></html>`,
+      'css/theme.css': '.theme { background-image: url(../img/pixel.png) }',
+      'img/pixel.png': PIXEL,
+    });
+    await writeFile(join(tempDir, 'secret.png'), PIXEL);
+
+    const bundle = readBundle(
+      (await service.exportPresentation('deck', 'html')).content.toString()
+    );
+    const [slide] = bundle.slides;
+    const dataUri = `data:image/png;base64,${PIXEL.toString('base64')}`;
+
+    expect(slide.styles.startsWith('@scope (.harness-slide) {')).toBe(true);
+    expect(slide.styles).toContain(':scope { color: red }');
+    expect(slide.styles).toContain(`.theme { background-image: url("${dataUri}") }`);
+    expect(slide.styles).toContain(`.hero { background: url("${dataUri}") }`);
+    // Linked stylesheets are placed before inline styles
+    expect(slide.styles.indexOf('.theme')).toBeLessThan(slide.styles.indexOf('.hero'));
+    expect(slide.styles).not.toContain('fonts.googleapis.com');
+
+    expect(slide.body).toContain(`src="${dataUri}"`);
+    expect(slide.body).toContain('src="https://example.com/remote.png"');
+    expect(slide.body).toContain('src="../secret.png"');
+    expect(slide.body).not.toContain('<script');
+    expect(slide.scripts).toEqual(['window.slideLoaded = true;']);
+  });
+
+  it('creates one section per container tab, starting with the tab index', async () => {
+    await writeDeck('tabbed', {
+      'index-one.html': '<a href="one-a.html">A</a>',
+      'index-two.html': '<a href="two-a.html">A</a>',
+      'one-a.html': '<p>One A</p>',
+      'two-a.html': '<p>Two A</p>',
+      'shared.html': '<p>Shared</p>',
+      'index.json': JSON.stringify({
+        tabs: [
+          { id: 'two', label: 'Two', file: 'index-two.html', order: 2 },
+          { id: 'one', label: 'One', file: 'index-one.html', order: 1 },
+        ],
+        groups: {
+          'one-group': { label: 'One', order: 1, tabId: 'one' },
+          'two-group': { label: 'Two', order: 2, tabId: 'two' },
+        },
+        slides: [
+          { file: 'one-a.html', group: 'one-group' },
+          { file: 'two-a.html', group: 'two-group' },
+          { file: 'shared.html' },
+        ],
+      }),
+    });
+
+    const bundle = readBundle(
+      (await service.exportPresentation('tabbed', 'html')).content.toString()
+    );
+    const files = (i: number) => bundle.sections[i].slides.map((s) => bundle.slides[s].file);
+
+    expect(bundle.sections.map((s) => [s.id, s.label])).toEqual([
+      ['one', 'One'],
+      ['two', 'Two'],
+    ]);
+    expect(files(0)).toEqual(['index-one.html', 'shared.html', 'one-a.html']);
+    expect(files(1)).toEqual(['index-two.html', 'shared.html', 'two-a.html']);
+    // Slides shared between tabs are bundled once
+    expect(bundle.slides.filter((s) => s.file === 'shared.html')).toHaveLength(1);
+  });
+
+  it('keeps the bundle data safe to embed in a script element', async () => {
+    await writeDeck('deck', {
+      'index.html':
+        '<p><!-- note --></p><script>var end = "</" + "script>"; var tag = "<b>";</script>',
+    });
+
+    const html = (await service.exportPresentation('deck', 'html')).content.toString();
+    const dataScript = html.match(/id="flideck-data">(.*?)<\/script>/s)![1];
+
+    expect(dataScript).not.toContain('<');
+    expect(readBundle(html).slides[0].scripts[0]).toContain('var tag = "<b>"');
+  });
+
+  it('exports a zip with the bundle and source files, skipping hidden folders', async () => {
+    await writeDeck('deck', {
+      'index.html': '<h1>Home</h1>',
+      'part-1/intro.html': '<p>Intro</p>',
+      'img/pixel.png': PIXEL,
+      '.flideck/history/old.json': '{}',
+    });
+
+    const result = await service.exportPresentation('deck', 'zip');
+    expect(result.filename).toBe('deck.zip');
+    expect(result.contentType).toBe('application/zip');
+
+    const files = readZip(result.content);
+    expect([...files.keys()]).toEqual([
+      'deck/index.html',
+      'deck/source/img/pixel.png',
+      'deck/source/index.html',
+      'deck/source/part-1/intro.html',
+    ]);
+    expect(readBundle(files.get('deck/index.html')!.toString()).slides).toHaveLength(2);
+    expect(files.get('deck/source/img/pixel.png')!.equals(PIXEL)).toBe(true);
+  });
+
+  it('throws 404 for an unknown presentation', async () => {
+    await expect(service.exportPresentation('missing', 'html')).rejects.toMatchObject({
+      statusCode: 404,
+    });
+  });
+});
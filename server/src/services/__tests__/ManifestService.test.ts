@@ -73,6 +73,96 @@ describe('ManifestService', () => {
     });
   });
 
+  // ============================================================
+  // Crash recovery — atomic writes and last-known-good backup
+  // ============================================================
+
+  describe('backup recovery', () => {
+    it('keeps a backup of the previous manifest on write', async () => {
+      const deckPath = join(tempDir, 'backup-deck');
+      await mkdir(deckPath);
+      await writeFile(join(deckPath, 'presentation.html'), '<h1>test</h1>');
+      await writeFile(join(deckPath, 'index.json'), JSON.stringify({ meta: { name: 'Before' } }));
+
+      await service.patchManifest('backup-deck', { meta: { name: 'After' } });
+
+      const backup = JSON.parse(
+        await readFile(join(deckPath, '.flideck', 'index.json.bak'), 'utf-8')
+      );
+      expect(backup.meta.name).toBe('Before');
+    });
+
+    it('restores a truncated index.json from backup and emits file:recovered', async () => {
+      const deckPath = join(tempDir, 'truncated-deck');
+      await mkdir(deckPath);
+      await mkdir(join(deckPath, '.flideck'));
+      await writeFile(join(deckPath, 'presentation.html'), '<h1>test</h1>');
+      await writeFile(join(deckPath, 'index.json'), '{"meta": {"name": "Tru');
+      await writeFile(
+        join(deckPath, '.flideck', 'index.json.bak'),
+        JSON.stringify({ meta: { name: 'Good' } })
+      );
+      const events: unknown[] = [];
+      const listener = (event: unknown) => events.push(event);
+      service.on('file:recovered', listener);
+
+      try {
+        const manifest = await service.getManifest('truncated-deck');
+
+        expect(manifest?.meta?.name).toBe('Good');
+        const onDisk = JSON.parse(await readFile(join(deckPath, 'index.json'), 'utf-8'));
+        expect(onDisk.meta.name).toBe('Good');
+        expect(events).toHaveLength(1);
+        expect(events[0]).toMatchObject({ kind: 'manifest', presentationId: 'truncated-deck' });
+      } finally {
+        service.off('file:recovered', listener);
+      }
+    });
+
+    it('restores a corrupt index.json read during a locked write', async () => {
+      const deckPath = join(tempDir, 'locked-recovery-deck');
+      await mkdir(join(deckPath, '.flideck'), { recursive: true });
+      await writeFile(join(deckPath, 'presentation.html'), '<h1>test</h1>');
+      await writeFile(join(deckPath, 'index.json'), '{"meta": {"na');
+      await writeFile(
+        join(deckPath, '.flideck', 'index.json.bak'),
+        JSON.stringify({ meta: { name: 'Good', purpose: 'Kept' } })
+      );
+
+      await service.patchManifest('locked-recovery-deck', { meta: { name: 'Patched' } });
+
+      const onDisk = JSON.parse(await readFile(join(deckPath, 'index.json'), 'utf-8'));
+      expect(onDisk.meta).toMatchObject({ name: 'Patched', purpose: 'Kept' });
+    });
+
+    it('does not overwrite a write that lands while the restore waits for the lock', async () => {
+      const deckPath = join(tempDir, 'racing-recovery-deck');
+      await mkdir(join(deckPath, '.flideck'), { recursive: true });
+      await writeFile(join(deckPath, 'presentation.html'), '<h1>test</h1>');
+      await writeFile(join(deckPath, 'index.json'), '{"meta": {"na');
+      await writeFile(
+        join(deckPath, '.flideck', 'index.json.bak'),
+        JSON.stringify({ meta: { name: 'Stale' } })
+      );
+
+      // The write takes the lock first; the read finds the corrupt file and waits for it
+      const write = service.setManifest('racing-recovery-deck', { meta: { name: 'Written' } });
+      await Promise.all([write, service.getManifest('racing-recovery-deck')]);
+
+      const onDisk = JSON.parse(await readFile(join(deckPath, 'index.json'), 'utf-8'));
+      expect(onDisk.meta.name).toBe('Written');
+    });
+
+    it('returns null for a corrupt index.json with no backup', async () => {
+      const deckPath = join(tempDir, 'no-backup-deck');
+      await mkdir(deckPath);
+      await writeFile(join(deckPath, 'presentation.html'), '<h1>test</h1>');
+      await writeFile(join(deckPath, 'index.json'), '{not json');
+
+      expect(await service.getManifest('no-backup-deck')).toBeNull();
+    });
+  });
+
   // ============================================================
   // patchManifest() — partial manifest updates
   // ============================================================
@@ -189,6 +279,72 @@ describe('ManifestService', () => {
     });
   });
 
+  // ============================================================
+  // applyManifestPatch() — JSON Patch (RFC 6902) updates
+  // ============================================================
+
+  describe('applyManifestPatch()', () => {
+    async function createDeck(id: string): Promise<string> {
+      const deckPath = join(tempDir, id);
+      await mkdir(deckPath);
+      await writeFile(join(deckPath, 'presentation.html'), '<h1>test</h1>');
+      const initial: FlideckManifest = {
+        meta: { name: 'Deck', purpose: 'Demo' },
+        slides: [
+          { file: 'a.html', title: 'A' },
+          { file: 'b.html', title: 'B' },
+        ],
+      };
+      await writeFile(join(deckPath, 'index.json'), JSON.stringify(initial, null, 2));
+      return deckPath;
+    }
+
+    it('removes keys, reorders slides and retitles one slide by index', async () => {
+      const deckPath = await createDeck('json-patch-deck');
+
+      const result = await service.applyManifestPatch('json-patch-deck', [
+        { op: 'remove', path: '/meta/purpose' },
+        { op: 'move', from: '/slides/1', path: '/slides/0' },
+        { op: 'replace', path: '/slides/1/title', value: 'Renamed A' },
+      ]);
+
+      const written = JSON.parse(await readFile(join(deckPath, 'index.json'), 'utf-8'));
+      expect(written).toEqual(result);
+      expect(written.meta.purpose).toBeUndefined();
+      expect(written.slides).toEqual([
+        { file: 'b.html', title: 'B' },
+        { file: 'a.html', title: 'Renamed A' },
+      ]);
+    });
+
+    it('writes nothing on a dry run, a failed test or an invalid result', async () => {
+      const deckPath = await createDeck('json-patch-guard-deck');
+      const before = await readFile(join(deckPath, 'index.json'), 'utf-8');
+
+      const preview = await service.applyManifestPatch(
+        'json-patch-guard-deck',
+        [{ op: 'add', path: '/slides/-', value: { file: 'c.html' } }],
+        { dryRun: true }
+      );
+      expect(preview.slides).toHaveLength(3);
+
+      await expect(
+        service.applyManifestPatch('json-patch-guard-deck', [
+          { op: 'test', path: '/slides/0/file', value: 'b.html' },
+          { op: 'remove', path: '/slides/0' },
+        ])
+      ).rejects.toMatchObject({ statusCode: 409 });
+
+      await expect(
+        service.applyManifestPatch('json-patch-guard-deck', [
+          { op: 'add', path: '/meta/unknownField', value: 'bad' },
+        ])
+      ).rejects.toMatchObject({ statusCode: 400 });
+
+      expect(await readFile(join(deckPath, 'index.json'), 'utf-8')).toBe(before);
+    });
+  });
+
   // ============================================================
   // bulkAddSlides() — conflict resolution strategies
   // ============================================================
@@ -320,8 +476,128 @@ describe('ManifestService', () => {
       // Caller's object must be unchanged
       expect(inputSlides[0].file).toBe(originalFile);
     });
+
+    it('writes content to the final filename after a rename conflict', async () => {
+      const deckPath = join(tempDir, 'content-bulk-deck');
+      await mkdir(deckPath);
+      await writeFile(join(deckPath, 'presentation.html'), '<h1>test</h1>');
+      await writeFile(join(deckPath, 'slide.html'), '<h1>original</h1>');
+      const initial: FlideckManifest = { slides: [{ file: 'slide.html' }] };
+      await writeFile(join(deckPath, 'index.json'), JSON.stringify(initial, null, 2));
+
+      const result = await service.bulkAddSlides(
+        'content-bulk-deck',
+        [
+          { file: 'slide.html', content: '<h1>copy</h1>' },
+          { file: 'part-2/next.html', content: '<h1>next</h1>' },
+          { file: 'metadata-only.html' },
+        ],
+        { onConflict: { duplicateFile: 'rename' } }
+      );
+
+      expect(result.written).toEqual(['slide-1.html', 'part-2/next.html']);
+      expect(await readFile(join(deckPath, 'slide.html'), 'utf-8')).toBe('<h1>original</h1>');
+      expect(await readFile(join(deckPath, 'slide-1.html'), 'utf-8')).toBe('<h1>copy</h1>');
+      expect(await readFile(join(deckPath, 'part-2', 'next.html'), 'utf-8')).toBe('<h1>next</h1>');
+    });
+
+    it('writes no content when the position target is missing', async () => {
+      const deckPath = join(tempDir, 'content-bad-position-deck');
+      await mkdir(deckPath);
+      await writeFile(join(deckPath, 'presentation.html'), '<h1>test</h1>');
+
+      await expect(
+        service.bulkAddSlides(
+          'content-bad-position-deck',
+          [{ file: 'orphan.html', content: '<h1>orphan</h1>' }],
+          { position: { after: 'missing.html' } }
+        )
+      ).rejects.toThrow(/not found/i);
+      await expect(readFile(join(deckPath, 'orphan.html'), 'utf-8')).rejects.toThrow();
+    });
   });
 
+  // ============================================================
+  // Manifest history — snapshots and restore
+  // ============================================================
+
+  describe('manifest history', () => {
+    async function createDeck(name: string, manifest?: FlideckManifest): Promise<string> {
+      const deckPath = join(tempDir, name);
+      await mkdir(deckPath);
+      await writeFile(join(deckPath, 'presentation.html'), '<h1>test</h1>');
+      if (manifest) {
+        await writeFile(join(deckPath, 'index.json'), JSON.stringify(manifest, null, 2));
+      }
+      return deckPath;
+    }
+
+    it('returns an empty history when nothing has been written', async () => {
+      await createDeck('fresh-deck');
+
+      expect(await service.getManifestHistory('fresh-deck')).toEqual([]);
+    });
+
+    it('snapshots the previous manifest before each write', async () => {
+      await createDeck('snap-deck', { meta: { name: 'Original' } });
+
+      await service.patchManifest('snap-deck', { meta: { name: 'First Edit' } });
+      await service.patchManifest('snap-deck', { meta: { name: 'Second Edit' } });
+
+      const history = await service.getManifestHistory('snap-deck');
+      expect(history).toHaveLength(2);
+      // Newest first: the snapshot taken before the second edit holds the first edit
+      const newest = await service.getManifestVersion('snap-deck', history[0].version);
+      const oldest = await service.getManifestVersion('snap-deck', history[1].version);
+      expect(newest.meta?.name).toBe('First Edit');
+      expect(oldest.meta?.name).toBe('Original');
+      expect(history[0].size).toBeGreaterThan(0);
+      expect(Number.isNaN(Date.parse(history[0].createdAt))).toBe(false);
+    });
+
+    it('snapshots writes made by PresentationService slide operations', async () => {
+      await createDeck('slide-op-deck', { slides: [] });
+
+      await service.addSlide('slide-op-deck', { file: 'new.html' });
+
+      const history = await service.getManifestHistory('slide-op-deck');
+      expect(history).toHaveLength(1);
+      const snapshot = await service.getManifestVersion('slide-op-deck', history[0].version);
+      expect(snapshot.slides).toEqual([]);
+    });
+
+    it('restores a snapshot and keeps the replaced manifest in history', async () => {
+      const deckPath = await createDeck('restore-deck', { meta: { name: 'Good' } });
+      await service.patchManifest('restore-deck', { meta: { name: 'Bad' } });
+      const [goodVersion] = await service.getManifestHistory('restore-deck');
+
+      const restored = await service.restoreManifestVersion('restore-deck', goodVersion.version);
+
+      expect(restored.meta?.name).toBe('Good');
+      const onDisk = JSON.parse(await readFile(join(deckPath, 'index.json'), 'utf-8'));
+      expect(onDisk.meta.name).toBe('Good');
+      const history = await service.getManifestHistory('restore-deck');
+      expect(history).toHaveLength(2);
+      const undo = await service.getManifestVersion('restore-deck', history[0].version);
+      expect(undo.meta?.name).toBe('Bad');
+    });
+
+    it('rejects malformed version identifiers with AppError 400', async () => {
+      await createDeck('bad-version-deck', {});
+
+      await expect(
+        service.getManifestVersion('bad-version-deck', '../../etc/passwd')
+      ).rejects.toBeInstanceOf(AppError);
+    });
+
+    it('throws not found for an unknown version', async () => {
+      await createDeck('missing-version-deck', {});
+
+      await expect(
+        service.getManifestVersion('missing-version-deck', '2020-01-01T00-00-00-000Z')
+      ).rejects.toThrow('Manifest version not found');
+    });
+  });
 
   // ============================================================
   // syncFromIndex() — FR-26: sync manifest from filesystem
@@ -188,6 +188,199 @@ describe('PresentationService', () => {
     });
   });
 
+  // ============================================================
+  // Subfolder asset discovery
+  // ============================================================
+
+  describe('subfolder asset discovery', () => {
+    async function setupNestedDeck(manifest?: object): Promise<void> {
+      const deckPath = join(tempDir, 'nested-deck');
+      await mkdir(join(deckPath, 'part-1'), { recursive: true });
+      await mkdir(join(deckPath, 'part-2'));
+      await writeFile(join(deckPath, 'presentation.html'), '<h1>entry</h1>');
+      await writeFile(join(deckPath, 'part-1', 'intro.html'), '<h1>one</h1>');
+      await writeFile(join(deckPath, 'part-2', 'intro.html'), '<h1>two</h1>');
+      if (manifest) {
+        await writeFile(join(deckPath, 'index.json'), JSON.stringify(manifest, null, 2));
+      }
+    }
+
+    it('discovers nested files with relative paths and unique IDs', async () => {
+      await setupNestedDeck();
+
+      const result = await service.getById('nested-deck');
+      const assets = result!.assets.map((a) => ({
+        id: a.id,
+        filename: a.filename,
+        folder: a.folder,
+      }));
+
+      expect(assets).toEqual(
+        expect.arrayContaining([
+          { id: 'presentation', filename: 'presentation.html', folder: undefined },
+          { id: 'part-1--intro', filename: 'part-1/intro.html', folder: 'part-1' },
+          { id: 'part-2--intro', filename: 'part-2/intro.html', folder: 'part-2' },
+        ])
+      );
+    });
+
+    it('orders nested files by manifest slides[].file subpaths', async () => {
+      await setupNestedDeck({
+        slides: [
+          { file: 'part-2/intro.html', title: 'Second part' },
+          { file: 'part-1/intro.html' },
+          { file: 'presentation.html' },
+        ],
+      });
+
+      const result = await service.getById('nested-deck');
+
+      expect(result!.assets.map((a) => a.id)).toEqual([
+        'part-2--intro',
+        'part-1--intro',
+        'presentation',
+      ]);
+      expect(result!.assets[0].name).toBe('Second part');
+    });
+
+    it('groups ungrouped nested files by folder when meta.groupByFolder is set', async () => {
+      await setupNestedDeck({
+        meta: { groupByFolder: true },
+        groups: { intro: { label: 'Intro', order: 1 } },
+        slides: [
+          { file: 'presentation.html', group: 'intro' },
+          { file: 'part-1/intro.html' },
+          { file: 'part-2/intro.html' },
+        ],
+      });
+
+      const result = await service.getById('nested-deck');
+
+      expect(result!.groups).toEqual({
+        intro: { label: 'Intro', order: 1 },
+        'part-1': { label: 'Part 1', order: 2 },
+        'part-2': { label: 'Part 2', order: 3 },
+      });
+      expect(result!.assets.find((a) => a.id === 'part-2--intro')?.group).toBe('part-2');
+
+      // Folder groups are derived at load time, not persisted
+      const manifest = JSON.parse(
+        await readFile(join(tempDir, 'nested-deck', 'index.json'), 'utf-8')
+      ) as { groups: Record<string, unknown> };
+      expect(Object.keys(manifest.groups)).toEqual(['intro']);
+    });
+
+    it('updateSlide accepts a nested asset ID', async () => {
+      await setupNestedDeck({
+        slides: [{ file: 'presentation.html' }, { file: 'part-1/intro.html' }],
+      });
+
+      await service.updateSlide('nested-deck', 'part-1--intro', { title: 'Renamed' });
+
+      const manifest = JSON.parse(
+        await readFile(join(tempDir, 'nested-deck', 'index.json'), 'utf-8')
+      ) as { slides: Array<{ file: string; title?: string }> };
+      expect(manifest.slides.find((s) => s.file === 'part-1/intro.html')?.title).toBe('Renamed');
+    });
+
+    it('gives a nested file a distinct ID when a top-level file has its ID', async () => {
+      await setupNestedDeck({
+        slides: [{ file: 'part-1/intro.html' }, { file: 'part-1--intro.html' }],
+      });
+      await writeFile(join(tempDir, 'nested-deck', 'part-1--intro.html'), '<h1>flat</h1>');
+
+      const result = await service.getById('nested-deck');
+      const ids = Object.fromEntries(result!.assets.map((a) => [a.filename, a.id]));
+      expect(ids['part-1--intro.html']).toBe('part-1--intro');
+      expect(ids['part-1/intro.html']).toBe('part-1--intro-2');
+      expect(service.assetIdOf('nested-deck', 'part-1/intro.html')).toBe('part-1--intro-2');
+
+      await service.updateSlide('nested-deck', 'part-1--intro', { title: 'Flat' });
+      await service.updateSlide('nested-deck', 'part-1--intro-2', { title: 'Nested' });
+
+      const manifest = JSON.parse(
+        await readFile(join(tempDir, 'nested-deck', 'index.json'), 'utf-8')
+      ) as { slides: Array<{ file: string; title?: string }> };
+      expect(manifest.slides).toEqual([
+        { file: 'part-1/intro.html', title: 'Nested' },
+        { file: 'part-1--intro.html', title: 'Flat' },
+      ]);
+    });
+  });
+
+  // ============================================================
+  // Multiple presentation roots
+  // ============================================================
+
+  describe('multiple roots', () => {
+    let archiveDir: string;
+
+    beforeEach(async () => {
+      archiveDir = await mkdtemp(join(tmpdir(), 'flideck-archive-'));
+      service.setRoots([{ name: 'archive', path: archiveDir }]);
+    });
+
+    afterEach(async () => {
+      service.setRoots([]);
+      await rm(archiveDir, { recursive: true, force: true });
+    });
+
+    it('discovers presentations in every root, namespacing secondary-root IDs', async () => {
+      await mkdir(join(tempDir, 'deck'));
+      await writeFile(join(tempDir, 'deck', 'index.html'), '<html></html>');
+      await mkdir(join(archiveDir, 'deck'));
+      await writeFile(join(archiveDir, 'deck', 'index.html'), '<html></html>');
+
+      const results = await service.discoverAll();
+
+      expect(results.map((p) => [p.id, p.root])).toEqual([
+        ['deck', service.getRoots()[0].name],
+        ['archive:deck', 'archive'],
+      ]);
+      expect(results[1].path).toBe(join(archiveDir, 'deck'));
+    });
+
+    it('discoverAll(rootName) only scans the named root', async () => {
+      await mkdir(join(tempDir, 'deck'));
+      await writeFile(join(tempDir, 'deck', 'index.html'), '<html></html>');
+      await mkdir(join(archiveDir, 'old'));
+      await writeFile(join(archiveDir, 'old', 'index.html'), '<html></html>');
+
+      const results = await service.discoverAll('archive');
+
+      expect(results.map((p) => p.id)).toEqual(['archive:old']);
+    });
+
+    it('writes manifests of namespaced presentations into the secondary root', async () => {
+      await mkdir(join(archiveDir, 'old'));
+      await writeFile(join(archiveDir, 'old', 'index.html'), '<html></html>');
+
+      await service.addSlide('archive:old', { file: 'extra.html' });
+
+      const manifest = JSON.parse(await readFile(join(archiveDir, 'old', 'index.json'), 'utf-8'));
+      expect(manifest.slides).toEqual([{ file: 'extra.html' }]);
+    });
+
+    it('qualifyId() prefixes bare IDs for secondary roots and rejects unknown roots', () => {
+      expect(service.qualifyId('old', 'archive')).toBe('archive:old');
+      expect(service.qualifyId('archive:old', 'archive')).toBe('archive:old');
+      expect(service.qualifyId('deck', service.getRoots()[0].name)).toBe('deck');
+      expect(() => service.qualifyId('deck', 'missing')).toThrow(AppError);
+    });
+
+    it('locatePath() maps files back to presentation IDs', () => {
+      expect(service.locatePath(join(archiveDir, 'old', 'part-1', 'a.html'))).toEqual({
+        presentationId: 'archive:old',
+        relativePath: 'part-1/a.html',
+      });
+      expect(service.locatePath(join(tempDir, 'deck', 'a.html'))).toEqual({
+        presentationId: 'deck',
+        relativePath: 'a.html',
+      });
+      expect(service.locatePath(join(tmpdir(), 'elsewhere.html'))).toBeNull();
+    });
+  });
+
   // ============================================================
   // getById() — additional behaviour
   // ============================================================
@@ -230,6 +423,70 @@ describe('PresentationService', () => {
     });
   });
 
+  // ============================================================
+  // applyFileChange() — watcher-driven cache updates
+  // ============================================================
+
+  describe('applyFileChange()', () => {
+    async function createDeck(id: string): Promise<string> {
+      const folderPath = join(tempDir, id);
+      await mkdir(folderPath);
+      await writeFile(join(folderPath, 'presentation.html'), '<html></html>');
+      await writeFile(join(folderPath, 'intro.html'), '<h1>Intro</h1>');
+      await writeFile(
+        join(folderPath, 'index.json'),
+        JSON.stringify({ slides: [{ file: 'intro.html', title: 'Welcome' }] })
+      );
+      return folderPath;
+    }
+
+    it('updates only the affected presentation for slide add, change and unlink', async () => {
+      const deckPath = await createDeck('watched-deck');
+      await createDeck('other-deck');
+      const other = (await service.discoverAll()).find((p) => p.id === 'other-deck');
+
+      await writeFile(join(deckPath, 'extra.html'), '<h1>Extra</h1>');
+      expect(await service.applyFileChange('add', join(deckPath, 'extra.html'))).toBe(
+        'watched-deck'
+      );
+      const added = await service.getById('watched-deck');
+      expect(added!.assets.map((a) => a.filename)).toEqual([
+        'intro.html',
+        'presentation.html',
+        'extra.html',
+      ]);
+      // Manifest metadata is still applied to the rebuilt presentation
+      expect(added!.assets[0].title).toBe('Welcome');
+
+      await rm(join(deckPath, 'extra.html'));
+      await service.applyFileChange('unlink', join(deckPath, 'extra.html'));
+      expect((await service.getById('watched-deck'))!.assets).toHaveLength(2);
+
+      // The other presentation's cache entry was never touched
+      expect(await service.getById('other-deck')).toBe(other);
+    });
+
+    it('reloads a presentation when its manifest changes', async () => {
+      const deckPath = await createDeck('manifest-watch-deck');
+      await service.getById('manifest-watch-deck');
+
+      await writeFile(join(deckPath, 'index.json'), JSON.stringify({ meta: { name: 'Renamed' } }));
+      await service.applyFileChange('change', join(deckPath, 'index.json'));
+
+      expect((await service.getById('manifest-watch-deck'))!.name).toBe('Renamed');
+    });
+
+    it('drops presentation folders removed from a root', async () => {
+      const deckPath = await createDeck('removed-deck');
+      expect(await service.discoverAll()).toHaveLength(1);
+
+      await rm(deckPath, { recursive: true });
+      await service.applyFileChange('unlinkDir', deckPath);
+
+      expect(await service.discoverAll()).toHaveLength(0);
+    });
+  });
+
   // ============================================================
   // createPresentation() — folder and manifest creation
   // ============================================================
@@ -259,6 +516,110 @@ describe('PresentationService', () => {
     });
   });
 
+  // ============================================================
+  // renamePresentation() / clonePresentation() / deletePresentation()
+  // ============================================================
+
+  describe('presentation lifecycle', () => {
+    async function createDeck(id: string): Promise<string> {
+      const folderPath = join(tempDir, id);
+      await mkdir(folderPath);
+      await writeFile(join(folderPath, 'presentation.html'), '<html></html>');
+      await writeFile(join(folderPath, 'intro.html'), '<h1>Intro</h1>');
+      return folderPath;
+    }
+
+    it('renamePresentation() moves the folder and updates the display name', async () => {
+      await createDeck('old-deck');
+      await service.getById('old-deck'); // warm the cache
+
+      await service.renamePresentation('old-deck', 'new-deck', 'New Deck');
+
+      expect(await service.getById('old-deck')).toBeNull();
+      const renamed = await service.getById('new-deck');
+      expect(renamed?.name).toBe('New Deck');
+      expect(renamed?.assets.map((a) => a.id)).toContain('intro');
+    });
+
+    it('lifecycle operations invalidate only the presentations they touch', async () => {
+      await createDeck('kept-deck');
+      await createDeck('moving-deck');
+      await service.discoverAll(); // warm the cache
+      const invalidated: Array<string | undefined> = [];
+      const onInvalidated = ({ id }: { id?: string }) => invalidated.push(id);
+      service.on('cache:invalidated', onInvalidated);
+
+      try {
+        await service.renamePresentation('moving-deck', 'moved-deck');
+        await service.clonePresentation('moved-deck', 'cloned-deck');
+        await service.deletePresentation('cloned-deck');
+      } finally {
+        service.off('cache:invalidated', onInvalidated);
+      }
+
+      expect(invalidated).toEqual(['moving-deck', 'moved-deck', 'cloned-deck', 'cloned-deck']);
+      expect((await service.discoverAll()).map((p) => p.id).sort()).toEqual([
+        'kept-deck',
+        'moved-deck',
+      ]);
+    });
+
+    it('renamePresentation() refuses to overwrite an existing presentation', async () => {
+      await createDeck('deck-a');
+      await createDeck('deck-b');
+
+      await expect(service.renamePresentation('deck-a', 'deck-b')).rejects.toThrow(
+        /already exists/i
+      );
+    });
+
+    it('clonePresentation() copies slides but not manifest history', async () => {
+      const source = await createDeck('source-deck');
+      await mkdir(join(source, '.flideck'));
+      await writeFile(join(source, '.flideck', 'index.json.bak'), '{}');
+
+      const copyPath = await service.clonePresentation('source-deck', 'copy-deck', 'Copy');
+
+      expect((await service.getById('source-deck'))?.assets).toHaveLength(2);
+      const copy = await service.getById('copy-deck');
+      expect(copy?.name).toBe('Copy');
+      expect(copy?.assets).toHaveLength(2);
+      await expect(
+        readFile(join(copyPath, '.flideck', 'index.json.bak'), 'utf-8')
+      ).rejects.toThrow();
+    });
+
+    it('deletePresentation() removes the folder, or moves it to the trash when soft', async () => {
+      await createDeck('hard-deck');
+      await createDeck('soft-deck');
+
+      await service.deletePresentation('hard-deck');
+      const { trashPath } = await service.deletePresentation('soft-deck', { soft: true });
+
+      expect(await service.getById('hard-deck')).toBeNull();
+      expect(await service.getById('soft-deck')).toBeNull();
+      expect(trashPath).toContain(join(tempDir, '.flideck-trash', 'soft-deck-'));
+      expect(await readFile(join(trashPath!, 'intro.html'), 'utf-8')).toBe('<h1>Intro</h1>');
+      expect((await service.discoverAll()).map((p) => p.id)).toEqual([]);
+    });
+
+    it('throws not found for unknown presentations', async () => {
+      await expect(service.deletePresentation('missing')).rejects.toThrow(/not found/i);
+      await expect(service.clonePresentation('missing', 'copy')).rejects.toThrow(/not found/i);
+    });
+
+    it('never targets the root folder or paths outside it', async () => {
+      await expect(service.deletePresentation('.')).rejects.toMatchObject({ statusCode: 400 });
+      await expect(service.deletePresentation('../elsewhere')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      await createDeck('safe-deck');
+      await expect(service.renamePresentation('safe-deck', 'nested/deck')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+    });
+  });
+
   // ============================================================
   // assertSafeId — cache-warm traversal prevention
   // ============================================================
@@ -355,6 +716,109 @@ describe('PresentationService', () => {
 
       expect(manifest.slides[0].group).toBe('chapter-1');
     });
+
+    it('writes content and returns the registered asset', async () => {
+      const folderPath = join(tempDir, 'content-deck');
+      await mkdir(folderPath);
+      await writeFile(join(folderPath, 'presentation.html'), '<h1>main</h1>');
+
+      const asset = await service.addSlide('content-deck', {
+        file: 'part-1/intro.html',
+        title: 'Intro',
+        content: '<h1>Intro</h1>',
+      });
+
+      expect(await readFile(join(folderPath, 'part-1', 'intro.html'), 'utf-8')).toBe(
+        '<h1>Intro</h1>'
+      );
+      expect(asset).toMatchObject({ id: 'part-1--intro', name: 'Intro', folder: 'part-1' });
+    });
+  });
+
+  // ============================================================
+  // writeSlideContent() — write HTML and register in one operation
+  // ============================================================
+
+  describe('writeSlideContent()', () => {
+    async function createDeck(id: string, manifest?: object): Promise<string> {
+      const folderPath = join(tempDir, id);
+      await mkdir(folderPath);
+      await writeFile(join(folderPath, 'presentation.html'), '<h1>main</h1>');
+      if (manifest) await writeFile(join(folderPath, 'index.json'), JSON.stringify(manifest));
+      return folderPath;
+    }
+
+    it('creates a new slide file and appends it to the manifest', async () => {
+      const folderPath = await createDeck('write-new-deck');
+
+      const { asset, created } = await service.writeSlideContent(
+        'write-new-deck',
+        'outro',
+        '<h1>Outro</h1>'
+      );
+
+      expect(created).toBe(true);
+      expect(asset?.id).toBe('outro');
+      expect(await readFile(join(folderPath, 'outro.html'), 'utf-8')).toBe('<h1>Outro</h1>');
+      const manifest = JSON.parse(await readFile(join(folderPath, 'index.json'), 'utf-8'));
+      expect(manifest.slides).toEqual([{ file: 'outro.html' }]);
+    });
+
+    it('overwrites a registered slide without touching its manifest entry', async () => {
+      const folderPath = await createDeck('write-existing-deck', {
+        slides: [{ file: 'part-1/intro.html', title: 'Intro' }],
+      });
+      await mkdir(join(folderPath, 'part-1'));
+      await writeFile(join(folderPath, 'part-1', 'intro.html'), '<h1>old</h1>');
+
+      const { asset, created } = await service.writeSlideContent(
+        'write-existing-deck',
+        'part-1--intro',
+        '<h1>new</h1>'
+      );
+
+      expect(created).toBe(false);
+      expect(asset?.title).toBe('Intro');
+      expect(await readFile(join(folderPath, 'part-1', 'intro.html'), 'utf-8')).toBe(
+        '<h1>new</h1>'
+      );
+      const manifest = JSON.parse(await readFile(join(folderPath, 'index.json'), 'utf-8'));
+      expect(manifest.slides).toEqual([{ file: 'part-1/intro.html', title: 'Intro' }]);
+    });
+
+    it('rejects files that are unsafe or do not match the slide ID', async () => {
+      await createDeck('write-invalid-deck');
+
+      await expect(
+        service.writeSlideContent('write-invalid-deck', 'intro', 'x', '../intro.html')
+      ).rejects.toMatchObject({ statusCode: 400 });
+      await expect(
+        service.writeSlideContent('write-invalid-deck', 'intro', 'x', 'other.html')
+      ).rejects.toMatchObject({ statusCode: 400 });
+      await expect(service.writeSlideContent('missing-deck', 'intro', 'x')).rejects.toThrow(
+        /not found/i
+      );
+    });
+  });
+
+  describe('applySlideMigration()', () => {
+    it('refuses to overwrite a slide edited since it was migrated', async () => {
+      const folderPath = join(tempDir, 'migrate-race-deck');
+      await mkdir(folderPath);
+      await writeFile(join(folderPath, 'index.html'), '<h1>A</h1>');
+      await writeFile(join(folderPath, 'b.html'), '<h1>B edited</h1>');
+
+      await expect(
+        service.applySlideMigration('migrate-race-deck', [
+          { file: 'index.html', content: '<h1>A2</h1>', original: '<h1>A</h1>', harnessType: 'a' },
+          { file: 'b.html', content: '<h1>B2</h1>', original: '<h1>B</h1>', harnessType: 'a' },
+        ])
+      ).rejects.toMatchObject({ statusCode: 409 });
+
+      expect(await readFile(join(folderPath, 'index.html'), 'utf-8')).toBe('<h1>A</h1>');
+      expect(await readFile(join(folderPath, 'b.html'), 'utf-8')).toBe('<h1>B edited</h1>');
+      await expect(readFile(join(folderPath, 'index.json'), 'utf-8')).rejects.toThrow();
+    });
   });
 
   // ============================================================
@@ -697,6 +1161,20 @@ describe('PresentationService', () => {
       expect(slideA.viewportLock).toBe(true);
     });
 
+    it('applies notes to asset.notes', async () => {
+      await setupMetaDeck([
+        { file: 'slide-a.html', notes: 'Pause for questions' },
+        { file: 'slide-b.html', notes: null },
+      ]);
+
+      const presentation = await service.getById('meta-deck');
+      const slideA = presentation!.assets.find((a) => a.filename === 'slide-a.html')!;
+      const slideB = presentation!.assets.find((a) => a.filename === 'slide-b.html')!;
+
+      expect(slideA.notes).toBe('Pause for questions');
+      expect(slideB.notes).toBeUndefined();
+    });
+
     it('orders assets by manifest slides array order', async () => {
       await setupMetaDeck([
         { file: 'slide-b.html', title: 'B First' },
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, writeFile, mkdir, utimes } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PresentationService } from '../PresentationService.js';
+import { SearchService } from '../SearchService.js';
+
+describe('SearchService', () => {
+  let tempDir: string;
+  let presentationService: PresentationService;
+  let service: SearchService;
+
+  async function writeDeck(id: string, files: Record<string, string>): Promise<void> {
+    await mkdir(join(tempDir, id), { recursive: true });
+    for (const [file, content] of Object.entries(files)) {
+      await writeFile(join(tempDir, id, file), content);
+    }
+  }
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'flideck-search-'));
+    presentationService = PresentationService.getInstance();
+    presentationService.setRoot(tempDir);
+    service = SearchService.getInstance();
+    service.invalidate();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('finds slides by body text with a snippet and highlights', async () => {
+    await writeDeck('alpha', {
+      'index.html': '<h1>Alpha</h1>',
+      'pricing.html': '<html><body><p>Our enterprise pricing starts at 10 seats.</p></body></html>',
+    });
+
+    const response = await service.search('Enterprise');
+
+    expect(response.total).toBe(1);
+    const [result] = response.results;
+    expect(result).toMatchObject({ presentationId: 'alpha', assetId: 'pricing', field: 'body' });
+    expect(result.snippet).toBe('Our enterprise pricing starts at 10 seats.');
+    expect(result.highlights).toEqual([{ start: 4, end: 14 }]);
+  });
+
+  it('requires every term and ignores script and style content', async () => {
+    await writeDeck('alpha', {
+      'index.html': '<h1>Alpha</h1>',
+      'one.html': '<p>roadmap for launch</p><script>var roadmap = "secret";</script>',
+      'two.html': '<p>roadmap only</p><style>.secret { color: red }</style>',
+    });
+
+    expect((await service.search('roadmap launch')).results.map((r) => r.assetId)).toEqual(['one']);
+    expect((await service.search('secret')).total).toBe(0);
+  });
+
+  it('ranks title and heading matches above body matches', async () => {
+    await writeDeck('alpha', {
+      'index.html': '<h1>Alpha</h1>',
+      'body.html': '<p>Some text about budgets.</p>',
+      'heading.html': '<h2>Budgets</h2><p>Details</p>',
+    });
+
+    const { results } = await service.search('budgets');
+
+    expect(results.map((r) => [r.assetId, r.field])).toEqual([
+      ['heading', 'heading'],
+      ['body', 'body'],
+    ]);
+  });
+
+  it('searches manifest descriptions and notes', async () => {
+    await writeDeck('alpha', {
+      'index.html': '<h1>Alpha</h1>',
+      'intro.html': '<p>Welcome</p>',
+      'index.json': JSON.stringify({
+        slides: [
+          { file: 'index.html' },
+          {
+            file: 'intro.html',
+            description: 'Kickoff overview',
+            notes: 'Mention the quarterly goals',
+          },
+        ],
+      }),
+    });
+
+    expect((await service.search('kickoff')).results[0]).toMatchObject({
+      assetId: 'intro',
+      field: 'description',
+    });
+    expect((await service.search('quarterly')).results[0]).toMatchObject({
+      assetId: 'intro',
+      field: 'notes',
+    });
+  });
+
+  it('re-indexes a presentation after invalidate(id)', async () => {
+    await writeDeck('alpha', { 'index.html': '<h1>Alpha</h1>', 'a.html': '<p>old words</p>' });
+    expect((await service.search('fresh')).total).toBe(0);
+
+    await writeFile(join(tempDir, 'alpha', 'a.html'), '<p>fresh words</p>');
+    // Make sure the mtime moves even on coarse-grained filesystems
+    const later = new Date(Date.now() + 5000);
+    await utimes(join(tempDir, 'alpha', 'a.html'), later, later);
+    presentationService.invalidateCache('alpha');
+    service.invalidate('alpha');
+
+    expect((await service.search('fresh')).results.map((r) => r.assetId)).toEqual(['a']);
+  });
+
+  it('drops presentations that no longer exist', async () => {
+    await writeDeck('alpha', { 'index.html': '<h1>Alpha unique</h1>' });
+    expect((await service.search('unique')).total).toBe(1);
+
+    await rm(join(tempDir, 'alpha'), { recursive: true, force: true });
+    presentationService.invalidateCache('alpha');
+    service.invalidate('alpha');
+
+    expect((await service.search('unique')).total).toBe(0);
+  });
+
+  it('rebuilds on the next search when discovery fails', async () => {
+    await writeDeck('alpha', { 'index.html': '<h1>Alpha resilient</h1>' });
+    vi.spyOn(presentationService, 'discoverAll').mockRejectedValueOnce(new Error('disk error'));
+
+    await expect(service.search('resilient')).rejects.toThrow('disk error');
+
+    expect((await service.search('resilient')).total).toBe(1);
+  });
+
+  it('applies the limit but reports the total', async () => {
+    await writeDeck('alpha', {
+      'index.html': '<p>shared</p>',
+      'a.html': '<p>shared</p>',
+      'b.html': '<p>shared</p>',
+    });
+
+    const response = await service.search('shared', { limit: 2 });
+
+    expect(response.results).toHaveLength(2);
+    expect(response.total).toBe(3);
+  });
+});
@@ -0,0 +1,91 @@
+import express, { Router } from 'express';
+import request from 'supertest';
+import { describe, it, expect } from 'vitest';
+import { ApiRegistry, describeRoute, withRouteDoc } from '../apiRegistry.js';
+
+describe('ApiRegistry', () => {
+  it('lists the routes of mounted routers with their documentation', () => {
+    const router = Router();
+    router.get('/', describeRoute({ summary: 'List' }), (_req, res) => {
+      res.end();
+    });
+    router.put(
+      '/:id/order',
+      describeRoute({ summary: 'Order', section: 'ordering' }),
+      (_req, res) => {
+        res.end();
+      }
+    );
+
+    const api = new ApiRegistry();
+    api.mount('/api/things', router);
+
+    expect(api.endpoints()).toEqual([
+      { method: 'get', path: '/api/things', section: 'things', doc: { summary: 'List' } },
+      {
+        method: 'put',
+        path: '/api/things/:id/order',
+        section: 'ordering',
+        doc: { summary: 'Order', section: 'ordering' },
+      },
+    ]);
+  });
+
+  it('lists undocumented routes and skips middleware', () => {
+    const router = Router();
+    router.use((_req, _res, next) => next());
+    router.delete('/:id', (_req, res) => {
+      res.end();
+    });
+
+    const api = new ApiRegistry();
+    api.mount('/api/things', router);
+
+    expect(api.endpoints()).toEqual([
+      { method: 'delete', path: '/api/things/:id', section: 'things', doc: undefined },
+    ]);
+  });
+
+  it('picks up routes added after mounting', () => {
+    const router = Router();
+    const api = new ApiRegistry();
+    api.mount('/api/things', router);
+
+    router.post('/', describeRoute({ summary: 'Create' }), (_req, res) => {
+      res.end();
+    });
+
+    expect(api.endpoints().map((endpoint) => endpoint.method)).toEqual(['post']);
+  });
+
+  it('merges documentation attached by other middleware', () => {
+    const router = Router();
+    const validate = withRouteDoc((_req, _res, next) => next(), { body: 'AddSlideRequest' });
+    router.post('/', describeRoute({ summary: 'Create' }), validate, (_req, res) => {
+      res.end();
+    });
+    router.put('/', validate, (_req, res) => {
+      res.end();
+    });
+
+    const api = new ApiRegistry();
+    api.mount('/api/things', router);
+
+    expect(api.endpoints().map((endpoint) => endpoint.doc)).toEqual([
+      { summary: 'Create', body: 'AddSlideRequest' },
+      undefined,
+    ]);
+  });
+});
+
+describe('describeRoute()', () => {
+  it('passes requests through to the handler', async () => {
+    const app = express();
+    app.get('/ping', describeRoute({ summary: 'Ping' }), (_req, res) => {
+      res.json({ pong: true });
+    });
+
+    const res = await request(app).get('/ping');
+    expect(res.body).toEqual({ pong: true });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile, readFile, readdir } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { writeFileAtomic, writeJsonAtomic, readJsonWithRecovery } from '../atomicWrite.js';
+
+describe('atomicWrite', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'flideck-atomic-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('writeFileAtomic()', () => {
+    it('writes content and leaves no temp files behind', async () => {
+      const filePath = join(tempDir, 'data.json');
+
+      await writeFileAtomic(filePath, '{"a":1}');
+
+      expect(await readFile(filePath, 'utf-8')).toBe('{"a":1}');
+      expect(await readdir(tempDir)).toEqual(['data.json']);
+    });
+
+    it('replaces existing content', async () => {
+      const filePath = join(tempDir, 'data.json');
+      await writeFile(filePath, 'old');
+
+      await writeFileAtomic(filePath, 'new');
+
+      expect(await readFile(filePath, 'utf-8')).toBe('new');
+    });
+  });
+
+  describe('writeJsonAtomic()', () => {
+    it('backs up the previous valid file', async () => {
+      const filePath = join(tempDir, 'data.json');
+      const backupPath = join(tempDir, 'backup', 'data.json.bak');
+      await writeFile(filePath, '{"version":1}');
+
+      await writeJsonAtomic(filePath, { version: 2 }, { backupPath });
+
+      expect(JSON.parse(await readFile(filePath, 'utf-8'))).toEqual({ version: 2 });
+      expect(JSON.parse(await readFile(backupPath, 'utf-8'))).toEqual({ version: 1 });
+    });
+
+    it('does not overwrite a good backup with a corrupt file', async () => {
+      const filePath = join(tempDir, 'data.json');
+      const backupPath = join(tempDir, 'data.json.bak');
+      await writeFile(filePath, '{"trunc');
+      await writeFile(backupPath, '{"version":1}');
+
+      await writeJsonAtomic(filePath, { version: 3 }, { backupPath });
+
+      expect(JSON.parse(await readFile(backupPath, 'utf-8'))).toEqual({ version: 1 });
+    });
+  });
+
+  describe('readJsonWithRecovery()', () => {
+    it('returns null when the file does not exist', async () => {
+      expect(await readJsonWithRecovery(join(tempDir, 'missing.json'))).toBeNull();
+    });
+
+    it('returns parsed data without recovery for a valid file', async () => {
+      const filePath = join(tempDir, 'data.json');
+      await writeFile(filePath, '{"ok":true}');
+
+      const result = await readJsonWithRecovery(filePath, join(tempDir, 'data.json.bak'));
+
+      expect(result).toEqual({ data: { ok: true } });
+    });
+
+    it('falls back to the backup and restores the primary file', async () => {
+      const filePath = join(tempDir, 'data.json');
+      const backupPath = join(tempDir, 'data.json.bak');
+      await writeFile(filePath, '');
+      await writeFile(backupPath, '{"restored":true}');
+
+      const result = await readJsonWithRecovery(filePath, backupPath);
+
+      expect(result?.data).toEqual({ restored: true });
+      expect(result?.recovery?.reason).toBeTruthy();
+      expect(JSON.parse(await readFile(filePath, 'utf-8'))).toEqual({ restored: true });
+    });
+
+    it('restores through withLock and keeps a file fixed while waiting for it', async () => {
+      const filePath = join(tempDir, 'data.json');
+      const backupPath = join(tempDir, 'data.json.bak');
+      await writeFile(filePath, '{"trunc');
+      await writeFile(backupPath, '{"restored":true}');
+
+      const result = await readJsonWithRecovery(filePath, backupPath, {
+        withLock: async (restore) => {
+          // Another writer replaces the file before the lock is granted
+          await writeFile(filePath, '{"fixed":true}');
+          return restore();
+        },
+      });
+
+      expect(result).toEqual({ data: { fixed: true } });
+      expect(JSON.parse(await readFile(filePath, 'utf-8'))).toEqual({ fixed: true });
+    });
+
+    it('throws when the file is corrupt and there is no usable backup', async () => {
+      const filePath = join(tempDir, 'data.json');
+      await writeFile(filePath, '{"trunc');
+
+      await expect(readJsonWithRecovery(filePath, join(tempDir, 'none.bak'))).rejects.toThrow();
+    });
+  });
+});
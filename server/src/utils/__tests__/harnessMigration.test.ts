@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { createUnifiedDiff, migrateSlideHtml } from '../harnessMigration.js';
+
+describe('migrateSlideHtml()', () => {
+  it('strips the document wrapper of a Type A slide and merges its styles', () => {
+    const html = [
+      '\uFEFF<!DOCTYPE html>',
+      '<html lang="en"><head>',
+      '<title>Intro</title>',
+      '<style>.title { color: red; }</style>',
+      '</head>',
+      '<body class="dark">',
+      '<h1 class="title">Intro</h1>',
+      '<style>.note { margin: 0; }</style>',
+      '</body></html>',
+    ].join('\n');
+
+    expect(migrateSlideHtml(html)).toEqual({
+      status: 'migrated',
+      type: 'a',
+      content: [
+        '<!-- harness-fragment: type-a -->',
+        '<style>',
+        '.title { color: red; }\n\n.note { margin: 0; }',
+        '</style>',
+        '<h1 class="title">Intro</h1>',
+      ].join('\n'),
+    });
+  });
+
+  it('removes copy helpers and rewrites their call sites in a Type B slide', () => {
+    const html = [
+      '<body>',
+      '<button onclick="copyCommand(this)">Copy</button>',
+      '<script>',
+      'function copyCommand(el) { navigator.clipboard.writeText(el.textContent); }',
+      '</script>',
+      '<script>',
+      'const copyInline = (el) => { if (el) { el.select(); } };',
+      "function toggle(el) { el.classList.toggle('open'); copyInline(el); }",
+      '</script>',
+      '</body>',
+    ].join('\n');
+
+    const result = migrateSlideHtml(html);
+    expect(result).toMatchObject({ status: 'migrated', type: 'b' });
+    expect(result.status === 'migrated' && result.content).toBe(
+      [
+        '<!-- harness-fragment: type-b -->',
+        '<button onclick="window.copyCommand(this)">Copy</button>',
+        '',
+        '<script>',
+        '',
+        "function toggle(el) { el.classList.toggle('open'); window.copyInline(el); }",
+        '',
+        '  </script>',
+      ].join('\n')
+    );
+  });
+
+  it('flags Type C slides and keeps their content with a warning comment', () => {
+    const external = migrateSlideHtml('<script src="chart.js"></script><p>x</p>');
+    expect(external).toMatchObject({ status: 'flagged', type: 'c' });
+    expect(external.status === 'flagged' && external.content).toBe(
+      '<!-- WARNING: harness-migration-skip: type-c - external <script src> attribute found - cannot classify -->\n' +
+        '<script src="chart.js"></script><p>x</p>'
+    );
+
+    for (const script of [
+      'setInterval(tick, 1000);',
+      "localStorage.setItem('k', 1);",
+      "document.addEventListener('keydown', (e) => e.key === 'ArrowRight' && next());",
+    ]) {
+      expect(migrateSlideHtml(`<p>x</p><script>${script}</script>`)).toMatchObject({
+        status: 'flagged',
+        type: 'c',
+        reason: 'script block contains complex or competing patterns',
+      });
+    }
+  });
+
+  it('skips empty and already-migrated slides', () => {
+    expect(migrateSlideHtml(' \n')).toEqual({ status: 'skipped', reason: 'empty file' });
+    expect(migrateSlideHtml('<!-- harness-fragment: type-b -->\n<p>x</p>')).toMatchObject({
+      status: 'skipped',
+      type: 'b',
+    });
+
+    const flagged = migrateSlideHtml('<script>fetch("/api")</script>');
+    expect(flagged.status === 'flagged' && migrateSlideHtml(flagged.content)).toMatchObject({
+      status: 'skipped',
+      type: 'c',
+    });
+  });
+});
+
+describe('createUnifiedDiff()', () => {
+  it('returns hunks with three lines of context', () => {
+    const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', 'l'].join('\n');
+    const after = ['a', 'B', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', 'l', 'm'].join('\n');
+
+    expect(createUnifiedDiff(before, after, 'intro.html')).toBe(
+      [
+        '--- a/intro.html',
+        '+++ b/intro.html',
+        '@@ -1,5 +1,5 @@',
+        ' a',
+        '-b',
+        '+B',
+        ' c',
+        ' d',
+        ' e',
+        '@@ -10,3 +10,4 @@',
+        ' j',
+        ' k',
+        ' l',
+        '+m',
+      ].join('\n')
+    );
+    expect(createUnifiedDiff(before, before, 'intro.html')).toBe('');
+  });
+});
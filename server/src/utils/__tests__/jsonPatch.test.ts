@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import type { JsonPatchOperation } from '@flideck/shared';
+import { AppError } from '../../middleware/errorHandler.js';
+import { applyJsonPatch, parseJsonPatch } from '../jsonPatch.js';
+
+function statusOf(fn: () => unknown): number | undefined {
+  try {
+    fn();
+  } catch (error) {
+    return error instanceof AppError ? error.statusCode : -1;
+  }
+  return undefined;
+}
+
+describe('applyJsonPatch()', () => {
+  const manifest = {
+    meta: { name: 'Deck', purpose: 'Demo' },
+    groups: { intro: { label: 'Intro', order: 1 } },
+    slides: [{ file: 'a.html' }, { file: 'b.html' }, { file: 'c.html' }],
+  };
+
+  it('applies add, remove, replace, move and copy in order', () => {
+    const operations: JsonPatchOperation[] = [
+      { op: 'test', path: '/slides/1/file', value: 'b.html' },
+      { op: 'replace', path: '/slides/1/file', value: 'b2.html' },
+      { op: 'add', path: '/slides/-', value: { file: 'd.html' } },
+      { op: 'add', path: '/slides/0', value: { file: 'first.html' } },
+      { op: 'move', from: '/slides/4', path: '/slides/1' },
+      { op: 'remove', path: '/meta/purpose' },
+      { op: 'copy', from: '/groups/intro', path: '/groups/outro' },
+      { op: 'add', path: '/groups/a~1b', value: { label: 'Slash', order: 3 } },
+    ];
+
+    expect(applyJsonPatch(manifest, operations)).toEqual({
+      meta: { name: 'Deck' },
+      groups: {
+        intro: { label: 'Intro', order: 1 },
+        outro: { label: 'Intro', order: 1 },
+        'a/b': { label: 'Slash', order: 3 },
+      },
+      slides: [
+        { file: 'first.html' },
+        { file: 'd.html' },
+        { file: 'a.html' },
+        { file: 'b2.html' },
+        { file: 'c.html' },
+      ],
+    });
+    // The input is never modified
+    expect(manifest.slides).toHaveLength(3);
+    expect(manifest.meta.purpose).toBe('Demo');
+  });
+
+  it('compares test values structurally, ignoring key order', () => {
+    expect(() =>
+      applyJsonPatch(manifest, [
+        { op: 'test', path: '/groups/intro', value: { order: 1, label: 'Intro' } },
+      ])
+    ).not.toThrow();
+    expect(
+      statusOf(() => applyJsonPatch(manifest, [{ op: 'test', path: '/meta/name', value: 'Other' }]))
+    ).toBe(409);
+  });
+
+  it('rejects paths that do not exist with 409', () => {
+    for (const operation of [
+      { op: 'remove', path: '/meta/missing' },
+      { op: 'replace', path: '/slides/3', value: {} },
+      { op: 'add', path: '/slides/4', value: {} },
+      { op: 'add', path: '/missing/child', value: 1 },
+      { op: 'move', from: '/groups', path: '/groups/intro/nested' },
+    ] as JsonPatchOperation[]) {
+      expect(statusOf(() => applyJsonPatch(manifest, [operation]))).toBe(409);
+    }
+  });
+
+  it('rejects pointers that could reach the prototype with 400', () => {
+    expect(
+      statusOf(() => applyJsonPatch({}, [{ op: 'add', path: '/__proto__/polluted', value: true }]))
+    ).toBe(400);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
+
+describe('parseJsonPatch()', () => {
+  it('accepts well-formed operations', () => {
+    const body = [
+      { op: 'add', path: '/slides/-', value: null },
+      { op: 'move', from: '/slides/0', path: '/slides/1' },
+    ];
+    expect(parseJsonPatch(body)).toBe(body);
+  });
+
+  it('rejects malformed documents with 400', () => {
+    for (const body of [
+      { op: 'add', path: '/a', value: 1 },
+      [{ op: 'merge', path: '/a' }],
+      [{ op: 'add', path: '/a' }],
+      [{ op: 'copy', path: '/a' }],
+      [{ op: 'remove', path: 'a' }],
+    ]) {
+      expect(statusOf(() => parseJsonPatch(body))).toBe(400);
+    }
+  });
+});
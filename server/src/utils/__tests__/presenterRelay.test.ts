@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Socket } from 'socket.io';
+import { presentationRoom, registerPresenterRelay } from '../presenterRelay.js';
+
+/** Minimal stand-in for a Socket.io server socket */
+function createFakeSocket(rooms: string[]) {
+  const handlers = new Map<string, (event: unknown) => void>();
+  const emit = vi.fn();
+  const socket = {
+    rooms: new Set(rooms),
+    on: (event: string, handler: (event: unknown) => void) => handlers.set(event, handler),
+    to: vi.fn(() => ({ emit })),
+  };
+  return {
+    socket: socket as unknown as Socket,
+    to: socket.to,
+    emit,
+    receive: (event: string, payload: unknown) => handlers.get(event)?.(payload),
+  };
+}
+
+describe('registerPresenterRelay', () => {
+  const navigate = { presentationId: 'deck', session: 'abc', assetId: 'intro', tabId: null };
+  let fake: ReturnType<typeof createFakeSocket>;
+
+  beforeEach(() => {
+    fake = createFakeSocket([presentationRoom('deck')]);
+    registerPresenterRelay(fake.socket);
+  });
+
+  it('relays navigate and sync events to the rest of the room', () => {
+    fake.receive('presenter:navigate', navigate);
+    fake.receive('presenter:sync', { presentationId: 'deck', session: 'abc' });
+
+    expect(fake.to).toHaveBeenCalledWith('presentation:deck');
+    expect(fake.emit).toHaveBeenNthCalledWith(1, 'presenter:navigate', navigate);
+    expect(fake.emit).toHaveBeenNthCalledWith(2, 'presenter:sync', {
+      presentationId: 'deck',
+      session: 'abc',
+    });
+  });
+
+  it('ignores events for presentations the socket has not joined', () => {
+    fake.receive('presenter:navigate', { ...navigate, presentationId: 'other-deck' });
+    expect(fake.emit).not.toHaveBeenCalled();
+  });
+
+  it('ignores malformed events', () => {
+    fake.receive('presenter:navigate', null);
+    fake.receive('presenter:navigate', { presentationId: 'deck' });
+    fake.receive('presenter:sync', { presentationId: 'deck', session: '' });
+    expect(fake.emit).not.toHaveBeenCalled();
+  });
+});
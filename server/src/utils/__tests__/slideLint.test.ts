@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { lintSlideHtml } from '../slideLint.js';
+
+/** Rule IDs and lines of the issues found, for compact assertions */
+function findings(html: string): Array<[string, number]> {
+  return lintSlideHtml(html).map((issue) => [issue.rule, issue.line]);
+}
+
+describe('lintSlideHtml()', () => {
+  it('returns no issues for a slide that follows the authoring standard', () => {
+    const html = [
+      '<!DOCTYPE html>',
+      '<html><head>',
+      '<link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Press+Start+2P">',
+      '<style>',
+      '  .harness-slide * { box-sizing: border-box; }',
+      '  .harness-slide { background: var(--brand-brown); }',
+      '</style>',
+      '</head><body>',
+      '<button onclick="window.copyCommand(this)">Copy</button>',
+      '<script>document.addEventListener("keydown", (e) => { if (e.key === "ArrowUp") jump(); });</script>',
+      '</body></html>',
+    ].join('\n');
+
+    expect(lintSlideHtml(html)).toEqual([]);
+  });
+
+  it('reports CSS issues at the line of the offending rule or declaration', () => {
+    const html = [
+      '<style>',
+      '/* * { margin: 0 } is fine inside a comment */',
+      '*, *::before { margin: 0; }',
+      'body {',
+      '  color: white;',
+      '  background: black;',
+      '}',
+      '.toolbar { position: fixed; }',
+      '@media print { html > * { padding: 0 } }',
+      '</style>',
+    ].join('\n');
+
+    expect(findings(html)).toEqual([
+      ['global-reset', 3],
+      ['body-background', 6],
+      ['position-fixed', 8],
+      ['global-reset', 9],
+    ]);
+  });
+
+  it('reports external and module scripts as errors', () => {
+    const issues = lintSlideHtml(
+      '<p>x</p>\n<script src="chart.js"></script>\n<script type="module">run()</script>'
+    );
+
+    expect(issues).toEqual([
+      expect.objectContaining({ rule: 'external-script', severity: 'error', line: 2 }),
+      expect.objectContaining({ rule: 'module-script', severity: 'error', line: 3 }),
+    ]);
+  });
+
+  it('reports Cmd/Ctrl+Arrow handlers, copy helper definitions and navigation', () => {
+    const html = [
+      '<script>',
+      'function copyCommand(el) {}',
+      "window.addEventListener('keydown', (e) => {",
+      "  if (e.metaKey && e.key === 'ArrowRight') next();",
+      '});',
+      "window.location.href = 'other.html';",
+      '</script>',
+    ].join('\n');
+
+    expect(findings(html)).toEqual([
+      ['copy-helper-override', 2],
+      ['reserved-shortcut', 3],
+      ['window-location', 6],
+    ]);
+  });
+
+  it('reports reserved harness classes, harness font links and inline styles', () => {
+    const html = [
+      '<link href="https://fonts.googleapis.com/css2?family=Bebas+Neue&family=Oswald:wght@400">',
+      '<div class="card harness-nav">',
+      '<div style="position: fixed; top: 0">',
+    ].join('\r\n');
+
+    const issues = lintSlideHtml(html);
+    expect(issues.map((i) => [i.rule, i.line])).toEqual([
+      ['harness-font-link', 1],
+      ['reserved-class', 2],
+      ['position-fixed', 3],
+    ]);
+    expect(issues[0].message).toContain('Bebas Neue, Oswald');
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile, mkdir } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  listHtmlFiles,
+  assetIdFromPath,
+  assignAssetIds,
+  slideFolder,
+  isSafeSlidePath,
+  isScannedHtmlPath,
+} from '../slidePaths.js';
+
+describe('slidePaths', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'flideck-slidepaths-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('listHtmlFiles()', () => {
+    it('lists top-level files first, then nested files as relative POSIX paths', async () => {
+      await mkdir(join(tempDir, 'part-2'));
+      await mkdir(join(tempDir, 'part-1', 'deep'), { recursive: true });
+      await writeFile(join(tempDir, 'b.html'), '');
+      await writeFile(join(tempDir, 'a.html'), '');
+      await writeFile(join(tempDir, 'part-2', 'intro.html'), '');
+      await writeFile(join(tempDir, 'part-1', 'intro.html'), '');
+      await writeFile(join(tempDir, 'part-1', 'deep', 'detail.html'), '');
+
+      expect(await listHtmlFiles(tempDir)).toEqual([
+        'a.html',
+        'b.html',
+        'part-1/intro.html',
+        'part-1/deep/detail.html',
+        'part-2/intro.html',
+      ]);
+    });
+
+    it('skips non-HTML files, hidden folders and node_modules', async () => {
+      await mkdir(join(tempDir, '.flideck'));
+      await mkdir(join(tempDir, 'node_modules'));
+      await writeFile(join(tempDir, 'slide.html'), '');
+      await writeFile(join(tempDir, 'style.css'), '');
+      await writeFile(join(tempDir, '.flideck', 'history.html'), '');
+      await writeFile(join(tempDir, 'node_modules', 'readme.html'), '');
+
+      expect(await listHtmlFiles(tempDir)).toEqual(['slide.html']);
+    });
+  });
+
+  describe('assetIdFromPath()', () => {
+    it('keeps the bare name for top-level files', () => {
+      expect(assetIdFromPath('intro.html')).toBe('intro');
+    });
+
+    it('prefixes nested files with their folders', () => {
+      expect(assetIdFromPath('part-1/intro.html')).toBe('part-1--intro');
+      expect(assetIdFromPath('part-1/deep/intro.html')).toBe('part-1--deep--intro');
+    });
+  });
+
+  describe('assignAssetIds()', () => {
+    it('uses assetIdFromPath when IDs are unique', () => {
+      expect(assignAssetIds(['intro.html', 'part-1/intro.html'])).toEqual(
+        new Map([
+          ['intro.html', 'intro'],
+          ['part-1/intro.html', 'part-1--intro'],
+        ])
+      );
+    });
+
+    it('keeps the ID for the shallowest path and suffixes colliding ones', () => {
+      const ids = assignAssetIds([
+        'part-1/intro.html',
+        'part-1--intro.html',
+        'part-1--intro-2.html',
+        'part/1--intro.html',
+      ]);
+
+      expect(ids.get('part-1--intro.html')).toBe('part-1--intro');
+      expect(ids.get('part-1--intro-2.html')).toBe('part-1--intro-2');
+      expect(ids.get('part-1/intro.html')).toBe('part-1--intro-3');
+      expect(ids.get('part/1--intro.html')).toBe('part--1--intro');
+    });
+
+    it('does not depend on the order of the paths', () => {
+      const paths = ['a/b--c.html', 'a--b/c.html', 'a--b--c.html'];
+      expect(assignAssetIds(paths)).toEqual(assignAssetIds([...paths].reverse()));
+    });
+  });
+
+  describe('slideFolder()', () => {
+    it('returns the folder for nested files and undefined for top-level files', () => {
+      expect(slideFolder('part-1/deep/intro.html')).toBe('part-1/deep');
+      expect(slideFolder('intro.html')).toBeUndefined();
+    });
+  });
+
+  describe('isSafeSlidePath()', () => {
+    it('accepts top-level and nested .html paths', () => {
+      expect(isSafeSlidePath('intro.html')).toBe(true);
+      expect(isSafeSlidePath('part-1/intro.html')).toBe(true);
+    });
+
+    it('rejects traversal, absolute paths, backslashes and other extensions', () => {
+      expect(isSafeSlidePath('../intro.html')).toBe(false);
+      expect(isSafeSlidePath('part-1/../../intro.html')).toBe(false);
+      expect(isSafeSlidePath('/etc/intro.html')).toBe(false);
+      expect(isSafeSlidePath('part-1\\intro.html')).toBe(false);
+      expect(isSafeSlidePath('part-1//intro.html')).toBe(false);
+      expect(isSafeSlidePath('intro.txt')).toBe(false);
+    });
+  });
+
+  describe('isScannedHtmlPath()', () => {
+    it('matches the files listHtmlFiles would include', () => {
+      expect(isScannedHtmlPath('intro.html')).toBe(true);
+      expect(isScannedHtmlPath('part-1/intro.html')).toBe(true);
+      expect(isScannedHtmlPath('styles.css')).toBe(false);
+      expect(isScannedHtmlPath('.flideck/history/old.html')).toBe(false);
+      expect(isScannedHtmlPath('node_modules/pkg/readme.html')).toBe(false);
+      expect(isScannedHtmlPath(`${'d/'.repeat(9)}deep.html`)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,10 @@
+import { describe, it, expect } from 'vitest';
+import { stripSlideWrapper } from '../stripSlideWrapper.js';
+import { SLIDE_WRAPPER_FIXTURES } from '@flideck/shared/testing';
+
+// The same fixtures run through the client harness's DOMParser reader
+describe('stripSlideWrapper', () => {
+  it.each(SLIDE_WRAPPER_FIXTURES)('$name', ({ html, expected }) => {
+    expect(stripSlideWrapper(html)).toEqual(expected);
+  });
+});
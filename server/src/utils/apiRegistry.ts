@@ -0,0 +1,143 @@
+import type { RequestHandler, Router } from 'express';
+import type { JsonSchema, SchemaName } from './apiSchemas.js';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+const HTTP_METHODS: HttpMethod[] = ['get', 'post', 'put', 'patch', 'delete'];
+
+/** A schema by name (`Name[]` for an array of it), or an inline schema */
+export type SchemaSpec = SchemaName | `${SchemaName}[]` | JsonSchema;
+
+/**
+ * Documentation of one route, attached with describeRoute().
+ */
+export interface RouteDoc {
+  /** One line, shown in the capabilities summary and as the OpenAPI summary */
+  summary: string;
+  /** Longer explanation (OpenAPI description) */
+  description?: string;
+  /** Capabilities section and OpenAPI tag (defaults to the last segment of the mount path) */
+  section?: string;
+  /** Path parameters, where the standard description (see openApi.ts) does not fit */
+  params?: Record<string, string>;
+  /** Query parameters and what they do */
+  query?: Record<string, string>;
+  /** JSON request body, or request bodies by media type (validateBody() sets it) */
+  body?: SchemaName | Record<string, SchemaName>;
+  /** `data` of a successful response (omit when it is null) */
+  response?: SchemaSpec;
+  /** Status of a successful response (default 200) */
+  status?: number;
+  /** Media types of a response that is not JSON, e.g. ['text/event-stream'] */
+  produces?: string[];
+  /** The JSON response is not wrapped in the { success, data } envelope */
+  unwrapped?: boolean;
+}
+
+/**
+ * A route found in the mounted routers.
+ */
+export interface ApiEndpoint {
+  method: HttpMethod;
+  /** Full Express path, e.g. '/api/presentations/:id/slides' */
+  path: string;
+  section: string;
+  /** Undefined for routes registered without describeRoute() */
+  doc?: RouteDoc;
+}
+
+const ROUTE_DOC = Symbol('routeDoc');
+
+type DocumentedHandler = RequestHandler & { [ROUTE_DOC]?: Partial<RouteDoc> };
+
+/** The parts of an Express router layer the registry reads */
+interface RouterLayer {
+  route?: {
+    path: unknown;
+    methods: Record<string, boolean>;
+    stack: Array<{ handle: DocumentedHandler }>;
+  };
+}
+
+/**
+ * Attach part of a route's documentation to one of its middleware, for
+ * middleware that determines what is documented (validateBody() and the
+ * request body). ApiRegistry merges the parts of a route in order.
+ */
+export function withRouteDoc<T extends RequestHandler>(handler: T, doc: Partial<RouteDoc>): T {
+  (handler as DocumentedHandler)[ROUTE_DOC] = doc;
+  return handler;
+}
+
+/**
+ * Document a route. Pass it before the handler:
+ *
+ *   router.post('/:id/slides', describeRoute({ summary: 'Add slide' }), ...handlers)
+ *
+ * It only calls next(); ApiRegistry reads the documentation from the router.
+ */
+export function describeRoute(doc: RouteDoc): RequestHandler {
+  return withRouteDoc((_req, _res, next) => next(), doc);
+}
+
+/** The documentation attached to a route's middleware, if it has a summary */
+function routeDocOf(stack: Array<{ handle: DocumentedHandler }>): RouteDoc | undefined {
+  const doc: Partial<RouteDoc> = {};
+  for (const layer of stack) {
+    Object.assign(doc, layer.handle[ROUTE_DOC]);
+  }
+  return doc.summary ? (doc as RouteDoc) : undefined;
+}
+
+function joinPath(prefix: string, path: string): string {
+  const joined = `${prefix}${path === '/' ? '' : path}`;
+  return joined || '/';
+}
+
+/**
+ * Every route of the API, read from the routers themselves so that the
+ * OpenAPI document and the capabilities summary cannot list endpoints that no
+ * longer exist or miss new ones. Routes without describeRoute() are still
+ * listed, without documentation.
+ */
+export class ApiRegistry {
+  private mounts: Array<{ path: string; router: Router }> = [];
+
+  /**
+   * Record a router and the full path it is mounted at ('' for the app router).
+   * Routes are read on demand, so routes added later are picked up.
+   */
+  mount(path: string, router: Router): void {
+    this.mounts.push({ path, router });
+  }
+
+  /**
+   * Every route of the recorded routers, in registration order.
+   * Middleware and nested routers are skipped.
+   */
+  endpoints(): ApiEndpoint[] {
+    const endpoints: ApiEndpoint[] = [];
+
+    for (const mount of this.mounts) {
+      const defaultSection = mount.path.split('/').filter(Boolean).pop() ?? 'api';
+      const layers = (mount.router as unknown as { stack: RouterLayer[] }).stack;
+
+      for (const { route } of layers) {
+        if (!route || typeof route.path !== 'string') continue;
+
+        const doc = routeDocOf(route.stack);
+        for (const method of HTTP_METHODS) {
+          if (!route.methods[method]) continue;
+          endpoints.push({
+            method,
+            path: joinPath(mount.path, route.path),
+            section: doc?.section ?? defaultSection,
+            doc,
+          });
+        }
+      }
+    }
+
+    return endpoints;
+  }
+}
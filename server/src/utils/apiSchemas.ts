@@ -0,0 +1,778 @@
+import type {
+  AddSlideRequest,
+  ApplyTemplateRequest,
+  Asset,
+  AssetContent,
+  BulkAddGroupsRequest,
+  BulkAddSlidesRequest,
+  BulkOperationResult,
+  ClonePresentationRequest,
+  ConfigResponse,
+  CreateGroupRequest,
+  CreatePresentationRequest,
+  CreatePresentationResponse,
+  CreateTabRequest,
+  DeletePresentationResponse,
+  FileRecoveryEvent,
+  GroupDefinition,
+  LintIssue,
+  ManifestHistoryEntry,
+  ManifestPatchResult,
+  ManifestTemplate,
+  ManifestValidationError,
+  MigratePresentationRequest,
+  MigrationResult,
+  Presentation,
+  PresentationLintResponse,
+  PresentationLocation,
+  PresentationRoot,
+  QueryPresentationResponse,
+  QueryRoute,
+  QueryRouteResponse,
+  QueryRoutesResponse,
+  RenamePresentationRequest,
+  ReorderGroupsRequest,
+  ReorderTabsRequest,
+  SearchResponse,
+  SearchResult,
+  SetGroupParentRequest,
+  SlideLintResult,
+  SlideMigrationResult,
+  SyncFromIndexRequest,
+  SyncFromIndexResponse,
+  SyncManifestRequest,
+  TabDefinition,
+  UpdateAssetOrderRequest,
+  UpdateConfigRequest,
+  UpdateConfigResponse,
+  UpdateGroupRequest,
+  UpdateSlideRequest,
+  UpdateTabRequest,
+  ValidateManifestRequest,
+  ValidateManifestResponse,
+  WatcherHealth,
+  WatcherStatus,
+  WriteSlideContentRequest,
+} from '@flideck/shared';
+import { getSchema } from './manifestValidator.js';
+
+/**
+ * A JSON Schema (the 2020-12 dialect used by OpenAPI 3.1).
+ */
+export type JsonSchema = Record<string, unknown>;
+
+type RequiredKeys<T> = { [K in keyof T]-?: undefined extends T[K] ? never : K }[keyof T];
+
+/**
+ * An object schema checked against a shared type: every property must be
+ * described (and no others), and only required properties can be required.
+ */
+type ObjectSchema<T> = {
+  type: 'object';
+  description?: string;
+  properties: { [K in keyof T]-?: JsonSchema };
+  required?: Array<RequiredKeys<T>>;
+};
+
+function objectSchema<T>(schema: ObjectSchema<T>): JsonSchema {
+  return schema;
+}
+
+/**
+ * Reference to another schema in API_SCHEMAS.
+ */
+export function schemaRef(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+const string = (description?: string): JsonSchema =>
+  description ? { type: 'string', description } : { type: 'string' };
+const boolean = (description?: string): JsonSchema =>
+  description ? { type: 'boolean', description } : { type: 'boolean' };
+const integer = (description?: string): JsonSchema =>
+  description ? { type: 'integer', description } : { type: 'integer' };
+const arrayOf = (items: JsonSchema, description?: string): JsonSchema =>
+  description ? { type: 'array', items, description } : { type: 'array', items };
+const oneOf = (values: string[], description?: string): JsonSchema =>
+  description ? { type: 'string', enum: values, description } : { type: 'string', enum: values };
+
+/** Presentation IDs must be folder-name safe */
+const PRESENTATION_ID = { type: 'string', pattern: '^[a-zA-Z0-9_-]+$', minLength: 1 };
+/** Group and tab IDs are lowercase kebab-case */
+const KEBAB_ID = { type: 'string', pattern: '^[a-z0-9]+(?:-[a-z0-9]+)*$' };
+/** Slide files are relative paths ending with .html */
+const SLIDE_FILE = { type: 'string', pattern: '\\.html$', minLength: 1 };
+
+/**
+ * What the patterns above mean, for validation errors ("must match pattern
+ * ^[a-z0-9]+..." tells a caller little).
+ */
+export const PATTERN_MESSAGES: Record<string, string> = {
+  [PRESENTATION_ID.pattern]: 'must contain only letters, numbers, hyphens, and underscores',
+  [KEBAB_ID.pattern]: 'must be lowercase kebab-case (e.g., "my-group")',
+  [SLIDE_FILE.pattern]: 'must be a relative path ending with .html',
+};
+
+/**
+ * The manifest JSON Schema (shared/schema/manifest.schema.json) as a component.
+ */
+function manifestSchema(): JsonSchema {
+  const schema: JsonSchema = { ...getSchema() };
+  delete schema.$schema;
+  delete schema.$id;
+  delete schema.examples;
+  return schema;
+}
+
+// ============================================================
+// Request bodies
+// ============================================================
+
+/**
+ * JSON Schemas of request bodies. validateBody() checks bodies against them
+ * and GET /api/schema/requests/:name serves them.
+ */
+export const REQUEST_SCHEMAS = {
+  UpdateAssetOrderRequest: objectSchema<UpdateAssetOrderRequest>({
+    type: 'object',
+    properties: { order: arrayOf(string(), 'Ordered array of asset filenames') },
+    required: ['order'],
+  }),
+  CreatePresentationRequest: objectSchema<CreatePresentationRequest>({
+    type: 'object',
+    properties: {
+      id: { ...PRESENTATION_ID, description: 'Presentation ID (becomes the folder name)' },
+      name: string('Display name'),
+      slides: arrayOf(
+        {
+          type: 'object',
+          properties: { file: SLIDE_FILE, title: string(), group: string() },
+          required: ['file'],
+        },
+        'Initial slides'
+      ),
+    },
+    required: ['id'],
+  }),
+  RenamePresentationRequest: objectSchema<RenamePresentationRequest>({
+    type: 'object',
+    properties: {
+      newId: { ...PRESENTATION_ID, description: 'New folder name (same root)' },
+      name: string('New display name (written to the manifest)'),
+    },
+    required: ['newId'],
+  }),
+  ClonePresentationRequest: objectSchema<ClonePresentationRequest>({
+    type: 'object',
+    properties: {
+      newId: { ...PRESENTATION_ID, description: 'Folder name of the copy (same root)' },
+      name: string('Display name of the copy (written to the manifest)'),
+    },
+    required: ['newId'],
+  }),
+  AddSlideRequest: objectSchema<AddSlideRequest>({
+    type: 'object',
+    properties: {
+      file: {
+        ...SLIDE_FILE,
+        description: "Path in the presentation folder, e.g. 'part-1/intro.html'",
+      },
+      title: string(),
+      group: string('Group ID'),
+      description: string(),
+      recommended: boolean(),
+      content: string('Slide HTML to write to file before registering it'),
+    },
+    required: ['file'],
+  }),
+  UpdateSlideRequest: objectSchema<UpdateSlideRequest>({
+    type: 'object',
+    properties: {
+      title: string(),
+      group: { type: ['string', 'null'], description: 'Group ID (null or empty for root level)' },
+      description: string(),
+      recommended: boolean(),
+    },
+  }),
+  WriteSlideContentRequest: objectSchema<WriteSlideContentRequest>({
+    type: 'object',
+    properties: {
+      content: string('Full HTML document for the slide'),
+      file: string(
+        "File to create for a slide not in the manifest yet (defaults to '<slideId>.html')"
+      ),
+    },
+    required: ['content'],
+  }),
+  ReorderGroupsRequest: objectSchema<ReorderGroupsRequest>({
+    type: 'object',
+    properties: { order: arrayOf(string(), 'Ordered array of group IDs') },
+    required: ['order'],
+  }),
+  CreateGroupRequest: objectSchema<CreateGroupRequest>({
+    type: 'object',
+    properties: { id: KEBAB_ID, label: { type: 'string', minLength: 1 } },
+    required: ['id', 'label'],
+  }),
+  UpdateGroupRequest: objectSchema<UpdateGroupRequest>({
+    type: 'object',
+    properties: { label: { type: 'string', minLength: 1 } },
+    required: ['label'],
+  }),
+  CreateTabRequest: objectSchema<CreateTabRequest>({
+    type: 'object',
+    properties: { id: KEBAB_ID, label: { type: 'string', minLength: 1 } },
+    required: ['id', 'label'],
+  }),
+  UpdateTabRequest: objectSchema<UpdateTabRequest>({
+    type: 'object',
+    properties: { label: { type: 'string', minLength: 1 } },
+    required: ['label'],
+  }),
+  ReorderTabsRequest: objectSchema<ReorderTabsRequest>({
+    type: 'object',
+    properties: { order: arrayOf(string(), 'Ordered array of tab IDs') },
+    required: ['order'],
+  }),
+  SetGroupParentRequest: objectSchema<SetGroupParentRequest>({
+    type: 'object',
+    properties: { parent: { type: 'string', minLength: 1, description: 'Parent tab ID' } },
+    required: ['parent'],
+  }),
+  BulkAddSlidesRequest: objectSchema<BulkAddSlidesRequest>({
+    type: 'object',
+    properties: {
+      slides: arrayOf({
+        type: 'object',
+        properties: {
+          file: SLIDE_FILE,
+          title: string(),
+          group: string(),
+          description: string(),
+          recommended: boolean(),
+          content: string('Slide HTML to write to the (possibly renamed) file'),
+        },
+        required: ['file'],
+      }),
+      createGroups: boolean("Create groups that don't exist"),
+      position: {
+        description: "'start', 'end' or { after: <slide file> }",
+        oneOf: [
+          oneOf(['start', 'end']),
+          { type: 'object', properties: { after: string() }, required: ['after'] },
+        ],
+      },
+      onConflict: {
+        type: 'object',
+        properties: {
+          duplicateFile: oneOf(['skip', 'replace', 'rename']),
+          groupMismatch: oneOf(['keep', 'update']),
+        },
+      },
+      dryRun: boolean('Validate without persisting'),
+    },
+    required: ['slides'],
+  }),
+  BulkAddGroupsRequest: objectSchema<BulkAddGroupsRequest>({
+    type: 'object',
+    properties: {
+      groups: arrayOf({
+        type: 'object',
+        properties: { id: KEBAB_ID, label: { type: 'string', minLength: 1 }, order: integer() },
+        required: ['id', 'label'],
+      }),
+      dryRun: boolean('Validate without persisting'),
+    },
+    required: ['groups'],
+  }),
+  SyncManifestRequest: objectSchema<SyncManifestRequest>({
+    type: 'object',
+    properties: {
+      strategy: oneOf(['merge', 'replace', 'addOnly']),
+      inferGroups: boolean('Detect groups from filename prefixes'),
+      inferTitles: boolean('Extract titles from HTML title tags'),
+    },
+  }),
+  ValidateManifestRequest: objectSchema<ValidateManifestRequest>({
+    type: 'object',
+    properties: {
+      manifest: { type: 'object', description: 'Manifest to validate' },
+      checkFiles: boolean('Check that referenced files exist'),
+    },
+    required: ['manifest'],
+  }),
+  ApplyTemplateRequest: objectSchema<ApplyTemplateRequest>({
+    type: 'object',
+    properties: {
+      templateId: { type: 'string', minLength: 1 },
+      merge: boolean('Merge with the existing manifest (default) instead of replacing it'),
+    },
+    required: ['templateId'],
+  }),
+  SyncFromIndexRequest: objectSchema<SyncFromIndexRequest>({
+    type: 'object',
+    properties: {
+      strategy: oneOf(['merge', 'replace']),
+      inferTabs: boolean('Detect tabs from index-*.html files (default: true)'),
+      parseCards: boolean('Extract slides from card elements (default: true)'),
+    },
+  }),
+  MigratePresentationRequest: objectSchema<MigratePresentationRequest>({
+    type: 'object',
+    properties: {
+      output: oneOf(['sibling', 'in-place'], "Defaults to 'sibling'"),
+      targetId: { ...PRESENTATION_ID, description: "Sibling folder name (defaults to '<id>-v2')" },
+      dryRun: boolean('Classify and diff without writing'),
+    },
+  }),
+  UpdateConfigRequest: objectSchema<UpdateConfigRequest>({
+    type: 'object',
+    properties: {
+      presentationsRoot: {
+        type: 'string',
+        minLength: 1,
+        description: 'Primary presentations directory (~ is expanded)',
+      },
+      roots: arrayOf(
+        {
+          type: 'object',
+          properties: { name: string(), path: { type: 'string', minLength: 1 } },
+          required: ['path'],
+        },
+        'Additional roots'
+      ),
+    },
+  }),
+  JsonPatch: arrayOf(
+    {
+      type: 'object',
+      properties: {
+        op: oneOf(['add', 'remove', 'replace', 'move', 'copy', 'test']),
+        path: string('JSON Pointer into the manifest'),
+        from: string('Source pointer (move and copy)'),
+        value: { description: 'Value for add, replace and test' },
+      },
+      required: ['op', 'path'],
+    },
+    'RFC 6902 JSON Patch (Content-Type: application/json-patch+json)'
+  ),
+};
+
+// ============================================================
+// Response data
+// ============================================================
+
+const RESPONSE_SCHEMAS = {
+  FlideckManifest: manifestSchema(),
+  GroupDefinition: objectSchema<GroupDefinition>({
+    type: 'object',
+    properties: {
+      label: string(),
+      order: { type: 'number' },
+      tab: boolean(),
+      parent: string('Parent group ID'),
+      tabId: string('Container tab ID'),
+    },
+    required: ['label', 'order'],
+  }),
+  TabDefinition: objectSchema<TabDefinition>({
+    type: 'object',
+    properties: {
+      id: string(),
+      label: string(),
+      subtitle: string(),
+      file: string('Index HTML file of the tab'),
+      order: { type: 'number' },
+    },
+    required: ['id', 'label', 'file', 'order'],
+  }),
+  Asset: objectSchema<Asset>({
+    type: 'object',
+    properties: {
+      id: string(
+        "Relative path without extension, folders joined by '--' (suffixed '-2', '-3', ... on collision)"
+      ),
+      name: string(),
+      filename: string('Path relative to the presentation folder'),
+      relativePath: string(),
+      folder: string(),
+      isIndex: boolean(),
+      createdAt: integer('Epoch milliseconds'),
+      lastModified: integer('Epoch milliseconds'),
+      url: string(),
+      group: string(),
+      title: string(),
+      description: string(),
+      recommended: boolean(),
+      viewportLock: boolean(),
+      notes: string('Speaker notes'),
+      harnessType: oneOf(['a', 'b', 'c']),
+    },
+    required: ['id', 'name', 'filename', 'relativePath', 'isIndex', 'createdAt', 'lastModified'],
+  }),
+  Presentation: objectSchema<Presentation>({
+    type: 'object',
+    properties: {
+      id: string("Folder name; '<root>:<folder>' in secondary roots"),
+      root: string(),
+      name: string(),
+      path: string(),
+      assets: arrayOf(schemaRef('Asset')),
+      lastModified: integer('Epoch milliseconds'),
+      groups: { type: 'object', additionalProperties: schemaRef('GroupDefinition') },
+      meta: { type: 'object', description: 'Manifest meta' },
+      tabs: arrayOf(schemaRef('TabDefinition')),
+    },
+    required: ['id', 'name', 'path', 'assets', 'lastModified'],
+  }),
+  CreatePresentationResponse: objectSchema<CreatePresentationResponse>({
+    type: 'object',
+    properties: { path: string('Absolute folder path') },
+    required: ['path'],
+  }),
+  AssetContent: objectSchema<AssetContent>({
+    type: 'object',
+    properties: { content: string('Raw HTML of the asset'), asset: schemaRef('Asset') },
+    required: ['content', 'asset'],
+  }),
+  PresentationLocation: objectSchema<PresentationLocation>({
+    type: 'object',
+    properties: { id: string(), path: string() },
+    required: ['id', 'path'],
+  }),
+  DeletePresentationResponse: objectSchema<DeletePresentationResponse>({
+    type: 'object',
+    properties: {
+      id: string(),
+      soft: boolean('True when the folder was moved to the trash'),
+      trashPath: string(),
+    },
+    required: ['id', 'soft'],
+  }),
+  ManifestHistoryEntry: objectSchema<ManifestHistoryEntry>({
+    type: 'object',
+    properties: {
+      version: string('Sortable UTC timestamp'),
+      createdAt: { type: 'string', format: 'date-time' },
+      size: integer('Bytes'),
+    },
+    required: ['version', 'createdAt', 'size'],
+  }),
+  ManifestPatchResult: objectSchema<ManifestPatchResult>({
+    type: 'object',
+    properties: { dryRun: boolean(), manifest: schemaRef('FlideckManifest') },
+    required: ['dryRun', 'manifest'],
+  }),
+  BulkOperationResult: objectSchema<BulkOperationResult>({
+    type: 'object',
+    properties: {
+      added: integer(),
+      skipped: integer(),
+      updated: integer(),
+      skippedItems: arrayOf({
+        type: 'object',
+        properties: { item: string(), reason: string() },
+        required: ['item', 'reason'],
+      }),
+      written: arrayOf(string()),
+      dryRun: boolean('True when the request was only validated'),
+      message: string('Dry run summary'),
+      slides: integer('Number of slides a dry run validated'),
+      groups: integer('Number of groups a dry run validated'),
+    },
+  }),
+  ManifestValidationError: objectSchema<ManifestValidationError>({
+    type: 'object',
+    properties: { path: string("e.g. 'slides[2].file'"), message: string() },
+    required: ['path', 'message'],
+  }),
+  ValidateManifestResponse: objectSchema<ValidateManifestResponse>({
+    type: 'object',
+    properties: {
+      valid: boolean(),
+      errors: arrayOf(schemaRef('ManifestValidationError')),
+      warnings: arrayOf(schemaRef('ManifestValidationError')),
+    },
+    required: ['valid'],
+  }),
+  SyncFromIndexResponse: objectSchema<SyncFromIndexResponse>({
+    type: 'object',
+    properties: {
+      success: boolean(),
+      format: oneOf(['flat', 'tabbed']),
+      tabs: {
+        type: 'object',
+        properties: { created: arrayOf(string()), updated: arrayOf(string()) },
+      },
+      groups: {
+        type: 'object',
+        properties: { created: arrayOf(string()), updated: arrayOf(string()) },
+      },
+      slides: {
+        type: 'object',
+        properties: { assigned: integer(), skipped: integer(), orphaned: integer() },
+      },
+      warnings: arrayOf(string()),
+    },
+    required: ['success', 'format', 'tabs', 'groups', 'slides', 'warnings'],
+  }),
+  ManifestTemplate: objectSchema<ManifestTemplate>({
+    type: 'object',
+    properties: {
+      id: string(),
+      name: string(),
+      description: string(),
+      structure: { type: 'object', description: 'Partial manifest' },
+    },
+    required: ['id', 'name', 'description', 'structure'],
+  }),
+  LintIssue: objectSchema<LintIssue>({
+    type: 'object',
+    properties: {
+      rule: string(),
+      severity: oneOf(['error', 'warning']),
+      message: string(),
+      line: integer('1-based line in the slide file'),
+    },
+    required: ['rule', 'severity', 'message', 'line'],
+  }),
+  SlideLintResult: objectSchema<SlideLintResult>({
+    type: 'object',
+    properties: {
+      assetId: string(),
+      filename: string(),
+      issues: arrayOf(schemaRef('LintIssue')),
+      errors: integer(),
+      warnings: integer(),
+    },
+    required: ['assetId', 'filename', 'issues', 'errors', 'warnings'],
+  }),
+  PresentationLintResponse: objectSchema<PresentationLintResponse>({
+    type: 'object',
+    properties: {
+      presentationId: string(),
+      slides: arrayOf(schemaRef('SlideLintResult')),
+      errors: integer(),
+      warnings: integer(),
+    },
+    required: ['presentationId', 'slides', 'errors', 'warnings'],
+  }),
+  SlideMigrationResult: objectSchema<SlideMigrationResult>({
+    type: 'object',
+    properties: {
+      file: string(),
+      status: oneOf(['migrated', 'flagged', 'skipped']),
+      type: oneOf(['a', 'b', 'c']),
+      reason: string(),
+      diff: string('Unified diff (dry runs only)'),
+    },
+    required: ['file', 'status'],
+  }),
+  MigrationResult: objectSchema<MigrationResult>({
+    type: 'object',
+    properties: {
+      presentationId: string(),
+      targetId: string(),
+      output: oneOf(['sibling', 'in-place']),
+      dryRun: boolean(),
+      slides: arrayOf(schemaRef('SlideMigrationResult')),
+      migrated: integer(),
+      flagged: integer(),
+      skipped: integer(),
+    },
+    required: [
+      'presentationId',
+      'targetId',
+      'output',
+      'dryRun',
+      'slides',
+      'migrated',
+      'flagged',
+      'skipped',
+    ],
+  }),
+  SearchResult: objectSchema<SearchResult>({
+    type: 'object',
+    properties: {
+      presentationId: string(),
+      presentationName: string(),
+      assetId: string(),
+      assetName: string(),
+      field: oneOf(['title', 'heading', 'description', 'notes', 'body']),
+      snippet: string(),
+      highlights: arrayOf({
+        type: 'object',
+        properties: { start: integer(), end: integer() },
+        required: ['start', 'end'],
+      }),
+      score: { type: 'number' },
+    },
+    required: [
+      'presentationId',
+      'presentationName',
+      'assetId',
+      'assetName',
+      'field',
+      'snippet',
+      'highlights',
+      'score',
+    ],
+  }),
+  SearchResponse: objectSchema<SearchResponse>({
+    type: 'object',
+    properties: {
+      query: string(),
+      results: arrayOf(schemaRef('SearchResult')),
+      total: integer('Matches before the limit was applied'),
+    },
+    required: ['query', 'results', 'total'],
+  }),
+  PresentationRoot: objectSchema<PresentationRoot>({
+    type: 'object',
+    properties: { name: string(), path: string(), isPrimary: boolean() },
+    required: ['name', 'path', 'isPrimary'],
+  }),
+  ConfigResponse: objectSchema<ConfigResponse>({
+    type: 'object',
+    properties: {
+      presentationsRoot: string(),
+      roots: arrayOf(schemaRef('PresentationRoot')),
+      history: arrayOf(string()),
+    },
+    required: ['presentationsRoot', 'roots', 'history'],
+  }),
+  UpdateConfigResponse: objectSchema<UpdateConfigResponse>({
+    type: 'object',
+    properties: {
+      presentationsRoot: string(),
+      roots: arrayOf(schemaRef('PresentationRoot')),
+    },
+    required: ['presentationsRoot', 'roots'],
+  }),
+  QueryRoute: objectSchema<QueryRoute>({
+    type: 'object',
+    properties: {
+      name: string(),
+      path: string(),
+      presentationCount: integer(),
+      isCurrent: boolean('The primary root'),
+      isServed: boolean('False for roots only in the history'),
+    },
+    required: ['name', 'path', 'presentationCount', 'isCurrent', 'isServed'],
+  }),
+  QueryRoutesResponse: objectSchema<QueryRoutesResponse>({
+    type: 'object',
+    properties: {
+      routes: arrayOf(schemaRef('QueryRoute')),
+      currentRoute: string(),
+    },
+    required: ['routes', 'currentRoute'],
+  }),
+  QueryRouteResponse: objectSchema<QueryRouteResponse>({
+    type: 'object',
+    properties: {
+      name: string(),
+      path: string(),
+      presentations: arrayOf({
+        type: 'object',
+        properties: {
+          id: string(),
+          name: string(),
+          assetCount: integer(),
+          lastModified: { type: 'string', format: 'date-time' },
+        },
+      }),
+    },
+    required: ['name', 'path', 'presentations'],
+  }),
+  QueryPresentationResponse: objectSchema<QueryPresentationResponse>({
+    type: 'object',
+    properties: {
+      id: string(),
+      name: string(),
+      route: string('Root name'),
+      assets: arrayOf({
+        type: 'object',
+        properties: {
+          id: string(),
+          name: string('Filename'),
+          order: integer('1-based position'),
+          size: integer('Bytes'),
+          lastModified: { type: 'string', format: 'date-time' },
+        },
+      }),
+      totalAssets: integer(),
+    },
+    required: ['id', 'name', 'route', 'assets', 'totalAssets'],
+  }),
+  FileRecoveryEvent: objectSchema<FileRecoveryEvent>({
+    type: 'object',
+    properties: {
+      kind: oneOf(['manifest', 'config']),
+      presentationId: string(),
+      file: string('Path of the corrupt file'),
+      backup: string('Backup it was restored from'),
+      reason: string(),
+      recoveredAt: { type: 'string', format: 'date-time' },
+    },
+    required: ['kind', 'file', 'backup', 'reason', 'recoveredAt'],
+  }),
+  HealthResponse: {
+    type: 'object',
+    properties: {
+      success: { const: true },
+      status: { const: 'ok' },
+      timestamp: { type: 'string', format: 'date-time' },
+      presentationsRoot: string(),
+      roots: arrayOf(string(), 'Names of the served roots'),
+      activeWatchers: arrayOf(string()),
+      watchers: schemaRef('WatcherHealth'),
+      recoveries: arrayOf(schemaRef('FileRecoveryEvent'), 'Recent restores from backup'),
+    },
+    required: ['success', 'status', 'timestamp', 'watchers'],
+  },
+  JsonSchemaDocument: { type: 'object', description: 'A JSON Schema (draft-07)' },
+  WatcherStatus: objectSchema<WatcherStatus>({
+    type: 'object',
+    properties: {
+      name: string(),
+      path: string(),
+      state: oneOf(['starting', 'watching', 'restarting']),
+      mode: oneOf(['native', 'polling']),
+      fallback: boolean(),
+      lastEventAt: { type: ['string', 'null'] },
+      errorCount: integer(),
+      lastError: { type: ['string', 'null'] },
+      restarts: integer(),
+    },
+    required: [
+      'name',
+      'path',
+      'state',
+      'mode',
+      'fallback',
+      'lastEventAt',
+      'errorCount',
+      'lastError',
+      'restarts',
+    ],
+  }),
+  WatcherHealth: objectSchema<WatcherHealth>({
+    type: 'object',
+    properties: { degraded: boolean(), watchers: arrayOf(schemaRef('WatcherStatus')) },
+    required: ['degraded', 'watchers'],
+  }),
+};
+
+/**
+ * JSON Schemas of API request bodies and response data, by name (the shared
+ * type name where there is one). Served as OpenAPI components.
+ */
+export const API_SCHEMAS: Record<SchemaName, JsonSchema> = {
+  ...REQUEST_SCHEMAS,
+  ...RESPONSE_SCHEMAS,
+};
+
+export type RequestSchemaName = keyof typeof REQUEST_SCHEMAS;
+
+export type SchemaName = RequestSchemaName | keyof typeof RESPONSE_SCHEMAS;
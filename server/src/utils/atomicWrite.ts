@@ -0,0 +1,161 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { randomBytes } from 'crypto';
+
+/**
+ * Result of reading a JSON file that may have been recovered from its backup.
+ */
+export interface RecoveredJson<T> {
+  data: T;
+  /** Set when the primary file was unreadable and the backup was used instead */
+  recovery?: {
+    /** Why the primary file was rejected (e.g., the JSON parse error) */
+    reason: string;
+  };
+}
+
+/**
+ * Write a file atomically: write a hidden temp file in the same directory,
+ * fsync it, then rename it over the target. Readers (and the file watcher)
+ * only ever see the old or the new content, never a truncated file.
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const dir = path.dirname(filePath);
+  const suffix = `${process.pid}.${randomBytes(4).toString('hex')}`;
+  const tempPath = path.join(dir, `.${path.basename(filePath)}.${suffix}.tmp`);
+
+  try {
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(content, 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+
+  await syncDirectory(dir);
+}
+
+/**
+ * Atomically write JSON (2-space indent, trailing newline).
+ * When backupPath is given, the current file is first copied there - but only
+ * if it still parses, so the backup is always the last known-good version.
+ */
+export async function writeJsonAtomic(
+  filePath: string,
+  data: unknown,
+  options: { backupPath?: string } = {}
+): Promise<void> {
+  if (options.backupPath) {
+    await backupIfValid(filePath, options.backupPath);
+  }
+  await writeFileAtomic(filePath, JSON.stringify(data, null, 2) + '\n');
+}
+
+/**
+ * Options for readJsonWithRecovery().
+ */
+export interface RecoveryOptions {
+  /**
+   * Runs the restore of the primary file, e.g. inside a lock shared with the
+   * file's other writers (default: runs it directly)
+   */
+  withLock?: <R>(restore: () => Promise<R>) => Promise<R>;
+}
+
+type ParsedJson<T> = { data: T } | { error: unknown } | null;
+
+/**
+ * Read and parse a JSON file (null if it does not exist, { error } if it does not parse).
+ */
+async function parseJsonFile<T>(filePath: string): Promise<ParsedJson<T>> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+
+  try {
+    return { data: JSON.parse(content) as T };
+  } catch (error) {
+    return { error };
+  }
+}
+
+/**
+ * Read and parse a JSON file, falling back to its backup if the primary is corrupt.
+ * On recovery the primary is rewritten from the backup so later reads are clean.
+ * The rewrite runs through options.withLock and re-reads the primary first, so
+ * it never replaces a file another writer has fixed in the meantime.
+ *
+ * @returns null if the primary file does not exist
+ * @throws the original parse/read error if the primary is corrupt and no usable backup exists
+ */
+export async function readJsonWithRecovery<T = unknown>(
+  filePath: string,
+  backupPath?: string,
+  { withLock = (restore) => restore() }: RecoveryOptions = {}
+): Promise<RecoveredJson<T> | null> {
+  const primary = await parseJsonFile<T>(filePath);
+  if (!primary || 'data' in primary) return primary;
+  if (!backupPath) throw primary.error;
+
+  return withLock(async () => {
+    const current = await parseJsonFile<T>(filePath);
+    if (!current || 'data' in current) return current;
+
+    let backupContent: string;
+    let data: T;
+    try {
+      backupContent = await fs.readFile(backupPath, 'utf-8');
+      data = JSON.parse(backupContent) as T;
+    } catch {
+      // Backup missing or also corrupt - surface the original problem
+      throw current.error;
+    }
+
+    await writeFileAtomic(filePath, backupContent);
+    return { data, recovery: { reason: (current.error as Error).message } };
+  });
+}
+
+/**
+ * Copy filePath to backupPath if it exists and contains valid JSON.
+ */
+async function backupIfValid(filePath: string, backupPath: string): Promise<void> {
+  let current: string;
+  try {
+    current = await fs.readFile(filePath, 'utf-8');
+    JSON.parse(current);
+  } catch {
+    // Nothing to back up, or the current file is already corrupt - keep the old backup
+    return;
+  }
+
+  await fs.mkdir(path.dirname(backupPath), { recursive: true });
+  await writeFileAtomic(backupPath, current);
+}
+
+/**
+ * Flush the directory entry so the rename itself survives a crash.
+ * Best effort: not every platform allows fsync on a directory handle.
+ */
+async function syncDirectory(dir: string): Promise<void> {
+  try {
+    const handle = await fs.open(dir, 'r');
+    try {
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    // Ignore - e.g., Windows does not support opening directories
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * A slide prepared for the offline bundle: assets inlined, styles already scoped.
+ */
+export interface BundleSlide {
+  /** Asset ID (used as the URL hash, e.g., '#part-1--intro') */
+  id: string;
+  title: string;
+  /** Path relative to the presentation folder - matched by in-slide links */
+  file: string;
+  group?: string;
+  viewportLock: boolean;
+  /** Scoped CSS (see scopeSlideStyles) */
+  styles: string;
+  body: string;
+  scripts: string[];
+}
+
+/**
+ * One navigable slide sequence: the whole deck, or one container tab.
+ */
+export interface BundleSection {
+  /** Tab ID, or null when the presentation has no tabs */
+  id: string | null;
+  label: string;
+  /** Indexes into BundleData.slides, in sidebar order */
+  slides: number[];
+}
+
+export interface BundleData {
+  title: string;
+  /** Sidebar group labels by group ID */
+  groups: Record<string, string>;
+  sections: BundleSection[];
+  slides: BundleSlide[];
+}
+
+/**
+ * Harness base styles (client/src/harness/harness.css): fonts, token palette
+ * and slide container. Fonts still come from Google Fonts, so they fall back
+ * to system fonts when the bundle is opened without a network connection.
+ */
+const HARNESS_CSS = `@import url('https://fonts.googleapis.com/css2?family=Bebas+Neue&family=Oswald:wght@400;500;600;700&family=Roboto:wght@300;400;500;700&family=Roboto+Mono:wght@400;500&display=swap');
+:root {
+  --brand-brown: #342d2d; --brand-gold: #ccba9d; --brand-yellow: #ffde59; --white: #ffffff;
+  --brand-gray: #595959; --doc-blue: #3b82f6; --runtime-purple: #8b5cf6;
+  --success-green: #22c55e; --issue-amber: #f59e0b; --pain-red: #ef4444;
+  --flideck-top: 48px; --flideck-left: 280px; --flideck-tab-bar: 0px; --flideck-presentation: 0;
+}
+.harness-slide { position: relative; isolation: isolate; overflow: hidden; width: 100%; height: 100%; box-sizing: border-box; }
+.harness-slide--viewport-lock { overflow: auto; }`;
+
+/** Navigator chrome. Class names are prefixed so slide CSS cannot collide with them. */
+const NAVIGATOR_CSS = `html, body { margin: 0; height: 100%; }
+body { display: flex; flex-direction: column; background: #0f172a; color: #e2e8f0; font-family: Roboto, system-ui, sans-serif; }
+.fd-header { display: flex; align-items: center; gap: 16px; height: 48px; padding: 0 16px; background: var(--brand-brown); color: var(--brand-gold); flex-shrink: 0; }
+.fd-title { margin: 0; font-size: 16px; font-weight: 500; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+.fd-tabs { display: flex; gap: 4px; }
+.fd-tab { background: transparent; border: 0; border-radius: 4px; color: inherit; cursor: pointer; font: inherit; font-size: 13px; padding: 4px 10px; }
+.fd-tab.fd-active { background: rgba(204, 186, 157, 0.2); color: var(--white); }
+.fd-position { margin-left: auto; font-size: 13px; font-variant-numeric: tabular-nums; }
+.fd-main { display: flex; flex: 1; min-height: 0; }
+.fd-sidebar { width: 280px; flex-shrink: 0; overflow-y: auto; background: #1e293b; }
+.fd-sidebar ol { list-style: none; margin: 0; padding: 8px 0; }
+.fd-group { padding: 12px 16px 4px; color: var(--brand-gold); font-size: 11px; letter-spacing: 0.05em; text-transform: uppercase; }
+.fd-item { display: block; width: 100%; background: transparent; border: 0; color: #cbd5e1; cursor: pointer; font: inherit; font-size: 13px; padding: 6px 16px; text-align: left; }
+.fd-item:hover { background: rgba(255, 255, 255, 0.05); }
+.fd-item.fd-active { background: rgba(204, 186, 157, 0.15); color: var(--white); }
+.fd-stage { flex: 1; min-width: 0; overflow: hidden; position: relative; }
+.fd-presenting .fd-header, .fd-presenting .fd-sidebar { display: none; }`;
+
+/**
+ * Embedded navigator. Keyboard contract matches PresentationPage:
+ * F toggles presentation mode, Escape leaves it, Ctrl/Cmd+Left/Right move
+ * between slides and Ctrl/Cmd+Home/End jump to the first/last slide.
+ */
+const NAVIGATOR_JS = `(function () {
+  var data = JSON.parse(document.getElementById('flideck-data').textContent);
+  var container = document.querySelector('.harness-slide');
+  var slideStyle = document.getElementById('flideck-slide-style');
+  var tabBar = document.querySelector('.fd-tabs');
+  var sidebar = document.querySelector('.fd-sidebar');
+  var position = document.querySelector('.fd-position');
+  var sectionIndex = -1;
+  var current = 0;
+  var presenting = false;
+
+  document.querySelector('.fd-title').textContent = data.title;
+
+  function renderTabs() {
+    tabBar.innerHTML = '';
+    if (data.sections.length < 2) return;
+    data.sections.forEach(function (section, i) {
+      var button = document.createElement('button');
+      button.className = 'fd-tab' + (i === sectionIndex ? ' fd-active' : '');
+      button.textContent = section.label;
+      button.onclick = function () { show(i, 0); };
+      tabBar.appendChild(button);
+    });
+  }
+
+  function renderSidebar() {
+    var list = document.createElement('ol');
+    var lastGroup = null;
+    data.sections[sectionIndex].slides.forEach(function (slideIndex, i) {
+      var slide = data.slides[slideIndex];
+      if (slide.group && slide.group !== lastGroup) {
+        var heading = document.createElement('li');
+        heading.className = 'fd-group';
+        heading.textContent = data.groups[slide.group] || slide.group;
+        list.appendChild(heading);
+      }
+      lastGroup = slide.group || null;
+      var item = document.createElement('li');
+      var button = document.createElement('button');
+      button.className = 'fd-item';
+      button.textContent = slide.title;
+      button.onclick = function () { show(sectionIndex, i); };
+      item.appendChild(button);
+      list.appendChild(item);
+    });
+    sidebar.innerHTML = '';
+    sidebar.appendChild(list);
+  }
+
+  function mount(slide) {
+    slideStyle.textContent = slide.styles;
+    container.className = 'harness-slide' +
+      (slide.viewportLock ? ' harness-slide--viewport-lock' : '') +
+      (presenting ? ' harness-slide--presentation-mode' : '');
+    container.innerHTML = slide.body;
+    slide.scripts.forEach(function (text) {
+      var script = document.createElement('script');
+      script.textContent = text;
+      container.appendChild(script);
+    });
+    container.scrollTop = 0;
+  }
+
+  function show(nextSection, index) {
+    var slides = data.sections[nextSection].slides;
+    if (nextSection !== sectionIndex) {
+      sectionIndex = nextSection;
+      renderTabs();
+      renderSidebar();
+    }
+    if (slides.length === 0) {
+      container.innerHTML = '';
+      position.textContent = '';
+      return;
+    }
+    current = Math.max(0, Math.min(slides.length - 1, index));
+    var slide = data.slides[slides[current]];
+    mount(slide);
+    var items = sidebar.querySelectorAll('.fd-item');
+    for (var i = 0; i < items.length; i++) {
+      items[i].classList.toggle('fd-active', i === current);
+    }
+    if (items[current]) items[current].scrollIntoView({ block: 'nearest' });
+    position.textContent = (current + 1) + ' / ' + slides.length;
+    history.replaceState(null, '', '#' + encodeURIComponent(slide.id));
+  }
+
+  // Find a slide by predicate, preferring the current section
+  function find(match) {
+    var order = data.sections.map(function (_, i) { return i; });
+    order.sort(function (a, b) { return (b === sectionIndex) - (a === sectionIndex); });
+    for (var s = 0; s < order.length; s++) {
+      var slides = data.sections[order[s]].slides;
+      for (var i = 0; i < slides.length; i++) {
+        if (match(data.slides[slides[i]])) return { section: order[s], index: i };
+      }
+    }
+    return null;
+  }
+
+  function setPresenting(on) {
+    presenting = on;
+    document.body.classList.toggle('fd-presenting', on);
+    container.classList.toggle('harness-slide--presentation-mode', on);
+  }
+
+  // Capture phase, so slide listeners cannot swallow FliDeck's shortcuts
+  window.addEventListener('keydown', function (e) {
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+    if ((e.key === 'f' || e.key === 'F') && !e.ctrlKey && !e.metaKey && !e.altKey) {
+      setPresenting(!presenting);
+      return;
+    }
+    if (e.key === 'Escape' && presenting) {
+      setPresenting(false);
+      return;
+    }
+    if (!e.ctrlKey && !e.metaKey) return;
+    var last = data.sections[sectionIndex].slides.length - 1;
+    var target = { ArrowLeft: current - 1, ArrowRight: current + 1, Home: 0, End: last }[e.key];
+    if (target === undefined) return;
+    e.preventDefault();
+    e.stopImmediatePropagation();
+    show(sectionIndex, target);
+  }, true);
+
+  // Relative links to other slides (e.g., tab index cards) navigate within the bundle
+  container.addEventListener('click', function (e) {
+    var anchor = e.target.closest('a');
+    var href = anchor && anchor.getAttribute('href');
+    if (!href || href.startsWith('http') || href.startsWith('/') || href.startsWith('#')) return;
+    if (!href.split('?')[0].split('#')[0].endsWith('.html')) return;
+    var currentFile = data.slides[data.sections[sectionIndex].slides[current]].file;
+    var file = decodeURIComponent(new URL(href, 'file:///' + currentFile).pathname.slice(1));
+    var found = find(function (slide) { return slide.file === file; });
+    if (!found) return;
+    e.preventDefault();
+    show(found.section, found.index);
+  });
+
+  var hash = decodeURIComponent(location.hash.slice(1));
+  var initial = hash && find(function (slide) { return slide.id === hash; });
+  show(initial ? initial.section : 0, initial ? initial.index : 0);
+})();`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Serialize JSON so it can sit inside a <script> element: '</script>' and
+ * '<!--' cannot end the element early, and U+2028/2029 stay escaped.
+ */
+function jsonForScript(value: unknown): string {
+  return JSON.stringify(value)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+/**
+ * Render the self-contained HTML document for an exported presentation.
+ */
+export function renderExportBundle(data: BundleData): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="FliDeck">
+<title>${escapeHtml(data.title)}</title>
+<style>
+${HARNESS_CSS}
+${NAVIGATOR_CSS}
+</style>
+<style id="flideck-slide-style"></style>
+</head>
+<body>
+<header class="fd-header"><h1 class="fd-title"></h1><nav class="fd-tabs"></nav><span class="fd-position"></span></header>
+<div class="fd-main">
+<aside class="fd-sidebar"></aside>
+<main class="fd-stage"><div class="harness-slide"></div></main>
+</div>
+<script type="application/json" id="flideck-data">${jsonForScript(data)}</script>
+<script>
+${NAVIGATOR_JS}
+</script>
+</body>
+</html>
+`;
+}
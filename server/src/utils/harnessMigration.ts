@@ -0,0 +1,318 @@
+import type { HarnessSlideType } from '@flideck/shared';
+
+/**
+ * Outcome of migrating one slide's HTML to a harness fragment.
+ * `content` is what the slide becomes: the fragment for Type A/B slides, and
+ * the untouched original with a warning comment for Type C slides.
+ */
+export type SlideMigration =
+  | { status: 'migrated'; type: 'a' | 'b'; content: string }
+  | { status: 'flagged'; type: 'c'; reason: string; content: string }
+  | { status: 'skipped'; type?: HarnessSlideType; reason: string };
+
+/** Marker comment at the top of a migrated fragment ('<!-- harness-fragment: type-a -->') */
+const FRAGMENT_MARKER = /<!--\s*harness-fragment\s*:\s*type-([ab])\b/;
+/** Warning comment prepended to Type C slides in sibling copies */
+const TYPE_C_MARKER = /<!--\s*WARNING:\s*harness-migration-skip\s*:\s*type-c\b/;
+
+const STYLE_BLOCK_PATTERN = /<style[^>]*>([\s\S]*?)<\/style\s*>/gi;
+const SCRIPT_BLOCK_PATTERN = /<script([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+const HAS_SCRIPT_PATTERN = /<script[\s>]/i;
+
+/**
+ * Script patterns that make a slide Type C, checked after the copy helpers
+ * have been removed and their call sites rewritten.
+ */
+const TYPE_C_PATTERNS = [
+  /\bfetch\s*\(/,
+  /\bXMLHttpRequest\b/,
+  /\baxios\b/,
+  /\blocalStorage\b/,
+  /\bsessionStorage\b/,
+  /\bIndexedDB\b/,
+  /\bWebSocket\b/,
+  /\beval\s*\(/,
+  /\bsetInterval\s*\(/,
+  /\bsetTimeout\s*\(/,
+  // Custom copyToClipboard implementations - not harness utilities
+  /\bcopyToClipboard\s*\(/,
+  // Keyboard handling that competes with FliDeck navigation
+  /ArrowDown|ArrowRight|ArrowUp|ArrowLeft/,
+  // navigator APIs other than clipboard
+  /\bnavigator\.(geolocation|mediaDevices|getUserMedia|serviceWorker)\b/,
+  // Dynamic script loading
+  /\bdocument\.write\b/,
+  /\bcreateElement\s*\(\s*['"]script['"]\s*\)/,
+  // Event listeners other than click
+  /addEventListener\s*\(\s*['"](?:keydown|keyup|keypress|scroll|resize|change|input|submit)\b/,
+];
+
+/** Start of a copyCommand/copyInline definition, up to the '{' of its body */
+const COPY_DEFINITION_START =
+  /(?:function\s+copy(?:Command|Inline)\s*\([^)]*\)|(?:const|let|var)\s+copy(?:Command|Inline)\s*=\s*(?:function\s*)?\([^)]*\)\s*(?:=>)?\s*)\s*\{/g;
+
+/**
+ * Migrate a slide's HTML to a harness fragment, classifying it as Type A, B or C.
+ * Port of tools/migrate-type-a.js and tools/migrate-type-b.js:
+ *
+ * - Type A (no scripts): the document wrapper (doctype, html, head, body) is
+ *   stripped and every <style> block is merged into one at the top.
+ * - Type B (known-safe scripts): copyCommand/copyInline definitions are removed
+ *   (the harness provides them on window), call sites are rewritten to
+ *   window.copyCommand/window.copyInline, then the slide is stripped as Type A.
+ * - Type C (external scripts, or any TYPE_C_PATTERNS match): not migrated.
+ *
+ * Already-migrated and empty slides are skipped, so migrating twice is a no-op.
+ */
+export function migrateSlideHtml(source: string): SlideMigration {
+  const html = source.charCodeAt(0) === 0xfeff ? source.slice(1) : source;
+
+  if (!html.trim()) {
+    return { status: 'skipped', reason: 'empty file' };
+  }
+
+  const marker = FRAGMENT_MARKER.exec(html);
+  if (marker) {
+    return {
+      status: 'skipped',
+      type: marker[1] as 'a' | 'b',
+      reason: 'already migrated (harness-fragment marker found)',
+    };
+  }
+  if (TYPE_C_MARKER.test(html)) {
+    return { status: 'skipped', type: 'c', reason: 'already flagged as Type C' };
+  }
+
+  if (!HAS_SCRIPT_PATTERN.test(html)) {
+    return { status: 'migrated', type: 'a', content: toFragment(html, 'a') };
+  }
+
+  // Rewrite call sites everywhere (including onclick attributes), then check each script
+  const scripts: Array<{ attrs: string; content: string }> = [];
+  const withPlaceholders = rewriteCopyCallSites(html).replace(
+    SCRIPT_BLOCK_PATTERN,
+    (_match, attrs: string, content: string) => {
+      scripts.push({ attrs, content });
+      return scriptPlaceholder(scripts.length - 1);
+    }
+  );
+
+  const rebuilt: string[] = [];
+  for (const { attrs, content } of scripts) {
+    if (/\bsrc\s*=/.test(attrs)) {
+      return flagTypeC(html, 'external <script src> attribute found - cannot classify');
+    }
+
+    const processed = rewriteCopyCallSites(removeCopyDefinitions(content));
+    if (TYPE_C_PATTERNS.some((pattern) => pattern.test(processed))) {
+      return flagTypeC(html, 'script block contains complex or competing patterns');
+    }
+
+    // Scripts left empty (only copy helpers) are dropped
+    rebuilt.push(processed.trim() ? `<script${attrs}>\n${processed}\n  </script>` : '');
+  }
+
+  const restored = rebuilt.reduce(
+    (result, script, index) => result.replace(scriptPlaceholder(index), () => script),
+    withPlaceholders
+  );
+  return { status: 'migrated', type: 'b', content: toFragment(restored, 'b') };
+}
+
+function flagTypeC(html: string, reason: string): SlideMigration {
+  return {
+    status: 'flagged',
+    type: 'c',
+    reason,
+    content: `<!-- WARNING: harness-migration-skip: type-c - ${reason} -->\n${html}`,
+  };
+}
+
+function scriptPlaceholder(index: number): string {
+  return `\x00SCRIPT_PLACEHOLDER_${index}\x00`;
+}
+
+/**
+ * Strip the document wrapper and assemble the fragment:
+ * marker comment, one consolidated <style> block, then the body content.
+ */
+function toFragment(html: string, type: 'a' | 'b'): string {
+  const styles = [...html.matchAll(STYLE_BLOCK_PATTERN)]
+    .map((match) => match[1].trim())
+    .filter(Boolean);
+
+  const body = html
+    .replace(/<head[\s\S]*?<\/head\s*>/gi, '')
+    .replace(/<!DOCTYPE[^>]*>/gi, '')
+    .replace(/<html[^>]*>/gi, '')
+    .replace(/<\/html\s*>/gi, '')
+    .replace(/<body[^>]*>/gi, '')
+    .replace(/<\/body\s*>/gi, '')
+    .replace(STYLE_BLOCK_PATTERN, '')
+    .trim();
+
+  const parts = [`<!-- harness-fragment: type-${type} -->`];
+  if (styles.length > 0) {
+    parts.push('<style>', styles.join('\n\n'), '</style>');
+  }
+  if (body) {
+    parts.push(body);
+  }
+  return parts.join('\n');
+}
+
+/**
+ * Remove copyCommand/copyInline definitions, using brace counting to find the
+ * end of each function body (plus a trailing ';' and newline).
+ */
+function removeCopyDefinitions(script: string): string {
+  const removals: Array<[number, number]> = [];
+
+  for (const match of script.matchAll(COPY_DEFINITION_START)) {
+    let depth = 1;
+    let i = match.index + match[0].length;
+    while (i < script.length && depth > 0) {
+      if (script[i] === '{') depth++;
+      else if (script[i] === '}') depth--;
+      i++;
+    }
+    if (script[i] === ';') i++;
+    if (script[i] === '\n') i++;
+    removals.push([match.index, i]);
+  }
+
+  return removals.reduceRight(
+    (result, [start, end]) => result.slice(0, start) + result.slice(end),
+    script
+  );
+}
+
+/**
+ * Rewrite copyCommand(...)/copyInline(...) calls to window.copyCommand(...)/window.copyInline(...),
+ * leaving definitions and calls that already go through window alone.
+ */
+function rewriteCopyCallSites(text: string): string {
+  return text
+    .replace(/(?<!window\.)(?<!function )copyCommand\s*\(/g, 'window.copyCommand(')
+    .replace(/(?<!window\.)(?<!function )copyInline\s*\(/g, 'window.copyInline(');
+}
+
+// ============================================================
+// Line diff
+// ============================================================
+
+type DiffLine = { kind: ' ' | '-' | '+'; text: string };
+
+/** Largest LCS table (old lines x new lines) before falling back to a full replacement */
+const MAX_DIFF_CELLS = 4_000_000;
+const DIFF_CONTEXT = 3;
+
+/**
+ * Unified diff of two texts (3 lines of context), or '' when they are equal.
+ */
+export function createUnifiedDiff(before: string, after: string, file: string): string {
+  if (before === after) return '';
+
+  const lines = diffLines(before.split('\n'), after.split('\n'));
+  const changes = lines.flatMap((line, index) => (line.kind === ' ' ? [] : [index]));
+
+  // Line numbers (1-based) of each diff line in the old and new text
+  const oldLine: number[] = [];
+  const newLine: number[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  for (const line of lines) {
+    oldLine.push(oldCount + 1);
+    newLine.push(newCount + 1);
+    if (line.kind !== '+') oldCount++;
+    if (line.kind !== '-') newCount++;
+  }
+
+  const output = [`--- a/${file}`, `+++ b/${file}`];
+  let first = 0;
+  while (first < changes.length) {
+    // Changes closer than twice the context share a hunk
+    let last = first;
+    while (last + 1 < changes.length && changes[last + 1] - changes[last] <= 2 * DIFF_CONTEXT) {
+      last++;
+    }
+
+    const start = Math.max(0, changes[first] - DIFF_CONTEXT);
+    const end = Math.min(lines.length, changes[last] + DIFF_CONTEXT + 1);
+    const hunk = lines.slice(start, end);
+    const removed = hunk.filter((line) => line.kind !== '+').length;
+    const added = hunk.filter((line) => line.kind !== '-').length;
+
+    output.push(
+      `@@ -${removed ? oldLine[start] : oldLine[start] - 1},${removed} ` +
+        `+${added ? newLine[start] : newLine[start] - 1},${added} @@`
+    );
+    output.push(...hunk.map((line) => line.kind + line.text));
+    first = last + 1;
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Line-level diff via longest common subsequence, after trimming the common
+ * prefix and suffix.
+ */
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = before.slice(prefix, before.length - suffix);
+  const b = after.slice(prefix, after.length - suffix);
+  const unchanged = (text: string): DiffLine => ({ kind: ' ', text });
+  const middle: DiffLine[] = [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    middle.push(...a.map((text): DiffLine => ({ kind: '-', text })));
+    middle.push(...b.map((text): DiffLine => ({ kind: '+', text })));
+  } else {
+    // lcs[i * width + j] = length of the LCS of a[i..] and b[j..]
+    const width = b.length + 1;
+    const lcs = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          a[i] === b[j]
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        middle.push(unchanged(a[i++]));
+        j++;
+      } else if (
+        j >= b.length ||
+        (i < a.length && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])
+      ) {
+        middle.push({ kind: '-', text: a[i++] });
+      } else {
+        middle.push({ kind: '+', text: b[j++] });
+      }
+    }
+  }
+
+  return [
+    ...before.slice(0, prefix).map(unchanged),
+    ...middle,
+    ...before.slice(before.length - suffix).map(unchanged),
+  ];
+}
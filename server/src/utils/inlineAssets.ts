@@ -0,0 +1,146 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { CheerioAPI } from 'cheerio';
+import { isLocalUrl } from './stripSlideWrapper.js';
+
+/** Larger files are left as links rather than bloating the bundle */
+const MAX_INLINE_BYTES = 10 * 1024 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.ico': 'image/x-icon',
+  '.bmp': 'image/bmp',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.css': 'text/css',
+};
+
+/** url(...) references in CSS, with or without quotes */
+const CSS_URL_PATTERN = /url\(\s*(['"]?)([^'")]+)\1\s*\)/g;
+
+/** Element attributes holding a single URL */
+const URL_ATTRIBUTES: Array<[selector: string, attribute: string]> = [
+  ['img[src], source[src], video[src], audio[src], track[src], input[type="image"][src]', 'src'],
+  ['video[poster]', 'poster'],
+  ['image[href], use[href]', 'href'],
+  ['image[xlink\\:href], use[xlink\\:href]', 'xlink:href'],
+];
+
+/**
+ * Replaces references to files inside a presentation folder with data: URIs,
+ * so slides keep working without the folder (e.g., in an offline export).
+ *
+ * URLs are resolved relative to the referencing file. References that are
+ * external, missing, too large, or outside the presentation folder are left
+ * untouched. Each file is read at most once per inliner.
+ */
+export class AssetInliner {
+  private cache = new Map<string, Promise<string | null>>();
+
+  constructor(private rootDir: string) {}
+
+  /**
+   * Resolve a URL relative to baseDir and return it as a data: URI (null if not inlinable).
+   */
+  dataUri(url: string, baseDir: string): Promise<string | null> {
+    const filePath = this.resolve(url, baseDir);
+    if (!filePath) return Promise.resolve(null);
+
+    let pending = this.cache.get(filePath);
+    if (!pending) {
+      pending = this.read(filePath);
+      this.cache.set(filePath, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Inline every url(...) in a stylesheet. baseDir is the stylesheet's own folder.
+   */
+  async inlineCss(css: string, baseDir: string): Promise<string> {
+    const urls = new Set(Array.from(css.matchAll(CSS_URL_PATTERN), (m) => m[2]));
+    const replacements = new Map<string, string>();
+    for (const url of urls) {
+      const uri = await this.dataUri(url, baseDir);
+      if (uri) replacements.set(url, uri);
+    }
+    if (replacements.size === 0) return css;
+
+    return css.replace(CSS_URL_PATTERN, (match, _quote: string, url: string) => {
+      const uri = replacements.get(url);
+      return uri ? `url("${uri}")` : match;
+    });
+  }
+
+  /**
+   * Inline images, media, srcset candidates and style="...url()" references
+   * in a parsed HTML document or fragment.
+   */
+  async inlineElements($: CheerioAPI, baseDir: string): Promise<void> {
+    for (const [selector, attribute] of URL_ATTRIBUTES) {
+      for (const el of $(selector).toArray()) {
+        const uri = await this.dataUri($(el).attr(attribute) ?? '', baseDir);
+        if (uri) $(el).attr(attribute, uri);
+      }
+    }
+
+    for (const el of $('img[srcset], source[srcset]').toArray()) {
+      const candidates = ($(el).attr('srcset') ?? '').split(',').map((c) => c.trim());
+      const inlined = await Promise.all(
+        candidates.map(async (candidate) => {
+          const [url, ...descriptor] = candidate.split(/\s+/);
+          const uri = await this.dataUri(url, baseDir);
+          return uri ? [uri, ...descriptor].join(' ') : candidate;
+        })
+      );
+      $(el).attr('srcset', inlined.join(', '));
+    }
+
+    for (const el of $('[style*="url("]').toArray()) {
+      $(el).attr('style', await this.inlineCss($(el).attr('style') ?? '', baseDir));
+    }
+  }
+
+  /**
+   * Map a URL to a file path inside the presentation folder, or null.
+   */
+  private resolve(url: string, baseDir: string): string | null {
+    if (!isLocalUrl(url) || url.trim().startsWith('/')) return null;
+
+    let relativePath: string;
+    try {
+      relativePath = decodeURIComponent(url.trim().split(/[?#]/)[0]);
+    } catch {
+      return null;
+    }
+
+    const filePath = path.resolve(baseDir, relativePath);
+    const root = path.resolve(this.rootDir);
+    return filePath.startsWith(root + path.sep) ? filePath : null;
+  }
+
+  private async read(filePath: string): Promise<string | null> {
+    try {
+      const stats = await fs.stat(filePath);
+      if (!stats.isFile() || stats.size > MAX_INLINE_BYTES) return null;
+      const mimeType =
+        MIME_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+      const data = await fs.readFile(filePath);
+      return `data:${mimeType};base64,${data.toString('base64')}`;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,239 @@
+import type { JsonPatchOperation } from '@flideck/shared';
+import { AppError } from '../middleware/errorHandler.js';
+
+/** Media type of an RFC 6902 JSON Patch document */
+export const JSON_PATCH_MEDIA_TYPE = 'application/json-patch+json';
+
+const OPERATIONS = new Set(['add', 'remove', 'replace', 'move', 'copy', 'test']);
+/** Pointer tokens that could reach Object.prototype */
+const UNSAFE_TOKENS = new Set(['__proto__', 'constructor', 'prototype']);
+const ARRAY_INDEX = /^(0|[1-9]\d*)$/;
+
+type Container = Record<string, unknown> | unknown[];
+
+/**
+ * Check that a request body is a JSON Patch document (an array of operations).
+ *
+ * @throws AppError(400) naming the first malformed operation
+ */
+export function parseJsonPatch(body: unknown): JsonPatchOperation[] {
+  if (!Array.isArray(body)) {
+    throw new AppError('JSON Patch must be an array of operations', 400);
+  }
+
+  body.forEach((operation: unknown, index) => {
+    const invalid = (reason: string) =>
+      new AppError(`Invalid JSON Patch operation at index ${index}: ${reason}`, 400);
+
+    if (!operation || typeof operation !== 'object' || Array.isArray(operation)) {
+      throw invalid('must be an object');
+    }
+    const { op, path, from } = operation as Record<string, unknown>;
+    if (typeof op !== 'string' || !OPERATIONS.has(op)) {
+      throw invalid(`unknown op '${String(op)}'`);
+    }
+    if (typeof path !== 'string') {
+      throw invalid('missing path');
+    }
+    parsePointer(path);
+    if ((op === 'add' || op === 'replace' || op === 'test') && !('value' in operation)) {
+      throw invalid(`'${op}' requires a value`);
+    }
+    if (op === 'move' || op === 'copy') {
+      if (typeof from !== 'string') throw invalid(`'${op}' requires from`);
+      parsePointer(from);
+    }
+  });
+
+  return body as JsonPatchOperation[];
+}
+
+/**
+ * Apply a JSON Patch (RFC 6902) to a copy of a JSON document.
+ * Operations apply in order and the patch is atomic: the input is never modified,
+ * and nothing is returned unless every operation succeeds.
+ *
+ * @throws AppError(400) for malformed pointers
+ * @throws AppError(409) when a 'test' fails or a path does not exist in the document
+ */
+export function applyJsonPatch<T>(document: T, operations: JsonPatchOperation[]): T {
+  let result: unknown = structuredClone(document);
+
+  operations.forEach((operation, index) => {
+    const fail = (reason: string) =>
+      new AppError(
+        `JSON Patch operation ${index} (${operation.op} ${operation.path}) failed: ${reason}`,
+        409
+      );
+
+    switch (operation.op) {
+      case 'add':
+        result = addValue(result, operation.path, structuredClone(operation.value), fail);
+        break;
+      case 'remove':
+        result = removeValue(result, operation.path, fail).document;
+        break;
+      case 'replace': {
+        const value = structuredClone(operation.value);
+        getValue(result, operation.path, fail);
+        result =
+          operation.path === ''
+            ? value
+            : addValue(
+                removeValue(result, operation.path, fail).document,
+                operation.path,
+                value,
+                fail
+              );
+        break;
+      }
+      case 'move': {
+        if (operation.path.startsWith(`${operation.from}/`)) {
+          throw fail('cannot move a value into one of its own children');
+        }
+        const removed = removeValue(result, operation.from, fail);
+        result = addValue(removed.document, operation.path, removed.value, fail);
+        break;
+      }
+      case 'copy':
+        result = addValue(
+          result,
+          operation.path,
+          structuredClone(getValue(result, operation.from, fail)),
+          fail
+        );
+        break;
+      case 'test':
+        if (!jsonEqual(getValue(result, operation.path, fail), operation.value)) {
+          throw fail('value does not match');
+        }
+        break;
+    }
+  });
+
+  return result as T;
+}
+
+/**
+ * Split a JSON Pointer (RFC 6901) into unescaped reference tokens.
+ */
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new AppError(`Invalid JSON Pointer '${pointer}': must be empty or start with '/'`, 400);
+  }
+
+  const tokens = pointer
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+  if (tokens.some((token) => UNSAFE_TOKENS.has(token))) {
+    throw new AppError(`Invalid JSON Pointer '${pointer}': unsafe property name`, 400);
+  }
+  return tokens;
+}
+
+/**
+ * Resolve every token but the last, returning the container and the final token.
+ */
+function resolveParent(
+  document: unknown,
+  pointer: string,
+  fail: (reason: string) => Error
+): { parent: Container; token: string } {
+  const tokens = parsePointer(pointer);
+  const token = tokens.pop() as string;
+  let parent: unknown = document;
+
+  for (const segment of tokens) {
+    parent = childOf(parent, segment, fail);
+  }
+  if (!parent || typeof parent !== 'object') {
+    throw fail('parent is not an object or array');
+  }
+  return { parent: parent as Container, token };
+}
+
+function childOf(container: unknown, token: string, fail: (reason: string) => Error): unknown {
+  if (Array.isArray(container)) {
+    if (!ARRAY_INDEX.test(token) || Number(token) >= container.length) {
+      throw fail(`index '${token}' is out of range`);
+    }
+    return container[Number(token)];
+  }
+  if (container && typeof container === 'object' && Object.hasOwn(container, token)) {
+    return (container as Record<string, unknown>)[token];
+  }
+  throw fail(`path does not exist`);
+}
+
+function getValue(document: unknown, pointer: string, fail: (reason: string) => Error): unknown {
+  return parsePointer(pointer).reduce((value, token) => childOf(value, token, fail), document);
+}
+
+function addValue(
+  document: unknown,
+  pointer: string,
+  value: unknown,
+  fail: (reason: string) => Error
+): unknown {
+  if (pointer === '') return value;
+
+  const { parent, token } = resolveParent(document, pointer, fail);
+  if (Array.isArray(parent)) {
+    const index = token === '-' ? parent.length : ARRAY_INDEX.test(token) ? Number(token) : NaN;
+    if (!(index <= parent.length)) {
+      throw fail(`index '${token}' is out of range`);
+    }
+    parent.splice(index, 0, value);
+  } else {
+    parent[token] = value;
+  }
+  return document;
+}
+
+function removeValue(
+  document: unknown,
+  pointer: string,
+  fail: (reason: string) => Error
+): { document: unknown; value: unknown } {
+  if (pointer === '') {
+    throw fail('cannot remove the whole document');
+  }
+
+  const { parent, token } = resolveParent(document, pointer, fail);
+  const value = childOf(parent, token, fail);
+  if (Array.isArray(parent)) {
+    parent.splice(Number(token), 1);
+  } else {
+    delete parent[token];
+  }
+  return { document, value };
+}
+
+/**
+ * Structural equality of JSON values (object key order is ignored).
+ */
+function jsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => jsonEqual(item, b[index]))
+    );
+  }
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every(
+      (key) =>
+        Object.hasOwn(b, key) &&
+        jsonEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+    )
+  );
+}
@@ -0,0 +1,84 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import type { RequestHandler } from 'express';
+import { queryString } from './queryString.js';
+
+/**
+ * Optimistic concurrency for manifest writes.
+ *
+ * GET /api/presentations/:id and GET /api/presentations/:id/manifest return the
+ * manifest's ETag (a hash of index.json). A mutation that sends it back as
+ * If-Match is checked inside the presentation's write lock, so two agents doing
+ * read-modify-write cannot both succeed: the second gets 412 and must re-read.
+ *
+ * The precondition travels with the request through AsyncLocalStorage, so the
+ * service methods behind every mutation route honour it without new parameters.
+ */
+export interface ManifestPrecondition {
+  presentationId: string;
+  /** ETags from the If-Match header; undefined when the header is absent */
+  ifMatch?: string[];
+  /** Set once the first write lock has checked ifMatch */
+  checked: boolean;
+  /** Called with the manifest's new ETag after each write */
+  onWrite: (etag: string) => void;
+}
+
+const preconditions = new AsyncLocalStorage<ManifestPrecondition>();
+
+/**
+ * The precondition of the current request, if it targets this presentation.
+ */
+export function getManifestPrecondition(presentationId: string): ManifestPrecondition | undefined {
+  const precondition = preconditions.getStore();
+  return precondition?.presentationId === presentationId ? precondition : undefined;
+}
+
+/**
+ * Strong ETag for a manifest file's content ('' when there is no manifest).
+ */
+export function manifestETag(content: string): string {
+  return `"${createHash('sha256').update(content).digest('hex').slice(0, 32)}"`;
+}
+
+/**
+ * Parse an If-Match header into its ETags ('*' is kept as-is).
+ */
+export function parseIfMatch(header: string | undefined): string[] | undefined {
+  if (header === undefined) return undefined;
+  return header
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Whether an If-Match list accepts the current ETag. Weak ETags never match.
+ */
+export function ifMatchAccepts(ifMatch: string[], etag: string): boolean {
+  return ifMatch.some((tag) => tag === '*' || tag === etag);
+}
+
+/**
+ * Router middleware (mounted on '/:id') that runs mutations inside a manifest
+ * precondition: If-Match is enforced by the write lock, and the response carries
+ * the manifest's ETag after the write.
+ */
+export function manifestPrecondition(): RequestHandler {
+  return (req, res, next) => {
+    if (req.method === 'GET' || req.method === 'HEAD') {
+      next();
+      return;
+    }
+
+    const precondition: ManifestPrecondition = {
+      presentationId: queryString(req.params.id),
+      ifMatch: parseIfMatch(req.get('If-Match')),
+      checked: false,
+      onWrite: (etag) => {
+        if (!res.headersSent) res.set('ETag', etag);
+      },
+    };
+    preconditions.run(precondition, next);
+  };
+}
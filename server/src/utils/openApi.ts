@@ -0,0 +1,144 @@
+import type { ApiEndpoint, RouteDoc, SchemaSpec } from './apiRegistry.js';
+import { API_SCHEMAS, schemaRef, type JsonSchema } from './apiSchemas.js';
+
+/** API version reported by GET /api/capabilities and GET /api/openapi.json */
+export const API_VERSION = '0.2.0';
+
+const PRESENTATION_ID =
+  "Presentation ID ('<root>:<folder>' for secondary roots, or the bare folder with ?root=<name>)";
+
+/** Descriptions of the path parameters shared by many routes */
+const PATH_PARAMETERS: Record<string, string> = {
+  id: PRESENTATION_ID,
+  presentationId: PRESENTATION_ID,
+  slideId: "Asset ID (path without .html, folders joined by '--')",
+  groupId: 'Group ID',
+  tabId: 'Tab ID',
+  version: 'Manifest snapshot version (from manifest/history)',
+};
+
+const ERROR_RESPONSE: JsonSchema = {
+  type: 'object',
+  properties: {
+    success: { const: false },
+    error: { type: 'string' },
+    errors: {
+      type: 'array',
+      description: 'Fields that failed validation (invalid request bodies)',
+      items: {
+        type: 'object',
+        properties: { path: { type: 'string' }, message: { type: 'string' } },
+        required: ['path', 'message'],
+      },
+    },
+  },
+  required: ['success', 'error'],
+};
+
+function schemaOf(spec: SchemaSpec): JsonSchema {
+  if (typeof spec !== 'string') return spec;
+  return spec.endsWith('[]')
+    ? { type: 'array', items: schemaRef(spec.slice(0, -2)) }
+    : schemaRef(spec);
+}
+
+function parametersOf(endpoint: ApiEndpoint): JsonSchema[] {
+  const pathParameters = Array.from(endpoint.path.matchAll(/:(\w+)/g), ([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    description: endpoint.doc?.params?.[name] ?? PATH_PARAMETERS[name],
+    schema: { type: 'string' },
+  }));
+  const queryParameters = Object.entries(endpoint.doc?.query ?? {}).map(([name, description]) => ({
+    name,
+    in: 'query',
+    description,
+    schema: { type: 'string' },
+  }));
+  return [...pathParameters, ...queryParameters];
+}
+
+function requestBodyOf(doc: RouteDoc): JsonSchema | undefined {
+  if (!doc.body) return undefined;
+
+  const bodies = typeof doc.body === 'string' ? { 'application/json': doc.body } : doc.body;
+  const content = Object.fromEntries(
+    Object.entries(bodies).map(([mediaType, name]) => [mediaType, { schema: schemaRef(name) }])
+  );
+  return { content };
+}
+
+function successResponseOf(doc: RouteDoc | undefined): JsonSchema {
+  if (doc?.produces) {
+    const content = Object.fromEntries(
+      doc.produces.map((mediaType) => [mediaType, { schema: { type: 'string' } }])
+    );
+    return { description: 'Success', content };
+  }
+
+  // Undocumented routes: the data is unknown
+  const data = doc?.response ? schemaOf(doc.response) : doc ? { type: 'null' } : {};
+  const schema = doc?.unwrapped
+    ? data
+    : {
+        type: 'object',
+        properties: { success: { const: true }, data },
+        required: ['success', 'data'],
+      };
+  return { description: 'Success', content: { 'application/json': { schema } } };
+}
+
+function operationOf(endpoint: ApiEndpoint): JsonSchema {
+  const { doc } = endpoint;
+  const parameters = parametersOf(endpoint);
+  const requestBody = doc && requestBodyOf(doc);
+
+  return {
+    tags: [endpoint.section],
+    summary: doc?.summary ?? 'Undocumented',
+    ...(doc?.description && { description: doc.description }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(requestBody && { requestBody }),
+    responses: {
+      [String(doc?.status ?? 200)]: successResponseOf(doc),
+      default: { $ref: '#/components/responses/Error' },
+    },
+  };
+}
+
+/**
+ * Build an OpenAPI 3.1 document from the routes in the registry, with the
+ * request and response schemas of API_SCHEMAS as components. Express paths
+ * ('/:id') become OpenAPI templates ('/{id}').
+ */
+export function buildOpenApiSpec(endpoints: ApiEndpoint[]): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const endpoint of endpoints) {
+    const path = endpoint.path.replace(/:(\w+)/g, '{$1}');
+    paths[path] ??= {};
+    paths[path][endpoint.method] = operationOf(endpoint);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'FliDeck API',
+      version: API_VERSION,
+      description:
+        'Local-first presentation server. Successful JSON responses are wrapped as ' +
+        '{ success: true, data }, errors as { success: false, error }.',
+    },
+    tags: Array.from(new Set(endpoints.map((endpoint) => endpoint.section)), (name) => ({ name })),
+    paths,
+    components: {
+      schemas: { ...API_SCHEMAS, ErrorResponse: ERROR_RESPONSE },
+      responses: {
+        Error: {
+          description: 'Error',
+          content: { 'application/json': { schema: schemaRef('ErrorResponse') } },
+        },
+      },
+    },
+  };
+}
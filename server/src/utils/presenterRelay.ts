@@ -0,0 +1,42 @@
+import type { Socket } from 'socket.io';
+import type { PresenterNavigateEvent, PresenterSyncRequest } from '@flideck/shared';
+
+/** Events forwarded between paired presenter and audience windows */
+const PRESENTER_EVENTS = ['presenter:navigate', 'presenter:sync'] as const;
+
+/**
+ * Socket.io room for a presentation (joined via 'join:presentation').
+ */
+export function presentationRoom(presentationId: string): string {
+  return `presentation:${presentationId}`;
+}
+
+function isPresenterEvent(event: unknown): event is PresenterSyncRequest {
+  const candidate = event as Partial<PresenterNavigateEvent> | null;
+  return (
+    typeof candidate?.presentationId === 'string' &&
+    typeof candidate.session === 'string' &&
+    candidate.session.length > 0
+  );
+}
+
+/**
+ * Relay presenter view events to the other sockets in the presentation room.
+ *
+ * The server keeps no presenter state: a window announces its slide with
+ * 'presenter:navigate' and asks its pair to announce theirs with
+ * 'presenter:sync'. Clients ignore events for other sessions. Sockets must
+ * have joined the room, so they cannot drive presentations they are not viewing.
+ */
+export function registerPresenterRelay(socket: Socket): void {
+  for (const eventName of PRESENTER_EVENTS) {
+    socket.on(eventName, (event: unknown) => {
+      if (!isPresenterEvent(event)) return;
+
+      const room = presentationRoom(event.presentationId);
+      if (!socket.rooms.has(room)) return;
+
+      socket.to(room).emit(eventName, event);
+    });
+  }
+}
@@ -0,0 +1,41 @@
+import type { Request, RequestParamHandler } from 'express';
+import { AppError } from '../middleware/errorHandler.js';
+import type { PresentationService } from '../services/PresentationService.js';
+import { queryString } from './queryString.js';
+
+/**
+ * Read the optional `?root=<name>` selector from a request.
+ *
+ * @throws AppError(404) if the named root is not configured
+ */
+export function rootSelector(
+  req: Request,
+  presentationService: PresentationService
+): string | undefined {
+  const name = queryString(req.query.root as string | undefined);
+  if (!name) return undefined;
+
+  if (!presentationService.getRoots().some((root) => root.name === name)) {
+    throw new AppError(`Root '${name}' not found`, 404);
+  }
+  return name;
+}
+
+/**
+ * Router param handler that qualifies a presentation ID with the `?root=` selector,
+ * so `/api/presentations/deck?root=archive` addresses 'archive:deck'.
+ * Namespaced IDs and requests without a selector pass through unchanged.
+ */
+export function qualifyIdParam(presentationService: PresentationService): RequestParamHandler {
+  return (req, _res, next, value: string, name: string) => {
+    try {
+      req.params[name] = presentationService.qualifyId(
+        value,
+        rootSelector(req, presentationService)
+      );
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,41 @@
+import type { PresentationRoot } from '@flideck/shared';
+import type { WatcherManager, ChangeEventData } from '../WatcherManager.js';
+
+/** The primary root keeps the original watcher name; secondary roots get a suffix */
+const PRIMARY_WATCHER = 'presentations';
+const SECONDARY_WATCHER_PREFIX = 'presentations:';
+
+/**
+ * Get the watcher name for a presentations root.
+ */
+export function rootWatcherName(root: PresentationRoot): string {
+  return root.isPrimary ? PRIMARY_WATCHER : `${SECONDARY_WATCHER_PREFIX}${root.name}`;
+}
+
+/**
+ * Watch exactly the given presentation roots.
+ * Existing root watchers are stopped and restarted, so renamed, moved or removed
+ * roots never keep a stale watcher. Other watchers (e.g., config) are untouched.
+ * The watchers emit no Socket.io event of their own: onChange sends the
+ * room-scoped events once the cache is updated.
+ */
+export function syncRootWatchers(
+  watcherManager: WatcherManager,
+  roots: PresentationRoot[],
+  onChange: (changes: ChangeEventData[]) => void
+): void {
+  for (const name of watcherManager.getActiveWatchers()) {
+    if (name === PRIMARY_WATCHER || name.startsWith(SECONDARY_WATCHER_PREFIX)) {
+      watcherManager.stop(name);
+    }
+  }
+
+  for (const root of roots) {
+    watcherManager.watch({
+      name: rootWatcherName(root),
+      path: root.path,
+      debounceMs: 200, // Faster debounce for real-time feel
+      onChangeCallback: onChange,
+    });
+  }
+}
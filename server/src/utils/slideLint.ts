@@ -0,0 +1,263 @@
+import * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+import type { LintIssue, LintRuleId, LintSeverity } from '@flideck/shared';
+
+/**
+ * Severity of each rule. Errors break the slide in the harness or break
+ * FliDeck itself; warnings go against docs/harness-authoring-standard.md.
+ */
+const RULE_SEVERITY: Record<LintRuleId, LintSeverity> = {
+  'global-reset': 'error',
+  'body-background': 'warning',
+  'position-fixed': 'warning',
+  'external-script': 'error',
+  'module-script': 'error',
+  'reserved-shortcut': 'error',
+  'copy-helper-override': 'warning',
+  'window-location': 'warning',
+  'reserved-class': 'error',
+  'harness-font-link': 'warning',
+};
+
+/** Class names the harness uses for its own elements */
+const RESERVED_CLASSES = new Set([
+  'harness-slide',
+  'harness-chrome',
+  'harness-nav',
+  'harness-sidebar',
+  'harness-viewport',
+]);
+
+/** Font families the harness loads once for every slide */
+const HARNESS_FONTS = new Set(['Bebas Neue', 'Oswald', 'Roboto', 'Roboto Mono']);
+
+/** A CSS rule without nested blocks: selector list and declarations */
+const CSS_RULE_PATTERN = /([^{}]+)\{([^{}]*)\}/g;
+/** `*` as the first compound of a selector (optionally below html/body/:root) */
+const GLOBAL_RESET_SELECTOR = /^(?:(?:html|body|:root)\s*>?\s*)?\*(?:$|[\s:>+~])/i;
+const DOCUMENT_ROOT_SELECTOR = /^(?:html|body|:root)$/i;
+const BACKGROUND_DECLARATION = /(?:^|[;\s])(background(?:-color|-image)?\s*:)/i;
+const POSITION_FIXED_DECLARATION = /position\s*:\s*fixed/i;
+
+/** Classic script types the harness executes */
+const JS_SCRIPT_TYPE = /^(?:|text\/javascript|application\/javascript)$/i;
+const KEY_LISTENER_PATTERN = /addEventListener\(\s*['"]key(?:down|up)['"]|\bonkey(?:down|up)\s*=/;
+const ARROW_KEY_PATTERN = /\bArrow(?:Left|Right|Up|Down)\b|\bkeyCode\s*={2,3}\s*(?:3[7-9]|40)\b/;
+const MODIFIER_KEY_PATTERN = /\b(?:metaKey|ctrlKey)\b/;
+const COPY_HELPER_PATTERN =
+  /\bfunction\s+(copyCommand|copyInline)\s*\(|\b(?:const|let|var)\s+(copyCommand|copyInline)\s*=|\bwindow\.(copyCommand|copyInline)\s*=(?!=)/g;
+const LOCATION_CHANGE_PATTERN =
+  /\b(?:window|document)\.location(?:\.href)?\s*=(?!=)|\blocation\.href\s*=(?!=)|\blocation\.(?:assign|replace)\s*\(/g;
+
+type Report = (rule: LintRuleId, message: string, line: number) => void;
+
+/**
+ * Check a slide's HTML against the harness authoring standard
+ * (docs/harness-authoring-standard.md). Returns issues sorted by line.
+ */
+export function lintSlideHtml(source: string): LintIssue[] {
+  // The parser normalizes line endings in text content; do the same so offsets line up
+  const html = source.replace(/\r\n?/g, '\n');
+  const $ = cheerio.load(html, { sourceCodeLocationInfo: true });
+  const lineAt = createLineLookup(html);
+  const issues: LintIssue[] = [];
+
+  const report: Report = (rule, message, line) => {
+    issues.push({ rule, severity: RULE_SEVERITY[rule], message, line });
+  };
+
+  // <style> blocks: parsed as raw text, so offsets map straight back to the file
+  $('style').each((_, el) => {
+    lintCss($(el).text(), contentOffset(el), lineAt, report);
+  });
+
+  // Inline style attributes
+  $('[style]').each((_, el) => {
+    const style = $(el).attr('style') ?? '';
+    const line = elementLine(el);
+    if (POSITION_FIXED_DECLARATION.test(style)) {
+      report('position-fixed', 'position: fixed escapes the slide area; use absolute', line);
+    }
+    if (DOCUMENT_ROOT_SELECTOR.test(el.tagName) && BACKGROUND_DECLARATION.test(style)) {
+      report('body-background', bodyBackgroundMessage(el.tagName), line);
+    }
+  });
+
+  $('script').each((_, el) => {
+    const line = elementLine(el);
+    const type = ($(el).attr('type') ?? '').trim();
+
+    if ($(el).attr('src') !== undefined) {
+      report(
+        'external-script',
+        'External <script src> is not loaded by the harness; inline it',
+        line
+      );
+      return;
+    }
+    if (type.toLowerCase() === 'module') {
+      report(
+        'module-script',
+        'Module scripts are not run by the harness; use a classic script',
+        line
+      );
+      return;
+    }
+    if (JS_SCRIPT_TYPE.test(type)) {
+      lintScript($(el).text(), contentOffset(el), lineAt, report);
+    }
+  });
+
+  $('[class]').each((_, el) => {
+    const reserved = ($(el).attr('class') ?? '')
+      .split(/\s+/)
+      .filter((name) => RESERVED_CLASSES.has(name));
+    for (const name of reserved) {
+      report('reserved-class', `Class "${name}" is reserved for the harness`, elementLine(el));
+    }
+  });
+
+  $('link[href]').each((_, el) => {
+    const families = googleFontFamilies($(el).attr('href') ?? '').filter((f) =>
+      HARNESS_FONTS.has(f)
+    );
+    if (families.length > 0) {
+      report(
+        'harness-font-link',
+        `${families.join(', ')} ${families.length === 1 ? 'is' : 'are'} loaded by the harness; remove this font link`,
+        elementLine(el)
+      );
+    }
+  });
+
+  return issues.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Lint the rules of a stylesheet. `base` is the offset of the CSS text in the file.
+ */
+function lintCss(css: string, base: number, lineAt: (offset: number) => number, report: Report) {
+  // Blank out comments, keeping offsets (and line breaks) intact
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, (comment) => comment.replace(/[^\n]/g, ' '));
+
+  for (const match of source.matchAll(CSS_RULE_PATTERN)) {
+    const [, prelude, declarations] = match;
+    // Drop statements before the rule (e.g. an @import ending in ';')
+    const selectorText = prelude.slice(prelude.lastIndexOf(';') + 1);
+    const selectorStart = match.index + prelude.length - selectorText.trimStart().length;
+    const declarationStart = match.index + prelude.length + 1;
+    if (selectorText.trim().startsWith('@')) continue;
+
+    const selectors = selectorText.split(',').map((s) => s.trim());
+    if (selectors.some((s) => GLOBAL_RESET_SELECTOR.test(s))) {
+      report(
+        'global-reset',
+        'Global * selector restyles every element; prefix it with .harness-slide',
+        lineAt(base + selectorStart)
+      );
+    }
+
+    const root = selectors.find((s) => DOCUMENT_ROOT_SELECTOR.test(s));
+    const background = BACKGROUND_DECLARATION.exec(declarations);
+    if (root && background) {
+      const offset = declarations.indexOf(background[1], background.index);
+      report(
+        'body-background',
+        bodyBackgroundMessage(root),
+        lineAt(base + declarationStart + offset)
+      );
+    }
+
+    const fixed = POSITION_FIXED_DECLARATION.exec(declarations);
+    if (fixed) {
+      report(
+        'position-fixed',
+        'position: fixed escapes the slide area; use absolute',
+        lineAt(base + declarationStart + fixed.index)
+      );
+    }
+  }
+}
+
+/**
+ * Lint an inline script. `base` is the offset of the script text in the file.
+ */
+function lintScript(
+  script: string,
+  base: number,
+  lineAt: (offset: number) => number,
+  report: Report
+) {
+  const listener = KEY_LISTENER_PATTERN.exec(script);
+  if (listener && ARROW_KEY_PATTERN.test(script) && MODIFIER_KEY_PATTERN.test(script)) {
+    report(
+      'reserved-shortcut',
+      'Cmd/Ctrl+Arrow is reserved for FliDeck slide navigation; do not handle it in the slide',
+      lineAt(base + listener.index)
+    );
+  }
+
+  for (const match of script.matchAll(COPY_HELPER_PATTERN)) {
+    const name = match[1] ?? match[2] ?? match[3];
+    report(
+      'copy-helper-override',
+      `${name} is provided by the harness; call window.${name} instead of defining it`,
+      lineAt(base + match.index)
+    );
+  }
+
+  for (const match of script.matchAll(LOCATION_CHANGE_PATTERN)) {
+    report(
+      'window-location',
+      'Changing window.location navigates FliDeck itself, not the slide',
+      lineAt(base + match.index)
+    );
+  }
+}
+
+function bodyBackgroundMessage(selector: string): string {
+  return `Background on ${selector} is applied to the harness container; set it on a wrapper element`;
+}
+
+/**
+ * Families requested by a Google Fonts URL ('family=Bebas+Neue&family=Roboto:wght@400').
+ */
+function googleFontFamilies(href: string): string[] {
+  if (!/fonts\.googleapis\.com/i.test(href)) return [];
+  const params = new URLSearchParams(href.split('?')[1] ?? '');
+  return params
+    .getAll('family')
+    .flatMap((family) => family.split('|'))
+    .map((family) => family.split(':')[0].trim());
+}
+
+/** 1-based line an element starts on */
+function elementLine(el: Element): number {
+  return el.sourceCodeLocation?.startLine ?? 1;
+}
+
+/** Offset of the first character after an element's start tag */
+function contentOffset(el: Element): number {
+  const location = el.sourceCodeLocation;
+  return location?.startTag?.endOffset ?? location?.startOffset ?? 0;
+}
+
+/**
+ * Build a function mapping a character offset in `text` to its 1-based line.
+ */
+function createLineLookup(text: string): (offset: number) => number {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') lineStarts.push(i + 1);
+  }
+  return (offset) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  };
+}
@@ -0,0 +1,123 @@
+import fs from 'fs-extra';
+import path from 'path';
+
+/** Folders never scanned for slides (hidden folders such as .flideck are skipped too) */
+const IGNORED_DIRS = new Set(['node_modules']);
+/** Guards against pathological trees and symlink loops */
+const MAX_SCAN_DEPTH = 8;
+/** Joins folder segments in nested asset IDs: 'part-1/intro.html' -> 'part-1--intro' */
+const ASSET_ID_SEPARATOR = '--';
+
+/**
+ * Whether a folder inside a presentation is skipped when scanning for files.
+ */
+export function isIgnoredDir(name: string): boolean {
+  return name.startsWith('.') || IGNORED_DIRS.has(name);
+}
+
+/**
+ * Recursively list HTML files in a presentation folder.
+ * Returns POSIX-style paths relative to the folder (e.g., 'intro.html',
+ * 'part-1/overview.html'), top-level files first, each level sorted by name.
+ */
+export async function listHtmlFiles(folderPath: string): Promise<string[]> {
+  const files: string[] = [];
+
+  async function walk(dir: string, prefix: string, depth: number): Promise<void> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (entry.isFile() && entry.name.endsWith('.html')) {
+        files.push(prefix + entry.name);
+      }
+    }
+
+    if (depth >= MAX_SCAN_DEPTH) return;
+
+    for (const entry of entries) {
+      if (!entry.isDirectory() || isIgnoredDir(entry.name)) continue;
+      await walk(path.join(dir, entry.name), `${prefix}${entry.name}/`, depth + 1);
+    }
+  }
+
+  await walk(folderPath, '', 0);
+  return files;
+}
+
+/**
+ * Whether listHtmlFiles would include a file at this POSIX path relative to the
+ * presentation folder: an .html file within the scan depth, outside ignored folders.
+ */
+export function isScannedHtmlPath(relativePath: string): boolean {
+  const folders = relativePath.split('/').slice(0, -1);
+  return (
+    relativePath.endsWith('.html') &&
+    folders.length <= MAX_SCAN_DEPTH &&
+    !folders.some((folder) => isIgnoredDir(folder))
+  );
+}
+
+/**
+ * Derive an asset ID from a file's path relative to its presentation.
+ * Top-level files keep their bare name ('intro'); nested files are prefixed with
+ * their folders so IDs stay unique across folders and safe in a URL segment
+ * ('part-1/intro.html' -> 'part-1--intro').
+ */
+export function assetIdFromPath(relativePath: string): string {
+  const withoutExt = relativePath.replace(/\.[^./\\]+$/, '');
+  return withoutExt.split(/[\\/]/).join(ASSET_ID_SEPARATOR);
+}
+
+/**
+ * Assign unique asset IDs to a presentation's files, by relative path.
+ * Joining folders with '--' can map two paths to one ID ('part-1/intro.html'
+ * and a top-level 'part-1--intro.html'): the shallowest path (then the first
+ * by name) keeps it, and the others get the first free '-2', '-3', ... suffix.
+ */
+export function assignAssetIds(relativePaths: Iterable<string>): Map<string, string> {
+  const depth = (relativePath: string) => relativePath.split('/').length;
+  const paths = Array.from(relativePaths).sort((a, b) => depth(a) - depth(b) || a.localeCompare(b));
+
+  const ids = new Map<string, string>();
+  const taken = new Set<string>();
+  const collisions: string[] = [];
+  for (const relativePath of paths) {
+    const id = assetIdFromPath(relativePath);
+    if (taken.has(id)) {
+      collisions.push(relativePath);
+    } else {
+      taken.add(id);
+      ids.set(relativePath, id);
+    }
+  }
+
+  for (const relativePath of collisions) {
+    const id = assetIdFromPath(relativePath);
+    let suffix = 2;
+    while (taken.has(`${id}-${suffix}`)) suffix++;
+    taken.add(`${id}-${suffix}`);
+    ids.set(relativePath, `${id}-${suffix}`);
+  }
+  return ids;
+}
+
+/**
+ * Get the folder part of a slide's relative path ('part-1/intro.html' -> 'part-1').
+ * Returns undefined for top-level files.
+ */
+export function slideFolder(relativePath: string): string | undefined {
+  const dir = path.posix.dirname(relativePath.replace(/\\/g, '/'));
+  return dir === '.' ? undefined : dir;
+}
+
+/**
+ * Check that a manifest slide path is a relative POSIX path to an .html file
+ * that stays inside the presentation folder (no absolute paths or '..' segments).
+ */
+export function isSafeSlidePath(file: string): boolean {
+  if (!file.endsWith('.html') || file.includes('\\') || file.startsWith('/')) {
+    return false;
+  }
+  return file.split('/').every((segment) => segment !== '' && segment !== '.' && segment !== '..');
+}
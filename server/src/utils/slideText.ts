@@ -0,0 +1,47 @@
+import * as cheerio from 'cheerio';
+
+/**
+ * Searchable text extracted from a slide's HTML.
+ */
+export interface SlideText {
+  /** Contents of <title> */
+  title: string;
+  /** Text of each h1-h6, in document order */
+  headings: string[];
+  /** All visible body text */
+  body: string;
+}
+
+/** Elements whose text is never shown to the viewer */
+const NON_TEXT_ELEMENTS = 'script, style, noscript, template, svg';
+
+/**
+ * Collapse runs of whitespace to single spaces and trim.
+ */
+export function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Extract the searchable text of a slide (title, headings and body text).
+ * Scripts, styles and other non-visible content are ignored.
+ */
+export function extractSlideText(html: string): SlideText {
+  const $ = cheerio.load(html);
+  $(NON_TEXT_ELEMENTS).remove();
+
+  // Block-level elements run together in .text(); pad them so words stay separate
+  $('p, div, li, td, th, br, h1, h2, h3, h4, h5, h6, section, article').after(' ');
+
+  const headings = $('h1, h2, h3, h4, h5, h6')
+    .toArray()
+    .map((el) => collapseWhitespace($(el).text()))
+    .filter(Boolean);
+
+  return {
+    title: collapseWhitespace($('title').first().text()),
+    headings,
+    // cheerio.load() always wraps fragments in <html><body>
+    body: collapseWhitespace($('body').text()),
+  };
+}
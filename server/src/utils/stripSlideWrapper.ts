@@ -0,0 +1,37 @@
+import * as cheerio from 'cheerio';
+import { stripSlideDocument, type SlideDocument, type StrippedSlide } from '@flideck/shared';
+
+/**
+ * Server-side reader for slide documents, used when a presentation is rendered
+ * outside the browser (e.g., offline export). The embedding rules themselves
+ * live in @flideck/shared (slideWrapper.ts), shared with the client harness.
+ */
+export { isLocalUrl, scopeSlideStyles, type StrippedSlide } from '@flideck/shared';
+
+/**
+ * Read the raw pieces of a slide document with cheerio.
+ */
+export function readSlideDocument($: cheerio.CheerioAPI): SlideDocument {
+  return {
+    styles: $('style')
+      .toArray()
+      .map((el) => $(el).text()),
+    scripts: $('script')
+      .toArray()
+      .map((el) => ({ text: $(el).text(), src: $(el).attr('src'), type: $(el).attr('type') })),
+    stylesheetHrefs: $('link[rel~="stylesheet"][href]')
+      .toArray()
+      .map((el) => $(el).attr('href') as string),
+    // cheerio.load() always wraps fragments in <html><body>
+    body: $('body').html() ?? '',
+    bodyStyle: $('body').attr('style') ?? '',
+    htmlStyle: $('html').attr('style') ?? '',
+  };
+}
+
+/**
+ * Split a full slide document into the pieces the harness embeds.
+ */
+export function stripSlideWrapper(html: string): StrippedSlide {
+  return stripSlideDocument(readSlideDocument(cheerio.load(html)));
+}
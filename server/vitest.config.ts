@@ -1,6 +1,17 @@
 import { defineConfig } from 'vitest/config';
+import path from 'path';
 
 export default defineConfig({
+  resolve: {
+    alias: {
+      // Test fixtures shared by the client and server tests (not part of the package)
+      '@flideck/shared/testing': path.resolve(
+        __dirname,
+        '../shared/src/__tests__/slideWrapperFixtures.ts'
+      ),
+      '@flideck/shared': path.resolve(__dirname, '../shared/src/index.ts'),
+    },
+  },
   test: {
     globals: true,
     testTimeout: 10000,
@@ -0,0 +1,103 @@
+// Slide documents and the StrippedSlide every slideWrapper reader must produce.
+// Run through the browser reader (client/src/harness) and the cheerio reader
+// (server/src/utils), so the harness and exports stay in step.
+// Tests import them as '@flideck/shared/testing' (a vitest and tsconfig alias).
+
+import type { StrippedSlide } from '../slideWrapper.js';
+
+export interface SlideWrapperFixture {
+  name: string;
+  html: string;
+  expected: StrippedSlide;
+}
+
+function slide({ head = '', body = '', htmlAttrs = '', bodyAttrs = '' } = {}): string {
+  return `<!DOCTYPE html><html${htmlAttrs}><head><meta charset="UTF-8"><title>Test</title>${head}</head><body${bodyAttrs}>${body}</body></html>`;
+}
+
+const PLAIN: StrippedSlide = {
+  styles: '',
+  body: '<p>hi</p>',
+  scripts: [],
+  viewportLock: false,
+  stylesheets: [],
+};
+
+export const SLIDE_WRAPPER_FIXTURES: SlideWrapperFixture[] = [
+  {
+    name: 'keeps the body markup and drops the wrapper and head metadata',
+    html: slide({ body: '<div class="slide-content">My <b>slide</b></div>' }),
+    expected: { ...PLAIN, body: '<div class="slide-content">My <b>slide</b></div>' },
+  },
+  {
+    name: 'collects non-empty <style> blocks from <head> and <body>',
+    html: slide({
+      head: '<style>.title { color: red; }</style><style>  </style>',
+      body: '<p>hi</p><style>.body { font-size: 2rem; }</style>',
+    }),
+    expected: {
+      ...PLAIN,
+      styles: '.title { color: red; }\n.body { font-size: 2rem; }',
+      body: '<p>hi</p><style>.body { font-size: 2rem; }</style>',
+    },
+  },
+  {
+    name: 'keeps inline scripts and skips external, module and empty ones',
+    html: slide({
+      head:
+        '<script>window.a = 1;</script>' +
+        '<script src="lib.js"></script>' +
+        '<script type="module">import "x";</script>' +
+        '<script> </script>' +
+        '<script type="text/javascript">window.b = 2;</script>',
+      body: '<p>hi</p>',
+    }),
+    expected: { ...PLAIN, scripts: ['window.a = 1;', 'window.b = 2;'] },
+  },
+  {
+    name: 'lists local stylesheets and skips Google Fonts and external ones',
+    html: slide({
+      head:
+        '<link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Inter">' +
+        '<link rel="stylesheet" href="https://cdn.example.com/theme.css">' +
+        '<link rel="stylesheet" href="//cdn.example.com/reset.css">' +
+        '<link rel="preload" href="local-font.woff2">' +
+        '<link rel="stylesheet" href="styles/deck.css">',
+      body: '<p>hi</p>',
+    }),
+    expected: { ...PLAIN, stylesheets: ['styles/deck.css'] },
+  },
+  {
+    name: 'detects scroll-snap-type in a <style> block as viewport-lock',
+    html: slide({
+      head: '<style>html { scroll-snap-type: y mandatory; }</style>',
+      body: '<p>hi</p>',
+    }),
+    expected: { ...PLAIN, styles: 'html { scroll-snap-type: y mandatory; }', viewportLock: true },
+  },
+  {
+    name: 'detects 100vh sections as viewport-lock',
+    html: slide({ head: '<style>section { height: 100vh; }</style>', body: '<p>hi</p>' }),
+    expected: { ...PLAIN, styles: 'section { height: 100vh; }', viewportLock: true },
+  },
+  {
+    name: 'detects overflow: hidden on the body style attribute as viewport-lock',
+    html: slide({ bodyAttrs: ' style="overflow: hidden"', body: '<p>hi</p>' }),
+    expected: { ...PLAIN, viewportLock: true },
+  },
+  {
+    name: 'detects scroll-snap-type on the html style attribute as viewport-lock',
+    html: slide({ htmlAttrs: ' style="scroll-snap-type: y"', body: '<p>hi</p>' }),
+    expected: { ...PLAIN, viewportLock: true },
+  },
+  {
+    name: 'does not treat overflow: hidden on another element attribute as viewport-lock',
+    html: slide({ body: '<p style="overflow: hidden">hi</p>' }),
+    expected: { ...PLAIN, body: '<p style="overflow: hidden">hi</p>' },
+  },
+  {
+    name: 'handles a bare fragment without a wrapper',
+    html: '<style>p { margin: 0; }</style><p>hi</p>',
+    expected: { ...PLAIN, styles: 'p { margin: 0; }', body: '<p>hi</p>' },
+  },
+];
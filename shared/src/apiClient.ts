@@ -0,0 +1,589 @@
+// FliDeck API Client
+// Typed access to the REST API for the React app, agents and scripts
+
+import type {
+  AddSlideRequest,
+  ApiResponse,
+  ApplyTemplateRequest,
+  Asset,
+  AssetContent,
+  BulkAddGroupsRequest,
+  BulkAddSlidesRequest,
+  BulkOperationResult,
+  ClonePresentationRequest,
+  ConfigResponse,
+  CreateGroupRequest,
+  CreatePresentationRequest,
+  CreatePresentationResponse,
+  CreateTabRequest,
+  DeletePresentationResponse,
+  DeleteTabStrategy,
+  ExportFormat,
+  FieldError,
+  FlideckManifest,
+  JsonPatchOperation,
+  ManifestHistoryEntry,
+  ManifestPatchResult,
+  ManifestTemplate,
+  MigratePresentationRequest,
+  MigrationResult,
+  Presentation,
+  PresentationLintResponse,
+  PresentationLocation,
+  QueryPresentationResponse,
+  QueryRouteResponse,
+  QueryRoutesResponse,
+  RenamePresentationRequest,
+  ReorderGroupsRequest,
+  ReorderTabsRequest,
+  SearchResponse,
+  SetGroupParentRequest,
+  SlideLintResult,
+  SyncFromIndexRequest,
+  SyncFromIndexResponse,
+  SyncManifestRequest,
+  UpdateAssetOrderRequest,
+  UpdateConfigRequest,
+  UpdateConfigResponse,
+  UpdateGroupRequest,
+  UpdateSlideRequest,
+  UpdateTabRequest,
+  ValidateManifestRequest,
+  ValidateManifestResponse,
+  WriteSlideContentRequest,
+} from './types.js';
+
+/** Where the FliDeck server listens by default */
+export const DEFAULT_API_URL = 'http://localhost:5201';
+
+const JSON_PATCH_MEDIA_TYPE = 'application/json-patch+json';
+
+/**
+ * Error response from the API. `errors` lists the failing fields when a
+ * request body was rejected by validation (400).
+ */
+export class FliDeckApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly errors: FieldError[] = []
+  ) {
+    super(message);
+    this.name = 'FliDeckApiError';
+  }
+}
+
+/**
+ * Thrown when a mutation is rejected with 412 because the presentation's
+ * manifest changed since this client last read it.
+ */
+export class ConflictError extends FliDeckApiError {
+  constructor(
+    message: string,
+    public readonly presentationId: string
+  ) {
+    super(message, 412);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Presentation ID addressed by an API endpoint ('/api/presentations/:id/...'), if any.
+ */
+export function presentationIdFromEndpoint(endpoint: string): string | null {
+  const match = /^\/api\/presentations\/([^/?#]+)/.exec(endpoint);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+/** Options for mutating requests */
+export interface MutationOptions {
+  /** Skip the If-Match check and overwrite whatever is on the server */
+  force?: boolean;
+}
+
+/** Options for a raw request() */
+export interface RequestOptions extends MutationOptions {
+  /** Media type of the body (default application/json) */
+  contentType?: string;
+}
+
+export interface FliDeckClientOptions {
+  /** Server URL (default http://localhost:5201) */
+  baseUrl?: string;
+  /** fetch implementation (default: the global fetch) */
+  fetch?: typeof fetch;
+}
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+type QueryParams = Record<string, string | number | boolean | undefined>;
+
+function withQuery(path: string, params: QueryParams): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) search.set(key, String(value));
+  }
+  const query = search.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+/** '/api/presentations/<id>/<segments...>' with every part URL-encoded */
+function presentationPath(id: string, ...segments: string[]): string {
+  return ['/api/presentations', ...[id, ...segments].map(encodeURIComponent)].join('/');
+}
+
+/**
+ * Typed client for the FliDeck API. Every method unwraps the
+ * { success, data } envelope and returns data; failures throw a
+ * FliDeckApiError (a ConflictError for 412).
+ *
+ * Manifest ETags from presentation responses are remembered per presentation
+ * and sent back as If-Match on mutations, so a write based on a stale view is
+ * rejected with a ConflictError instead of silently overwriting someone else's.
+ * Pass { force: true } to overwrite anyway.
+ *
+ *   const flideck = new FliDeckClient();
+ *   const deck = await flideck.getPresentation('my-deck');
+ *   await flideck.addSlide(deck.id, { file: 'intro.html', content: '<h1>Intro</h1>' });
+ */
+export class FliDeckClient {
+  private readonly baseUrl: string;
+  private readonly fetchFn: typeof fetch;
+  private etags = new Map<string, string>();
+
+  constructor({ baseUrl = DEFAULT_API_URL, fetch: fetchFn }: FliDeckClientOptions = {}) {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    // Looked up per call so the global can be replaced (e.g. stubbed in tests)
+    this.fetchFn = fetchFn ?? ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * Make a request to any endpoint and return the unwrapped data.
+   */
+  async request<T>(
+    method: HttpMethod,
+    endpoint: string,
+    body?: unknown,
+    { force = false, contentType = 'application/json' }: RequestOptions = {}
+  ): Promise<T> {
+    const presentationId = presentationIdFromEndpoint(endpoint);
+    const etag = presentationId ? this.etags.get(presentationId) : undefined;
+
+    const headers: Record<string, string> = { 'Content-Type': contentType };
+    if (method !== 'GET' && etag) {
+      headers['If-Match'] = force ? '*' : etag;
+    }
+
+    const response = await this.fetchFn(`${this.baseUrl}${endpoint}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    // Manifest ETags are strong; Express's own weak body ETags are ignored
+    const newEtag = response.headers.get('ETag');
+    if (presentationId && newEtag && !newEtag.startsWith('W/')) {
+      this.etags.set(presentationId, newEtag);
+    }
+
+    const data = (await response.json().catch(() => null)) as ApiResponse<T> | null;
+
+    if (response.status === 412 && presentationId) {
+      throw new ConflictError(data?.error || 'Presentation changed on the server', presentationId);
+    }
+    if (!response.ok || !data?.success) {
+      throw new FliDeckApiError(
+        data?.error || `Request failed: ${response.status}`,
+        response.status,
+        data?.errors
+      );
+    }
+
+    return data.data as T;
+  }
+
+  /**
+   * Re-read a presentation's manifest ETag (e.g. before retrying after a conflict).
+   */
+  async refreshETag(presentationId: string): Promise<void> {
+    await this.getManifest(presentationId);
+  }
+
+  // ============================================================
+  // Presentations
+  // ============================================================
+
+  /** All presentations (every root, or only `root`) */
+  listPresentations(root?: string): Promise<Presentation[]> {
+    return this.request('GET', withQuery('/api/presentations', { root }));
+  }
+
+  getPresentation(id: string): Promise<Presentation> {
+    return this.request('GET', presentationPath(id));
+  }
+
+  /** Rediscover presentations on disk */
+  refreshPresentations(): Promise<Presentation[]> {
+    return this.request('POST', '/api/presentations/refresh');
+  }
+
+  /** Create a presentation folder and manifest (in the primary root, or `root`) */
+  createPresentation(
+    body: CreatePresentationRequest,
+    root?: string
+  ): Promise<CreatePresentationResponse> {
+    return this.request('POST', withQuery('/api/presentations', { root }), body);
+  }
+
+  renamePresentation(
+    id: string,
+    body: RenamePresentationRequest,
+    options?: MutationOptions
+  ): Promise<PresentationLocation> {
+    return this.request('POST', presentationPath(id, 'rename'), body, options);
+  }
+
+  clonePresentation(
+    id: string,
+    body: ClonePresentationRequest,
+    options?: MutationOptions
+  ): Promise<PresentationLocation> {
+    return this.request('POST', presentationPath(id, 'clone'), body, options);
+  }
+
+  /** Delete a presentation folder (soft: move it to the root's .flideck-trash) */
+  deletePresentation(
+    id: string,
+    { soft, ...options }: MutationOptions & { soft?: boolean } = {}
+  ): Promise<DeletePresentationResponse> {
+    return this.request('DELETE', withQuery(presentationPath(id), { soft }), undefined, options);
+  }
+
+  async updateAssetOrder(
+    id: string,
+    body: UpdateAssetOrderRequest,
+    options?: MutationOptions
+  ): Promise<void> {
+    await this.request('PUT', presentationPath(id, 'order'), body, options);
+  }
+
+  /** Open the presentation folder in the file manager (on the server's machine) */
+  async openPresentation(id: string): Promise<void> {
+    await this.request('POST', presentationPath(id, 'open'), {});
+  }
+
+  /** Check every slide against the harness authoring standard */
+  lintPresentation(id: string): Promise<PresentationLintResponse> {
+    return this.request('GET', presentationPath(id, 'lint'));
+  }
+
+  lintSlide(id: string, slideId: string): Promise<SlideLintResult> {
+    return this.request('GET', presentationPath(id, 'slides', slideId, 'lint'));
+  }
+
+  /** Convert slides to harness fragments (to a '<id>-v2' sibling by default) */
+  migratePresentation(
+    id: string,
+    body: MigratePresentationRequest = {},
+    options?: MutationOptions
+  ): Promise<MigrationResult> {
+    return this.request('POST', presentationPath(id, 'migrate'), body, options);
+  }
+
+  /** Download URL of a standalone offline copy */
+  exportUrl(id: string, format: ExportFormat = 'html'): string {
+    return `${this.baseUrl}${withQuery(presentationPath(id, 'export'), { format })}`;
+  }
+
+  // ============================================================
+  // Slides
+  // ============================================================
+
+  /** Add a slide to the manifest (null when its file does not exist yet) */
+  addSlide(id: string, body: AddSlideRequest, options?: MutationOptions): Promise<Asset | null> {
+    return this.request('POST', presentationPath(id, 'slides'), body, options);
+  }
+
+  async updateSlide(
+    id: string,
+    slideId: string,
+    body: UpdateSlideRequest,
+    options?: MutationOptions
+  ): Promise<void> {
+    await this.request('PUT', presentationPath(id, 'slides', slideId), body, options);
+  }
+
+  /** Write a slide's HTML, registering it in the manifest if it is new */
+  writeSlideContent(
+    id: string,
+    slideId: string,
+    body: WriteSlideContentRequest,
+    options?: MutationOptions
+  ): Promise<Asset> {
+    return this.request('PUT', presentationPath(id, 'slides', slideId, 'content'), body, options);
+  }
+
+  /** Remove a slide from the manifest (the file is kept) */
+  async removeSlide(id: string, slideId: string, options?: MutationOptions): Promise<void> {
+    await this.request('DELETE', presentationPath(id, 'slides', slideId), undefined, options);
+  }
+
+  // ============================================================
+  // Groups
+  // ============================================================
+
+  async reorderGroups(
+    id: string,
+    body: ReorderGroupsRequest,
+    options?: MutationOptions
+  ): Promise<void> {
+    await this.request('PUT', presentationPath(id, 'groups', 'order'), body, options);
+  }
+
+  async createGroup(
+    id: string,
+    body: CreateGroupRequest,
+    options?: MutationOptions
+  ): Promise<void> {
+    await this.request('POST', presentationPath(id, 'groups'), body, options);
+  }
+
+  async updateGroup(
+    id: string,
+    groupId: string,
+    body: UpdateGroupRequest,
+    options?: MutationOptions
+  ): Promise<void> {
+    await this.request('PUT', presentationPath(id, 'groups', groupId), body, options);
+  }
+
+  /** Delete a group; its slides move to root level */
+  async deleteGroup(id: string, groupId: string, options?: MutationOptions): Promise<void> {
+    await this.request('DELETE', presentationPath(id, 'groups', groupId), undefined, options);
+  }
+
+  /** Move a group under a tab */
+  async setGroupParent(
+    id: string,
+    groupId: string,
+    body: SetGroupParentRequest,
+    options?: MutationOptions
+  ): Promise<void> {
+    await this.request('PUT', presentationPath(id, 'groups', groupId, 'parent'), body, options);
+  }
+
+  async removeGroupParent(id: string, groupId: string, options?: MutationOptions): Promise<void> {
+    const endpoint = presentationPath(id, 'groups', groupId, 'parent');
+    await this.request('DELETE', endpoint, undefined, options);
+  }
+
+  // ============================================================
+  // Tabs
+  // ============================================================
+
+  async createTab(id: string, body: CreateTabRequest, options?: MutationOptions): Promise<void> {
+    await this.request('POST', presentationPath(id, 'tabs'), body, options);
+  }
+
+  async reorderTabs(
+    id: string,
+    body: ReorderTabsRequest,
+    options?: MutationOptions
+  ): Promise<void> {
+    await this.request('PUT', presentationPath(id, 'tabs', 'order'), body, options);
+  }
+
+  async updateTab(
+    id: string,
+    tabId: string,
+    body: UpdateTabRequest,
+    options?: MutationOptions
+  ): Promise<void> {
+    await this.request('PUT', presentationPath(id, 'tabs', tabId), body, options);
+  }
+
+  /** Delete a tab; strategy decides what happens to its groups (default orphan) */
+  async deleteTab(
+    id: string,
+    tabId: string,
+    {
+      strategy,
+      ...options
+    }: MutationOptions & { strategy?: DeleteTabStrategy | `reparent:${string}` } = {}
+  ): Promise<void> {
+    const endpoint = withQuery(presentationPath(id, 'tabs', tabId), { strategy });
+    await this.request('DELETE', endpoint, undefined, options);
+  }
+
+  // ============================================================
+  // Manifest
+  // ============================================================
+
+  getManifest(id: string): Promise<FlideckManifest> {
+    return this.request('GET', presentationPath(id, 'manifest'));
+  }
+
+  async replaceManifest(
+    id: string,
+    manifest: FlideckManifest,
+    options?: MutationOptions
+  ): Promise<void> {
+    await this.request('PUT', presentationPath(id, 'manifest'), manifest, options);
+  }
+
+  /** Deep-merge a partial manifest into the current one */
+  async mergeManifest(
+    id: string,
+    updates: Partial<FlideckManifest>,
+    options?: MutationOptions
+  ): Promise<void> {
+    await this.request('PATCH', presentationPath(id, 'manifest'), updates, options);
+  }
+
+  /** Apply an RFC 6902 JSON Patch (dryRun: return the result without writing) */
+  patchManifest(
+    id: string,
+    operations: JsonPatchOperation[],
+    { dryRun, ...options }: MutationOptions & { dryRun?: boolean } = {}
+  ): Promise<ManifestPatchResult> {
+    const endpoint = withQuery(presentationPath(id, 'manifest'), { dryRun });
+    return this.request('PATCH', endpoint, operations, {
+      ...options,
+      contentType: JSON_PATCH_MEDIA_TYPE,
+    });
+  }
+
+  /** Saved manifest snapshots, newest first */
+  getManifestHistory(id: string): Promise<ManifestHistoryEntry[]> {
+    return this.request('GET', presentationPath(id, 'manifest', 'history'));
+  }
+
+  getManifestVersion(id: string, version: string): Promise<FlideckManifest> {
+    return this.request('GET', presentationPath(id, 'manifest', 'history', version));
+  }
+
+  /** Roll the manifest back to a snapshot */
+  restoreManifest(
+    id: string,
+    version: string,
+    options?: MutationOptions
+  ): Promise<FlideckManifest> {
+    const endpoint = presentationPath(id, 'manifest', 'history', version, 'restore');
+    return this.request('POST', endpoint, undefined, options);
+  }
+
+  bulkAddSlides(
+    id: string,
+    body: BulkAddSlidesRequest,
+    options?: MutationOptions
+  ): Promise<BulkOperationResult> {
+    return this.request('POST', presentationPath(id, 'manifest', 'slides', 'bulk'), body, options);
+  }
+
+  bulkAddGroups(
+    id: string,
+    body: BulkAddGroupsRequest,
+    options?: MutationOptions
+  ): Promise<BulkOperationResult> {
+    return this.request('POST', presentationPath(id, 'manifest', 'groups', 'bulk'), body, options);
+  }
+
+  /** Sync the manifest with the HTML files on disk */
+  async syncManifest(
+    id: string,
+    body: SyncManifestRequest = {},
+    options?: MutationOptions
+  ): Promise<void> {
+    await this.request('PUT', presentationPath(id, 'manifest', 'sync'), body, options);
+  }
+
+  validateManifest(id: string, body: ValidateManifestRequest): Promise<ValidateManifestResponse> {
+    return this.request('POST', presentationPath(id, 'manifest', 'validate'), body);
+  }
+
+  async applyTemplate(
+    id: string,
+    body: ApplyTemplateRequest,
+    options?: MutationOptions
+  ): Promise<void> {
+    await this.request('POST', presentationPath(id, 'manifest', 'template'), body, options);
+  }
+
+  /** Populate the manifest from index HTML files (tabs and slide cards) */
+  syncFromIndex(
+    id: string,
+    body: SyncFromIndexRequest = {},
+    options?: MutationOptions
+  ): Promise<SyncFromIndexResponse> {
+    const endpoint = presentationPath(id, 'manifest', 'sync-from-index');
+    return this.request('PUT', endpoint, body, options);
+  }
+
+  // ============================================================
+  // Assets and Search
+  // ============================================================
+
+  /** An asset with its raw HTML */
+  getAsset(presentationId: string, assetId: string): Promise<AssetContent> {
+    const endpoint = `/api/assets/${encodeURIComponent(presentationId)}/${encodeURIComponent(assetId)}`;
+    return this.request('GET', endpoint);
+  }
+
+  /** Full-text search of slide titles, headings, text and notes */
+  search(q: string, params: { limit?: number; root?: string } = {}): Promise<SearchResponse> {
+    return this.request('GET', withQuery('/api/search', { q, ...params }));
+  }
+
+  // ============================================================
+  // Templates
+  // ============================================================
+
+  listTemplates(): Promise<ManifestTemplate[]> {
+    return this.request('GET', '/api/templates/manifest');
+  }
+
+  getTemplate(templateId: string): Promise<ManifestTemplate> {
+    return this.request('GET', `/api/templates/manifest/${encodeURIComponent(templateId)}`);
+  }
+
+  // ============================================================
+  // Query
+  // ============================================================
+
+  /** Served roots and previously used roots, with presentation counts */
+  queryRoutes(): Promise<QueryRoutesResponse> {
+    return this.request('GET', '/api/query/routes');
+  }
+
+  queryRoute(route: string): Promise<QueryRouteResponse> {
+    return this.request('GET', `/api/query/routes/${encodeURIComponent(route)}`);
+  }
+
+  /** A presentation with asset order and file sizes */
+  queryPresentation(id: string): Promise<QueryPresentationResponse> {
+    return this.request('GET', `/api/query/presentations/${encodeURIComponent(id)}`);
+  }
+
+  // ============================================================
+  // Config and Schemas
+  // ============================================================
+
+  getConfig(): Promise<ConfigResponse> {
+    return this.request('GET', '/api/config');
+  }
+
+  /** Change presentationsRoot and/or the additional roots */
+  updateConfig(body: UpdateConfigRequest): Promise<UpdateConfigResponse> {
+    return this.request('PUT', '/api/config', body);
+  }
+
+  /** JSON Schema of the manifest */
+  getManifestSchema(): Promise<Record<string, unknown>> {
+    return this.request('GET', '/api/schema/manifest');
+  }
+
+  /** JSON Schema a request body is validated against (e.g. 'AddSlideRequest') */
+  getRequestSchema(name: string): Promise<Record<string, unknown>> {
+    return this.request('GET', `/api/schema/requests/${encodeURIComponent(name)}`);
+  }
+}
@@ -1,4 +1,8 @@
 // FliDeck Shared Types
-// Re-export all types from this entry point
+// Re-export all types, the API client, the slide wrapper rules and the sidebar
+// order from this entry point
 
 export * from './types.js';
+export * from './apiClient.js';
+export * from './slideWrapper.js';
+export * from './sidebarOrder.js';
@@ -1,8 +1,9 @@
-import type { Presentation, Asset } from '@flideck/shared';
+import type { Presentation, Asset } from './types.js';
 
 /**
  * Computes the visual order of assets as displayed in the sidebar.
- * This order is used for keyboard navigation (Cmd+←/→).
+ * This order is used for keyboard navigation (Cmd+←/→), and by exports so
+ * their navigator walks slides in the same order as the viewer.
  *
  * Order:
  * 1. Index asset (if exists) - only in non-tab mode
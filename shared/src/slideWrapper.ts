@@ -0,0 +1,148 @@
+// FliDeck Slide Wrapper
+// Parser-independent rules for embedding a full slide document as a fragment.
+// The browser (DOMParser) and the server (cheerio) each read a SlideDocument
+// from the HTML and share everything else, so the harness and exports agree.
+
+/**
+ * The raw pieces of a slide document, as read by an HTML parser.
+ */
+export interface SlideDocument {
+  /** Text of every <style> element in <head> or <body>, in document order */
+  styles: string[];
+  /** Every <script> element, in document order */
+  scripts: Array<{ text: string; src?: string | null; type?: string | null }>;
+  /** href of every <link rel="stylesheet"> */
+  stylesheetHrefs: string[];
+  /** Inner HTML of <body> */
+  body: string;
+  /** style attribute of <body> ('' when absent) */
+  bodyStyle: string;
+  /** style attribute of <html> ('' when absent) */
+  htmlStyle: string;
+}
+
+/**
+ * A slide document split into the pieces the harness embeds.
+ */
+export interface StrippedSlide {
+  /**
+   * Concatenated text of all non-empty <style> blocks, unscoped
+   * (see scopeSlideStyles).
+   */
+  styles: string;
+  /** Inner HTML of <body>: the slide's visible markup */
+  body: string;
+  /** Inline <script> contents to re-execute after the fragment is mounted */
+  scripts: string[];
+  /**
+   * True when the slide controls its own scrolling (see detectViewportLock).
+   * The caller should then apply .harness-slide--viewport-lock so that
+   * overflow:auto (not hidden) is used, letting the slide control its scroll.
+   */
+  viewportLock: boolean;
+  /**
+   * hrefs of <link rel="stylesheet"> tags that point at local files.
+   * The harness does not fetch these; an export can inline them.
+   */
+  stylesheets: string[];
+}
+
+/** Patterns that identify Google Fonts URLs - font loading is the harness's job */
+const GOOGLE_FONTS_PATTERN = /fonts\.googleapis\.com|fonts\.gstatic\.com/i;
+/** Absolute URLs (any scheme or protocol-relative) are never treated as local files */
+const EXTERNAL_URL_PATTERN = /^([a-z][a-z\d+.-]*:|\/\/)/i;
+const OVERFLOW_HIDDEN_PATTERN = /overflow\s*:\s*hidden/i;
+
+/**
+ * Viewport-lock detection patterns.
+ *
+ * A slide is classified as viewport-lock when it uses any of these techniques
+ * to control scroll within its own document — techniques that require the slide
+ * to be the scroll container (which it is in iframe mode but not in embedded mode).
+ *
+ * Patterns checked (in CSS text or inline style attributes):
+ *   1. scroll-snap-type — defines a scroll snap container (commonly on <html>)
+ *   2. overflow: hidden on <body> — suppresses document-level scrollbars; the
+ *      slide manages its own section/card transitions
+ *   3. height: 100vh or height: 95vh — sections sized to fill the viewport;
+ *      these rely on 100% of the viewport being available to the slide
+ *
+ * False-positive risk is low: these patterns are unlikely in non-viewport-lock
+ * slides. False-negatives are possible (e.g., viewport-lock expressed entirely
+ * in an external stylesheet not inlined), but the corpus has no such slides.
+ */
+const VIEWPORT_LOCK_CSS_PATTERNS = [
+  /scroll-snap-type/i,
+  OVERFLOW_HIDDEN_PATTERN,
+  /height\s*:\s*(100|95)vh/i,
+];
+
+/**
+ * Whether a URL refers to a file relative to the slide (not external, not a data: URI or fragment).
+ */
+export function isLocalUrl(url: string): boolean {
+  const trimmed = url.trim();
+  return trimmed !== '' && !trimmed.startsWith('#') && !EXTERNAL_URL_PATTERN.test(trimmed);
+}
+
+/**
+ * Whether a slide appears to be a viewport-lock slide. Checks:
+ *   1. All <style> block text (covers most CSS patterns)
+ *   2. The body's inline style attribute, for overflow:hidden
+ *   3. The html element's inline style attribute
+ */
+export function detectViewportLock(
+  doc: Pick<SlideDocument, 'styles' | 'bodyStyle' | 'htmlStyle'>
+): boolean {
+  const styleText = doc.styles.join('\n');
+  if (VIEWPORT_LOCK_CSS_PATTERNS.some((pattern) => pattern.test(styleText))) return true;
+  if (OVERFLOW_HIDDEN_PATTERN.test(doc.bodyStyle)) return true;
+  return VIEWPORT_LOCK_CSS_PATTERNS.some((pattern) => pattern.test(doc.htmlStyle));
+}
+
+/**
+ * Apply the embedding rules to a parsed slide document.
+ *
+ * What is deliberately skipped:
+ *   - Empty <style> and <script> blocks
+ *   - <script src="..."> external scripts — not re-fetched at PoC stage
+ *   - <script type="module"> — module scope semantics differ at PoC stage
+ *   - Google Fonts <link> tags — font loading is the harness responsibility
+ *   - External stylesheet <link rel="stylesheet"> tags — not re-fetched
+ *   - <meta>, <title>, and other head metadata — irrelevant for inline embed
+ */
+export function stripSlideDocument(doc: SlideDocument): StrippedSlide {
+  return {
+    styles: doc.styles.filter((text) => text.trim()).join('\n'),
+    body: doc.body,
+    scripts: doc.scripts
+      .filter((script) => !script.src && script.type !== 'module')
+      .map((script) => script.text)
+      .filter((text) => text.trim()),
+    viewportLock: detectViewportLock(doc),
+    stylesheets: doc.stylesheetHrefs.filter(
+      (href) => isLocalUrl(href) && !GOOGLE_FONTS_PATTERN.test(href)
+    ),
+  };
+}
+
+/**
+ * Scope slide CSS to its container so slide rules cannot bleed into FliDeck chrome.
+ *
+ * @scope (<scopeRoot>) { } limits all enclosed rules to descendants of the
+ * container. :root / html / body selectors are remapped to :scope so slide-level
+ * properties (backgrounds, fonts, CSS custom properties) are applied to the
+ * container itself rather than the document root.
+ *
+ * The default root suits the single HarnessViewer (and exports); pages rendering
+ * several slides at once (overview grid) pass a per-slide selector so their
+ * styles stay apart.
+ */
+export function scopeSlideStyles(styles: string, scopeRoot = '.harness-slide'): string {
+  const scoped = styles
+    .replace(/:root\b/g, ':scope')
+    .replace(/\b(html\s*,\s*body|body\s*,\s*html)\b/g, ':scope')
+    .replace(/\bhtml\b/g, ':scope')
+    .replace(/\bbody\b/g, ':scope');
+  return `@scope (${scopeRoot}) {\n${scoped}\n}`;
+}
@@ -5,8 +5,10 @@
  * The folder is the atomic unit - if it has index.html, it's displayable.
  */
 export interface Presentation {
-  /** Unique identifier (folder name) */
+  /** Unique identifier (folder name; '<root>:<folder>' for presentations in secondary roots) */
   id: string;
+  /** Name of the presentations root this presentation lives in */
+  root?: string;
   /** Display name derived from folder name or manifest meta.name */
   name: string;
   /** Absolute path to the presentation folder */
@@ -28,14 +30,19 @@ export interface Presentation {
  * Assets may contain embedded CSS, JavaScript, and external font references.
  */
 export interface Asset {
-  /** Unique identifier (filename without extension) */
+  /**
+   * Unique identifier (relative path without extension, folders joined by '--';
+   * a '-2', '-3', ... suffix when another file already has that ID)
+   */
   id: string;
   /** Display name derived from filename or manifest title */
   name: string;
-  /** Filename (e.g., 'slides.html') */
+  /** Path relative to the presentation folder (e.g., 'slides.html', 'part-1/intro.html') */
   filename: string;
   /** Relative path from presentation root */
   relativePath: string;
+  /** Subfolder containing the file (e.g., 'part-1'); undefined for top-level files */
+  folder?: string;
   /** Whether this is the index.html entry point */
   isIndex: boolean;
   /** Timestamp when asset was created (birthtime, falls back to mtime) */
@@ -54,6 +61,18 @@ export interface Asset {
   recommended?: boolean;
   /** Whether this slide uses viewport-lock layout (scroll-snap, 100vh, overflow:hidden on body) */
   viewportLock?: boolean;
+  /** Speaker notes from manifest (shown in the presenter view) */
+  notes?: string;
+  /** Harness migration classification (from manifest) */
+  harnessType?: HarnessSlideType;
+}
+
+/**
+ * An asset with its raw HTML (GET /api/assets/:presentationId/:assetId)
+ */
+export interface AssetContent {
+  content: string;
+  asset: Asset;
 }
 
 /**
@@ -75,6 +94,18 @@ export interface ApiResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
+  /** Field-level details when a request body fails validation (400) */
+  errors?: FieldError[];
+}
+
+/**
+ * A request body field that failed validation
+ */
+export interface FieldError {
+  /** Path to the field (e.g., 'slides[2].file'); empty for the body itself */
+  path: string;
+  /** Error message (e.g., 'is required') */
+  message: string;
 }
 
 /**
@@ -91,9 +122,122 @@ export interface SocketEvents {
   'presentation:left': { presentationId: string };
   'config:changed': { presentationsRoot: string };
 
-  // Granular file change events for real-time updates
+  // Granular file change events for real-time updates, sent to the presentation's
+  // room (structure changes outside any presentation go to everyone)
   'content:changed': { presentationId: string; assetId: string; filename: string };
   'structure:changed': { eventType: string; filePath: string; presentationId?: string };
+  // Sent to everyone once per watcher batch, for presentation lists
+  'presentations:summary': PresentationsSummaryEvent;
+  // Every file change to the presentation in one debounced watcher batch
+  'changes:batch': ChangesBatchEvent;
+
+  // A corrupt manifest or config was restored from its last-known-good backup
+  'file:recovered': FileRecoveryEvent;
+
+  // Presenter view sync - relayed to the other sockets in the presentation room
+  'presenter:navigate': PresenterNavigateEvent;
+  'presenter:sync': PresenterSyncRequest;
+
+  // Follow-me navigation - one leader per presentation room, everyone else follows
+  'follow:lead': FollowNavigateEvent;
+  'follow:release': { presentationId: string };
+  'follow:navigate': FollowNavigateEvent;
+  'follow:state': FollowState;
+
+  // Per-slide progress of POST /api/presentations/:id/migrate
+  'migration:progress': MigrationProgressEvent;
+
+  // File watcher health - sent on connect and whenever a watcher fails or recovers
+  'watcher:status': WatcherHealth;
+
+  // Change replay - change events carry their sequence number as a second argument.
+  // On connect the server sends its epoch (one per server run) and the current number;
+  // a reconnecting client asks for what it missed and gets the events again, or a
+  // resync when they are gone or the epoch has changed.
+  'events:seq': { epoch: string; seq: number };
+  'events:resume': { epoch: string; lastSeq: number };
+  'events:resync': { epoch: string; seq: number };
+}
+
+/**
+ * The slide a presenter or audience window is showing.
+ * Windows are paired by `session`, so other viewers of the same presentation are unaffected.
+ */
+export interface PresenterNavigateEvent {
+  presentationId: string;
+  /** Pairing key shared by a presenter window and its audience window */
+  session: string;
+  /** Selected asset (null shows the default view, e.g., the container tab index) */
+  assetId: string | null;
+  /** Active container tab (FR-24) */
+  tabId: string | null;
+}
+
+/**
+ * Asks the paired window(s) to announce their current slide (sent when a window opens).
+ */
+export interface PresenterSyncRequest {
+  presentationId: string;
+  session: string;
+}
+
+/**
+ * What a follow-me leader is showing (slide, container tab and presentation mode).
+ */
+export interface FollowView {
+  /** Selected asset (null shows the default view, e.g., the container tab index) */
+  assetId: string | null;
+  /** Active container tab (FR-24) */
+  tabId: string | null;
+  presentationMode: boolean;
+}
+
+/**
+ * Sent by the leader when it takes the lead ('follow:lead') and on every navigation.
+ */
+export interface FollowNavigateEvent extends FollowView {
+  presentationId: string;
+}
+
+/**
+ * Follow-me state of a presentation room, broadcast to the room whenever it changes
+ * and sent to each socket as it joins.
+ */
+export interface FollowState extends FollowView {
+  presentationId: string;
+  /** Socket ID of the leading client (null when nobody leads) */
+  leaderId: string | null;
+}
+
+/**
+ * Emitted when a corrupt manifest or config file is restored from its backup
+ */
+export interface FileRecoveryEvent {
+  /** Which kind of file was recovered */
+  kind: 'manifest' | 'config';
+  /** Presentation ID (manifest recoveries only) */
+  presentationId?: string;
+  /** Absolute path of the file that was corrupt */
+  file: string;
+  /** Absolute path of the backup it was restored from */
+  backup: string;
+  /** Why the original file was rejected (e.g., JSON parse error) */
+  reason: string;
+  /** When the recovery happened (ISO 8601) */
+  recoveredAt: string;
+}
+
+/**
+ * A presentations directory served by FliDeck.
+ * The primary root is config `presentationsRoot`; secondary roots come from config `roots`.
+ */
+export interface PresentationRoot {
+  /** Root name (namespaces secondary-root presentation IDs as '<name>:<folder>') */
+  name: string;
+  /** Directory path (tilde notation in API responses) */
+  path: string;
+  /** Whether this is the primary root (its presentation IDs are bare folder names) */
+  isPrimary: boolean;
 }
 
 /**
@@ -102,10 +246,27 @@ export interface SocketEvents {
 export interface ConfigResponse {
   /** Current presentations root path (with tilde notation) */
   presentationsRoot: string;
+  /** All served roots, primary first */
+  roots: PresentationRoot[];
   /** Previously used presentation roots */
   history: string[];
 }
 
+/**
+ * Request body for PUT /api/config (presentationsRoot, roots or both)
+ */
+export interface UpdateConfigRequest {
+  /** New primary presentations directory (~ is expanded) */
+  presentationsRoot?: string;
+  /** Replaces the additional roots */
+  roots?: Array<{ name?: string; path: string }>;
+}
+
+/**
+ * Response data of PUT /api/config
+ */
+export type UpdateConfigResponse = Omit<ConfigResponse, 'history'>;
+
 /**
  * File watcher event types
  */
@@ -120,6 +281,88 @@ export interface FileChangeEvent {
   presentationId?: string;
 }
 
+/**
+ * The file changes of one presentation within a watcher batch.
+ * presentationId is null for changes outside every known presentation.
+ */
+export interface PresentationChanges {
+  presentationId: string | null;
+  changes: Array<{ eventType: WatcherEventType; filePath: string }>;
+}
+
+/**
+ * A debounced burst of file changes to one presentation ('changes:batch'
+ * Socket.io payload, sent to the presentation's room).
+ * Each distinct path and event type appears once, in the order it last happened.
+ */
+export interface ChangesBatchEvent extends PresentationChanges {
+  presentationId: string;
+}
+
+/**
+ * A change event in the server's event log, as streamed by GET /api/events
+ * (the SSE event id is '<epoch>-<seq>', the SSE event name is event).
+ */
+export interface LoggedEvent {
+  /** Increases by one per event; restarts at 1 (with a new epoch) when the server restarts */
+  seq: number;
+  /** Socket.io event name, e.g. 'content:changed' */
+  event: string;
+  data: unknown;
+  /** The presentation the event concerns; absent for global events such as 'config:changed' */
+  presentationId?: string;
+}
+
+/**
+ * Which presentations a watcher batch touched ('presentations:summary' Socket.io payload).
+ * Lets list views refresh without receiving every deck's change events.
+ */
+export interface PresentationsSummaryEvent {
+  presentationIds: string[];
+  /** Files or folders were added or removed (slide counts or the list itself may differ) */
+  structureChanged: boolean;
+}
+
+/**
+ * File watcher lifecycle: 'starting' until the initial scan is done,
+ * 'restarting' while waiting to be recreated after an error
+ */
+export type WatcherState = 'starting' | 'watching' | 'restarting';
+
+/**
+ * How a watcher detects changes: native filesystem events, or stat polling
+ */
+export type WatcherMode = 'native' | 'polling';
+
+/**
+ * Liveness of one file watcher (GET /api/health `watchers`)
+ */
+export interface WatcherStatus {
+  name: string;
+  /** Watched path */
+  path: string;
+  state: WatcherState;
+  mode: WatcherMode;
+  /** True when the watcher switched to polling after repeated native failures */
+  fallback: boolean;
+  /** Last file event seen (ISO 8601), null if none since the server started */
+  lastEventAt: string | null;
+  /** Errors reported by the watcher since the server started */
+  errorCount: number;
+  lastError: string | null;
+  /** Times the watcher was recreated after an error */
+  restarts: number;
+}
+
+/**
+ * Health of all file watchers ('watcher:status' Socket.io payload)
+ */
+export interface WatcherHealth {
+  /** True when any watcher is restarting or fell back to polling - changes may be missed or late */
+  degraded: boolean;
+  watchers: WatcherStatus[];
+}
+
 /**
  * Display mode for rendering presentations
  */
@@ -143,6 +386,8 @@ export interface ManifestMeta {
   updated?: string;
   /** Rendering mode for the sidebar (FR-20) */
   displayMode?: DisplayMode;
+  /** Group slides in subfolders by their top-level folder unless they have an explicit group */
+  groupByFolder?: boolean;
 }
 
 /**
@@ -193,7 +438,7 @@ export interface TabDefinition {
  * Slide definition in the manifest
  */
 export interface ManifestSlide {
-  /** Filename (e.g., 'intro.html') */
+  /** Path relative to the presentation folder (e.g., 'intro.html', 'part-1/intro.html') */
   file: string;
   /** Display title */
   title?: string;
@@ -215,6 +460,8 @@ export interface ManifestSlide {
   viewportLock?: boolean;
   /** Additional notes */
   notes?: string | null;
+  /** Harness migration classification, recorded by POST /api/presentations/:id/migrate */
+  harnessType?: HarnessSlideType;
 }
 
 /**
@@ -282,11 +529,51 @@ export interface CreatePresentationRequest {
  * Response from creating a presentation
  */
 export interface CreatePresentationResponse {
-  success: boolean;
   /** Path to the created presentation folder */
   path: string;
 }
 
+/**
+ * Request body for renaming a presentation (POST /api/presentations/:id/rename)
+ */
+export interface RenamePresentationRequest {
+  /** New presentation ID (becomes the folder name, in the same root) */
+  newId: string;
+  /** Optional new display name (written to the manifest) */
+  name?: string;
+}
+
+/**
+ * Request body for duplicating a presentation (POST /api/presentations/:id/clone)
+ */
+export interface ClonePresentationRequest {
+  /** ID of the copy (becomes the folder name, in the same root) */
+  newId: string;
+  /** Optional display name for the copy (written to the manifest) */
+  name?: string;
+}
+
+/**
+ * Response for rename and clone
+ */
+export interface PresentationLocation {
+  /** Presentation ID (namespaced for secondary roots) */
+  id: string;
+  /** Absolute folder path */
+  path: string;
+}
+
+/**
+ * Response for DELETE /api/presentations/:id
+ */
+export interface DeletePresentationResponse {
+  id: string;
+  /** True when the folder was moved to the trash instead of removed */
+  soft: boolean;
+  /** Where a soft-deleted folder was moved */
+  trashPath?: string;
+}
+
 /**
  * Request body for adding a slide to a presentation
  */
@@ -301,6 +588,8 @@ export interface AddSlideRequest {
   description?: string;
   /** Whether slide is recommended */
   recommended?: boolean;
+  /** Slide HTML to write to `file` before registering it (overwrites an unregistered file) */
+  content?: string;
 }
 
 /**
@@ -309,14 +598,27 @@ export interface AddSlideRequest {
 export interface UpdateSlideRequest {
   /** Display title */
   title?: string;
-  /** Group ID */
-  group?: string;
+  /** Group ID (null or '' moves the slide to root level) */
+  group?: string | null;
   /** Description */
   description?: string;
   /** Whether slide is recommended */
   recommended?: boolean;
 }
 
+/**
+ * Request body for writing a slide's HTML (PUT /api/presentations/:id/slides/:slideId/content)
+ */
+export interface WriteSlideContentRequest {
+  /** Full HTML document for the slide */
+  content: string;
+  /**
+   * File to create when the slide is not in the manifest yet
+   * (defaults to '<slideId>.html'; must match the slide ID)
+   */
+  file?: string;
+}
+
 // ============================================================
 // FR-17: Group Management API Types
 // ============================================================
@@ -426,6 +728,8 @@ export interface BulkAddSlidesRequest {
     group?: string;
     description?: string;
     recommended?: boolean;
+    /** Slide HTML to write to the (final, possibly renamed) file */
+    content?: string;
   }>;
   /** Auto-create groups if they don't exist */
   createGroups?: boolean;
@@ -538,8 +842,6 @@ export interface ApplyTemplateRequest {
  * Result from a bulk operation
  */
 export interface BulkOperationResult {
-  /** Whether operation succeeded */
-  success: boolean;
   /** Number of items added */
   added?: number;
   /** Number of items skipped */
@@ -551,8 +853,16 @@ export interface BulkOperationResult {
     item: string;
     reason: string;
   }>;
-  /** Error message if failed */
-  error?: string;
+  /** Slide files whose HTML was written (bulk slide add with content) */
+  written?: string[];
+  /** True when the request was only validated (dryRun) */
+  dryRun?: boolean;
+  /** Dry run summary */
+  message?: string;
+  /** Number of slides a dry run validated */
+  slides?: number;
+  /** Number of groups a dry run validated */
+  groups?: number;
 }
 
 // ============================================================
@@ -627,3 +937,312 @@ export interface SyncFromIndexResponse {
   /** Warning messages for issues encountered */
   warnings: string[];
 }
+
+// ============================================================
+// Manifest History Types
+// ============================================================
+
+/**
+ * A saved snapshot of a presentation manifest (stored in .flideck/history/)
+ */
+export interface ManifestHistoryEntry {
+  /** Version identifier - a sortable UTC timestamp (e.g., '2026-03-19T10-15-30-000Z') */
+  version: string;
+  /** When the snapshot was taken (ISO 8601) */
+  createdAt: string;
+  /** Snapshot size in bytes */
+  size: number;
+}
+
+// ============================================================
+// JSON Patch Types
+// ============================================================
+
+/**
+ * One RFC 6902 JSON Patch operation. Paths are JSON Pointers into the manifest
+ * (e.g., '/slides/3/title', '/groups/intro', '/slides/-' to append).
+ */
+export type JsonPatchOperation =
+  | { op: 'add' | 'replace' | 'test'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'move' | 'copy'; from: string; path: string };
+
+/**
+ * Response of PATCH /api/presentations/:id/manifest with a JSON Patch body
+ */
+export interface ManifestPatchResult {
+  /** True when the patch was only previewed (?dryRun=true) */
+  dryRun: boolean;
+  /** The patched manifest - what was written, or what would be written */
+  manifest: FlideckManifest;
+}
+
+// ============================================================
+// Search Types
+// ============================================================
+
+/**
+ * Which part of a slide a search match came from
+ */
+export type SearchField = 'title' | 'heading' | 'description' | 'notes' | 'body';
+
+/**
+ * A character range to highlight within a search snippet
+ */
+export interface SearchHighlight {
+  /** Start offset (inclusive) */
+  start: number;
+  /** End offset (exclusive) */
+  end: number;
+}
+
+/**
+ * A slide matching a full-text search query
+ */
+export interface SearchResult {
+  presentationId: string;
+  presentationName: string;
+  assetId: string;
+  assetName: string;
+  /** Field the snippet was taken from */
+  field: SearchField;
+  /** Excerpt around the best match, whitespace-collapsed */
+  snippet: string;
+  /** Query term occurrences within the snippet */
+  highlights: SearchHighlight[];
+  /** Relevance score (higher is better) */
+  score: number;
+}
+
+/**
+ * Response from GET /api/search
+ */
+export interface SearchResponse {
+  query: string;
+  /** Best matches, highest score first (at most `limit`) */
+  results: SearchResult[];
+  /** Total number of matching slides before the limit was applied */
+  total: number;
+}
+
+// ============================================================
+// Export Types
+// ============================================================
+
+/**
+ * Offline export format for GET /api/presentations/:id/export
+ * - html: a single self-contained HTML file
+ * - zip: the HTML bundle plus the presentation's source files
+ */
+export type ExportFormat = 'html' | 'zip';
+
+// ============================================================
+// Slide Lint Types
+// ============================================================
+
+/**
+ * How serious a lint issue is
+ * - error: the slide breaks in the harness (or breaks FliDeck itself)
+ * - warning: the slide works but misbehaves or goes against the authoring standard
+ */
+export type LintSeverity = 'error' | 'warning';
+
+/**
+ * Harness authoring rules checked by the slide linter
+ * (see docs/harness-authoring-standard.md)
+ */
+export type LintRuleId =
+  | 'global-reset'
+  | 'body-background'
+  | 'position-fixed'
+  | 'external-script'
+  | 'module-script'
+  | 'reserved-shortcut'
+  | 'copy-helper-override'
+  | 'window-location'
+  | 'reserved-class'
+  | 'harness-font-link';
+
+/**
+ * A single rule violation in a slide
+ */
+export interface LintIssue {
+  rule: LintRuleId;
+  severity: LintSeverity;
+  message: string;
+  /** 1-based line in the slide's HTML file */
+  line: number;
+}
+
+/**
+ * Lint result for one slide
+ */
+export interface SlideLintResult {
+  assetId: string;
+  /** Path relative to the presentation folder */
+  filename: string;
+  /** Issues in line order */
+  issues: LintIssue[];
+  errors: number;
+  warnings: number;
+}
+
+/**
+ * Response from GET /api/presentations/:id/lint
+ */
+export interface PresentationLintResponse {
+  presentationId: string;
+  /** Every slide of the presentation, in asset order */
+  slides: SlideLintResult[];
+  /** Totals across all slides */
+  errors: number;
+  warnings: number;
+}
+
+// ============================================================
+// Harness Migration Types
+// ============================================================
+
+/**
+ * How a slide fits the harness (see docs/harness-authoring-standard.md):
+ * - 'a': pure HTML/CSS, migrated by stripping the document wrapper
+ * - 'b': known-safe scripts (copy helpers, class toggles), migrated with them rewritten
+ * - 'c': complex scripts (timers, storage, key handlers, external scripts), needs manual work
+ */
+export type HarnessSlideType = 'a' | 'b' | 'c';
+
+/**
+ * Where migrated slides are written
+ * - 'sibling': a copy of the presentation ('<id>-v2' by default), leaving the original untouched
+ * - 'in-place': the presentation's own slide files
+ */
+export type MigrationOutput = 'sibling' | 'in-place';
+
+/**
+ * Request body for POST /api/presentations/:id/migrate
+ */
+export interface MigratePresentationRequest {
+  /** Defaults to 'sibling' */
+  output?: MigrationOutput;
+  /** Folder name of the sibling copy (defaults to '<id>-v2'); ignored for in-place */
+  targetId?: string;
+  /** Classify and diff without writing anything */
+  dryRun?: boolean;
+}
+
+/**
+ * Outcome for one slide
+ * - 'migrated': rewritten as a harness fragment (Type A or B)
+ * - 'flagged': Type C, left as-is (sibling copies get a warning comment)
+ * - 'skipped': empty, or already migrated
+ */
+export type SlideMigrationStatus = 'migrated' | 'flagged' | 'skipped';
+
+export interface SlideMigrationResult {
+  /** Path relative to the presentation folder */
+  file: string;
+  status: SlideMigrationStatus;
+  /** Classification (absent for empty files) */
+  type?: HarnessSlideType;
+  /** Why the slide was flagged or skipped */
+  reason?: string;
+  /** Unified diff of the change (dry runs only; absent when the file is unchanged) */
+  diff?: string;
+}
+
+/**
+ * Response from POST /api/presentations/:id/migrate
+ */
+export interface MigrationResult {
+  presentationId: string;
+  /** Presentation the slides were (or would be) written to */
+  targetId: string;
+  output: MigrationOutput;
+  dryRun: boolean;
+  /** Every slide of the presentation, in asset order */
+  slides: SlideMigrationResult[];
+  migrated: number;
+  flagged: number;
+  skipped: number;
+}
+
+/**
+ * Socket.io 'migration:progress' payload, sent to the presentation's room after
+ * each slide is classified
+ */
+export interface MigrationProgressEvent {
+  presentationId: string;
+  targetId: string;
+  dryRun: boolean;
+  file: string;
+  status: SlideMigrationStatus;
+  type?: HarnessSlideType;
+  /** 1-based position of this slide */
+  index: number;
+  total: number;
+}
+
+// ============================================================
+// Query API Types
+// ============================================================
+
+/**
+ * A presentations root listed by GET /api/query/routes
+ */
+export interface QueryRoute {
+  name: string;
+  /** Directory path (tilde notation) */
+  path: string;
+  presentationCount: number;
+  /** Whether this is the primary root */
+  isCurrent: boolean;
+  /** False for roots that are only in the config history */
+  isServed: boolean;
+}
+
+/**
+ * Response from GET /api/query/routes
+ */
+export interface QueryRoutesResponse {
+  /** Served roots (primary first), then previously used roots */
+  routes: QueryRoute[];
+  /** Name of the primary root */
+  currentRoute: string;
+}
+
+/**
+ * Response from GET /api/query/routes/:route
+ */
+export interface QueryRouteResponse {
+  name: string;
+  path: string;
+  presentations: Array<{
+    id: string;
+    name: string;
+    assetCount: number;
+    /** ISO 8601 */
+    lastModified: string;
+  }>;
+}
+
+/**
+ * Response from GET /api/query/presentations/:id
+ */
+export interface QueryPresentationResponse {
+  id: string;
+  name: string;
+  /** Name of the root the presentation is in */
+  route: string;
+  assets: Array<{
+    id: string;
+    /** Filename */
+    name: string;
+    /** 1-based position */
+    order: number;
+    /** Size in bytes */
+    size: number;
+    /** ISO 8601 */
+    lastModified: string;
+  }>;
+  totalAssets: number;
+}